@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "job_application_status_history" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "fromStatus" "application_status",
+    "toStatus" "application_status" NOT NULL,
+    "reason" TEXT,
+    "changedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "applicationId" UUID NOT NULL,
+    "changedById" UUID,
+
+    CONSTRAINT "job_application_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_application_status_history_applicationId_changedAt_idx" ON "job_application_status_history"("applicationId", "changedAt");
+
+-- CreateIndex
+CREATE INDEX "job_application_status_history_changedById_idx" ON "job_application_status_history"("changedById");
+
+-- AddForeignKey
+ALTER TABLE "job_application_status_history" ADD CONSTRAINT "job_application_status_history_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "job_applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_application_status_history" ADD CONSTRAINT "job_application_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "assessment_questions" ADD COLUMN     "options" TEXT[] DEFAULT ARRAY[]::TEXT[];
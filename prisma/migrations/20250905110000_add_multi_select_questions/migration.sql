@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "question_type" ADD VALUE 'MULTI_SELECT';
+
+-- CreateEnum
+CREATE TYPE "partial_credit_mode" AS ENUM ('ALL_OR_NOTHING', 'PROPORTIONAL');
+
+-- AlterTable
+ALTER TABLE "assessment_questions" ADD COLUMN     "correctOptions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "partialCredit" "partial_credit_mode" NOT NULL DEFAULT 'ALL_OR_NOTHING';
+
+-- AlterTable
+ALTER TABLE "applicant_answers" ADD COLUMN     "credit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "selectedOptions" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Existing answers were graded all-or-nothing
+UPDATE "applicant_answers" SET "credit" = 1 WHERE "isCorrect" = true;
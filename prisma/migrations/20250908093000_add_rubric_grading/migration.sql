@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "answer_review_status" AS ENUM ('AUTO_GRADED', 'PENDING_REVIEW', 'GRADED');
+
+-- AlterTable
+ALTER TABLE "applicant_answers" ADD COLUMN     "gradedAt" TIMESTAMPTZ,
+ADD COLUMN     "gradedById" UUID,
+ADD COLUMN     "reviewStatus" "answer_review_status" NOT NULL DEFAULT 'AUTO_GRADED';
+
+-- AlterTable
+ALTER TABLE "candidate_rankings" ADD COLUMN     "pendingReviews" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "rubric_criteria" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "description" TEXT NOT NULL,
+    "points" DOUBLE PRECISION NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "questionId" UUID NOT NULL,
+
+    CONSTRAINT "rubric_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_scores" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "points" DOUBLE PRECISION NOT NULL,
+    "answerId" UUID NOT NULL,
+    "criterionId" UUID NOT NULL,
+
+    CONSTRAINT "rubric_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rubric_criteria_questionId_order_idx" ON "rubric_criteria"("questionId", "order");
+
+-- CreateIndex
+CREATE INDEX "rubric_scores_criterionId_idx" ON "rubric_scores"("criterionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rubric_scores_answerId_criterionId_key" ON "rubric_scores"("answerId", "criterionId");
+
+-- CreateIndex
+CREATE INDEX "applicant_answers_reviewStatus_idx" ON "applicant_answers"("reviewStatus");
+
+-- AddForeignKey
+ALTER TABLE "applicant_answers" ADD CONSTRAINT "applicant_answers_gradedById_fkey" FOREIGN KEY ("gradedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_criteria" ADD CONSTRAINT "rubric_criteria_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "assessment_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_answerId_fkey" FOREIGN KEY ("answerId") REFERENCES "applicant_answers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "rubric_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "text_match_mode" AS ENUM ('EXACT', 'NORMALIZED', 'ALTERNATIVES', 'REGEX', 'KEYWORDS', 'NUMERIC');
+
+-- AlterTable
+ALTER TABLE "assessment_questions" ADD COLUMN     "matchMode" "text_match_mode" NOT NULL DEFAULT 'EXACT',
+ADD COLUMN     "acceptedAnswers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "matchPattern" TEXT,
+ADD COLUMN     "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "keywordThreshold" DOUBLE PRECISION,
+ADD COLUMN     "numericTolerance" DOUBLE PRECISION;
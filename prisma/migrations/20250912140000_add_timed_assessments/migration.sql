@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "late_submission_policy" AS ENUM ('REJECT', 'PENALIZE');
+
+-- AlterTable
+ALTER TABLE "assessment_templates" ADD COLUMN     "timeLimitMinutes" INTEGER,
+ADD COLUMN     "lateSubmissionPolicy" "late_submission_policy" NOT NULL DEFAULT 'REJECT',
+ADD COLUMN     "latePenaltyPercent" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "applicant_assessments" ADD COLUMN     "startedAt" TIMESTAMPTZ,
+ADD COLUMN     "timeTakenSeconds" INTEGER,
+ADD COLUMN     "isLate" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "latePenaltyPercent" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "scoring_configs" ADD COLUMN     "rankTiesByTimeTaken" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "candidate_rankings" ADD COLUMN     "timeTakenSeconds" INTEGER;
+
+-- CreateTable
+CREATE TABLE "assessment_attempts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "startedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMPTZ,
+    "submittedAt" TIMESTAMPTZ,
+    "applicantId" UUID NOT NULL,
+    "templateId" UUID NOT NULL,
+    "jobId" UUID NOT NULL,
+    "assessmentId" UUID,
+
+    CONSTRAINT "assessment_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "attempt_answers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "answer" TEXT,
+    "selectedOptions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "savedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attemptId" UUID NOT NULL,
+    "questionId" UUID NOT NULL,
+
+    CONSTRAINT "attempt_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "assessment_attempts_assessmentId_key" ON "assessment_attempts"("assessmentId");
+
+-- CreateIndex
+CREATE INDEX "assessment_attempts_applicantId_templateId_jobId_idx" ON "assessment_attempts"("applicantId", "templateId", "jobId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attempt_answers_attemptId_questionId_key" ON "attempt_answers"("attemptId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "assessment_attempts" ADD CONSTRAINT "assessment_attempts_applicantId_fkey" FOREIGN KEY ("applicantId") REFERENCES "applicants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assessment_attempts" ADD CONSTRAINT "assessment_attempts_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "assessment_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assessment_attempts" ADD CONSTRAINT "assessment_attempts_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "assessment_attempts" ADD CONSTRAINT "assessment_attempts_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "applicant_assessments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attempt_answers" ADD CONSTRAINT "attempt_answers_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "assessment_attempts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attempt_answers" ADD CONSTRAINT "attempt_answers_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "assessment_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "outbox_event_status" AS ENUM ('PENDING', 'PROCESSING', 'DELIVERED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "outbox_events" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "outbox_event_status" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "availableAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" TIMESTAMPTZ,
+
+    CONSTRAINT "outbox_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_events_status_availableAt_idx" ON "outbox_events"("status", "availableAt");
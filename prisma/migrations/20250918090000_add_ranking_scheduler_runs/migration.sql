@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "ranking_scheduler_run_status" AS ENUM ('SUCCEEDED', 'PARTIALLY_FAILED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ranking_scheduler_runs" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "status" "ranking_scheduler_run_status" NOT NULL,
+    "jobsRecalculated" INTEGER NOT NULL DEFAULT 0,
+    "jobsFailed" INTEGER NOT NULL DEFAULT 0,
+    "failedJobIds" UUID[],
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMPTZ NOT NULL,
+    "finishedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "ranking_scheduler_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ranking_scheduler_runs_startedAt_idx" ON "ranking_scheduler_runs"("startedAt");
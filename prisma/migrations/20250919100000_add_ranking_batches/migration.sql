@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ranking_batch_priority" AS ENUM ('HIGH', 'NORMAL');
+
+-- CreateEnum
+CREATE TYPE "ranking_batch_status" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ranking_batch_item_status" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ranking_batches" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "triggerEvent" TEXT NOT NULL,
+    "priority" "ranking_batch_priority" NOT NULL DEFAULT 'NORMAL',
+    "status" "ranking_batch_status" NOT NULL DEFAULT 'QUEUED',
+    "totalJobs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMPTZ,
+    "finishedAt" TIMESTAMPTZ,
+
+    CONSTRAINT "ranking_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ranking_batch_items" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "batchId" UUID NOT NULL,
+    "jobId" UUID NOT NULL,
+    "priority" "ranking_batch_priority" NOT NULL,
+    "status" "ranking_batch_item_status" NOT NULL DEFAULT 'PENDING',
+    "errorMessage" TEXT,
+    "totalCandidates" INTEGER,
+    "calculationDuration" INTEGER,
+    "leaseExpiresAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMPTZ,
+    "finishedAt" TIMESTAMPTZ,
+
+    CONSTRAINT "ranking_batch_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ranking_batches_status_idx" ON "ranking_batches"("status");
+
+-- CreateIndex
+CREATE INDEX "ranking_batch_items_status_priority_createdAt_idx" ON "ranking_batch_items"("status", "priority", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ranking_batch_items_batchId_idx" ON "ranking_batch_items"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "ranking_batch_items" ADD CONSTRAINT "ranking_batch_items_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ranking_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "job_ranking_metadata" ADD COLUMN     "triggerEvents" TEXT[] DEFAULT ARRAY[]::TEXT[];
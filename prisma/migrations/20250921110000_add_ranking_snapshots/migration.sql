@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "ranking_snapshots" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "jobId" UUID NOT NULL,
+    "scoringConfigVersion" TEXT NOT NULL,
+    "triggerEvent" TEXT,
+    "totalCandidates" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ranking_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ranking_snapshot_entries" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "snapshotId" UUID NOT NULL,
+    "applicantId" UUID NOT NULL,
+    "assessmentId" UUID NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "ranking_snapshot_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ranking_snapshots_jobId_createdAt_idx" ON "ranking_snapshots"("jobId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ranking_snapshot_entries_snapshotId_applicantId_key" ON "ranking_snapshot_entries"("snapshotId", "applicantId");
+
+-- CreateIndex
+CREATE INDEX "ranking_snapshot_entries_snapshotId_rank_idx" ON "ranking_snapshot_entries"("snapshotId", "rank");
+
+-- AddForeignKey
+ALTER TABLE "ranking_snapshots" ADD CONSTRAINT "ranking_snapshots_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ranking_snapshot_entries" ADD CONSTRAINT "ranking_snapshot_entries_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "ranking_snapshots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
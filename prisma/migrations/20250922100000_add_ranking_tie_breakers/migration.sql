@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "ranking_tie_breaker" AS ENUM ('EARLIER_SUBMISSION', 'MORE_CORRECT_ANSWERS', 'FEWER_INCORRECT_ANSWERS', 'LESS_TIME_TAKEN', 'EARLIER_APPLICANT');
+
+-- CreateEnum
+CREATE TYPE "ranking_method" AS ENUM ('ORDINAL', 'COMPETITION', 'DENSE');
+
+-- AlterTable
+ALTER TABLE "scoring_configs" ADD COLUMN     "tieBreakers" "ranking_tie_breaker"[] DEFAULT ARRAY[]::"ranking_tie_breaker"[],
+ADD COLUMN     "rankingMethod" "ranking_method" NOT NULL DEFAULT 'ORDINAL';
+
+-- Configs that ranked ties by time taken keep doing so
+UPDATE "scoring_configs" SET "tieBreakers" = ARRAY['LESS_TIME_TAKEN']::"ranking_tie_breaker"[] WHERE "rankTiesByTimeTaken";
+
+-- AlterTable
+ALTER TABLE "scoring_configs" DROP COLUMN "rankTiesByTimeTaken";
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "user_branch_assignments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" UUID NOT NULL,
+    "branchId" UUID NOT NULL,
+
+    CONSTRAINT "user_branch_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_branch_assignments_branchId_idx" ON "user_branch_assignments"("branchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_branch_assignments_userId_branchId_key" ON "user_branch_assignments"("userId", "branchId");
+
+-- AddForeignKey
+ALTER TABLE "user_branch_assignments" ADD CONSTRAINT "user_branch_assignments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_branch_assignments" ADD CONSTRAINT "user_branch_assignments_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "branches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
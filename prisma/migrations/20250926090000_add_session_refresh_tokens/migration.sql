@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "user_sessions" ADD COLUMN     "familyId" UUID NOT NULL DEFAULT gen_random_uuid(),
+ADD COLUMN     "refreshTokenHash" TEXT,
+ADD COLUMN     "rotatedAt" TIMESTAMPTZ;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_sessions_refreshTokenHash_key" ON "user_sessions"("refreshTokenHash");
+
+-- CreateIndex
+CREATE INDEX "user_sessions_familyId_idx" ON "user_sessions"("familyId");
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "job_application_status_history" ADD COLUMN     "changedByApiKeyId" UUID;
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "expiresAt" TIMESTAMPTZ,
+    "lastUsedAt" TIMESTAMPTZ,
+    "revokedAt" TIMESTAMPTZ,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" UUID NOT NULL,
+    "createdById" UUID,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_prefix_key" ON "api_keys"("prefix");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_keyHash_key" ON "api_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "api_keys_companyId_idx" ON "api_keys"("companyId");
+
+-- CreateIndex
+CREATE INDEX "job_application_status_history_changedByApiKeyId_idx" ON "job_application_status_history"("changedByApiKeyId");
+
+-- AddForeignKey
+ALTER TABLE "job_application_status_history" ADD CONSTRAINT "job_application_status_history_changedByApiKeyId_fkey" FOREIGN KEY ("changedByApiKeyId") REFERENCES "api_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
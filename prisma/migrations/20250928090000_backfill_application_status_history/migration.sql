@@ -0,0 +1,18 @@
+-- Backfill the history of applications created before status history was
+-- recorded: they were applied for at "appliedAt", and moved on to their
+-- current status at "updatedAt" at the latest
+WITH "missing" AS (
+    SELECT a."id", a."status", a."appliedAt", a."updatedAt"
+    FROM "job_applications" a
+    WHERE NOT EXISTS (
+        SELECT 1 FROM "job_application_status_history" h WHERE h."applicationId" = a."id"
+    )
+), "applied" AS (
+    INSERT INTO "job_application_status_history" ("id", "fromStatus", "toStatus", "changedAt", "applicationId")
+    SELECT gen_random_uuid(), NULL, 'APPLIED'::"application_status", m."appliedAt", m."id"
+    FROM "missing" m
+)
+INSERT INTO "job_application_status_history" ("id", "fromStatus", "toStatus", "changedAt", "applicationId")
+SELECT gen_random_uuid(), 'APPLIED'::"application_status", m."status", m."updatedAt", m."id"
+FROM "missing" m
+WHERE m."status" <> 'APPLIED';
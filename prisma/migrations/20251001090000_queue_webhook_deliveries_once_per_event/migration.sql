@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "webhook_deliveries" ADD COLUMN     "eventId" UUID;
+
+-- Deliveries queued before are told apart by a generated ID
+UPDATE "webhook_deliveries" SET "eventId" = gen_random_uuid();
+
+-- AlterTable
+ALTER TABLE "webhook_deliveries" ALTER COLUMN "eventId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_deliveries_subscriptionId_eventId_key" ON "webhook_deliveries"("subscriptionId", "eventId");
@@ -23,7 +23,7 @@ import { DB } from "./persistence/db"
 
 import NodeCache from "node-cache"
 
-import { DOCS_PREFIX, VERSION_PREFIX } from "./constants"
+import { DOCS_PREFIX, SHUTDOWN_TIMEOUT_MS, VERSION_PREFIX } from "./constants"
 import {
     getInfoConfig,
     getLogoConfig,
@@ -117,8 +117,8 @@ export async function build(
     })
     // Register dependencies
     server.register(connectDB(db))
-    server.register(events)
-    server.register(services)
+    server.register(events, { startDispatcher: withStartUpTasks })
+    server.register(services, { startDispatchers: withStartUpTasks })
 
     // Register JWT authentication middleware
 
@@ -159,6 +159,27 @@ export async function build(
         prefix: `/${VERSION_PREFIX}/public/`,
     })
 
+    if (withShutdownTasks) {
+        // Closing the server stops the background tasks once their current
+        // round has finished
+        for (const signal of ["SIGINT", "SIGTERM"] as const) {
+            process.once(signal, () => {
+                server.log.info(`Received ${signal}, shutting down`)
+                setTimeout(() => {
+                    server.log.error("Shutdown timed out")
+                    process.exit(1)
+                }, SHUTDOWN_TIMEOUT_MS).unref()
+                server.close().then(
+                    () => process.exit(0),
+                    (err) => {
+                        server.log.error(err, "Shutdown failed")
+                        process.exit(1)
+                    },
+                )
+            })
+        }
+    }
+
     return server
 }
 
@@ -123,6 +123,11 @@ export function createGetAuthorizer(
         reply: FastifyReply,
         payload: unknown,
     ) {
+        // Error payloads (e.g. from authentication) are serialised as they are
+        if (reply.statusCode >= 400) {
+            return
+        }
+
         if (!request.user) {
             return reply.code(401).send({
                 error: "Unauthorised",
@@ -139,6 +144,35 @@ export function createGetAuthorizer(
     }
 }
 
+/**
+ * Create a preHandler hook for authorization of streamed GET requests.
+ * Streamed responses are never serialised, so they can't be authorised in
+ * preSerialization.
+ */
+export function createStreamAuthorizer(
+    authoriserFn: (
+        fastify: FastifyInstance,
+        request: FastifyRequest,
+        payload?: unknown,
+    ) => Promise<number>,
+) {
+    return async function (
+        this: FastifyInstance,
+        request: FastifyRequest,
+        reply: FastifyReply,
+    ) {
+        if (!request.user) {
+            return reply.code(401).send({
+                error: "Unauthorised",
+                message: "Authentication required",
+                statusCode: 401,
+            } as HttpErrorResponse)
+        }
+
+        return await authorise(authoriserFn, this, request, reply)
+    }
+}
+
 /**
  * Fastify plugin for authorisation of incoming requests
  */
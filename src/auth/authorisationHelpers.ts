@@ -1,3 +1,5 @@
+import { FastifyInstance } from "fastify"
+
 export function httpMethodToAction(method: string): string | null {
     switch (method.toUpperCase()) {
         case "GET":
@@ -14,6 +16,48 @@ export function httpMethodToAction(method: string): string | null {
     }
 }
 
+/**
+ * Get the company and branch owning a job, or null when the job doesn't exist
+ */
+export async function getJobOwner(
+    fastify: FastifyInstance,
+    jobId: string,
+): Promise<{ companyId: string; branchId: string } | null> {
+    const job = await fastify.services.getJobService().getJobById(jobId)
+    if (!job) {
+        return null
+    }
+    return { companyId: job.branch.company.id, branchId: job.branchId }
+}
+
+/**
+ * Get the ID of the company owning a job, or null when the job doesn't exist
+ */
+export async function getJobCompanyId(
+    fastify: FastifyInstance,
+    jobId: string,
+): Promise<string | null> {
+    const owner = await getJobOwner(fastify, jobId)
+    return owner?.companyId ?? null
+}
+
+/**
+ * Get the ID of the company owning a template, undefined when the template
+ * doesn't exist and null when it is shared by every company
+ */
+export async function getTemplateCompanyId(
+    fastify: FastifyInstance,
+    templateId: string,
+): Promise<string | null | undefined> {
+    const template = await fastify.services
+        .getAssessmentTemplateService()
+        .getAssessmentTemplateById(templateId)
+    if (!template) {
+        return undefined
+    }
+    return template.job?.branch.company.id ?? null
+}
+
 export function checkPreconditions(): boolean {
     // Add any precondition checks here
     return true
@@ -1,129 +1,357 @@
 import { UserRole } from "@prisma/client"
 import { AuthenticatedUser } from "types/user"
 import * as AuthModels from "types/authorisationModels"
+import { BUILT_IN_ROLES, Permission, Permissions } from "auth/permissions"
+
+export type AuthorisationResource =
+    | AuthModels.Company
+    | AuthModels.Branch
+    | AuthModels.Job
+    | AuthModels.Applicant
+    | AuthModels.JobApplication
+    | AuthModels.AssessmentTemplate
+    | AuthModels.AssessmentQuestion
+    | AuthModels.ApplicantAssessment
+    | AuthModels.ScoringConfig
+    | AuthModels.CandidateRanking
+    | AuthModels.WebhookSubscription
+    | AuthModels.Role
+
+/**
+ * Where a permission is needed, the actor's company when no company is given
+ */
+export interface PermissionScope {
+    companyId?: string
+    branchId?: string
+}
 
 export interface IAuthorisationRules {
     authorise(
         actor: AuthenticatedUser,
         action: string,
-        resource: AuthModels.Company | AuthModels.Branch,
+        resource: AuthorisationResource,
+    ): Promise<boolean>
+
+    /**
+     * Check the actor holds a permission within a company, and branch when
+     * one is given
+     */
+    hasPermission(
+        actor: AuthenticatedUser,
+        permission: Permission,
+        scope?: PermissionScope,
     ): Promise<boolean>
+
+    /**
+     * Check the actor may access a branch of their company. Users who aren't
+     * assigned to branches access every branch.
+     */
+    authoriseRecruiterBranch(
+        actor: AuthenticatedUser,
+        branchId: string,
+    ): boolean
 }
 
+type ActionPermissions = Partial<Record<string, Permission>>
+
+// Permissions reading a resource and changing it in any way
+const readEdit = (read: Permission, edit: Permission): ActionPermissions => ({
+    read,
+    create: edit,
+    update: edit,
+    delete: edit,
+})
+
 export class AuthorisationRules implements IAuthorisationRules {
     async authorise(
         actor: AuthenticatedUser,
         action: string,
-        resource: AuthModels.Company | AuthModels.Branch,
+        resource: AuthorisationResource,
     ): Promise<boolean> {
         // Admin users have full access
         if (actor.role === UserRole.ADMIN) {
             return true
         }
 
-        // Recruiters have limited access
-        if (actor.role === UserRole.RECRUITER) {
-            return this.authoriseRecruiter(actor, action, resource)
+        // Must be assigned to a company
+        if (!actor.companyId) {
+            return false
+        }
+
+        if (!this.isWithinCompany(actor, action, resource)) {
+            return false
         }
 
-        // Readonly users can only read
-        if (actor.role === UserRole.READONLY) {
-            return this.authoriseReadonly(actor, action, resource)
+        if (!this.isWithinBranches(actor, action, resource)) {
+            return false
         }
 
-        return false
+        const permission = this.permissionFor(action, resource)
+        if (!permission) {
+            return false
+        }
+
+        return this.holds(actor, permission, this.branchOf(resource))
     }
 
-    private authoriseRecruiter(
+    async hasPermission(
         actor: AuthenticatedUser,
-        action: string,
-        resource: AuthModels.Company | AuthModels.Branch,
-    ): boolean {
-        // Must be assigned to a company
-        if (!actor.companyId) {
-            return false
+        permission: Permission,
+        scope: PermissionScope = {},
+    ): Promise<boolean> {
+        // Admin users have every permission
+        if (actor.role === UserRole.ADMIN) {
+            return true
         }
 
-        if (resource instanceof AuthModels.Company) {
-            return this.authoriseRecruiterCompany(actor, action, resource)
+        // Permissions only ever apply within the actor's company
+        const companyId = scope.companyId || actor.companyId
+        if (!actor.companyId || companyId !== actor.companyId) {
+            return false
         }
 
-        if (resource instanceof AuthModels.Branch) {
-            return this.authoriseRecruiterBranch(actor, action, resource)
+        if (
+            scope.branchId &&
+            !this.authoriseRecruiterBranch(actor, scope.branchId)
+        ) {
+            return false
         }
 
-        return false
+        return this.holds(actor, permission, scope.branchId)
     }
 
-    private authoriseRecruiterCompany(
+    authoriseRecruiterBranch(
         actor: AuthenticatedUser,
-        action: string,
-        resource: AuthModels.Company,
+        branchId: string,
     ): boolean {
-        switch (action) {
-            case "read":
-                // Can only read their assigned company
-                return !resource.id || resource.id === actor.companyId
-            case "update":
-                // Can update their assigned company
-                return resource.id === actor.companyId
-            case "create":
-            case "delete":
-                // Cannot create or delete companies
-                return false
-            default:
-                return false
+        if (actor.role === UserRole.ADMIN || !actor.branchIds?.length) {
+            return true
         }
+        return actor.branchIds.includes(branchId)
     }
 
-    private authoriseRecruiterBranch(
+    /**
+     * Check the resource is one of the actor's company, or one shared by
+     * every company that the action may be performed on
+     */
+    private isWithinCompany(
         actor: AuthenticatedUser,
         action: string,
-        resource: AuthModels.Branch,
+        resource: AuthorisationResource,
     ): boolean {
-        // All branch operations must be for their assigned company
-        const companyId = resource.companyId || actor.companyId
-        if (companyId !== actor.companyId) {
-            return false
+        if (resource instanceof AuthModels.Company) {
+            // Can only read their assigned company, or list companies
+            if (action === "read" && !resource.id) {
+                return true
+            }
+            return resource.id === actor.companyId
         }
 
-        switch (action) {
-            case "read":
-            case "create":
-            case "update":
-            case "delete":
-                return true
-            default:
+        if (resource instanceof AuthModels.Applicant) {
+            // Applicants are visible once they applied to one of the company's jobs
+            return (
+                !resource.companyIds ||
+                resource.companyIds.includes(actor.companyId!)
+            )
+        }
+
+        if (
+            resource instanceof AuthModels.AssessmentTemplate ||
+            resource instanceof AuthModels.AssessmentQuestion ||
+            resource instanceof AuthModels.ScoringConfig
+        ) {
+            // Resources shared by every company can be used but not changed
+            if (resource.companyId === null) {
+                return action === "read"
+            }
+        }
+
+        if (
+            resource instanceof AuthModels.ApplicantAssessment ||
+            resource instanceof AuthModels.CandidateRanking
+        ) {
+            // Assessments and rankings across every company are only
+            // managed by admins
+            if (resource.companyId === null) {
                 return false
+            }
         }
+
+        // Everything else is scoped to the company owning it
+        const companyId =
+            (resource as { companyId?: string | null }).companyId ||
+            actor.companyId
+        return companyId === actor.companyId
     }
 
-    private authoriseReadonly(
+    /**
+     * Check the resource is one of the branches the actor is assigned to, when
+     * they are assigned to any
+     */
+    private isWithinBranches(
         actor: AuthenticatedUser,
         action: string,
-        resource: AuthModels.Company | AuthModels.Branch,
+        resource: AuthorisationResource,
     ): boolean {
-        // Must be assigned to a company
-        if (!actor.companyId) {
-            return false
+        if (!actor.branchIds?.length) {
+            return true
         }
 
-        // Can only read
-        if (action !== "read") {
-            return false
+        if (resource instanceof AuthModels.Applicant) {
+            // Applicants are visible once they applied to one of the branches' jobs
+            return (
+                !resource.branchIds ||
+                resource.branchIds.some((id) =>
+                    this.authoriseRecruiterBranch(actor, id),
+                )
+            )
         }
 
+        // Changing the company or adding branches reaches beyond the
+        // actor's branches
+        if (
+            resource instanceof AuthModels.Company ||
+            (resource instanceof AuthModels.Branch && !resource.id)
+        ) {
+            return action === "read"
+        }
+
+        const branchId = this.branchOf(resource)
+        return !branchId || this.authoriseRecruiterBranch(actor, branchId)
+    }
+
+    /**
+     * The permission needed to perform an action on a resource, if the action
+     * can be performed at all
+     */
+    private permissionFor(
+        action: string,
+        resource: AuthorisationResource,
+    ): Permission | undefined {
+        return this.actionPermissions(resource)[action]
+    }
+
+    private actionPermissions(
+        resource: AuthorisationResource,
+    ): ActionPermissions {
         if (resource instanceof AuthModels.Company) {
-            // Can only read their assigned company
-            return !resource.id || resource.id === actor.companyId
+            return {
+                read: Permissions.CompaniesRead,
+                update: Permissions.CompaniesEdit,
+                create: Permissions.CompaniesManage,
+                delete: Permissions.CompaniesManage,
+            }
+        }
+
+        if (resource instanceof AuthModels.Branch) {
+            return readEdit(Permissions.BranchesRead, Permissions.BranchesEdit)
+        }
+
+        if (resource instanceof AuthModels.Job) {
+            return readEdit(Permissions.JobsRead, Permissions.JobsEdit)
+        }
+
+        if (resource instanceof AuthModels.Applicant) {
+            // Applicants register themselves
+            return {
+                read: Permissions.ApplicantsRead,
+                update: Permissions.ApplicantsEdit,
+                create: Permissions.ApplicantsManage,
+                delete: Permissions.ApplicantsManage,
+            }
+        }
+
+        if (resource instanceof AuthModels.JobApplication) {
+            // Applications are created through assessment submissions
+            return {
+                read: Permissions.ApplicationsRead,
+                update: Permissions.ApplicationsReview,
+            }
+        }
+
+        if (resource instanceof AuthModels.ApplicantAssessment) {
+            // Assessments are submitted by applicants, and reviewed and
+            // graded by the company
+            return {
+                read: Permissions.AssessmentsRead,
+                update: Permissions.AssessmentsGrade,
+                create: Permissions.AssessmentsManage,
+                delete: Permissions.AssessmentsManage,
+            }
+        }
+
+        if (
+            resource instanceof AuthModels.AssessmentTemplate ||
+            resource instanceof AuthModels.AssessmentQuestion
+        ) {
+            return readEdit(
+                Permissions.TemplatesRead,
+                Permissions.TemplatesEdit,
+            )
+        }
+
+        if (resource instanceof AuthModels.ScoringConfig) {
+            return readEdit(Permissions.ScoringRead, Permissions.ScoringEdit)
+        }
+
+        if (resource instanceof AuthModels.CandidateRanking) {
+            // Rankings are triggered and invalidated, not edited
+            return {
+                read: Permissions.RankingsRead,
+                create: Permissions.RankingsRecalculate,
+                update: Permissions.RankingsRecalculate,
+                delete: Permissions.RankingsManage,
+            }
+        }
+
+        if (resource instanceof AuthModels.WebhookSubscription) {
+            return readEdit(Permissions.WebhooksRead, Permissions.WebhooksEdit)
+        }
+
+        if (resource instanceof AuthModels.Role) {
+            return readEdit(Permissions.RolesRead, Permissions.RolesManage)
         }
 
+        return {}
+    }
+
+    /**
+     * The branch a resource belongs to, when known
+     */
+    private branchOf(resource: AuthorisationResource): string | undefined {
         if (resource instanceof AuthModels.Branch) {
-            // Can only read branches for their assigned company
-            const companyId = resource.companyId || actor.companyId
-            return companyId === actor.companyId
+            return resource.id
+        }
+
+        if (
+            resource instanceof AuthModels.Job ||
+            resource instanceof AuthModels.JobApplication ||
+            resource instanceof AuthModels.CandidateRanking
+        ) {
+            return resource.branchId
+        }
+
+        return undefined
+    }
+
+    /**
+     * Check the actor holds a permission through their built-in role, or a
+     * company role assigned for the whole company or for the given branch.
+     * API keys only hold their scopes.
+     */
+    private holds(
+        actor: AuthenticatedUser,
+        permission: Permission,
+        branchId?: string,
+    ): boolean {
+        if (!actor.apiKey && BUILT_IN_ROLES[actor.role].includes(permission)) {
+            return true
         }
 
-        return false
+        return (actor.grants ?? []).some(
+            (grant) =>
+                grant.permissions.includes(permission) &&
+                (grant.branchId === null || grant.branchId === branchId),
+        )
     }
 }
@@ -0,0 +1,224 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import {
+    getJobCompanyId,
+    getTemplateCompanyId,
+    httpMethodToAction,
+} from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+
+export const authoriseGetPendingReviews: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const assessment = new AuthModels.ApplicantAssessment(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, assessment)
+
+    // For non-admins, filter the payload to only include answers from their company
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.reviews
+    ) {
+        payload.reviews = payload.reviews.filter(
+            (review: any) => review.companyId === actor.companyId,
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseGradeAssessmentAnswer: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const assessmentId = (request.params as any).id
+
+    // Fetch the assessment's job so the check runs against its real company
+    const existing = await fastify.services
+        .getApplicantAssessmentService()
+        .getAssessmentById(assessmentId)
+    if (!existing) {
+        return 404
+    }
+    const job = await fastify.services
+        .getJobService()
+        .getJobById(existing.jobId)
+    if (!job) {
+        return 404
+    }
+
+    const assessment = new AuthModels.ApplicantAssessment(
+        assessmentId,
+        job.branch.company.id,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, assessment)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetAssessments: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const assessment = new AuthModels.ApplicantAssessment(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, assessment)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetAssessmentById: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const assessmentId = (request.params as any).id
+
+    // The template may be shared, so the company is taken from the job
+    const companyId = await getJobCompanyId(fastify, payload?.assessment?.jobId)
+    if (!companyId) {
+        return 404
+    }
+
+    const assessment = new AuthModels.ApplicantAssessment(
+        assessmentId,
+        companyId,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, assessment)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetAssessmentScore: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const assessmentId = (request.params as any).id
+
+    // Scores carry no company, so look up the assessment's job
+    const existing = await fastify.services
+        .getApplicantAssessmentService()
+        .getAssessmentById(assessmentId)
+    if (!existing) {
+        return 404
+    }
+    const companyId = await getJobCompanyId(fastify, existing.jobId)
+    if (!companyId) {
+        return 404
+    }
+
+    const assessment = new AuthModels.ApplicantAssessment(
+        assessmentId,
+        companyId,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, assessment)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetAssessmentExplanation: RequestAuthoriser =
+    authoriseGetAssessmentScore
+
+export const authoriseGetAssessmentStats: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const { templateId, jobId } = request.query as any
+
+    // Statistics of a job belong to its company, those of a shared template
+    // or of every assessment span all companies
+    let companyId: string | null = null
+    if (jobId) {
+        companyId = await getJobCompanyId(fastify, jobId)
+        if (!companyId) {
+            return 404
+        }
+    } else if (templateId) {
+        const templateCompanyId = await getTemplateCompanyId(
+            fastify,
+            templateId,
+        )
+        if (templateCompanyId === undefined) {
+            return 404
+        }
+        companyId = templateCompanyId
+    }
+
+    const assessment = new AuthModels.ApplicantAssessment(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, assessment)
+    return authorised ? 200 : 403
+}
@@ -0,0 +1,134 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import { ApplicantWithAssessments } from "types/applicant"
+import { httpMethodToAction } from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+
+// Companies an applicant applied to, through the jobs of their applications
+const companiesOf = (applicant: ApplicantWithAssessments): string[] => [
+    ...new Set(applicant.jobApplications.map((a) => a.job.branch.company.id)),
+]
+
+// Branches an applicant applied to, through the jobs of their applications
+const branchesOf = (applicant: ApplicantWithAssessments): string[] => [
+    ...new Set(applicant.jobApplications.map((a) => a.job.branch.id)),
+]
+
+export const authoriseGetApplicants: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    // The list is limited to the applicants of the requested company
+    const applicant = new AuthModels.Applicant(
+        undefined,
+        companyId ? [companyId] : undefined,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, applicant)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetApplicantById: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const applicantId = (request.params as any).id
+
+    const companyIds = payload?.applicant ? companiesOf(payload.applicant) : []
+    const branchIds = payload?.applicant ? branchesOf(payload.applicant) : []
+    const applicant = new AuthModels.Applicant(
+        applicantId,
+        companyIds,
+        branchIds,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, applicant)
+
+    // For non-admins, hide what the applicant did at other companies and
+    // branches
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.applicant
+    ) {
+        payload.applicant.jobApplications =
+            payload.applicant.jobApplications.filter(
+                (a: any) =>
+                    a.job?.branch?.company?.id === actor.companyId &&
+                    rules.authoriseRecruiterBranch(actor, a.job.branch.id),
+            )
+        // Assessments are submitted for the jobs applied to
+        const jobIds = new Set(
+            payload.applicant.jobApplications.map((a: any) => a.job.id),
+        )
+        payload.applicant.assessments = payload.applicant.assessments.filter(
+            (a: any) => jobIds.has(a.jobId),
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseUpdateApplicant: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const applicantId = (request.params as any).id
+
+    // Fetch the applicant to find the companies they applied to
+    const existing = await fastify.services
+        .getApplicantService()
+        .getApplicantById(applicantId)
+    if (!existing) {
+        return 404
+    }
+
+    const applicant = new AuthModels.Applicant(
+        applicantId,
+        companiesOf(existing),
+        branchesOf(existing),
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, applicant)
+    return authorised ? 200 : 403
+}
+
+export const authoriseDeleteApplicant: RequestAuthoriser =
+    authoriseUpdateApplicant
@@ -0,0 +1,148 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import {
+    getTemplateCompanyId,
+    httpMethodToAction,
+} from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+
+export const authoriseGetQuestions: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const templateId = (request.query as any)?.templateId
+
+    // Questions are listed per template, so look up the template's company
+    const companyId = await getTemplateCompanyId(fastify, templateId)
+    if (companyId === undefined) {
+        return 404
+    }
+
+    const question = new AuthModels.AssessmentQuestion(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, question)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetQuestionById: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const questionId = (request.params as any).id
+
+    // Questions of templates without a job in the payload are shared
+    const companyId =
+        payload?.question?.template?.job?.branch?.company?.id ?? null
+    const question = new AuthModels.AssessmentQuestion(questionId, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, question)
+
+    // For non-admins, only include answers submitted to their company
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.question?.answers
+    ) {
+        payload.question.answers = payload.question.answers.filter(
+            (a: any) =>
+                a.assessment?.job?.branch?.companyId === actor.companyId,
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseCreateQuestion: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const requestBody = request.body as any
+
+    // Questions belong to the company of their template
+    const companyId = await getTemplateCompanyId(
+        fastify,
+        requestBody?.templateId,
+    )
+    if (companyId === undefined) {
+        return 404
+    }
+
+    const question = new AuthModels.AssessmentQuestion(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, question)
+    return authorised ? 200 : 403
+}
+
+export const authoriseUpdateQuestion: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const questionId = (request.params as any).id
+
+    // Fetch the question so the check runs against its template's company
+    const existing = await fastify.services
+        .getAssessmentQuestionService()
+        .getQuestionById(questionId)
+    if (!existing) {
+        return 404
+    }
+
+    const question = new AuthModels.AssessmentQuestion(
+        questionId,
+        existing.template.job?.branch.company.id ?? null,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, question)
+    return authorised ? 200 : 403
+}
+
+export const authoriseDeleteQuestion: RequestAuthoriser =
+    authoriseUpdateQuestion
+
+export const authoriseGetAnswerDistribution: RequestAuthoriser =
+    authoriseUpdateQuestion
@@ -0,0 +1,267 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import {
+    getJobCompanyId,
+    getTemplateCompanyId,
+    httpMethodToAction,
+} from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+
+// Submissions of shared templates are kept to the actor's company
+const ownAssessments = (template: any, companyId: string) => {
+    template.assessments = template.assessments?.filter(
+        (a: any) => a.job?.branch?.companyId === companyId,
+    )
+}
+
+export const authoriseGetAssessmentTemplates: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const template = new AuthModels.AssessmentTemplate(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, template)
+
+    // For non-admins, filter the payload to only include their company's and shared templates
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.templates
+    ) {
+        payload.templates = payload.templates.filter(
+            (t: any) => !t.job || t.job.branch?.company?.id === actor.companyId,
+        )
+        for (const t of payload.templates) {
+            ownAssessments(t, actor.companyId)
+        }
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetAssessmentTemplateStats: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const template = new AuthModels.AssessmentTemplate(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, template)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetAssessmentTemplateById: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const templateId = (request.params as any).id
+
+    // Templates without a job in the payload are shared
+    const companyId = payload?.template?.job?.branch?.company?.id ?? null
+    const template = new AuthModels.AssessmentTemplate(templateId, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, template)
+
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.template
+    ) {
+        ownAssessments(payload.template, actor.companyId)
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseCreateAssessmentTemplate: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const requestBody = request.body as any
+
+    // Templates without a job are shared by every company
+    let companyId: string | null = null
+    if (requestBody?.jobId) {
+        companyId = await getJobCompanyId(fastify, requestBody.jobId)
+        if (!companyId) {
+            return 404
+        }
+    }
+
+    const template = new AuthModels.AssessmentTemplate(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, template)
+    return authorised ? 200 : 403
+}
+
+export const authoriseUpdateAssessmentTemplate: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const templateId = (request.params as any).id
+    const requestBody = request.body as any
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    // Fetch the template so the check runs against its real company
+    const companyId = await getTemplateCompanyId(fastify, templateId)
+    if (companyId === undefined) {
+        return 404
+    }
+    const template = new AuthModels.AssessmentTemplate(templateId, companyId)
+    if (!(await rules.authorise(actor, action, template))) {
+        return 403
+    }
+
+    // A template moved to another job must land in a company the actor manages
+    if (requestBody && "jobId" in requestBody) {
+        let targetCompanyId: string | null = null
+        if (requestBody.jobId) {
+            targetCompanyId = await getJobCompanyId(fastify, requestBody.jobId)
+            if (!targetCompanyId) {
+                return 404
+            }
+        }
+        const target = new AuthModels.AssessmentTemplate(
+            templateId,
+            targetCompanyId,
+        )
+        if (!(await rules.authorise(actor, action, target))) {
+            return 403
+        }
+    }
+
+    return 200
+}
+
+export const authoriseDeleteAssessmentTemplate: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const templateId = (request.params as any).id
+
+    // Fetch the template so the check runs against its real company
+    const companyId = await getTemplateCompanyId(fastify, templateId)
+    if (companyId === undefined) {
+        return 404
+    }
+
+    const template = new AuthModels.AssessmentTemplate(templateId, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, template)
+    return authorised ? 200 : 403
+}
+
+export const authoriseCloneAssessmentTemplate: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const templateId = (request.params as any).id
+    const requestBody = request.body as any
+
+    // The template being cloned must be readable
+    const companyId = await getTemplateCompanyId(fastify, templateId)
+    if (companyId === undefined) {
+        return 404
+    }
+    const source = new AuthModels.AssessmentTemplate(templateId, companyId)
+    if (!(await rules.authorise(actor, "read", source))) {
+        return 403
+    }
+
+    // The clone stays with the job of the original unless another is given
+    let targetCompanyId = companyId
+    if (requestBody?.jobId) {
+        targetCompanyId = await getJobCompanyId(fastify, requestBody.jobId)
+        if (!targetCompanyId) {
+            return 404
+        }
+    }
+
+    const clone = new AuthModels.AssessmentTemplate(undefined, targetCompanyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, clone)
+    return authorised ? 200 : 403
+}
@@ -2,6 +2,7 @@ import * as AuthModels from "types/authorisationModels"
 import { RequestAuthoriser } from "types/authorisationTypes"
 import { httpMethodToAction } from "auth/authorisationHelpers"
 import { IAuthorisationRules } from "auth/authorisationRules"
+import { Permissions } from "auth/permissions"
 
 export const authoriseCreateBranch: RequestAuthoriser = async (
     fastify,
@@ -48,15 +49,18 @@ export const authoriseGetBranches: RequestAuthoriser = async (
 
     const authorised = await rules.authorise(actor, action, branch)
 
-    // For recruiters, filter the payload to only include branches from their company
+    // For non-admins, filter the payload to only include branches from their
+    // company they may access
     if (
         authorised &&
-        actor.role === "RECRUITER" &&
+        actor.role !== "ADMIN" &&
         actor.companyId &&
         payload?.branches
     ) {
         payload.branches = payload.branches.filter(
-            (br: any) => br.companyId === actor.companyId,
+            (br: any) =>
+                br.companyId === actor.companyId &&
+                rules.authoriseRecruiterBranch(actor, br.id),
         )
     }
 
@@ -97,9 +101,15 @@ export const authoriseUpdateBranch: RequestAuthoriser = async (
     const actor = request.user!
     const branchId = (request.params as any).id
 
-    // For updates, we assume the branch belongs to the user's company
-    // In a real scenario, you might want to fetch the branch first
-    const branch = new AuthModels.Branch(branchId, actor.companyId || undefined)
+    // Fetch the branch so the check runs against its real company
+    const existing = await fastify.services
+        .getBranchService()
+        .getBranchById(branchId)
+    if (!existing) {
+        return 404
+    }
+
+    const branch = new AuthModels.Branch(branchId, existing.companyId)
     const action = httpMethodToAction(request.method)
 
     if (!action) {
@@ -122,9 +132,15 @@ export const authoriseDeleteBranch: RequestAuthoriser = async (
     const actor = request.user!
     const branchId = (request.params as any).id
 
-    // For deletes, we assume the branch belongs to the user's company
-    // In a real scenario, you might want to fetch the branch first
-    const branch = new AuthModels.Branch(branchId, actor.companyId || undefined)
+    // Fetch the branch so the check runs against its real company
+    const existing = await fastify.services
+        .getBranchService()
+        .getBranchById(branchId)
+    if (!existing) {
+        return 404
+    }
+
+    const branch = new AuthModels.Branch(branchId, existing.companyId)
     const action = httpMethodToAction(request.method)
 
     if (!action) {
@@ -137,3 +153,38 @@ export const authoriseDeleteBranch: RequestAuthoriser = async (
     const authorised = await rules.authorise(actor, action, branch)
     return authorised ? 200 : 403
 }
+
+export const authoriseBranchUsers: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const branchId = (request.params as any).id
+
+    // Fetch the branch so the check runs against its real company
+    const existing = await fastify.services
+        .getBranchService()
+        .getBranchById(branchId)
+    if (!existing) {
+        return 404
+    }
+
+    // Whoever may see the branch sees its users, changing them limits what
+    // the users may access
+    const branch = new AuthModels.Branch(branchId, existing.companyId)
+    if (!(await rules.authorise(actor, "read", branch))) {
+        return 403
+    }
+    if (request.method === "GET") {
+        return 200
+    }
+
+    const authorised = await rules.hasPermission(
+        actor,
+        Permissions.BranchesAssign,
+        { companyId: existing.companyId, branchId },
+    )
+    return authorised ? 200 : 403
+}
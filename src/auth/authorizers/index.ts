@@ -2,3 +2,13 @@
 
 export * from "./companies"
 export * from "./branches"
+export * from "./job-applications"
+export * from "./applicant-assessments"
+export * from "./webhooks"
+export * from "./jobs"
+export * from "./applicants"
+export * from "./assessment-templates"
+export * from "./assessment-questions"
+export * from "./scoring-configs"
+export * from "./rankings"
+export * from "./roles"
@@ -0,0 +1,232 @@
+import { ApplicationStatus } from "@prisma/client"
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import { httpMethodToAction } from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+import { Permissions } from "auth/permissions"
+import { AuthenticatedUser } from "types/user"
+
+/**
+ * Hiring takes its own permission on top of reviewing applications
+ */
+async function mayHire(
+    rules: IAuthorisationRules,
+    actor: AuthenticatedUser,
+    status: string | undefined,
+    application: AuthModels.JobApplication,
+): Promise<boolean> {
+    if (status !== ApplicationStatus.HIRED) {
+        return true
+    }
+
+    return rules.hasPermission(actor, Permissions.ApplicationsHire, {
+        companyId: application.companyId,
+        branchId: application.branchId,
+    })
+}
+
+export const authoriseGetJobApplications: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const application = new AuthModels.JobApplication(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, application)
+
+    // For non-admins, filter the payload to only include applications from
+    // their company and branches
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.applications
+    ) {
+        payload.applications = payload.applications.filter(
+            (app: any) =>
+                app.job?.branch?.company?.id === actor.companyId &&
+                rules.authoriseRecruiterBranch(actor, app.job.branch.id),
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetJobApplicationStats: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const application = new AuthModels.JobApplication(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, application)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetJobApplicationById: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const applicationId = (request.params as any).id
+
+    // The owning company is taken from the job in the payload
+    const companyId =
+        payload?.application?.job?.branch?.company?.id || actor.companyId
+    const application = new AuthModels.JobApplication(
+        applicationId,
+        companyId,
+        payload?.application?.job?.branch?.id,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, application)
+    return authorised ? 200 : 403
+}
+
+export const authoriseUpdateJobApplicationStatus: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const applicationId = (request.params as any).id
+    const requestBody = request.body as any
+
+    // Fetch the application so the check runs against its real company
+    const existing = await fastify.services
+        .getJobApplicationService()
+        .getJobApplicationById(applicationId)
+    if (!existing) {
+        return 404
+    }
+
+    const application = new AuthModels.JobApplication(
+        applicationId,
+        existing.job.branch.company.id,
+        existing.job.branch.id,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised =
+        (await rules.authorise(actor, action, application)) &&
+        (await mayHire(rules, actor, requestBody?.status, application))
+    return authorised ? 200 : 403
+}
+
+export const authoriseBulkUpdateJobApplicationStatus: RequestAuthoriser =
+    async (fastify, request, _payload: any) => {
+        const rules: IAuthorisationRules = fastify.authorisationRules
+        const actor = request.user!
+        const requestBody = request.body as any
+        const ids: string[] = requestBody?.ids ?? []
+        const action = httpMethodToAction(request.method)
+
+        if (!action) {
+            fastify.log.error(
+                `Unknown HTTP method ${request.method}. Default to disallowing request`,
+            )
+            return 403
+        }
+
+        // Every application in the batch must be accessible to the actor
+        const service = fastify.services.getJobApplicationService()
+        for (const id of new Set(ids)) {
+            const existing = await service.getJobApplicationById(id)
+            if (!existing) {
+                return 404
+            }
+
+            const application = new AuthModels.JobApplication(
+                id,
+                existing.job.branch.company.id,
+                existing.job.branch.id,
+            )
+            const authorised =
+                (await rules.authorise(actor, action, application)) &&
+                (await mayHire(rules, actor, requestBody?.status, application))
+            if (!authorised) {
+                return 403
+            }
+        }
+
+        return 200
+    }
+
+export const authoriseGetJobApplicationHistory: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const applicationId = (request.params as any).id
+
+    // The history payload carries no company, so look up the application
+    const existing = await fastify.services
+        .getJobApplicationService()
+        .getJobApplicationById(applicationId)
+    if (!existing) {
+        return 404
+    }
+
+    const application = new AuthModels.JobApplication(
+        applicationId,
+        existing.job.branch.company.id,
+        existing.job.branch.id,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, application)
+    return authorised ? 200 : 403
+}
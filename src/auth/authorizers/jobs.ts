@@ -0,0 +1,244 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import { getJobOwner, httpMethodToAction } from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+
+export const authoriseGetJobs: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const job = new AuthModels.Job(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, job)
+
+    // For non-admins, filter the payload to only include jobs from their
+    // company and branches
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.jobs
+    ) {
+        payload.jobs = payload.jobs.filter(
+            (j: any) =>
+                j.branch?.company?.id === actor.companyId &&
+                rules.authoriseRecruiterBranch(actor, j.branchId),
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetJobStats: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const job = new AuthModels.Job(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, job)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetJobById: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const jobId = (request.params as any).id
+
+    // The owning company is taken from the branch in the payload
+    const companyId = payload?.job?.branch?.company?.id || actor.companyId
+    const job = new AuthModels.Job(jobId, companyId, payload?.job?.branchId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, job)
+    return authorised ? 200 : 403
+}
+
+export const authoriseCreateJob: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const requestBody = request.body as any
+
+    // Jobs belong to the company of the branch they are posted at
+    const branch = await fastify.services
+        .getBranchService()
+        .getBranchById(requestBody?.branchId)
+    if (!branch) {
+        return 404
+    }
+
+    const job = new AuthModels.Job(undefined, branch.companyId, branch.id)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, job)
+    return authorised ? 200 : 403
+}
+
+export const authoriseUpdateJob: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const jobId = (request.params as any).id
+
+    // Fetch the job so the check runs against its real company
+    const owner = await getJobOwner(fastify, jobId)
+    if (!owner) {
+        return 404
+    }
+
+    const job = new AuthModels.Job(jobId, owner.companyId, owner.branchId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, job)
+    return authorised ? 200 : 403
+}
+
+export const authoriseDeleteJob: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const jobId = (request.params as any).id
+
+    // Fetch the job so the check runs against its real company
+    const owner = await getJobOwner(fastify, jobId)
+    if (!owner) {
+        return 404
+    }
+
+    const job = new AuthModels.Job(jobId, owner.companyId, owner.branchId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, job)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetJobRankings: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const jobId = (request.params as any).jobId
+
+    // Ranking payloads carry no company, so look up the job
+    const owner = await getJobOwner(fastify, jobId)
+    if (!owner) {
+        return 404
+    }
+
+    const ranking = new AuthModels.CandidateRanking(
+        undefined,
+        owner.companyId,
+        owner.branchId,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, ranking)
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetJobRankingStream: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const jobId = (request.params as any).jobId
+
+    // Rankings are readable by whoever may read the job's company
+    const job = await fastify.services.getJobService().getJobById(jobId)
+    if (!job) {
+        return 404
+    }
+
+    const company = new AuthModels.Company(job.branch.company.id)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, company)
+    return authorised ? 200 : 403
+}
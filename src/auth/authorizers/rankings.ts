@@ -0,0 +1,167 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+import { getJobOwner, httpMethodToAction } from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+import { FastifyInstance } from "fastify"
+import { AuthenticatedUser } from "types/user"
+
+/**
+ * Check the actor may perform the action on the rankings of every job,
+ * answering 404 when one of the jobs doesn't exist unless missing jobs are
+ * skipped
+ */
+async function authoriseJobRankings(
+    fastify: FastifyInstance,
+    actor: AuthenticatedUser,
+    action: string,
+    jobIds: string[],
+    skipMissing = false,
+): Promise<number> {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    for (const jobId of new Set(jobIds)) {
+        const owner = await getJobOwner(fastify, jobId)
+        if (!owner) {
+            if (skipMissing) {
+                continue
+            }
+            return 404
+        }
+
+        const ranking = new AuthModels.CandidateRanking(
+            undefined,
+            owner.companyId,
+            owner.branchId,
+        )
+        if (!(await rules.authorise(actor, action, ranking))) {
+            return 403
+        }
+    }
+
+    return 200
+}
+
+export const authoriseCalculateRankings: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const actor = request.user!
+    const requestBody = request.body as any
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    return authoriseJobRankings(fastify, actor, action, [requestBody?.jobId])
+}
+
+export const authoriseBulkRankings: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const actor = request.user!
+    const requestBody = request.body as any
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    // Every job in the batch must be accessible to the actor
+    return authoriseJobRankings(
+        fastify,
+        actor,
+        action,
+        requestBody?.jobIds ?? [],
+    )
+}
+
+export const authoriseGetRankingBatch: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const actor = request.user!
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    // A batch is readable by whoever may read the rankings of all its jobs
+    const jobIds = (payload?.jobs ?? []).map((j: any) => j.jobId)
+    // Jobs deleted since the batch was queued are skipped
+    return authoriseJobRankings(fastify, actor, action, jobIds, true)
+}
+
+export const authoriseCancelRankingBatch: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const actor = request.user!
+    const batchId = (request.params as any).id
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    // Fetch the batch so the check runs against the companies of its jobs
+    let jobIds: string[]
+    try {
+        const batch = await fastify.services
+            .getRankingBatchService()
+            .getBatchProgress(batchId)
+        jobIds = batch.jobs.map((j) => j.jobId)
+    } catch (err) {
+        if (
+            err instanceof ServiceError &&
+            err.type === ServiceErrorType.NotFound
+        ) {
+            return 404
+        }
+        throw err
+    }
+
+    // Cancelling stops the recalculation of the rankings of every job
+    return authoriseJobRankings(fastify, actor, "update", jobIds, true)
+}
+
+export const authoriseInvalidateRankings: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const requestBody = request.body as any
+
+    // Invalidating marks rankings as stale rather than creating them. A job
+    // takes precedence over the other criteria.
+    if (requestBody?.jobId) {
+        return authoriseJobRankings(fastify, actor, "update", [
+            requestBody.jobId,
+        ])
+    }
+
+    // Invalidations by scoring config or applicant span every company
+    const ranking = new AuthModels.CandidateRanking(undefined, null)
+    const authorised = await rules.authorise(actor, "update", ranking)
+    return authorised ? 200 : 403
+}
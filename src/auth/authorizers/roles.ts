@@ -0,0 +1,106 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import { httpMethodToAction } from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+export const authoriseGetRoles: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const role = new AuthModels.Role(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, role)
+
+    // For non-admins, filter the payload to only include their company's roles
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.roles
+    ) {
+        payload.roles = payload.roles.filter(
+            (r: any) => r.companyId === actor.companyId,
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseCreateRole: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const requestBody = request.body as any
+    const companyId = requestBody?.companyId || actor.companyId
+
+    const role = new AuthModels.Role(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, role)
+    return authorised ? 200 : 403
+}
+
+export const authoriseRole: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const roleId = (request.params as any).id
+
+    // Fetch the role so the check runs against its real company
+    let companyId: string
+    try {
+        const existing = await fastify.services
+            .getRoleService()
+            .getRoleById(roleId)
+        companyId = existing.companyId
+    } catch (err) {
+        if (
+            err instanceof ServiceError &&
+            err.type === ServiceErrorType.NotFound
+        ) {
+            return 404
+        }
+        throw err
+    }
+
+    const role = new AuthModels.Role(roleId, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, role)
+    return authorised ? 200 : 403
+}
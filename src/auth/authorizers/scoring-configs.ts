@@ -0,0 +1,209 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import { getJobCompanyId, httpMethodToAction } from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+
+export const authoriseGetScoringConfigs: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+
+    const config = new AuthModels.ScoringConfig(undefined, actor.companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, config)
+
+    // For non-admins, filter the payload to only include their company's and shared configs
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.configs
+    ) {
+        payload.configs = payload.configs.filter(
+            (c: any) => !c.job || c.job.branch?.company?.id === actor.companyId,
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseGetScoringConfigById: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const configId = (request.params as any).id
+
+    // Configs without a job in the payload are shared
+    const companyId = payload?.config?.job?.branch?.company?.id ?? null
+    const config = new AuthModels.ScoringConfig(configId, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, config)
+    return authorised ? 200 : 403
+}
+
+export const authoriseCreateScoringConfig: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const requestBody = request.body as any
+
+    // Configs without a job are shared by every company
+    let companyId: string | null = null
+    if (requestBody?.jobId) {
+        companyId = await getJobCompanyId(fastify, requestBody.jobId)
+        if (!companyId) {
+            return 404
+        }
+    }
+
+    const config = new AuthModels.ScoringConfig(undefined, companyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, config)
+    return authorised ? 200 : 403
+}
+
+export const authoriseUpdateScoringConfig: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const configId = (request.params as any).id
+
+    // Fetch the config so the check runs against its real company
+    const existing = await fastify.services
+        .getScoringConfigService()
+        .getScoringConfigById(configId)
+    if (!existing) {
+        return 404
+    }
+
+    const config = new AuthModels.ScoringConfig(
+        configId,
+        existing.job?.branch.company.id ?? null,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, config)
+    return authorised ? 200 : 403
+}
+
+export const authoriseDeleteScoringConfig: RequestAuthoriser =
+    authoriseUpdateScoringConfig
+
+export const authoriseApplyScoringConfig: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const configId = (request.params as any).id
+    const requestBody = request.body as any
+
+    // Applying moves the config to the job, so both must be changeable
+    const existing = await fastify.services
+        .getScoringConfigService()
+        .getScoringConfigById(configId)
+    if (!existing) {
+        return 404
+    }
+    const jobCompanyId = await getJobCompanyId(fastify, requestBody?.jobId)
+    if (!jobCompanyId) {
+        return 404
+    }
+
+    const config = new AuthModels.ScoringConfig(
+        configId,
+        existing.job?.branch.company.id ?? null,
+    )
+    const applied = new AuthModels.ScoringConfig(configId, jobCompanyId)
+
+    const authorised =
+        (await rules.authorise(actor, "update", config)) &&
+        (await rules.authorise(actor, "update", applied))
+    return authorised ? 200 : 403
+}
+
+export const authorisePreviewScoringConfig: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const configId = (request.params as any).id
+    const jobId = (request.query as any)?.jobId
+
+    // The preview ranks the job's candidates with the config
+    const existing = await fastify.services
+        .getScoringConfigService()
+        .getScoringConfigById(configId)
+    if (!existing) {
+        return 404
+    }
+    const jobCompanyId = await getJobCompanyId(fastify, jobId)
+    if (!jobCompanyId) {
+        return 404
+    }
+
+    const config = new AuthModels.ScoringConfig(
+        configId,
+        existing.job?.branch.company.id ?? null,
+    )
+    const ranking = new AuthModels.CandidateRanking(undefined, jobCompanyId)
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised =
+        (await rules.authorise(actor, action, config)) &&
+        (await rules.authorise(actor, action, ranking))
+    return authorised ? 200 : 403
+}
@@ -0,0 +1,115 @@
+import * as AuthModels from "types/authorisationModels"
+import { RequestAuthoriser } from "types/authorisationTypes"
+import { httpMethodToAction } from "auth/authorisationHelpers"
+import { IAuthorisationRules } from "auth/authorisationRules"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+export const authoriseGetWebhookSubscriptions: RequestAuthoriser = async (
+    fastify,
+    request,
+    payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const queryParams = request.query as any
+    const companyId = queryParams?.companyId || actor.companyId
+
+    const subscription = new AuthModels.WebhookSubscription(
+        undefined,
+        companyId,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, subscription)
+
+    // For non-admins, filter the payload to only include their company's webhooks
+    if (
+        authorised &&
+        actor.role !== "ADMIN" &&
+        actor.companyId &&
+        payload?.subscriptions
+    ) {
+        payload.subscriptions = payload.subscriptions.filter(
+            (s: any) => s.companyId === actor.companyId,
+        )
+    }
+
+    return authorised ? 200 : 403
+}
+
+export const authoriseCreateWebhookSubscription: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const requestBody = request.body as any
+    const companyId = requestBody?.companyId || actor.companyId
+
+    const subscription = new AuthModels.WebhookSubscription(
+        undefined,
+        companyId,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, subscription)
+    return authorised ? 200 : 403
+}
+
+export const authoriseWebhookSubscription: RequestAuthoriser = async (
+    fastify,
+    request,
+    _payload: any,
+) => {
+    const rules: IAuthorisationRules = fastify.authorisationRules
+    const actor = request.user!
+    const subscriptionId = (request.params as any).id
+
+    // Fetch the subscription so the check runs against its real company
+    let companyId: string
+    try {
+        const existing = await fastify.services
+            .getWebhookService()
+            .getSubscriptionById(subscriptionId)
+        companyId = existing.companyId
+    } catch (err) {
+        if (
+            err instanceof ServiceError &&
+            err.type === ServiceErrorType.NotFound
+        ) {
+            return 404
+        }
+        throw err
+    }
+
+    const subscription = new AuthModels.WebhookSubscription(
+        subscriptionId,
+        companyId,
+    )
+    const action = httpMethodToAction(request.method)
+
+    if (!action) {
+        fastify.log.error(
+            `Unknown HTTP method ${request.method}. Default to disallowing request`,
+        )
+        return 403
+    }
+
+    const authorised = await rules.authorise(actor, action, subscription)
+    return authorised ? 200 : 403
+}
@@ -8,6 +8,7 @@ import fp from "fastify-plugin"
 import jwt from "jsonwebtoken"
 import { AuthenticatedUser } from "types/user"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
+import { isApiKey } from "helpers/apiKeys"
 
 /**
  * Verify JWT token and extract user information
@@ -31,6 +32,40 @@ async function verifyToken(
     }
 }
 
+/**
+ * Verify an API key and get the actor standing for it
+ */
+async function verifyApiKey(
+    key: string,
+    fastify: FastifyInstance,
+): Promise<AuthenticatedUser> {
+    try {
+        return await fastify.services.getApiKeyService().authenticate(key)
+    } catch (error) {
+        throw new ServiceError(
+            ServiceErrorType.Forbidden,
+            "Invalid API key",
+            error,
+        )
+    }
+}
+
+/**
+ * Authenticate the bearer token of an authorization header, a user JWT or an
+ * API key
+ */
+export async function authenticateBearer(
+    authorization: string,
+    fastify: FastifyInstance,
+): Promise<AuthenticatedUser> {
+    // Remove Bearer prefix
+    const token = authorization.replace("Bearer ", "")
+
+    return isApiKey(token)
+        ? await verifyApiKey(token, fastify)
+        : await verifyToken(token, fastify)
+}
+
 const JWTAuthenticator: FastifyPluginAsync = async (
     fastify: FastifyInstance,
     _options: FastifyPluginOptions,
@@ -46,22 +81,16 @@ const JWTAuthenticator: FastifyPluginAsync = async (
         }
 
         // Get authorization header
-        let token = request.headers.authorization
-        if (!token) {
+        const authorization = request.headers.authorization
+        if (!authorization) {
             return reply
                 .code(401)
                 .send({ error: "Missing authorization header" })
         }
 
         try {
-            // Remove Bearer prefix
-            token = token.replace("Bearer ", "")
-
-            // Verify token and get user
-            const user = await verifyToken(token, fastify)
-
-            // Attach user to request
-            request.user = user
+            // Verify token, or API key, and attach its user to the request
+            request.user = await authenticateBearer(authorization, fastify)
         } catch (err) {
             console.log(err)
             fastify.log.error(err, "Token validation failed")
@@ -69,6 +98,14 @@ const JWTAuthenticator: FastifyPluginAsync = async (
                 .code(401)
                 .send({ error: "Invalid authorization header" })
         }
+
+        // Routes acting on or attributing changes to the signed in user
+        // need a user
+        if (request.routeConfig?.userOnly && request.user.apiKey) {
+            return reply
+                .code(403)
+                .send({ error: "API keys can't access this route" })
+        }
     })
 
     // Helper decorator to require specific roles
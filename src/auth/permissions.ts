@@ -0,0 +1,114 @@
+import { UserRole } from "@prisma/client"
+
+/**
+ * Named permissions, granted through the built-in roles and the roles a
+ * company defines
+ */
+export const Permissions = {
+    CompaniesRead: "companies:read",
+    CompaniesEdit: "companies:edit",
+    CompaniesManage: "companies:manage",
+    BranchesRead: "branches:read",
+    BranchesEdit: "branches:edit",
+    BranchesAssign: "branches:assign",
+    JobsRead: "jobs:read",
+    JobsEdit: "jobs:edit",
+    ApplicantsRead: "applicants:read",
+    ApplicantsEdit: "applicants:edit",
+    ApplicantsManage: "applicants:manage",
+    ApplicationsRead: "applications:read",
+    ApplicationsReview: "applications:review",
+    ApplicationsHire: "applications:hire",
+    AssessmentsRead: "assessments:read",
+    AssessmentsGrade: "assessments:grade",
+    AssessmentsManage: "assessments:manage",
+    TemplatesRead: "templates:read",
+    TemplatesEdit: "templates:edit",
+    ScoringRead: "scoring:read",
+    ScoringEdit: "scoring:edit",
+    RankingsRead: "rankings:read",
+    RankingsRecalculate: "rankings:recalculate",
+    RankingsManage: "rankings:manage",
+    WebhooksRead: "webhooks:read",
+    WebhooksEdit: "webhooks:edit",
+    RolesRead: "roles:read",
+    RolesManage: "roles:manage",
+} as const
+
+export type Permission = (typeof Permissions)[keyof typeof Permissions]
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(Permissions)
+
+/**
+ * What each permission allows, as listed to the users defining roles
+ */
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+    "companies:read": "View the company",
+    "companies:edit": "Update the company's details",
+    "companies:manage": "Create and delete companies",
+    "branches:read": "View branches",
+    "branches:edit": "Create, update and delete branches",
+    "branches:assign": "Limit users to branches",
+    "jobs:read": "View jobs",
+    "jobs:edit": "Create, update and delete jobs",
+    "applicants:read": "View applicants who applied to the company",
+    "applicants:edit": "Update applicants' details",
+    "applicants:manage": "Create and delete applicants",
+    "applications:read": "View job applications and their history",
+    "applications:review": "Move job applications through the review stages",
+    "applications:hire": "Mark job applications as hired",
+    "assessments:read": "View submitted assessments and their scores",
+    "assessments:grade": "Grade and review submitted assessments",
+    "assessments:manage": "Create and delete submitted assessments",
+    "templates:read": "View assessment templates and questions",
+    "templates:edit": "Create, update and delete templates and questions",
+    "scoring:read": "View scoring configurations",
+    "scoring:edit": "Create, update, apply and delete scoring configurations",
+    "rankings:read": "View candidate rankings",
+    "rankings:recalculate": "Recalculate and invalidate candidate rankings",
+    "rankings:manage": "Delete candidate rankings",
+    "webhooks:read": "View webhook subscriptions and deliveries",
+    "webhooks:edit": "Manage webhook subscriptions and redeliver events",
+    "roles:read": "View the company's roles",
+    "roles:manage": "Define roles and assign them to users",
+}
+
+const READ_PERMISSIONS: Permission[] = [
+    Permissions.CompaniesRead,
+    Permissions.BranchesRead,
+    Permissions.JobsRead,
+    Permissions.ApplicantsRead,
+    Permissions.ApplicationsRead,
+    Permissions.AssessmentsRead,
+    Permissions.TemplatesRead,
+    Permissions.ScoringRead,
+    Permissions.RankingsRead,
+    Permissions.WebhooksRead,
+]
+
+/**
+ * Permissions of the built-in roles within the user's company. Admins are
+ * granted every permission in every company.
+ */
+export const BUILT_IN_ROLES: Record<UserRole, Permission[]> = {
+    [UserRole.ADMIN]: ALL_PERMISSIONS,
+    [UserRole.RECRUITER]: [
+        ...READ_PERMISSIONS,
+        Permissions.CompaniesEdit,
+        Permissions.BranchesEdit,
+        Permissions.JobsEdit,
+        Permissions.ApplicantsEdit,
+        Permissions.ApplicationsReview,
+        Permissions.ApplicationsHire,
+        Permissions.AssessmentsGrade,
+        Permissions.TemplatesEdit,
+        Permissions.ScoringEdit,
+        Permissions.RankingsRecalculate,
+        Permissions.WebhooksEdit,
+    ],
+    [UserRole.READONLY]: READ_PERMISSIONS,
+}
+
+export function isPermission(value: string): value is Permission {
+    return (ALL_PERMISSIONS as string[]).includes(value)
+}
@@ -1,2 +1,8 @@
 export const VERSION_PREFIX = "v1"
 export const DOCS_PREFIX = "/docs"
+/** How long a graceful shutdown may take before the process is ended */
+export const SHUTDOWN_TIMEOUT_MS = 30 * 1000
+/** How long an access token is valid, in seconds */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+/** How long a session stays signed in without being refreshed */
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
@@ -43,6 +43,8 @@ function statusCodeFromError(err: unknown): HttpStatusCode {
             return HttpStatusCode.Forbidden
         case ServiceErrorType.Forbidden:
             return HttpStatusCode.Forbidden
+        case ServiceErrorType.Conflict:
+            return HttpStatusCode.Conflict
         default:
             return HttpStatusCode.InternalServerError
     }
@@ -0,0 +1,81 @@
+import { Static } from "@sinclair/typebox"
+import { RouteHandler } from "fastify"
+import { mapToErrorResponse } from "controllers/errors"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+import {
+    ApiKeyParamsSchema,
+    CreateApiKeyRequestSchema,
+    GetApiKeysQuerySchema,
+} from "./schemas"
+
+// Get API keys, optionally of one company
+export const getApiKeys: RouteHandler<{
+    Querystring: Static<typeof GetApiKeysQuerySchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getApiKeyService()
+    try {
+        const apiKeys = await service.getApiKeys(request.query.companyId)
+        return { apiKeys }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get API keys")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get API key by ID
+export const getApiKeyById: RouteHandler<{
+    Params: Static<typeof ApiKeyParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getApiKeyService()
+    try {
+        const apiKey = await service.getApiKeyById(request.params.id)
+        return { apiKey }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get API key")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Create API key
+export const createApiKey: RouteHandler<{
+    Body: Static<typeof CreateApiKeyRequestSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getApiKeyService()
+    try {
+        const companyId = request.body.companyId ?? request.user!.companyId
+        if (!companyId) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "companyId is required",
+            )
+        }
+
+        const { expiresAt, ...body } = request.body
+        const apiKey = await service.createApiKey(
+            {
+                ...body,
+                companyId,
+                expiresAt: expiresAt ? new Date(expiresAt) : null,
+            },
+            request.user!.id,
+        )
+        return reply.code(201).send({ apiKey })
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to create API key")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Revoke API key
+export const revokeApiKey: RouteHandler<{
+    Params: Static<typeof ApiKeyParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getApiKeyService()
+    try {
+        await service.revokeApiKey(request.params.id)
+        return { message: "API key revoked successfully" }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to revoke API key")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
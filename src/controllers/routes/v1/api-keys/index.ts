@@ -0,0 +1,121 @@
+import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
+import { UserRole } from "@prisma/client"
+import {
+    ApiKeySchema,
+    ApiKeyWithSecretSchema,
+    GetApiKeysQuerySchema,
+    CreateApiKeyRequestSchema,
+    ApiKeyParamsSchema,
+    SuccessResponseSchema,
+    ErrorResponseSchema,
+} from "./schemas"
+import {
+    getApiKeys,
+    getApiKeyById,
+    createApiKey,
+    revokeApiKey,
+} from "./handlers"
+
+import jwtAuth from "auth/jwtAuth"
+
+// API keys are managed by admins only
+const apiKeysRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication middleware
+    await fastify.register(jwtAuth)
+
+    fastify.get<{
+        Querystring: Static<typeof GetApiKeysQuerySchema>
+    }>(
+        "/",
+        {
+            schema: {
+                tags: ["API Keys"],
+                summary: "List API keys",
+                querystring: GetApiKeysQuerySchema,
+                response: {
+                    200: Type.Object({
+                        apiKeys: Type.Array(ApiKeySchema),
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: fastify.requireRole([UserRole.ADMIN]),
+        },
+        getApiKeys,
+    )
+
+    fastify.post<{
+        Body: Static<typeof CreateApiKeyRequestSchema>
+    }>(
+        "/",
+        {
+            // Keys are recorded against the admin creating them
+            config: { userOnly: true },
+            schema: {
+                tags: ["API Keys"],
+                summary: "Create an API key for a company",
+                body: CreateApiKeyRequestSchema,
+                response: {
+                    201: Type.Object({
+                        apiKey: ApiKeyWithSecretSchema,
+                    }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: fastify.requireRole([UserRole.ADMIN]),
+        },
+        createApiKey,
+    )
+
+    fastify.get<{ Params: Static<typeof ApiKeyParamsSchema> }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["API Keys"],
+                summary: "Get API key by ID",
+                params: ApiKeyParamsSchema,
+                response: {
+                    200: Type.Object({
+                        apiKey: ApiKeySchema,
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: fastify.requireRole([UserRole.ADMIN]),
+        },
+        getApiKeyById,
+    )
+
+    fastify.delete<{ Params: Static<typeof ApiKeyParamsSchema> }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["API Keys"],
+                summary: "Revoke an API key",
+                params: ApiKeyParamsSchema,
+                response: {
+                    200: SuccessResponseSchema,
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: fastify.requireRole([UserRole.ADMIN]),
+        },
+        revokeApiKey,
+    )
+}
+
+export default apiKeysRoutes
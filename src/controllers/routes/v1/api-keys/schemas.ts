@@ -0,0 +1,53 @@
+import { Type } from "@sinclair/typebox"
+import { ALL_PERMISSIONS } from "auth/permissions"
+
+const ScopeSchema = Type.Union(
+    ALL_PERMISSIONS.map((permission) => Type.Literal(permission)),
+)
+
+// API key response schema (without the key)
+export const ApiKeySchema = Type.Object({
+    id: Type.String(),
+    companyId: Type.String(),
+    name: Type.String(),
+    prefix: Type.String(),
+    scopes: Type.Array(Type.String()),
+    expiresAt: Type.Union([Type.String({ format: "date-time" }), Type.Null()]),
+    lastUsedAt: Type.Union([Type.String({ format: "date-time" }), Type.Null()]),
+    revokedAt: Type.Union([Type.String({ format: "date-time" }), Type.Null()]),
+    createdAt: Type.String({ format: "date-time" }),
+    createdById: Type.Union([Type.String(), Type.Null()]),
+})
+
+// Newly created key, the only response including the key
+export const ApiKeyWithSecretSchema = Type.Object({
+    ...ApiKeySchema.properties,
+    key: Type.String(),
+})
+
+// List API keys query schema
+export const GetApiKeysQuerySchema = Type.Object({
+    companyId: Type.Optional(Type.String()),
+})
+
+// Create API key request schema
+export const CreateApiKeyRequestSchema = Type.Object({
+    companyId: Type.Optional(Type.String()),
+    name: Type.String({ minLength: 1 }),
+    scopes: Type.Array(ScopeSchema, { minItems: 1 }),
+    expiresAt: Type.Optional(Type.String({ format: "date-time" })),
+})
+
+export const ApiKeyParamsSchema = Type.Object({
+    id: Type.String(),
+})
+
+// Success response schema
+export const SuccessResponseSchema = Type.Object({
+    message: Type.String(),
+})
+
+// Error response schema
+export const ErrorResponseSchema = Type.Object({
+    error: Type.String(),
+})
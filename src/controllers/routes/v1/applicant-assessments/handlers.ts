@@ -1,9 +1,13 @@
 import { RouteHandler } from "fastify"
+import { UserRole } from "@prisma/client"
 import { mapToErrorResponse } from "controllers/errors"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
 import {
     AssessmentSubmission,
+    AttemptStart,
     AssessmentFilters,
+    AnswerGradeSubmission,
+    PendingReviewFilters,
 } from "types/applicant-assessment"
 
 // Get all assessments
@@ -15,8 +19,19 @@ export const getAssessments: RouteHandler<{
 }> = async function (this, request, reply) {
     const service = this.services.getApplicantAssessmentService()
     try {
-        const { limit, offset, ...filters } = request.query
-        const assessments = await service.getAssessments(filters, limit, offset)
+        const { limit, offset, ...rest } = request.query
+
+        // Non-admin users only ever see their own company's assessments
+        const companyId =
+            request.user?.role === UserRole.ADMIN
+                ? rest.companyId
+                : rest.companyId || request.user?.companyId || undefined
+
+        const assessments = await service.getAssessments(
+            { ...rest, companyId },
+            limit,
+            offset,
+        )
         return { assessments }
     } catch (err) {
         const resp = mapToErrorResponse(err, "Failed to get assessments")
@@ -62,6 +77,70 @@ export const submitAssessment: RouteHandler<{
     }
 }
 
+// Start or resume an assessment attempt
+export const startAttempt: RouteHandler<{
+    Body: AttemptStart
+}> = async function (this, request, reply) {
+    const service = this.services.getApplicantAssessmentService()
+    try {
+        const attempt = await service.startAttempt(request.body)
+        return reply.code(201).send({ attempt })
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to start attempt")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get assessment attempt
+export const getAttempt: RouteHandler<{
+    Params: { id: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getApplicantAssessmentService()
+    try {
+        const attempt = await service.getAttempt(request.params.id)
+        return { attempt }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get attempt")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Save answers of an assessment attempt
+export const saveAttemptAnswers: RouteHandler<{
+    Params: { id: string }
+    Body: { answers: AssessmentSubmission["answers"] }
+}> = async function (this, request, reply) {
+    const service = this.services.getApplicantAssessmentService()
+    try {
+        const attempt = await service.saveAttemptAnswers(
+            request.params.id,
+            request.body.answers,
+        )
+        return { attempt }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to save answers")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Submit assessment attempt
+export const submitAttempt: RouteHandler<{
+    Params: { id: string }
+    Body: { answers?: AssessmentSubmission["answers"] }
+}> = async function (this, request, reply) {
+    const service = this.services.getApplicantAssessmentService()
+    try {
+        const assessment = await service.submitAttempt(
+            request.params.id,
+            request.body?.answers,
+        )
+        return reply.code(201).send({ assessment })
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to submit attempt")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
 // Get assessment score
 export const getAssessmentScore: RouteHandler<{
     Params: { id: string }
@@ -112,3 +191,52 @@ export const getAssessmentStats: RouteHandler<{
         return reply.code(resp.code).send(resp.returnError())
     }
 }
+
+// Get answers waiting for rubric grading
+export const getPendingReviews: RouteHandler<{
+    Querystring: PendingReviewFilters & {
+        limit?: number
+        offset?: number
+    }
+}> = async function (this, request, reply) {
+    const service = this.services.getApplicantAssessmentService()
+    try {
+        const { limit, offset, ...rest } = request.query
+
+        // Non-admin users only ever see their own company's answers
+        const companyId =
+            request.user?.role === UserRole.ADMIN
+                ? rest.companyId
+                : rest.companyId || request.user?.companyId || undefined
+
+        const reviews = await service.getPendingReviews(
+            { ...rest, companyId },
+            limit,
+            offset,
+        )
+        return { reviews }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get pending reviews")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Grade an answer against its question's rubric
+export const gradeAssessmentAnswer: RouteHandler<{
+    Params: { id: string; answerId: string }
+    Body: AnswerGradeSubmission
+}> = async function (this, request, reply) {
+    const service = this.services.getApplicantAssessmentService()
+    try {
+        const grade = await service.gradeAnswer(
+            request.params.id,
+            request.params.answerId,
+            request.body,
+            request.user!,
+        )
+        return { grade }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to grade answer")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
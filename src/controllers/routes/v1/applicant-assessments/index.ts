@@ -1,26 +1,69 @@
 import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
 import {
     ApplicantAssessmentWithDetailsSchema,
     AssessmentSubmissionSchema,
+    AttemptStartSchema,
+    AttemptParamsSchema,
+    AttemptAnswersSchema,
+    AttemptSubmissionSchema,
+    AssessmentAttemptSchema,
     AssessmentScoreWithDetailsSchema,
     AssessmentExplanationSchema,
     AssessmentStatsSchema,
     AssessmentFiltersSchema,
     SuccessResponseSchema,
+    PendingReviewSchema,
+    PendingReviewQuerySchema,
+    AnswerGradeParamsSchema,
+    AnswerGradeRequestSchema,
+    AnswerGradeResultSchema,
     ErrorResponseSchema,
 } from "./schemas"
 import {
     getAssessments,
     getAssessmentById,
     submitAssessment,
+    startAttempt,
+    getAttempt,
+    saveAttemptAnswers,
+    submitAttempt,
     getAssessmentScore,
     getAssessmentExplanation,
     getAssessmentStats,
+    getPendingReviews,
+    gradeAssessmentAnswer,
 } from "./handlers"
+import { AssessmentFilters } from "types/applicant-assessment"
+
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetAssessments,
+    authoriseGetAssessmentById,
+    authoriseGetAssessmentScore,
+    authoriseGetAssessmentExplanation,
+    authoriseGetAssessmentStats,
+    authoriseGetPendingReviews,
+    authoriseGradeAssessmentAnswer,
+} from "auth/authorizers"
 
 const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication and authorization middleware. Applicants take
+    // their assessments without signing in, so those routes are public.
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
     // Get all assessments
-    fastify.get(
+    fastify.get<{
+        Querystring: AssessmentFilters & {
+            limit?: number
+            offset?: number
+        }
+    }>(
         "/",
         {
             schema: {
@@ -45,15 +88,19 @@ const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
                         },
                     },
                     400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetAssessments),
         },
         getAssessments,
     )
 
     // Get assessment by ID
-    fastify.get(
+    fastify.get<{
+        Params: { id: string }
+    }>(
         "/:id",
         {
             schema: {
@@ -73,10 +120,12 @@ const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
                             assessment: ApplicantAssessmentWithDetailsSchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetAssessmentById),
         },
         getAssessmentById,
     )
@@ -85,6 +134,7 @@ const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.post(
         "/",
         {
+            config: { public: true },
             schema: {
                 tags: ["Applicant Assessments"],
                 summary: "Submit assessment",
@@ -104,8 +154,101 @@ const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
         submitAssessment,
     )
 
+    // Start an assessment attempt
+    fastify.post<{ Body: Static<typeof AttemptStartSchema> }>(
+        "/attempts",
+        {
+            config: { public: true },
+            schema: {
+                tags: ["Applicant Assessments"],
+                summary: "Start or resume an assessment attempt",
+                body: AttemptStartSchema,
+                response: {
+                    201: Type.Object({ attempt: AssessmentAttemptSchema }),
+                    400: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        startAttempt,
+    )
+
+    // Get an assessment attempt
+    fastify.get<{ Params: Static<typeof AttemptParamsSchema> }>(
+        "/attempts/:id",
+        {
+            config: { public: true },
+            schema: {
+                tags: ["Applicant Assessments"],
+                summary: "Get an assessment attempt",
+                params: AttemptParamsSchema,
+                response: {
+                    200: Type.Object({ attempt: AssessmentAttemptSchema }),
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        getAttempt,
+    )
+
+    // Save answers of an assessment attempt
+    fastify.put<{
+        Params: Static<typeof AttemptParamsSchema>
+        Body: Static<typeof AttemptAnswersSchema>
+    }>(
+        "/attempts/:id/answers",
+        {
+            config: { public: true },
+            schema: {
+                tags: ["Applicant Assessments"],
+                summary: "Save answers of an assessment attempt",
+                params: AttemptParamsSchema,
+                body: AttemptAnswersSchema,
+                response: {
+                    200: Type.Object({ attempt: AssessmentAttemptSchema }),
+                    400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        saveAttemptAnswers,
+    )
+
+    // Submit an assessment attempt
+    fastify.post<{
+        Params: Static<typeof AttemptParamsSchema>
+        Body: Static<typeof AttemptSubmissionSchema>
+    }>(
+        "/attempts/:id/submit",
+        {
+            config: { public: true },
+            schema: {
+                tags: ["Applicant Assessments"],
+                summary: "Submit an assessment attempt",
+                params: AttemptParamsSchema,
+                body: AttemptSubmissionSchema,
+                response: {
+                    201: Type.Object({
+                        assessment: ApplicantAssessmentWithDetailsSchema,
+                    }),
+                    400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        submitAttempt,
+    )
+
     // Get assessment score
-    fastify.get(
+    fastify.get<{
+        Params: { id: string }
+    }>(
         "/:id/score",
         {
             schema: {
@@ -125,16 +268,20 @@ const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
                             score: AssessmentScoreWithDetailsSchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetAssessmentScore),
         },
         getAssessmentScore,
     )
 
     // Get assessment explanation
-    fastify.get(
+    fastify.get<{
+        Params: { id: string }
+    }>(
         "/:id/explanation",
         {
             schema: {
@@ -154,16 +301,25 @@ const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
                             explanation: AssessmentExplanationSchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(
+                authoriseGetAssessmentExplanation,
+            ),
         },
         getAssessmentExplanation,
     )
 
     // Get assessment stats
-    fastify.get(
+    fastify.get<{
+        Querystring: {
+            templateId?: string
+            jobId?: string
+        }
+    }>(
         "/stats",
         {
             schema: {
@@ -183,12 +339,67 @@ const applicantAssessmentsRoutes: FastifyPluginAsync = async (fastify) => {
                             stats: AssessmentStatsSchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetAssessmentStats),
         },
         getAssessmentStats,
     )
+
+    // Get answers waiting for rubric grading
+    fastify.get<{
+        Querystring: Static<typeof PendingReviewQuerySchema>
+    }>(
+        "/reviews",
+        {
+            schema: {
+                tags: ["Applicant Assessments"],
+                summary: "List answers waiting for rubric grading",
+                querystring: PendingReviewQuerySchema,
+                response: {
+                    200: Type.Object({
+                        reviews: Type.Array(PendingReviewSchema),
+                    }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(authoriseGetPendingReviews),
+        },
+        getPendingReviews,
+    )
+
+    // Grade an answer against its question's rubric
+    fastify.put<{
+        Params: Static<typeof AnswerGradeParamsSchema>
+        Body: Static<typeof AnswerGradeRequestSchema>
+    }>(
+        "/:id/answers/:answerId/grade",
+        {
+            // Grades are recorded against the grading user
+            config: { userOnly: true },
+            schema: {
+                tags: ["Applicant Assessments"],
+                summary: "Grade an answer against its rubric",
+                params: AnswerGradeParamsSchema,
+                body: AnswerGradeRequestSchema,
+                response: {
+                    200: Type.Object({ grade: AnswerGradeResultSchema }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseGradeAssessmentAnswer),
+        },
+        gradeAssessmentAnswer,
+    )
 }
 
 export default applicantAssessmentsRoutes
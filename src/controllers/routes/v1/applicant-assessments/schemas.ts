@@ -1,4 +1,5 @@
 import { Type } from "@sinclair/typebox"
+import { AnswerReviewStatus } from "@prisma/client"
 
 // Base Assessment Schema
 export const ApplicantAssessmentSchema = Type.Object({
@@ -6,6 +7,10 @@ export const ApplicantAssessmentSchema = Type.Object({
     applicantId: Type.String(),
     templateId: Type.String(),
     submittedAt: Type.String({ format: "date-time" }),
+    startedAt: Type.Union([Type.String({ format: "date-time" }), Type.Null()]),
+    timeTakenSeconds: Type.Union([Type.Number(), Type.Null()]),
+    isLate: Type.Boolean(),
+    latePenaltyPercent: Type.Union([Type.Number(), Type.Null()]),
 })
 
 // Assessment with Details Schema
@@ -52,27 +57,77 @@ export const ApplicantAssessmentWithDetailsSchema = Type.Object({
         Type.Object({
             id: Type.String(),
             answer: Type.Union([Type.String(), Type.Null()]),
+            selectedOptions: Type.Array(Type.String()),
             isCorrect: Type.Boolean(),
+            credit: Type.Number(),
+            reviewStatus: Type.Enum(AnswerReviewStatus),
+            gradedAt: Type.Union([
+                Type.String({ format: "date-time" }),
+                Type.Null(),
+            ]),
             question: Type.Object({
                 id: Type.String(),
                 text: Type.String(),
                 type: Type.String(),
                 weight: Type.Number(),
                 correctAnswer: Type.Union([Type.String(), Type.Null()]),
+                correctOptions: Type.Array(Type.String()),
             }),
         }),
     ),
 })
 
+const SubmittedAnswerSchema = Type.Object({
+    questionId: Type.String(),
+    answer: Type.Optional(Type.String()),
+    selectedOptions: Type.Optional(Type.Array(Type.String(), { maxItems: 20 })),
+})
+
 // Assessment Submission Schema
 export const AssessmentSubmissionSchema = Type.Object({
     applicantId: Type.String(),
     templateId: Type.String(),
     jobId: Type.String(),
+    answers: Type.Array(SubmittedAnswerSchema),
+})
+
+// Assessment Attempt Schemas
+export const AttemptStartSchema = Type.Object({
+    applicantId: Type.String(),
+    templateId: Type.String(),
+    jobId: Type.String(),
+})
+
+export const AttemptParamsSchema = Type.Object({
+    id: Type.String(),
+})
+
+export const AttemptAnswersSchema = Type.Object({
+    answers: Type.Array(SubmittedAnswerSchema, { minItems: 1 }),
+})
+
+export const AttemptSubmissionSchema = Type.Object({
+    answers: Type.Optional(Type.Array(SubmittedAnswerSchema)),
+})
+
+export const AssessmentAttemptSchema = Type.Object({
+    id: Type.String(),
+    applicantId: Type.String(),
+    templateId: Type.String(),
+    jobId: Type.String(),
+    assessmentId: Type.Union([Type.String(), Type.Null()]),
+    startedAt: Type.String({ format: "date-time" }),
+    expiresAt: Type.Union([Type.String({ format: "date-time" }), Type.Null()]),
+    submittedAt: Type.Union([
+        Type.String({ format: "date-time" }),
+        Type.Null(),
+    ]),
     answers: Type.Array(
         Type.Object({
             questionId: Type.String(),
-            answer: Type.String(),
+            answer: Type.Union([Type.String(), Type.Null()]),
+            selectedOptions: Type.Array(Type.String()),
+            savedAt: Type.String({ format: "date-time" }),
         }),
     ),
 })
@@ -93,16 +148,27 @@ export const AssessmentScoreSchema = Type.Object({
             count: Type.Number(),
             points: Type.Number(),
         }),
+        partialAnswers: Type.Object({
+            count: Type.Number(),
+            points: Type.Number(),
+        }),
         incorrectAnswers: Type.Object({
             count: Type.Number(),
             points: Type.Number(),
         }),
+        pendingReviews: Type.Number(),
         recencyBonus: Type.Optional(
             Type.Object({
                 percentage: Type.Number(),
                 points: Type.Number(),
             }),
         ),
+        latePenalty: Type.Optional(
+            Type.Object({
+                percentage: Type.Number(),
+                points: Type.Number(),
+            }),
+        ),
     }),
     explanation: Type.Array(Type.String()),
 })
@@ -138,14 +204,18 @@ export const AssessmentExplanationSchema = Type.Object({
         totalQuestions: Type.Number(),
         answeredQuestions: Type.Number(),
         correctAnswers: Type.Number(),
+        partialAnswers: Type.Number(),
         incorrectAnswers: Type.Number(),
+        pendingReviews: Type.Number(),
         timeTaken: Type.Number(),
+        isLate: Type.Boolean(),
         submittedAt: Type.String({ format: "date-time" }),
     }),
     scoring: Type.Object({
         baseScore: Type.Number(),
         negativeMarking: Type.Number(),
         recencyBonus: Type.Number(),
+        latePenalty: Type.Number(),
         finalScore: Type.Number(),
         maxPossibleScore: Type.Number(),
     }),
@@ -155,12 +225,86 @@ export const AssessmentExplanationSchema = Type.Object({
             weight: Type.Number(),
             answer: Type.String(),
             isCorrect: Type.Boolean(),
+            credit: Type.Number(),
+            reviewStatus: Type.Enum(AnswerReviewStatus),
             points: Type.Number(),
             explanation: Type.String(),
         }),
     ),
 })
 
+// Pending Review Schema
+export const PendingReviewSchema = Type.Object({
+    answerId: Type.String(),
+    answer: Type.Union([Type.String(), Type.Null()]),
+    assessmentId: Type.String(),
+    applicantId: Type.String(),
+    jobId: Type.String(),
+    companyId: Type.String(),
+    submittedAt: Type.String({ format: "date-time" }),
+    question: Type.Object({
+        id: Type.String(),
+        text: Type.String(),
+        weight: Type.Number(),
+        rubric: Type.Array(
+            Type.Object({
+                id: Type.String(),
+                description: Type.String(),
+                points: Type.Number(),
+                order: Type.Number(),
+            }),
+        ),
+    }),
+})
+
+export const PendingReviewQuerySchema = Type.Object({
+    jobId: Type.Optional(Type.String({ format: "uuid" })),
+    companyId: Type.Optional(Type.String({ format: "uuid" })),
+    assessmentId: Type.Optional(Type.String({ format: "uuid" })),
+    limit: Type.Optional(Type.Number({ minimum: 1, maximum: 100 })),
+    offset: Type.Optional(Type.Number({ minimum: 0 })),
+})
+
+// Answer Grade Schemas
+export const AnswerGradeParamsSchema = Type.Object({
+    id: Type.String(),
+    answerId: Type.String(),
+})
+
+export const AnswerGradeRequestSchema = Type.Object({
+    scores: Type.Array(
+        Type.Object({
+            criterionId: Type.String(),
+            points: Type.Number(),
+        }),
+        { maxItems: 20 },
+    ),
+})
+
+export const AnswerGradeResultSchema = Type.Object({
+    assessmentId: Type.String(),
+    answer: Type.Object({
+        id: Type.String(),
+        questionId: Type.String(),
+        isCorrect: Type.Boolean(),
+        credit: Type.Number(),
+        reviewStatus: Type.Enum(AnswerReviewStatus),
+        gradedAt: Type.Union([
+            Type.String({ format: "date-time" }),
+            Type.Null(),
+        ]),
+        gradedById: Type.Union([Type.String(), Type.Null()]),
+        rubricScores: Type.Array(
+            Type.Object({
+                criterionId: Type.String(),
+                points: Type.Number(),
+            }),
+        ),
+    }),
+    pendingReviews: Type.Number(),
+    scoreChanged: Type.Boolean(),
+})
+
 // Assessment Stats Schema
 export const AssessmentStatsSchema = Type.Object({
     totalAssessments: Type.Number(),
@@ -1,3 +1,4 @@
+import { UserRole } from "@prisma/client"
 import {
     ApplicantCreate,
     ApplicantUpdate,
@@ -17,13 +18,25 @@ export const getApplicants: RouteHandler<{
         country?: string
         hasAssessments?: boolean
         hasApplications?: boolean
+        companyId?: string
     }
 }> = async function (this, request, reply) {
     const service = this.services.getApplicantService()
     try {
-        const { limit, offset, ...filters } = request.query
+        const { limit, offset, ...rest } = request.query
+
+        // Non-admin users only ever see their own company's applicants, and
+        // those of their branches when assigned to any
+        const companyId =
+            request.user?.role === UserRole.ADMIN
+                ? rest.companyId
+                : rest.companyId || request.user?.companyId || undefined
+        const branchIds = request.user?.branchIds?.length
+            ? request.user.branchIds
+            : undefined
+
         const applicants = await service.getApplicants(
-            filters as ApplicantFilters,
+            { ...rest, companyId, branchIds } as ApplicantFilters,
             limit,
             offset,
         )
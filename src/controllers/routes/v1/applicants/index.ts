@@ -14,7 +14,23 @@ import {
     deleteApplicantSchema,
 } from "./schemas"
 
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetApplicants,
+    authoriseGetApplicantById,
+    authoriseUpdateApplicant,
+    authoriseDeleteApplicant,
+} from "auth/authorizers"
+
 const applicants: FastifyPluginAsync = async (fastify): Promise<void> => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
     // Get all applicants with filters
     fastify.get("/", {
         schema: {
@@ -22,6 +38,7 @@ const applicants: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Applicants"],
             summary: "List applicants with search & filters",
         },
+        preSerialization: createGetAuthorizer(authoriseGetApplicants),
         handler: getApplicants,
     })
 
@@ -32,11 +49,13 @@ const applicants: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Applicants"],
             summary: "Get applicant details",
         },
+        preSerialization: createGetAuthorizer(authoriseGetApplicantById),
         handler: getApplicantById,
     })
 
-    // Create applicant
+    // Create applicant, public as applicants register themselves
     fastify.post("/", {
+        config: { public: true },
         schema: {
             ...createApplicantSchema,
             tags: ["Applicants"],
@@ -52,6 +71,7 @@ const applicants: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Applicants"],
             summary: "Update applicant",
         },
+        preHandler: createAuthorizer(authoriseUpdateApplicant),
         handler: updateApplicant,
     })
 
@@ -62,6 +82,7 @@ const applicants: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Applicants"],
             summary: "Delete applicant",
         },
+        preHandler: createAuthorizer(authoriseDeleteApplicant),
         handler: deleteApplicant,
     })
 }
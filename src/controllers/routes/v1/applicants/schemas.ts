@@ -94,6 +94,7 @@ export const getApplicantsSchema: FastifySchema = {
             country: { type: "string" },
             hasAssessments: { type: "boolean" },
             hasApplications: { type: "boolean" },
+            companyId: { type: "string" },
         },
     },
     response: {
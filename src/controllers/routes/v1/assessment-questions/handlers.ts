@@ -77,11 +77,11 @@ export const updateQuestion: RouteHandler<{
 }> = async function (this, request, reply) {
     const service = this.services.getAssessmentQuestionService()
     try {
-        const question = await service.updateQuestion(
+        const { question, regrade } = await service.updateQuestion(
             request.params.id,
             request.body,
         )
-        return { question }
+        return { question, regrade }
     } catch (err) {
         const resp = mapToErrorResponse(err, "Failed to update question")
         return reply.code(resp.code).send(resp.returnError())
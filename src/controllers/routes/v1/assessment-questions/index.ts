@@ -7,6 +7,7 @@ import {
     SuccessResponseSchema,
     ErrorResponseSchema,
     AnswerDistributionSchema,
+    AnswerRegradeSummarySchema,
 } from "./schemas"
 import {
     getQuestions,
@@ -16,10 +17,34 @@ import {
     deleteQuestion,
     getAnswerDistribution,
 } from "./handlers"
+import {
+    AssessmentQuestionCreate,
+    AssessmentQuestionUpdate,
+} from "types/assessment"
+
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetQuestions,
+    authoriseGetQuestionById,
+    authoriseCreateQuestion,
+    authoriseUpdateQuestion,
+    authoriseDeleteQuestion,
+    authoriseGetAnswerDistribution,
+} from "auth/authorizers"
 
 const assessmentQuestionsRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
     // Get all questions (with optional templateId filter)
-    fastify.get(
+    fastify.get<{
+        Querystring: { templateId?: string }
+    }>(
         "/",
         {
             schema: {
@@ -42,15 +67,19 @@ const assessmentQuestionsRoutes: FastifyPluginAsync = async (fastify) => {
                         },
                     },
                     400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetQuestions),
         },
         getQuestions,
     )
 
     // Get question by ID
-    fastify.get(
+    fastify.get<{
+        Params: { id: string }
+    }>(
         "/:id",
         {
             schema: {
@@ -70,16 +99,20 @@ const assessmentQuestionsRoutes: FastifyPluginAsync = async (fastify) => {
                             question: AssessmentQuestionWithDetailsSchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetQuestionById),
         },
         getQuestionById,
     )
 
     // Create question
-    fastify.post(
+    fastify.post<{
+        Body: AssessmentQuestionCreate
+    }>(
         "/",
         {
             schema: {
@@ -94,15 +127,20 @@ const assessmentQuestionsRoutes: FastifyPluginAsync = async (fastify) => {
                         },
                     },
                     400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseCreateQuestion),
         },
         createQuestion,
     )
 
     // Update question
-    fastify.put(
+    fastify.put<{
+        Params: { id: string }
+        Body: AssessmentQuestionUpdate
+    }>(
         "/:id",
         {
             schema: {
@@ -121,18 +159,23 @@ const assessmentQuestionsRoutes: FastifyPluginAsync = async (fastify) => {
                         type: "object",
                         properties: {
                             question: AssessmentQuestionSchema,
+                            regrade: AnswerRegradeSummarySchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseUpdateQuestion),
         },
         updateQuestion,
     )
 
     // Delete question
-    fastify.delete(
+    fastify.delete<{
+        Params: { id: string }
+    }>(
         "/:id",
         {
             schema: {
@@ -147,16 +190,20 @@ const assessmentQuestionsRoutes: FastifyPluginAsync = async (fastify) => {
                 },
                 response: {
                     200: SuccessResponseSchema,
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseDeleteQuestion),
         },
         deleteQuestion,
     )
 
     // Get answer distribution for a question
-    fastify.get(
+    fastify.get<{
+        Params: { id: string }
+    }>(
         "/:id/answers",
         {
             schema: {
@@ -176,10 +223,14 @@ const assessmentQuestionsRoutes: FastifyPluginAsync = async (fastify) => {
                             distribution: AnswerDistributionSchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(
+                authoriseGetAnswerDistribution,
+            ),
         },
         getAnswerDistribution,
     )
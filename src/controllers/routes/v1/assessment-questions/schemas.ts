@@ -1,5 +1,35 @@
 import { Type } from "@sinclair/typebox"
-import { QuestionType } from "@prisma/client"
+import {
+    AnswerReviewStatus,
+    PartialCreditMode,
+    QuestionType,
+    TextMatchMode,
+} from "@prisma/client"
+
+// Rubric Criterion Schemas
+export const RubricCriterionSchema = Type.Object({
+    id: Type.String(),
+    description: Type.String(),
+    points: Type.Number(),
+    order: Type.Number(),
+})
+
+export const RubricCriterionRequestSchema = Type.Object({
+    description: Type.String({ minLength: 1 }),
+    points: Type.Number({ exclusiveMinimum: 0 }),
+})
+
+// Answer matching rules for TEXT questions
+export const TextMatchingRequestSchema = Type.Object({
+    matchMode: Type.Optional(Type.Enum(TextMatchMode)),
+    acceptedAnswers: Type.Optional(Type.Array(Type.String(), { maxItems: 20 })),
+    matchPattern: Type.Optional(
+        Type.Union([Type.String({ maxLength: 500 }), Type.Null()]),
+    ),
+    keywords: Type.Optional(Type.Array(Type.String(), { maxItems: 20 })),
+    keywordThreshold: Type.Optional(Type.Union([Type.Number(), Type.Null()])),
+    numericTolerance: Type.Optional(Type.Union([Type.Number(), Type.Null()])),
+})
 
 // Base Assessment Question Schema
 export const AssessmentQuestionSchema = Type.Object({
@@ -10,11 +40,25 @@ export const AssessmentQuestionSchema = Type.Object({
         Type.Literal(QuestionType.MULTIPLE_CHOICE),
         Type.Literal(QuestionType.TRUE_FALSE),
         Type.Literal(QuestionType.TEXT),
+        Type.Literal(QuestionType.MULTI_SELECT),
     ]),
     weight: Type.Number(),
     order: Type.Number(),
+    options: Type.Array(Type.String()),
     correctAnswer: Type.Union([Type.String(), Type.Null()]),
+    correctOptions: Type.Array(Type.String()),
+    partialCredit: Type.Union([
+        Type.Literal(PartialCreditMode.ALL_OR_NOTHING),
+        Type.Literal(PartialCreditMode.PROPORTIONAL),
+    ]),
     negativeWeight: Type.Union([Type.Number(), Type.Null()]),
+    matchMode: Type.Enum(TextMatchMode),
+    acceptedAnswers: Type.Array(Type.String()),
+    matchPattern: Type.Union([Type.String(), Type.Null()]),
+    keywords: Type.Array(Type.String()),
+    keywordThreshold: Type.Union([Type.Number(), Type.Null()]),
+    numericTolerance: Type.Union([Type.Number(), Type.Null()]),
+    rubric: Type.Array(RubricCriterionSchema),
     createdAt: Type.String({ format: "date-time" }),
 })
 
@@ -44,7 +88,10 @@ export const AssessmentQuestionWithDetailsSchema = Type.Object({
         Type.Object({
             id: Type.String(),
             answer: Type.Union([Type.String(), Type.Null()]),
+            selectedOptions: Type.Array(Type.String()),
             isCorrect: Type.Boolean(),
+            credit: Type.Number(),
+            reviewStatus: Type.Enum(AnswerReviewStatus),
             assessment: Type.Object({
                 id: Type.String(),
                 applicant: Type.Object({
@@ -67,12 +114,25 @@ export const CreateAssessmentQuestionRequestSchema = Type.Object({
             Type.Literal(QuestionType.MULTIPLE_CHOICE),
             Type.Literal(QuestionType.TRUE_FALSE),
             Type.Literal(QuestionType.TEXT),
+            Type.Literal(QuestionType.MULTI_SELECT),
         ]),
     ),
     weight: Type.Optional(Type.Number()),
     order: Type.Optional(Type.Number()),
+    options: Type.Optional(Type.Array(Type.String(), { maxItems: 20 })),
     correctAnswer: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    correctOptions: Type.Optional(Type.Array(Type.String(), { maxItems: 20 })),
+    partialCredit: Type.Optional(
+        Type.Union([
+            Type.Literal(PartialCreditMode.ALL_OR_NOTHING),
+            Type.Literal(PartialCreditMode.PROPORTIONAL),
+        ]),
+    ),
     negativeWeight: Type.Optional(Type.Union([Type.Number(), Type.Null()])),
+    ...TextMatchingRequestSchema.properties,
+    rubric: Type.Optional(
+        Type.Array(RubricCriterionRequestSchema, { maxItems: 20 }),
+    ),
 })
 
 // Update Assessment Question Request Schema
@@ -83,14 +143,40 @@ export const UpdateAssessmentQuestionRequestSchema = Type.Object({
             Type.Literal(QuestionType.MULTIPLE_CHOICE),
             Type.Literal(QuestionType.TRUE_FALSE),
             Type.Literal(QuestionType.TEXT),
+            Type.Literal(QuestionType.MULTI_SELECT),
         ]),
     ),
     weight: Type.Optional(Type.Number()),
     order: Type.Optional(Type.Number()),
+    options: Type.Optional(Type.Array(Type.String(), { maxItems: 20 })),
     correctAnswer: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    correctOptions: Type.Optional(Type.Array(Type.String(), { maxItems: 20 })),
+    partialCredit: Type.Optional(
+        Type.Union([
+            Type.Literal(PartialCreditMode.ALL_OR_NOTHING),
+            Type.Literal(PartialCreditMode.PROPORTIONAL),
+        ]),
+    ),
     negativeWeight: Type.Optional(Type.Union([Type.Number(), Type.Null()])),
+    ...TextMatchingRequestSchema.properties,
+    rubric: Type.Optional(
+        Type.Array(RubricCriterionRequestSchema, { maxItems: 20 }),
+    ),
 })
 
+// Answer Regrade Summary Schema, null when the update can't change scores
+export const AnswerRegradeSummarySchema = Type.Union([
+    Type.Object({
+        evaluated: Type.Number(),
+        changed: Type.Number(),
+        flipped: Type.Number(),
+        nowCorrect: Type.Number(),
+        nowIncorrect: Type.Number(),
+        affectedJobIds: Type.Array(Type.String()),
+    }),
+    Type.Null(),
+])
+
 // Success Response Schema
 export const SuccessResponseSchema = Type.Object({
     success: Type.Boolean(),
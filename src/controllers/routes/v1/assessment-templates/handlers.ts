@@ -1,3 +1,4 @@
+import { UserRole } from "@prisma/client"
 import {
     AssessmentTemplateCreate,
     AssessmentTemplateUpdate,
@@ -16,13 +17,21 @@ export const getAssessmentTemplates: RouteHandler<{
         search?: string
         hasQuestions?: boolean
         hasAssessments?: boolean
+        companyId?: string
     }
 }> = async function (this, request, reply) {
     const service = this.services.getAssessmentTemplateService()
     try {
-        const { limit, offset, ...filters } = request.query
+        const { limit, offset, ...rest } = request.query
+
+        // Non-admin users only ever see their own company's and shared templates
+        const companyId =
+            request.user?.role === UserRole.ADMIN
+                ? rest.companyId
+                : rest.companyId || request.user?.companyId || undefined
+
         const templates = await service.getAssessmentTemplates(
-            filters as AssessmentTemplateFilters,
+            { ...rest, companyId } as AssessmentTemplateFilters,
             limit,
             offset,
         )
@@ -155,9 +164,13 @@ export const getAssessmentTemplateStats: RouteHandler<{
 }> = async function (this, request, reply) {
     const service = this.services.getAssessmentTemplateService()
     try {
-        const stats = await service.getAssessmentTemplateStats(
-            request.query.companyId,
-        )
+        // Non-admin users only ever see their own company's statistics
+        const companyId =
+            request.user?.role === UserRole.ADMIN
+                ? request.query.companyId
+                : request.query.companyId || request.user?.companyId || undefined
+
+        const stats = await service.getAssessmentTemplateStats(companyId)
         return { stats }
     } catch (err) {
         const resp = mapToErrorResponse(
@@ -18,9 +18,28 @@ import {
     getAssessmentTemplateStatsSchema,
 } from "./schemas"
 
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetAssessmentTemplates,
+    authoriseGetAssessmentTemplateById,
+    authoriseCreateAssessmentTemplate,
+    authoriseUpdateAssessmentTemplate,
+    authoriseDeleteAssessmentTemplate,
+    authoriseCloneAssessmentTemplate,
+    authoriseGetAssessmentTemplateStats,
+} from "auth/authorizers"
+
 const assessmentTemplates: FastifyPluginAsync = async (
     fastify,
 ): Promise<void> => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
     // Get all assessment templates with filters
     fastify.get("/", {
         schema: {
@@ -28,6 +47,7 @@ const assessmentTemplates: FastifyPluginAsync = async (
             tags: ["Assessment Templates"],
             summary: "List assessment templates",
         },
+        preSerialization: createGetAuthorizer(authoriseGetAssessmentTemplates),
         handler: getAssessmentTemplates,
     })
 
@@ -38,6 +58,9 @@ const assessmentTemplates: FastifyPluginAsync = async (
             tags: ["Assessment Templates"],
             summary: "Get assessment template details",
         },
+        preSerialization: createGetAuthorizer(
+            authoriseGetAssessmentTemplateById,
+        ),
         handler: getAssessmentTemplateById,
     })
 
@@ -48,6 +71,7 @@ const assessmentTemplates: FastifyPluginAsync = async (
             tags: ["Assessment Templates"],
             summary: "Create assessment template",
         },
+        preHandler: createAuthorizer(authoriseCreateAssessmentTemplate),
         handler: createAssessmentTemplate,
     })
 
@@ -58,6 +82,7 @@ const assessmentTemplates: FastifyPluginAsync = async (
             tags: ["Assessment Templates"],
             summary: "Update assessment template",
         },
+        preHandler: createAuthorizer(authoriseUpdateAssessmentTemplate),
         handler: updateAssessmentTemplate,
     })
 
@@ -68,6 +93,7 @@ const assessmentTemplates: FastifyPluginAsync = async (
             tags: ["Assessment Templates"],
             summary: "Delete assessment template",
         },
+        preHandler: createAuthorizer(authoriseDeleteAssessmentTemplate),
         handler: deleteAssessmentTemplate,
     })
 
@@ -78,6 +104,7 @@ const assessmentTemplates: FastifyPluginAsync = async (
             tags: ["Assessment Templates"],
             summary: "Clone assessment template",
         },
+        preHandler: createAuthorizer(authoriseCloneAssessmentTemplate),
         handler: cloneAssessmentTemplate,
     })
 
@@ -88,6 +115,9 @@ const assessmentTemplates: FastifyPluginAsync = async (
             tags: ["Assessment Templates"],
             summary: "Get assessment template statistics",
         },
+        preSerialization: createGetAuthorizer(
+            authoriseGetAssessmentTemplateStats,
+        ),
         handler: getAssessmentTemplateStats,
     })
 }
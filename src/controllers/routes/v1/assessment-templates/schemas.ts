@@ -1,15 +1,40 @@
 import { FastifySchema } from "fastify"
-import { QuestionType } from "@prisma/client"
+import {
+    LateSubmissionPolicy,
+    PartialCreditMode,
+    QuestionType,
+} from "@prisma/client"
 
 const templateProperties = {
     id: { type: "string" },
     name: { type: "string" },
     description: { type: "string", nullable: true },
+    timeLimitMinutes: { type: "integer", nullable: true },
+    lateSubmissionPolicy: {
+        type: "string",
+        enum: Object.values(LateSubmissionPolicy),
+    },
+    latePenaltyPercent: { type: "number", nullable: true },
     jobId: { type: "string", nullable: true },
     createdAt: { type: "string", format: "date-time" },
     updatedAt: { type: "string", format: "date-time" },
 }
 
+// Settings for timed assessments, accepted on create and update
+const timingProperties = {
+    timeLimitMinutes: { type: "integer", minimum: 1, nullable: true },
+    lateSubmissionPolicy: {
+        type: "string",
+        enum: Object.values(LateSubmissionPolicy),
+    },
+    latePenaltyPercent: {
+        type: "number",
+        minimum: 0,
+        maximum: 100,
+        nullable: true,
+    },
+}
+
 const jobProperties = {
     id: { type: "string" },
     title: { type: "string" },
@@ -38,7 +63,10 @@ const questionProperties = {
     type: { type: "string", enum: Object.values(QuestionType) },
     weight: { type: "number" },
     order: { type: "number" },
+    options: { type: "array", items: { type: "string" } },
     correctAnswer: { type: "string", nullable: true },
+    correctOptions: { type: "array", items: { type: "string" } },
+    partialCredit: { type: "string", enum: Object.values(PartialCreditMode) },
     negativeWeight: { type: "number", nullable: true },
 }
 
@@ -67,6 +95,7 @@ export const getAssessmentTemplatesSchema: FastifySchema = {
             search: { type: "string" },
             hasQuestions: { type: "boolean" },
             hasAssessments: { type: "boolean" },
+            companyId: { type: "string" },
         },
     },
     response: {
@@ -194,6 +223,7 @@ export const createAssessmentTemplateSchema: FastifySchema = {
         properties: {
             name: { type: "string" },
             description: { type: "string", nullable: true },
+            ...timingProperties,
             jobId: { type: "string", nullable: true },
         },
         required: ["name"],
@@ -226,6 +256,7 @@ export const updateAssessmentTemplateSchema: FastifySchema = {
         properties: {
             name: { type: "string" },
             description: { type: "string", nullable: true },
+            ...timingProperties,
         },
         minProperties: 1,
     },
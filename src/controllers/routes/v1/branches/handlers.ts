@@ -3,6 +3,12 @@ import { BranchCreateRequest, BranchUpdate } from "types/company"
 import { mapToErrorResponse } from "controllers/errors"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
 import { RouteHandler } from "fastify"
+import { Static } from "@sinclair/typebox"
+import {
+    AssignBranchUserRequestSchema,
+    BranchParamsSchema,
+    BranchUserParamsSchema,
+} from "./schemas"
 
 // Get all branches
 export const getBranches: RouteHandler<{
@@ -99,3 +105,52 @@ export const deleteBranch: RouteHandler<{
         return reply.code(resp.code).send(resp.returnError())
     }
 }
+
+// Get the users assigned to a branch
+export const getBranchUsers: RouteHandler<{
+    Params: Static<typeof BranchParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getBranchAssignmentService()
+    try {
+        const users = await service.getBranchUsers(request.params.id)
+        return { users }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get branch users")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Assign a user to a branch
+export const assignBranchUser: RouteHandler<{
+    Params: Static<typeof BranchParamsSchema>
+    Body: Static<typeof AssignBranchUserRequestSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getBranchAssignmentService()
+    try {
+        const assignment = await service.assignUser(
+            request.params.id,
+            request.body.userId,
+        )
+        return reply.code(201).send({ assignment })
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to assign user to branch")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Remove a user from a branch
+export const unassignBranchUser: RouteHandler<{
+    Params: Static<typeof BranchUserParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getBranchAssignmentService()
+    try {
+        await service.unassignUser(request.params.id, request.params.userId)
+        return { message: "User removed from branch successfully" }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to remove user from branch",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
@@ -1,10 +1,16 @@
 import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
+import { BranchCreateRequest, BranchUpdate } from "types/company"
 import {
     BranchSchema,
     BranchWithCompanySchema,
     CreateBranchRequestSchema,
     CreateBranchResponseSchema,
     UpdateBranchRequestSchema,
+    BranchUserSchema,
+    AssignBranchUserRequestSchema,
+    BranchParamsSchema,
+    BranchUserParamsSchema,
     SuccessResponseSchema,
     ErrorResponseSchema,
 } from "./schemas"
@@ -14,10 +20,24 @@ import {
     createBranch,
     updateBranch,
     deleteBranch,
+    getBranchUsers,
+    assignBranchUser,
+    unassignBranchUser,
 } from "./handlers"
 
 import jwtAuth from "auth/jwtAuth"
-import Authorisation from "auth/authorisation"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseCreateBranch,
+    authoriseGetBranches,
+    authoriseGetBranchById,
+    authoriseUpdateBranch,
+    authoriseDeleteBranch,
+    authoriseBranchUsers,
+} from "auth/authorizers"
 
 const branchesRoutes: FastifyPluginAsync = async (fastify) => {
     // Register authentication and authorization middleware
@@ -25,7 +45,9 @@ const branchesRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.register(Authorisation)
 
     // Branch management routes (authenticated)
-    fastify.get(
+    fastify.get<{
+        Querystring: { limit?: number; offset?: number; companyId?: string }
+    }>(
         "/",
         {
             schema: {
@@ -59,11 +81,12 @@ const branchesRoutes: FastifyPluginAsync = async (fastify) => {
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetBranches),
         },
         getBranches,
     )
 
-    fastify.get(
+    fastify.get<{ Params: { id: string } }>(
         "/:id",
         {
             schema: {
@@ -84,11 +107,12 @@ const branchesRoutes: FastifyPluginAsync = async (fastify) => {
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetBranchById),
         },
         getBranchById,
     )
 
-    fastify.post(
+    fastify.post<{ Body: BranchCreateRequest }>(
         "/",
         {
             schema: {
@@ -105,11 +129,12 @@ const branchesRoutes: FastifyPluginAsync = async (fastify) => {
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseCreateBranch),
         },
         createBranch,
     )
 
-    fastify.put(
+    fastify.put<{ Params: { id: string }; Body: BranchUpdate }>(
         "/:id",
         {
             schema: {
@@ -132,11 +157,12 @@ const branchesRoutes: FastifyPluginAsync = async (fastify) => {
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseUpdateBranch),
         },
         updateBranch,
     )
 
-    fastify.delete(
+    fastify.delete<{ Params: { id: string } }>(
         "/:id",
         {
             schema: {
@@ -158,9 +184,76 @@ const branchesRoutes: FastifyPluginAsync = async (fastify) => {
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseDeleteBranch),
         },
         deleteBranch,
     )
+
+    // Users assigned to a branch only access the branches they're assigned to
+    fastify.get<{ Params: Static<typeof BranchParamsSchema> }>(
+        "/:id/users",
+        {
+            schema: {
+                tags: ["Branches"],
+                summary: "Get the users assigned to a branch",
+                params: BranchParamsSchema,
+                response: {
+                    200: Type.Object({ users: Type.Array(BranchUserSchema) }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(authoriseBranchUsers),
+        },
+        getBranchUsers,
+    )
+
+    fastify.post<{
+        Params: Static<typeof BranchParamsSchema>
+        Body: Static<typeof AssignBranchUserRequestSchema>
+    }>(
+        "/:id/users",
+        {
+            schema: {
+                tags: ["Branches"],
+                summary: "Assign a user to a branch",
+                params: BranchParamsSchema,
+                body: AssignBranchUserRequestSchema,
+                response: {
+                    201: Type.Object({ assignment: BranchUserSchema }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseBranchUsers),
+        },
+        assignBranchUser,
+    )
+
+    fastify.delete<{ Params: Static<typeof BranchUserParamsSchema> }>(
+        "/:id/users/:userId",
+        {
+            schema: {
+                tags: ["Branches"],
+                summary: "Remove a user from a branch",
+                params: BranchUserParamsSchema,
+                response: {
+                    200: SuccessResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseBranchUsers),
+        },
+        unassignBranchUser,
+    )
 }
 
 export default branchesRoutes
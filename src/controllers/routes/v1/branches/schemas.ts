@@ -1,4 +1,5 @@
 import { Type } from "@sinclair/typebox"
+import { UserRole } from "@prisma/client"
 
 // Company response schema (for use in branch responses)
 export const CompanySchema = Type.Object({
@@ -73,6 +74,39 @@ export const UpdateBranchRequestSchema = Type.Object({
     phone: Type.Optional(Type.Union([Type.String(), Type.Null()])),
 })
 
+// User assigned to a branch schema
+export const BranchUserSchema = Type.Object({
+    id: Type.String(),
+    userId: Type.String(),
+    branchId: Type.String(),
+    createdAt: Type.String({ format: "date-time" }),
+    user: Type.Object({
+        id: Type.String(),
+        email: Type.String(),
+        firstName: Type.String(),
+        lastName: Type.String(),
+        role: Type.Union([
+            Type.Literal(UserRole.ADMIN),
+            Type.Literal(UserRole.RECRUITER),
+            Type.Literal(UserRole.READONLY),
+        ]),
+    }),
+})
+
+// Assign user to branch request schema
+export const AssignBranchUserRequestSchema = Type.Object({
+    userId: Type.String(),
+})
+
+export const BranchParamsSchema = Type.Object({
+    id: Type.String(),
+})
+
+export const BranchUserParamsSchema = Type.Object({
+    id: Type.String(),
+    userId: Type.String(),
+})
+
 // Generic response schemas
 export const SuccessResponseSchema = Type.Object({
     message: Type.String(),
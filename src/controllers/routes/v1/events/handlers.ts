@@ -0,0 +1,34 @@
+import { mapToErrorResponse } from "controllers/errors"
+import { RouteHandler } from "fastify"
+
+// Get dead-lettered events
+export const getDeadLetters: RouteHandler<{
+    Querystring: {
+        limit?: number
+        offset?: number
+    }
+}> = async function (this, request, reply) {
+    const service = this.services.getOutboxEventService()
+    try {
+        const { limit, offset } = request.query
+        const events = await service.getDeadLetters(limit, offset)
+        return { events }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get dead letters")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Retry a dead-lettered event
+export const retryDeadLetter: RouteHandler<{
+    Params: { id: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getOutboxEventService()
+    try {
+        const event = await service.retryDeadLetter(request.params.id)
+        return { event }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to retry event")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
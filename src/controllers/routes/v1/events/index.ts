@@ -0,0 +1,85 @@
+import { FastifyPluginAsync } from "fastify"
+import { UserRole } from "@prisma/client"
+import { OutboxEventSchema, ErrorResponseSchema } from "./schemas"
+import { getDeadLetters, retryDeadLetter } from "./handlers"
+
+import jwtAuth from "auth/jwtAuth"
+
+const eventsRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication middleware
+    await fastify.register(jwtAuth)
+
+    // Events that ran out of delivery attempts (admin only)
+    fastify.get<{
+        Querystring: { limit?: number; offset?: number }
+    }>(
+        "/dead-letters",
+        {
+            schema: {
+                tags: ["Events"],
+                summary: "List events that could not be delivered",
+                querystring: {
+                    type: "object",
+                    properties: {
+                        limit: {
+                            type: "number",
+                            minimum: 1,
+                            maximum: 100,
+                            default: 50,
+                        },
+                        offset: { type: "number", minimum: 0, default: 0 },
+                    },
+                },
+                response: {
+                    200: {
+                        type: "object",
+                        properties: {
+                            events: {
+                                type: "array",
+                                items: OutboxEventSchema,
+                            },
+                        },
+                    },
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: fastify.requireRole([UserRole.ADMIN]),
+        },
+        getDeadLetters,
+    )
+
+    fastify.post<{ Params: { id: string } }>(
+        "/dead-letters/:id/retry",
+        {
+            schema: {
+                tags: ["Events"],
+                summary: "Queue a dead-lettered event for delivery again",
+                params: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" },
+                    },
+                    required: ["id"],
+                },
+                response: {
+                    200: {
+                        type: "object",
+                        properties: {
+                            event: OutboxEventSchema,
+                        },
+                    },
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: fastify.requireRole([UserRole.ADMIN]),
+        },
+        retryDeadLetter,
+    )
+}
+
+export default eventsRoutes
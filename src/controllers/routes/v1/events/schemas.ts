@@ -0,0 +1,28 @@
+import { Type } from "@sinclair/typebox"
+
+// Outbox event response schema
+export const OutboxEventSchema = Type.Object({
+    id: Type.String(),
+    type: Type.String(),
+    payload: Type.Any(),
+    status: Type.Union([
+        Type.Literal("PENDING"),
+        Type.Literal("PROCESSING"),
+        Type.Literal("DELIVERED"),
+        Type.Literal("DEAD"),
+    ]),
+    attempts: Type.Number(),
+    availableAt: Type.String({ format: "date-time" }),
+    lastError: Type.Union([Type.String(), Type.Null()]),
+    deliveredTo: Type.Array(Type.String()),
+    createdAt: Type.String({ format: "date-time" }),
+    deliveredAt: Type.Union([
+        Type.String({ format: "date-time" }),
+        Type.Null(),
+    ]),
+})
+
+// Error response schema
+export const ErrorResponseSchema = Type.Object({
+    error: Type.String(),
+})
@@ -0,0 +1,159 @@
+import { RouteHandler } from "fastify"
+import { ApplicationStatus, UserRole } from "@prisma/client"
+import { mapToErrorResponse } from "controllers/errors"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+import { JobApplicationFilters } from "types/jobApplication"
+
+// Get job applications (filterable by job, company, branch, applicant and status)
+export const getJobApplications: RouteHandler<{
+    Querystring: {
+        limit?: number
+        offset?: number
+        status?: ApplicationStatus
+        jobId?: string
+        applicantId?: string
+        branchId?: string
+        companyId?: string
+        dateFrom?: string
+        dateTo?: string
+    }
+}> = async function (this, request, reply) {
+    const service = this.services.getJobApplicationService()
+    try {
+        const { limit, offset, dateFrom, dateTo, ...rest } = request.query
+
+        // Non-admin users only ever see their own company's applications
+        const companyId =
+            request.user?.role === UserRole.ADMIN
+                ? rest.companyId
+                : rest.companyId || request.user?.companyId || undefined
+
+        const filters: JobApplicationFilters = {
+            ...rest,
+            companyId,
+            ...(dateFrom && { dateFrom: new Date(dateFrom) }),
+            ...(dateTo && { dateTo: new Date(dateTo) }),
+        }
+
+        const applications = await service.getJobApplications(
+            filters,
+            limit,
+            offset,
+        )
+        return { applications }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get job applications")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get job application statistics for a company
+export const getJobApplicationStats: RouteHandler<{
+    Querystring: { companyId?: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getJobApplicationService()
+    try {
+        const companyId =
+            request.query.companyId || request.user?.companyId || ""
+        const stats = await service.getJobApplicationStats(companyId)
+        return { stats }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to get job application stats",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get job application by ID
+export const getJobApplicationById: RouteHandler<{
+    Params: { id: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getJobApplicationService()
+    try {
+        const application = await service.getJobApplicationById(
+            request.params.id,
+        )
+
+        if (!application) {
+            const resp = mapToErrorResponse(
+                new ServiceError(
+                    ServiceErrorType.NotFound,
+                    "Job application not found",
+                ),
+                "Job application not found",
+            )
+            return reply.code(resp.code).send(resp.returnError())
+        }
+
+        return { application }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get job application")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Move a job application to a new status
+export const updateJobApplicationStatus: RouteHandler<{
+    Params: { id: string }
+    Body: { status: ApplicationStatus; reason?: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getJobApplicationService()
+    try {
+        const application = await service.updateJobApplicationStatus(
+            request.params.id,
+            request.body.status,
+            request.user!,
+            request.body.reason,
+        )
+        return { application }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to update job application status",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Move multiple job applications to a new status
+export const bulkUpdateJobApplicationStatus: RouteHandler<{
+    Body: { ids: string[]; status: ApplicationStatus; reason?: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getJobApplicationService()
+    try {
+        const updated = await service.bulkUpdateJobApplicationStatus(
+            request.body.ids,
+            request.body.status,
+            request.user!,
+            request.body.reason,
+        )
+        return { updated }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to bulk update job application status",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get the status change timeline of a job application
+export const getJobApplicationHistory: RouteHandler<{
+    Params: { id: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getJobApplicationService()
+    try {
+        const history = await service.getJobApplicationStatusHistory(
+            request.params.id,
+        )
+        return { history }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to get job application history",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
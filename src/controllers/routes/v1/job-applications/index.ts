@@ -0,0 +1,216 @@
+import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
+import {
+    JobApplicationSchema,
+    JobApplicationWithDetailsSchema,
+    GetJobApplicationsQuerySchema,
+    GetJobApplicationStatsQuerySchema,
+    JobApplicationStatsSchema,
+    JobApplicationStatusChangeSchema,
+    UpdateJobApplicationStatusRequestSchema,
+    BulkUpdateJobApplicationStatusRequestSchema,
+    ErrorResponseSchema,
+} from "./schemas"
+import {
+    getJobApplications,
+    getJobApplicationStats,
+    getJobApplicationById,
+    updateJobApplicationStatus,
+    bulkUpdateJobApplicationStatus,
+    getJobApplicationHistory,
+} from "./handlers"
+
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetJobApplications,
+    authoriseGetJobApplicationStats,
+    authoriseGetJobApplicationById,
+    authoriseUpdateJobApplicationStatus,
+    authoriseBulkUpdateJobApplicationStatus,
+    authoriseGetJobApplicationHistory,
+} from "auth/authorizers"
+
+const jobApplicationsRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
+    // Get job applications (per job, per company, per branch, ...)
+    fastify.get<{
+        Querystring: Static<typeof GetJobApplicationsQuerySchema>
+    }>(
+        "/",
+        {
+            schema: {
+                tags: ["Job Applications"],
+                summary: "Get job applications with optional filters",
+                querystring: GetJobApplicationsQuerySchema,
+                response: {
+                    200: Type.Object({
+                        applications: Type.Array(
+                            JobApplicationWithDetailsSchema,
+                        ),
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(authoriseGetJobApplications),
+        },
+        getJobApplications,
+    )
+
+    // Get job application statistics
+    fastify.get<{
+        Querystring: Static<typeof GetJobApplicationStatsQuerySchema>
+    }>(
+        "/stats",
+        {
+            schema: {
+                tags: ["Job Applications"],
+                summary: "Get job application statistics for a company",
+                querystring: GetJobApplicationStatsQuerySchema,
+                response: {
+                    200: Type.Object({ stats: JobApplicationStatsSchema }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(
+                authoriseGetJobApplicationStats,
+            ),
+        },
+        getJobApplicationStats,
+    )
+
+    // Get job application by ID
+    fastify.get<{ Params: { id: string } }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["Job Applications"],
+                summary: "Get job application by ID",
+                params: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" },
+                    },
+                    required: ["id"],
+                },
+                response: {
+                    200: Type.Object({
+                        application: JobApplicationWithDetailsSchema,
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(
+                authoriseGetJobApplicationById,
+            ),
+        },
+        getJobApplicationById,
+    )
+
+    // Get the status change timeline of a job application
+    fastify.get<{ Params: { id: string } }>(
+        "/:id/history",
+        {
+            schema: {
+                tags: ["Job Applications"],
+                summary: "Get the status history of a job application",
+                params: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" },
+                    },
+                    required: ["id"],
+                },
+                response: {
+                    200: Type.Object({
+                        history: Type.Array(JobApplicationStatusChangeSchema),
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(
+                authoriseGetJobApplicationHistory,
+            ),
+        },
+        getJobApplicationHistory,
+    )
+
+    // Bulk status change
+    fastify.put<{
+        Body: Static<typeof BulkUpdateJobApplicationStatusRequestSchema>
+    }>(
+        "/bulk-status",
+        {
+            schema: {
+                tags: ["Job Applications"],
+                summary: "Change the status of multiple job applications",
+                body: BulkUpdateJobApplicationStatusRequestSchema,
+                response: {
+                    200: Type.Object({ updated: Type.Number() }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    409: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(
+                authoriseBulkUpdateJobApplicationStatus,
+            ),
+        },
+        bulkUpdateJobApplicationStatus,
+    )
+
+    // Status transition
+    fastify.put<{
+        Params: { id: string }
+        Body: Static<typeof UpdateJobApplicationStatusRequestSchema>
+    }>(
+        "/:id/status",
+        {
+            schema: {
+                tags: ["Job Applications"],
+                summary: "Change the status of a job application",
+                params: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" },
+                    },
+                    required: ["id"],
+                },
+                body: UpdateJobApplicationStatusRequestSchema,
+                response: {
+                    200: Type.Object({ application: JobApplicationSchema }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    409: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseUpdateJobApplicationStatus),
+        },
+        updateJobApplicationStatus,
+    )
+}
+
+export default jobApplicationsRoutes
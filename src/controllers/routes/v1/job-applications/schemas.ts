@@ -0,0 +1,124 @@
+import { Type } from "@sinclair/typebox"
+import { ApplicationStatus } from "@prisma/client"
+
+const ApplicationStatusSchema = Type.Union([
+    Type.Literal(ApplicationStatus.APPLIED),
+    Type.Literal(ApplicationStatus.REVIEWING),
+    Type.Literal(ApplicationStatus.REJECTED),
+    Type.Literal(ApplicationStatus.HIRED),
+])
+
+// Job application response schema
+export const JobApplicationSchema = Type.Object({
+    id: Type.String(),
+    status: ApplicationStatusSchema,
+    appliedAt: Type.String({ format: "date-time" }),
+    updatedAt: Type.String({ format: "date-time" }),
+    applicantId: Type.String(),
+    jobId: Type.String(),
+})
+
+// Job application with applicant and job details schema
+export const JobApplicationWithDetailsSchema = Type.Object({
+    ...JobApplicationSchema.properties,
+    applicant: Type.Object({
+        id: Type.String(),
+        email: Type.String(),
+        firstName: Type.String(),
+        lastName: Type.String(),
+        phone: Type.Union([Type.String(), Type.Null()]),
+        city: Type.Union([Type.String(), Type.Null()]),
+        country: Type.Union([Type.String(), Type.Null()]),
+        resumeUrl: Type.Union([Type.String(), Type.Null()]),
+    }),
+    job: Type.Object({
+        id: Type.String(),
+        title: Type.String(),
+        status: Type.String(),
+        branch: Type.Object({
+            id: Type.String(),
+            name: Type.String(),
+            company: Type.Object({
+                id: Type.String(),
+                name: Type.String(),
+            }),
+        }),
+    }),
+})
+
+// List job applications query schema
+export const GetJobApplicationsQuerySchema = Type.Object({
+    limit: Type.Optional(
+        Type.Number({ minimum: 1, maximum: 100, default: 50 }),
+    ),
+    offset: Type.Optional(Type.Number({ minimum: 0, default: 0 })),
+    status: Type.Optional(ApplicationStatusSchema),
+    jobId: Type.Optional(Type.String()),
+    applicantId: Type.Optional(Type.String()),
+    branchId: Type.Optional(Type.String()),
+    companyId: Type.Optional(Type.String()),
+    dateFrom: Type.Optional(Type.String({ format: "date-time" })),
+    dateTo: Type.Optional(Type.String({ format: "date-time" })),
+})
+
+// Job application stats query schema
+export const GetJobApplicationStatsQuerySchema = Type.Object({
+    companyId: Type.Optional(Type.String()),
+})
+
+// Job application stats response schema
+export const JobApplicationStatsSchema = Type.Object({
+    total: Type.Number(),
+    applied: Type.Number(),
+    reviewing: Type.Number(),
+    rejected: Type.Number(),
+    hired: Type.Number(),
+})
+
+// Update job application status request schema
+export const UpdateJobApplicationStatusRequestSchema = Type.Object({
+    status: ApplicationStatusSchema,
+    reason: Type.Optional(Type.String({ maxLength: 2000 })),
+})
+
+// Bulk update job application status request schema
+export const BulkUpdateJobApplicationStatusRequestSchema = Type.Object({
+    ids: Type.Array(Type.String(), { minItems: 1, maxItems: 100 }),
+    status: ApplicationStatusSchema,
+    reason: Type.Optional(Type.String({ maxLength: 2000 })),
+})
+
+// Job application status change (history entry) schema
+export const JobApplicationStatusChangeSchema = Type.Object({
+    id: Type.String(),
+    applicationId: Type.String(),
+    fromStatus: Type.Union([ApplicationStatusSchema, Type.Null()]),
+    toStatus: ApplicationStatusSchema,
+    reason: Type.Union([Type.String(), Type.Null()]),
+    changedAt: Type.String({ format: "date-time" }),
+    changedBy: Type.Union([
+        Type.Object({
+            id: Type.String(),
+            email: Type.String(),
+            firstName: Type.String(),
+            lastName: Type.String(),
+        }),
+        Type.Null(),
+    ]),
+    changedByApiKey: Type.Union([
+        Type.Object({
+            id: Type.String(),
+            name: Type.String(),
+            prefix: Type.String(),
+        }),
+        Type.Null(),
+    ]),
+})
+
+// Error Response Schema
+export const ErrorResponseSchema = Type.Object({
+    error: Type.String(),
+    message: Type.String(),
+    statusCode: Type.Number(),
+    errors: Type.Optional(Type.Record(Type.String(), Type.String())),
+})
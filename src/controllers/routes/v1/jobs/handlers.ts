@@ -1,3 +1,4 @@
+import { UserRole } from "@prisma/client"
 import { JobCreate, JobUpdate, JobFilters } from "types/job"
 import { mapToErrorResponse } from "controllers/errors"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
@@ -16,8 +17,23 @@ export const getJobs: RouteHandler<{
 }> = async function (this, request, reply) {
     const service = this.services.getJobService()
     try {
-        const { limit, offset, ...filters } = request.query
-        const jobs = await service.getJobs(filters as JobFilters, limit, offset)
+        const { limit, offset, ...rest } = request.query
+
+        // Non-admin users only ever see their own company's jobs, and
+        // those of their branches when assigned to any
+        const companyId =
+            request.user?.role === UserRole.ADMIN
+                ? rest.companyId
+                : rest.companyId || request.user?.companyId || undefined
+        const branchIds = request.user?.branchIds?.length
+            ? request.user.branchIds
+            : undefined
+
+        const jobs = await service.getJobs(
+            { ...rest, companyId, branchIds } as JobFilters,
+            limit,
+            offset,
+        )
         return { jobs }
     } catch (err) {
         const resp = mapToErrorResponse(err, "Failed to get jobs")
@@ -1,4 +1,5 @@
 import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
 import {
     getJobs,
     getJobById,
@@ -19,6 +20,9 @@ import {
     getTopCandidates,
     recalculateJobRankings,
     getJobRankingStatus,
+    streamJobRankings,
+    getRankingSnapshots,
+    diffRankingSnapshots,
 } from "./ranking-handlers"
 import {
     TopCandidatesResponseSchema,
@@ -30,9 +34,34 @@ import {
     JobRankingStatusQuerySchema,
     ErrorResponseSchema,
     CandidateRankingWithDetailsSchema,
+    RankingSnapshotsQuerySchema,
+    RankingSnapshotSchema,
+    RankingSnapshotDiffQuerySchema,
+    RankingSnapshotDiffSchema,
 } from "./ranking-schemas"
 
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+    createStreamAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetJobs,
+    authoriseGetJobStats,
+    authoriseGetJobById,
+    authoriseCreateJob,
+    authoriseUpdateJob,
+    authoriseDeleteJob,
+    authoriseGetJobRankings,
+    authoriseGetJobRankingStream,
+} from "auth/authorizers"
+
 const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
     // Get all jobs with filters
     fastify.get("/", {
         schema: {
@@ -40,6 +69,7 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Jobs"],
             summary: "List jobs with advanced search & filters",
         },
+        preSerialization: createGetAuthorizer(authoriseGetJobs),
         handler: getJobs,
     })
 
@@ -50,6 +80,7 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Jobs"],
             summary: "Get job statistics",
         },
+        preSerialization: createGetAuthorizer(authoriseGetJobStats),
         handler: getJobStats,
     })
 
@@ -60,6 +91,7 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Jobs"],
             summary: "Get job details",
         },
+        preSerialization: createGetAuthorizer(authoriseGetJobById),
         handler: getJobById,
     })
 
@@ -70,6 +102,7 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Jobs"],
             summary: "Create new job",
         },
+        preHandler: createAuthorizer(authoriseCreateJob),
         handler: createJob,
     })
 
@@ -80,6 +113,7 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Jobs"],
             summary: "Update job",
         },
+        preHandler: createAuthorizer(authoriseUpdateJob),
         handler: updateJob,
     })
 
@@ -90,6 +124,7 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             tags: ["Jobs"],
             summary: "Delete job",
         },
+        preHandler: createAuthorizer(authoriseDeleteJob),
         handler: deleteJob,
     })
 
@@ -108,10 +143,12 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             response: {
                 200: TopCandidatesResponseSchema,
                 400: ErrorResponseSchema,
+                403: ErrorResponseSchema,
                 404: ErrorResponseSchema,
                 500: ErrorResponseSchema,
             },
         },
+        preSerialization: createGetAuthorizer(authoriseGetJobRankings),
         handler: getTopCandidates,
     })
 
@@ -128,12 +165,78 @@ const jobs: FastifyPluginAsync = async (fastify): Promise<void> => {
             querystring: JobRankingStatusQuerySchema,
             response: {
                 200: JobRankingStatusSchema,
+                403: ErrorResponseSchema,
                 404: ErrorResponseSchema,
                 500: ErrorResponseSchema,
             },
         },
+        preSerialization: createGetAuthorizer(authoriseGetJobRankings),
         handler: getJobRankingStatus,
     })
+
+    // GET /:jobId/rankings/snapshots - List ranking snapshots of a job
+    fastify.get<{
+        Params: Static<typeof JobIdParamsSchema>
+        Querystring: Static<typeof RankingSnapshotsQuerySchema>
+    }>("/:jobId/rankings/snapshots", {
+        schema: {
+            description:
+                "List the rankings stored by each calculation of a job, latest first",
+            tags: ["Candidate Rankings"],
+            params: JobIdParamsSchema,
+            querystring: RankingSnapshotsQuerySchema,
+            response: {
+                200: Type.Array(RankingSnapshotSchema),
+                403: ErrorResponseSchema,
+                500: ErrorResponseSchema,
+            },
+        },
+        preSerialization: createGetAuthorizer(authoriseGetJobRankings),
+        handler: getRankingSnapshots,
+    })
+
+    // GET /:jobId/rankings/snapshots/diff - Compare two ranking snapshots
+    fastify.get<{
+        Params: Static<typeof JobIdParamsSchema>
+        Querystring: Static<typeof RankingSnapshotDiffQuerySchema>
+    }>("/:jobId/rankings/snapshots/diff", {
+        schema: {
+            description:
+                "Show how the rank and score of each applicant moved between two ranking snapshots of a job",
+            tags: ["Candidate Rankings"],
+            params: JobIdParamsSchema,
+            querystring: RankingSnapshotDiffQuerySchema,
+            response: {
+                200: RankingSnapshotDiffSchema,
+                400: ErrorResponseSchema,
+                403: ErrorResponseSchema,
+                404: ErrorResponseSchema,
+                500: ErrorResponseSchema,
+            },
+        },
+        preSerialization: createGetAuthorizer(authoriseGetJobRankings),
+        handler: diffRankingSnapshots,
+    })
+
+    // GET /:jobId/rankings/stream - Stream ranking updates for a job
+    fastify.get<{
+        Params: { jobId: string }
+    }>("/:jobId/rankings/stream", {
+        schema: {
+            description:
+                "Stream ranking updates for a specific job as Server-Sent Events",
+            tags: ["Candidate Rankings"],
+            params: JobIdParamsSchema,
+            response: {
+                401: ErrorResponseSchema,
+                403: ErrorResponseSchema,
+                404: ErrorResponseSchema,
+                500: ErrorResponseSchema,
+            },
+        },
+        preHandler: createStreamAuthorizer(authoriseGetJobRankingStream),
+        handler: streamJobRankings,
+    })
 }
 
 export default jobs
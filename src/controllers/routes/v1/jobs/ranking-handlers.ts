@@ -1,5 +1,6 @@
 import { RouteHandler } from "fastify"
 import { mapToErrorResponse } from "controllers/errors"
+import { authenticateBearer } from "auth/jwtAuth"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
 import { Static } from "@sinclair/typebox"
 import {
@@ -7,8 +8,16 @@ import {
     TopCandidatesQuerySchema,
     RankingCalculationRequestSchema,
     JobRankingStatusQuerySchema,
+    RankingSnapshotsQuerySchema,
+    RankingSnapshotDiffQuerySchema,
 } from "./ranking-schemas"
 
+/**
+ * Interval of the comments that keep idle ranking streams open, and of the
+ * checks that their session is still signed in
+ */
+const STREAM_HEARTBEAT_INTERVAL_MS = 15_000
+
 // Get top candidates for a job
 export const getTopCandidates: RouteHandler<{
     Params: Static<typeof JobIdParamsSchema>
@@ -33,7 +42,10 @@ export const recalculateJobRankings: RouteHandler<{
     const service = this.services.getCandidateRankingService()
     try {
         const { jobId, triggerEvent } = request.body
-        const result = await service.recalculateJobRankings(jobId, triggerEvent)
+        const result = await service.requestJobRankingCalculation(
+            jobId,
+            triggerEvent,
+        )
         return result
     } catch (err) {
         const resp = mapToErrorResponse(err, "Failed to recalculate rankings")
@@ -41,6 +53,39 @@ export const recalculateJobRankings: RouteHandler<{
     }
 }
 
+// List the ranking snapshots of a job
+export const getRankingSnapshots: RouteHandler<{
+    Params: Static<typeof JobIdParamsSchema>
+    Querystring: Static<typeof RankingSnapshotsQuerySchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRankingSnapshotService()
+    try {
+        const { limit, offset } = request.query
+        return await service.getSnapshots(request.params.jobId, limit, offset)
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get ranking snapshots")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Compare two ranking snapshots of a job
+export const diffRankingSnapshots: RouteHandler<{
+    Params: Static<typeof JobIdParamsSchema>
+    Querystring: Static<typeof RankingSnapshotDiffQuerySchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRankingSnapshotService()
+    try {
+        const { from, to, top } = request.query
+        return await service.diffSnapshots(request.params.jobId, from, to, top)
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to compare ranking snapshots",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
 // Get job ranking status
 export const getJobRankingStatus: RouteHandler<{
     Params: Static<typeof JobIdParamsSchema>
@@ -56,3 +101,51 @@ export const getJobRankingStatus: RouteHandler<{
         return reply.code(resp.code).send(resp.returnError())
     }
 }
+
+// Stream ranking updates of a job as Server-Sent Events
+export const streamJobRankings: RouteHandler<{
+    Params: Static<typeof JobIdParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getCandidateRankingService()
+    const { jobId } = request.params
+
+    const authorization = request.headers.authorization!
+
+    // The stream is written to the raw response until the client disconnects.
+    // Hijacked replies skip the onSend hooks, so the headers set so far, e.g.
+    // the CORS ones, are written along with the stream's own.
+    reply.hijack()
+    reply.raw.writeHead(200, {
+        ...reply.getHeaders(),
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+    })
+    reply.raw.write(`: streaming ranking updates of job ${jobId}\n\n`)
+
+    const unsubscribe = service.subscribeToRankingUpdates(jobId, (update) => {
+        reply.raw.write(
+            `event: ${update.type}\ndata: ${JSON.stringify(
+                update.payload,
+            )}\n\n`,
+        )
+    })
+    const heartbeat = setInterval(async () => {
+        // The stream ends once its access token expires or its session is
+        // signed out, clients reconnect with a renewed token
+        try {
+            await authenticateBearer(authorization, this)
+        } catch {
+            close()
+            reply.raw.end()
+            return
+        }
+        reply.raw.write(": heartbeat\n\n")
+    }, STREAM_HEARTBEAT_INTERVAL_MS)
+
+    const close = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+    }
+    request.raw.on("close", close)
+}
@@ -27,6 +27,8 @@ export const CandidateRankingSchema = Type.Object({
     correctAnswers: Type.Number(),
     incorrectAnswers: Type.Number(),
     recencyBonus: Type.Union([Type.Number(), Type.Null()]),
+    pendingReviews: Type.Number(),
+    timeTakenSeconds: Type.Union([Type.Number(), Type.Null()]),
     scoringConfigVersion: Type.String(),
     calculatedAt: Type.String({ format: "date-time" }),
     isStale: Type.Boolean(),
@@ -74,6 +76,7 @@ export const TopCandidatesResponseSchema = Type.Object({
         ]),
         calculationDuration: Type.Union([Type.Number(), Type.Null()]),
         status: Type.Enum(RankingStatus),
+        candidatesAwaitingReview: Type.Number(),
     }),
 })
 
@@ -126,6 +129,54 @@ export const JobRankingStatusSchema = Type.Object({
     ),
 })
 
+// Ranking snapshot schemas
+export const RankingSnapshotsQuerySchema = Type.Object({
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100 })),
+    offset: Type.Optional(Type.Integer({ minimum: 0 })),
+})
+
+export const RankingSnapshotSchema = Type.Object({
+    id: Type.String(),
+    jobId: Type.String(),
+    scoringConfigVersion: Type.String(),
+    triggerEvent: Type.Union([Type.String(), Type.Null()]),
+    totalCandidates: Type.Number(),
+    createdAt: Type.String({ format: "date-time" }),
+})
+
+export const RankingSnapshotDiffQuerySchema = Type.Object({
+    from: Type.String({ format: "uuid" }),
+    to: Type.String({ format: "uuid" }),
+    top: Type.Optional(Type.Integer({ minimum: 1 })),
+})
+
+const NullableNumber = Type.Union([Type.Number(), Type.Null()])
+
+export const RankingSnapshotDiffSchema = Type.Object({
+    jobId: Type.String(),
+    from: RankingSnapshotSchema,
+    to: RankingSnapshotSchema,
+    top: Type.Union([Type.Integer(), Type.Null()]),
+    movements: Type.Array(
+        Type.Object({
+            applicantId: Type.String(),
+            movement: Type.Union([
+                Type.Literal("UP"),
+                Type.Literal("DOWN"),
+                Type.Literal("UNCHANGED"),
+                Type.Literal("ENTERED"),
+                Type.Literal("DROPPED"),
+            ]),
+            fromRank: NullableNumber,
+            toRank: NullableNumber,
+            rankChange: NullableNumber,
+            fromScore: NullableNumber,
+            toScore: NullableNumber,
+            scoreChange: NullableNumber,
+        }),
+    ),
+})
+
 // Error response schema
 export const ErrorResponseSchema = Type.Object({
     error: Type.String(),
@@ -1,9 +1,13 @@
 import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
 import {
     recalculateJobRankings,
     processBulkRankings,
     invalidateRankings,
     scheduleStaleRecalculations,
+    getSchedulerRuns,
+    getRankingBatch,
+    cancelRankingBatch,
 } from "./ranking-handlers"
 import {
     RankingCalculationRequestSchema,
@@ -11,9 +15,32 @@ import {
     BulkRankingRequestSchema,
     InvalidationRequestSchema,
     ErrorResponseSchema,
+    SchedulerRunSchema,
+    SchedulerRunsQuerySchema,
+    AuthErrorResponseSchema,
+    RankingBatchProgressSchema,
+    RankingBatchParamsSchema,
 } from "./ranking-schemas"
 
+import { UserRole } from "@prisma/client"
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseCalculateRankings,
+    authoriseBulkRankings,
+    authoriseGetRankingBatch,
+    authoriseCancelRankingBatch,
+    authoriseInvalidateRankings,
+} from "auth/authorizers"
+
 const rankings: FastifyPluginAsync = async (fastify): Promise<void> => {
+    // Register authentication and authorization middleware
+    await fastify.register(jwtAuth)
+    await fastify.register(Authorisation)
+
     // POST /calculate - Recalculate rankings for a job
     fastify.post<{
         Body: any
@@ -26,58 +53,75 @@ const rankings: FastifyPluginAsync = async (fastify): Promise<void> => {
             response: {
                 200: RankingCalculationResultSchema,
                 400: ErrorResponseSchema,
+                403: ErrorResponseSchema,
                 409: ErrorResponseSchema,
                 500: ErrorResponseSchema,
             },
         },
+        preHandler: createAuthorizer(authoriseCalculateRankings),
         handler: recalculateJobRankings,
     })
 
-    // POST /bulk - Process multiple job rankings
+    // POST /bulk - Queue a batch of ranking recalculations
     fastify.post<{
-        Body: any
-        Reply: any
+        Body: Static<typeof BulkRankingRequestSchema>
     }>("/bulk", {
         schema: {
-            description: "Process bulk ranking calculations for multiple jobs",
+            description:
+                "Queue ranking recalculations for multiple jobs. The batch is processed in the background.",
             tags: ["Candidate Rankings"],
             body: BulkRankingRequestSchema,
             response: {
-                200: {
-                    type: "object",
-                    properties: {
-                        totalJobs: { type: "integer", minimum: 0 },
-                        successful: { type: "integer", minimum: 0 },
-                        failed: { type: "integer", minimum: 0 },
-                        results: {
-                            type: "array",
-                            items: {
-                                type: "object",
-                                properties: {
-                                    jobId: {
-                                        type: "string",
-                                        format: "uuid",
-                                    },
-                                    totalCandidates: {
-                                        type: "integer",
-                                        minimum: 0,
-                                    },
-                                    calculationDuration: {
-                                        type: "integer",
-                                        minimum: 0,
-                                    },
-                                },
-                            },
-                        },
-                    },
-                },
+                202: RankingBatchProgressSchema,
                 400: ErrorResponseSchema,
+                403: ErrorResponseSchema,
                 500: ErrorResponseSchema,
             },
         },
+        preHandler: createAuthorizer(authoriseBulkRankings),
         handler: processBulkRankings,
     })
 
+    // GET /jobs/:id - Get the progress of a ranking batch
+    fastify.get<{
+        Params: Static<typeof RankingBatchParamsSchema>
+    }>("/jobs/:id", {
+        schema: {
+            description:
+                "Get the progress, failures and estimated completion of a ranking batch",
+            tags: ["Candidate Rankings"],
+            params: RankingBatchParamsSchema,
+            response: {
+                200: RankingBatchProgressSchema,
+                403: ErrorResponseSchema,
+                404: ErrorResponseSchema,
+                500: ErrorResponseSchema,
+            },
+        },
+        preSerialization: createGetAuthorizer(authoriseGetRankingBatch),
+        handler: getRankingBatch,
+    })
+
+    // POST /jobs/:id/cancel - Cancel a ranking batch
+    fastify.post<{
+        Params: Static<typeof RankingBatchParamsSchema>
+    }>("/jobs/:id/cancel", {
+        schema: {
+            description:
+                "Cancel the recalculations of a ranking batch that have not started yet",
+            tags: ["Candidate Rankings"],
+            params: RankingBatchParamsSchema,
+            response: {
+                200: RankingBatchProgressSchema,
+                403: ErrorResponseSchema,
+                404: ErrorResponseSchema,
+                500: ErrorResponseSchema,
+            },
+        },
+        preHandler: createAuthorizer(authoriseCancelRankingBatch),
+        handler: cancelRankingBatch,
+    })
+
     // POST /invalidate - Invalidate rankings
     fastify.post<{
         Body: any
@@ -96,9 +140,11 @@ const rankings: FastifyPluginAsync = async (fastify): Promise<void> => {
                     },
                 },
                 400: ErrorResponseSchema,
+                403: ErrorResponseSchema,
                 500: ErrorResponseSchema,
             },
         },
+        preHandler: createAuthorizer(authoriseInvalidateRankings),
         handler: invalidateRankings,
     })
 
@@ -116,11 +162,35 @@ const rankings: FastifyPluginAsync = async (fastify): Promise<void> => {
                         message: { type: "string" },
                     },
                 },
+                403: AuthErrorResponseSchema,
                 500: ErrorResponseSchema,
             },
         },
+        preHandler: fastify.requireRole([UserRole.ADMIN]),
         handler: scheduleStaleRecalculations,
     })
+
+    // GET /scheduler/runs - Latest runs of the ranking scheduler (admin only)
+    fastify.get<{
+        Querystring: Static<typeof SchedulerRunsQuerySchema>
+    }>("/scheduler/runs", {
+        schema: {
+            description:
+                "List the latest runs of the background ranking scheduler",
+            tags: ["Candidate Rankings"],
+            querystring: SchedulerRunsQuerySchema,
+            response: {
+                200: Type.Object({
+                    runs: Type.Array(SchedulerRunSchema),
+                }),
+                401: AuthErrorResponseSchema,
+                403: AuthErrorResponseSchema,
+                500: ErrorResponseSchema,
+            },
+        },
+        preHandler: fastify.requireRole([UserRole.ADMIN]),
+        handler: getSchedulerRuns,
+    })
 }
 
 export default rankings
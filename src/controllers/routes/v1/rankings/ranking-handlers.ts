@@ -6,6 +6,8 @@ import {
     RankingCalculationRequestSchema,
     BulkRankingRequestSchema,
     InvalidationRequestSchema,
+    SchedulerRunsQuerySchema,
+    RankingBatchParamsSchema,
 } from "./ranking-schemas"
 
 // Recalculate rankings for a job
@@ -15,7 +17,10 @@ export const recalculateJobRankings: RouteHandler<{
     const service = this.services.getCandidateRankingService()
     try {
         const { jobId, triggerEvent } = request.body
-        const result = await service.recalculateJobRankings(jobId, triggerEvent)
+        const result = await service.requestJobRankingCalculation(
+            jobId,
+            triggerEvent,
+        )
         return result
     } catch (err) {
         const resp = mapToErrorResponse(err, "Failed to recalculate rankings")
@@ -23,16 +28,42 @@ export const recalculateJobRankings: RouteHandler<{
     }
 }
 
-// Process bulk rankings
+// Queue a batch of ranking recalculations
 export const processBulkRankings: RouteHandler<{
     Body: Static<typeof BulkRankingRequestSchema>
 }> = async function (this, request, reply) {
-    const service = this.services.getCandidateRankingService()
+    const service = this.services.getRankingBatchService()
     try {
-        const result = await service.processBulkRankings(request.body)
-        return result
+        const batch = await service.enqueueBatch(request.body)
+        return reply.code(202).send(batch)
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to queue bulk rankings")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get the progress of a ranking batch
+export const getRankingBatch: RouteHandler<{
+    Params: Static<typeof RankingBatchParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRankingBatchService()
+    try {
+        return await service.getBatchProgress(request.params.id)
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get ranking batch")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Cancel a ranking batch
+export const cancelRankingBatch: RouteHandler<{
+    Params: Static<typeof RankingBatchParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRankingBatchService()
+    try {
+        return await service.cancelBatch(request.params.id)
     } catch (err) {
-        const resp = mapToErrorResponse(err, "Failed to process bulk rankings")
+        const resp = mapToErrorResponse(err, "Failed to cancel ranking batch")
         return reply.code(resp.code).send(resp.returnError())
     }
 }
@@ -69,3 +100,17 @@ export const scheduleStaleRecalculations: RouteHandler = async function (
         return reply.code(resp.code).send(resp.returnError())
     }
 }
+
+// Get the latest runs of the ranking scheduler
+export const getSchedulerRuns: RouteHandler<{
+    Querystring: Static<typeof SchedulerRunsQuerySchema>
+}> = async function (this, request, reply) {
+    const scheduler = this.services.getRankingScheduler()
+    try {
+        const runs = await scheduler.getRecentRuns(request.query.limit)
+        return { runs }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get scheduler runs")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
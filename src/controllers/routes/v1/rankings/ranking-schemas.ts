@@ -15,11 +15,71 @@ export const RankingCalculationResultSchema = Type.Object({
 
 // Bulk ranking schemas
 export const BulkRankingRequestSchema = Type.Object({
-    jobIds: Type.Array(Type.String({ format: "uuid" })),
+    jobIds: Type.Array(Type.String({ format: "uuid" }), {
+        minItems: 1,
+        maxItems: 1000,
+    }),
     triggerEvent: Type.String(),
     priority: Type.Union([Type.Literal("high"), Type.Literal("normal")]),
 })
 
+const RankingBatchJobStatusSchema = Type.Union([
+    Type.Literal("PENDING"),
+    Type.Literal("RUNNING"),
+    Type.Literal("SUCCEEDED"),
+    Type.Literal("FAILED"),
+    Type.Literal("CANCELLED"),
+])
+
+export const RankingBatchProgressSchema = Type.Object({
+    id: Type.String(),
+    status: Type.Union([
+        Type.Literal("QUEUED"),
+        Type.Literal("RUNNING"),
+        Type.Literal("COMPLETED"),
+        Type.Literal("CANCELLED"),
+    ]),
+    priority: Type.Union([Type.Literal("high"), Type.Literal("normal")]),
+    triggerEvent: Type.String(),
+    totalJobs: Type.Number(),
+    counts: Type.Object({
+        PENDING: Type.Number(),
+        RUNNING: Type.Number(),
+        SUCCEEDED: Type.Number(),
+        FAILED: Type.Number(),
+        CANCELLED: Type.Number(),
+    }),
+    progress: Type.Number(),
+    estimatedCompletionAt: Type.Union([
+        Type.String({ format: "date-time" }),
+        Type.Null(),
+    ]),
+    createdAt: Type.String({ format: "date-time" }),
+    startedAt: Type.Union([Type.String({ format: "date-time" }), Type.Null()]),
+    finishedAt: Type.Union([Type.String({ format: "date-time" }), Type.Null()]),
+    jobs: Type.Array(
+        Type.Object({
+            jobId: Type.String(),
+            status: RankingBatchJobStatusSchema,
+            errorMessage: Type.Union([Type.String(), Type.Null()]),
+            totalCandidates: Type.Union([Type.Number(), Type.Null()]),
+            calculationDuration: Type.Union([Type.Number(), Type.Null()]),
+            startedAt: Type.Union([
+                Type.String({ format: "date-time" }),
+                Type.Null(),
+            ]),
+            finishedAt: Type.Union([
+                Type.String({ format: "date-time" }),
+                Type.Null(),
+            ]),
+        }),
+    ),
+})
+
+export const RankingBatchParamsSchema = Type.Object({
+    id: Type.String({ format: "uuid" }),
+})
+
 // Invalidation schemas
 export const InvalidationRequestSchema = Type.Object({
     jobIds: Type.Optional(Type.Array(Type.String({ format: "uuid" }))),
@@ -28,9 +88,36 @@ export const InvalidationRequestSchema = Type.Object({
     triggerEvent: Type.String(),
 })
 
+// Scheduler run schemas
+export const SchedulerRunSchema = Type.Object({
+    id: Type.String(),
+    status: Type.Union([
+        Type.Literal("SUCCEEDED"),
+        Type.Literal("PARTIALLY_FAILED"),
+        Type.Literal("FAILED"),
+    ]),
+    jobsRecalculated: Type.Number(),
+    jobsFailed: Type.Number(),
+    failedJobIds: Type.Array(Type.String()),
+    errorMessage: Type.Union([Type.String(), Type.Null()]),
+    startedAt: Type.String({ format: "date-time" }),
+    finishedAt: Type.String({ format: "date-time" }),
+})
+
+export const SchedulerRunsQuerySchema = Type.Object({
+    limit: Type.Optional(
+        Type.Number({ minimum: 1, maximum: 100, default: 20 }),
+    ),
+})
+
 // Error response schema
 export const ErrorResponseSchema = Type.Object({
     error: Type.String(),
     message: Type.String(),
     statusCode: Type.Number(),
 })
+
+// Authentication error response schema
+export const AuthErrorResponseSchema = Type.Object({
+    error: Type.String(),
+})
@@ -0,0 +1,143 @@
+import { Static } from "@sinclair/typebox"
+import { RouteHandler } from "fastify"
+import { mapToErrorResponse } from "controllers/errors"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+import {
+    AssignRoleRequestSchema,
+    CreateRoleRequestSchema,
+    GetRolesQuerySchema,
+    RoleAssignmentParamsSchema,
+    RoleParamsSchema,
+    UpdateRoleRequestSchema,
+} from "./schemas"
+
+// Get the permissions roles can grant
+export const getPermissions: RouteHandler = async function (
+    this,
+    request,
+    reply,
+) {
+    const service = this.services.getRoleService()
+    try {
+        return service.getPermissionCatalogue()
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get permissions")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get roles of a company
+export const getRoles: RouteHandler<{
+    Querystring: Static<typeof GetRolesQuerySchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRoleService()
+    try {
+        const companyId =
+            request.query.companyId ?? request.user!.companyId ?? undefined
+        const roles = await service.getRoles(companyId)
+        return { roles }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get roles")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get role by ID
+export const getRoleById: RouteHandler<{
+    Params: Static<typeof RoleParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRoleService()
+    try {
+        const role = await service.getRoleById(request.params.id)
+        return { role }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get role")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Create role
+export const createRole: RouteHandler<{
+    Body: Static<typeof CreateRoleRequestSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRoleService()
+    try {
+        const companyId = request.body.companyId ?? request.user!.companyId
+        if (!companyId) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "companyId is required",
+            )
+        }
+
+        const role = await service.createRole({ ...request.body, companyId })
+        return reply.code(201).send({ role })
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to create role")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Update role
+export const updateRole: RouteHandler<{
+    Params: Static<typeof RoleParamsSchema>
+    Body: Static<typeof UpdateRoleRequestSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRoleService()
+    try {
+        const role = await service.updateRole(request.params.id, request.body)
+        return { role }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to update role")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Delete role
+export const deleteRole: RouteHandler<{
+    Params: Static<typeof RoleParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRoleService()
+    try {
+        await service.deleteRole(request.params.id)
+        return { message: "Role deleted successfully" }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to delete role")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Assign a role to a user
+export const assignRole: RouteHandler<{
+    Params: Static<typeof RoleParamsSchema>
+    Body: Static<typeof AssignRoleRequestSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRoleService()
+    try {
+        const assignment = await service.assignRole(
+            request.params.id,
+            request.body,
+        )
+        return reply.code(201).send({ assignment })
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to assign role")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Take a role away from a user
+export const unassignRole: RouteHandler<{
+    Params: Static<typeof RoleAssignmentParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getRoleService()
+    try {
+        await service.unassignRole(
+            request.params.id,
+            request.params.assignmentId,
+        )
+        return { message: "Role assignment deleted successfully" }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to unassign role")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
@@ -0,0 +1,218 @@
+import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
+import {
+    RoleSchema,
+    RoleAssignmentSchema,
+    PermissionCatalogueSchema,
+    GetRolesQuerySchema,
+    CreateRoleRequestSchema,
+    UpdateRoleRequestSchema,
+    AssignRoleRequestSchema,
+    RoleParamsSchema,
+    RoleAssignmentParamsSchema,
+    SuccessResponseSchema,
+    ErrorResponseSchema,
+} from "./schemas"
+import {
+    getPermissions,
+    getRoles,
+    getRoleById,
+    createRole,
+    updateRole,
+    deleteRole,
+    assignRole,
+    unassignRole,
+} from "./handlers"
+
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetRoles,
+    authoriseCreateRole,
+    authoriseRole,
+} from "auth/authorizers"
+
+const rolesRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
+    // The permissions roles can grant, and those of the built-in roles
+    fastify.get(
+        "/permissions",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "List permissions and built-in roles",
+                response: {
+                    200: PermissionCatalogueSchema,
+                    401: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        getPermissions,
+    )
+
+    // Get a company's roles
+    fastify.get<{
+        Querystring: Static<typeof GetRolesQuerySchema>
+    }>(
+        "/",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "List company roles",
+                querystring: GetRolesQuerySchema,
+                response: {
+                    200: Type.Object({ roles: Type.Array(RoleSchema) }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(authoriseGetRoles),
+        },
+        getRoles,
+    )
+
+    // Define a role for a company
+    fastify.post<{
+        Body: Static<typeof CreateRoleRequestSchema>
+    }>(
+        "/",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "Create a company role",
+                body: CreateRoleRequestSchema,
+                response: {
+                    201: Type.Object({ role: RoleSchema }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseCreateRole),
+        },
+        createRole,
+    )
+
+    fastify.get<{ Params: Static<typeof RoleParamsSchema> }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "Get company role by ID",
+                params: RoleParamsSchema,
+                response: {
+                    200: Type.Object({ role: RoleSchema }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(authoriseRole),
+        },
+        getRoleById,
+    )
+
+    fastify.put<{
+        Params: Static<typeof RoleParamsSchema>
+        Body: Static<typeof UpdateRoleRequestSchema>
+    }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "Update a company role",
+                params: RoleParamsSchema,
+                body: UpdateRoleRequestSchema,
+                response: {
+                    200: Type.Object({ role: RoleSchema }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseRole),
+        },
+        updateRole,
+    )
+
+    fastify.delete<{ Params: Static<typeof RoleParamsSchema> }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "Delete a company role",
+                params: RoleParamsSchema,
+                response: {
+                    200: SuccessResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseRole),
+        },
+        deleteRole,
+    )
+
+    // Assign a role to a user, for the whole company or one branch
+    fastify.post<{
+        Params: Static<typeof RoleParamsSchema>
+        Body: Static<typeof AssignRoleRequestSchema>
+    }>(
+        "/:id/assignments",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "Assign a company role to a user",
+                params: RoleParamsSchema,
+                body: AssignRoleRequestSchema,
+                response: {
+                    201: Type.Object({ assignment: RoleAssignmentSchema }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseRole),
+        },
+        assignRole,
+    )
+
+    fastify.delete<{ Params: Static<typeof RoleAssignmentParamsSchema> }>(
+        "/:id/assignments/:assignmentId",
+        {
+            schema: {
+                tags: ["Roles"],
+                summary: "Take a company role away from a user",
+                params: RoleAssignmentParamsSchema,
+                response: {
+                    200: SuccessResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseRole),
+        },
+        unassignRole,
+    )
+}
+
+export default rolesRoutes
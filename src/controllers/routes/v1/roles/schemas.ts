@@ -0,0 +1,93 @@
+import { Type } from "@sinclair/typebox"
+import { UserRole } from "@prisma/client"
+import { ALL_PERMISSIONS } from "auth/permissions"
+
+const PermissionSchema = Type.Union(
+    ALL_PERMISSIONS.map((permission) => Type.Literal(permission)),
+)
+
+// Role assignment response schema
+export const RoleAssignmentSchema = Type.Object({
+    id: Type.String(),
+    roleId: Type.String(),
+    userId: Type.String(),
+    branchId: Type.Union([Type.String(), Type.Null()]),
+    createdAt: Type.String({ format: "date-time" }),
+})
+
+// Company role response schema
+export const RoleSchema = Type.Object({
+    id: Type.String(),
+    companyId: Type.String(),
+    name: Type.String(),
+    description: Type.Union([Type.String(), Type.Null()]),
+    permissions: Type.Array(Type.String()),
+    assignments: Type.Array(RoleAssignmentSchema),
+    createdAt: Type.String({ format: "date-time" }),
+    updatedAt: Type.String({ format: "date-time" }),
+})
+
+// Permission catalogue response schema
+export const PermissionCatalogueSchema = Type.Object({
+    permissions: Type.Array(
+        Type.Object({
+            name: Type.String(),
+            description: Type.String(),
+        }),
+    ),
+    builtInRoles: Type.Array(
+        Type.Object({
+            name: Type.Union([
+                Type.Literal(UserRole.ADMIN),
+                Type.Literal(UserRole.RECRUITER),
+                Type.Literal(UserRole.READONLY),
+            ]),
+            permissions: Type.Array(Type.String()),
+        }),
+    ),
+})
+
+// List roles query schema
+export const GetRolesQuerySchema = Type.Object({
+    companyId: Type.Optional(Type.String()),
+})
+
+// Create role request schema
+export const CreateRoleRequestSchema = Type.Object({
+    companyId: Type.Optional(Type.String()),
+    name: Type.String({ minLength: 1 }),
+    description: Type.Optional(Type.String()),
+    permissions: Type.Array(PermissionSchema),
+})
+
+// Update role request schema
+export const UpdateRoleRequestSchema = Type.Object({
+    name: Type.Optional(Type.String({ minLength: 1 })),
+    description: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    permissions: Type.Optional(Type.Array(PermissionSchema)),
+})
+
+// Assign role request schema
+export const AssignRoleRequestSchema = Type.Object({
+    userId: Type.String(),
+    branchId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+})
+
+export const RoleParamsSchema = Type.Object({
+    id: Type.String(),
+})
+
+export const RoleAssignmentParamsSchema = Type.Object({
+    id: Type.String(),
+    assignmentId: Type.String(),
+})
+
+// Success response schema
+export const SuccessResponseSchema = Type.Object({
+    message: Type.String(),
+})
+
+// Error response schema
+export const ErrorResponseSchema = Type.Object({
+    error: Type.String(),
+})
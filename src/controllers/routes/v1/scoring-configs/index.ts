@@ -17,10 +17,35 @@ import {
     applyScoringConfig,
     previewScoringConfig,
 } from "./handlers"
+import { ScoringConfigCreate, ScoringConfigUpdate } from "types/scoring"
+
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetScoringConfigs,
+    authoriseGetScoringConfigById,
+    authoriseCreateScoringConfig,
+    authoriseUpdateScoringConfig,
+    authoriseDeleteScoringConfig,
+    authoriseApplyScoringConfig,
+    authorisePreviewScoringConfig,
+} from "auth/authorizers"
 
 const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
     // Get all scoring configs
-    fastify.get(
+    fastify.get<{
+        Querystring: {
+            isDefault?: boolean
+            jobId?: string
+        }
+    }>(
         "/",
         {
             schema: {
@@ -43,15 +68,19 @@ const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
                             },
                         },
                     },
+                    403: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(authoriseGetScoringConfigs),
         },
         getScoringConfigs,
     )
 
     // Get scoring config by ID
-    fastify.get(
+    fastify.get<{
+        Params: { id: string }
+    }>(
         "/:id",
         {
             schema: {
@@ -71,16 +100,22 @@ const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
                             config: ScoringConfigWithDetailsSchema,
                         },
                     },
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(
+                authoriseGetScoringConfigById,
+            ),
         },
         getScoringConfigById,
     )
 
     // Create scoring config
-    fastify.post(
+    fastify.post<{
+        Body: ScoringConfigCreate
+    }>(
         "/",
         {
             schema: {
@@ -95,15 +130,20 @@ const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
                         },
                     },
                     400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseCreateScoringConfig),
         },
         createScoringConfig,
     )
 
     // Update scoring config
-    fastify.put(
+    fastify.put<{
+        Params: { id: string }
+        Body: ScoringConfigUpdate
+    }>(
         "/:id",
         {
             schema: {
@@ -125,16 +165,20 @@ const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
                         },
                     },
                     400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseUpdateScoringConfig),
         },
         updateScoringConfig,
     )
 
     // Delete scoring config
-    fastify.delete(
+    fastify.delete<{
+        Params: { id: string }
+    }>(
         "/:id",
         {
             schema: {
@@ -149,16 +193,21 @@ const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
                 },
                 response: {
                     200: SuccessResponseSchema,
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseDeleteScoringConfig),
         },
         deleteScoringConfig,
     )
 
     // Apply scoring config to job
-    fastify.post(
+    fastify.post<{
+        Params: { id: string }
+        Body: { jobId: string }
+    }>(
         "/:id/apply",
         {
             schema: {
@@ -186,16 +235,21 @@ const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
                         },
                     },
                     400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preHandler: createAuthorizer(authoriseApplyScoringConfig),
         },
         applyScoringConfig,
     )
 
     // Preview scoring config impact
-    fastify.get(
+    fastify.get<{
+        Params: { id: string }
+        Querystring: { jobId: string }
+    }>(
         "/:id/preview",
         {
             schema: {
@@ -223,10 +277,14 @@ const scoringConfigsRoutes: FastifyPluginAsync = async (fastify) => {
                         },
                     },
                     400: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
                     404: ErrorResponseSchema,
                     500: ErrorResponseSchema,
                 },
             },
+            preSerialization: createGetAuthorizer(
+                authorisePreviewScoringConfig,
+            ),
         },
         previewScoringConfig,
     )
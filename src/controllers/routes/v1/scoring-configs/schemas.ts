@@ -1,4 +1,5 @@
 import { Type } from "@sinclair/typebox"
+import { RankingMethod, RankingTieBreaker } from "@prisma/client"
 
 // Base Scoring Config Schema
 export const ScoringConfigSchema = Type.Object({
@@ -6,6 +7,8 @@ export const ScoringConfigSchema = Type.Object({
     negativeMarkingFraction: Type.Number(),
     recencyWindowDays: Type.Union([Type.Number(), Type.Null()]),
     recencyBoostPercent: Type.Union([Type.Number(), Type.Null()]),
+    tieBreakers: Type.Array(Type.Enum(RankingTieBreaker)),
+    rankingMethod: Type.Enum(RankingMethod),
     isDefault: Type.Boolean(),
     jobId: Type.Union([Type.String(), Type.Null()]),
     createdAt: Type.String({ format: "date-time" }),
@@ -39,6 +42,10 @@ export const CreateScoringConfigRequestSchema = Type.Object({
     recencyBoostPercent: Type.Optional(
         Type.Union([Type.Number(), Type.Null()]),
     ),
+    tieBreakers: Type.Optional(
+        Type.Array(Type.Enum(RankingTieBreaker), { uniqueItems: true }),
+    ),
+    rankingMethod: Type.Optional(Type.Enum(RankingMethod)),
     isDefault: Type.Optional(Type.Boolean()),
     jobId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
 })
@@ -50,6 +57,10 @@ export const UpdateScoringConfigRequestSchema = Type.Object({
     recencyBoostPercent: Type.Optional(
         Type.Union([Type.Number(), Type.Null()]),
     ),
+    tieBreakers: Type.Optional(
+        Type.Array(Type.Enum(RankingTieBreaker), { uniqueItems: true }),
+    ),
+    rankingMethod: Type.Optional(Type.Enum(RankingMethod)),
     isDefault: Type.Optional(Type.Boolean()),
 })
 
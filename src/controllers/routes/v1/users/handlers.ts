@@ -100,6 +100,24 @@ export const login: RouteHandler<{
     }
 }
 
+// Refresh tokens
+export const refresh: RouteHandler<{
+    Body: { refreshToken: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getUserService()
+    try {
+        const result = await service.refresh(
+            request.body.refreshToken,
+            request.headers["user-agent"],
+            request.ip,
+        )
+        return result
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to refresh session")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
 // Get current user (me)
 export const getMe: RouteHandler = async function (this, request, reply) {
     const service = this.services.getUserService()
@@ -178,6 +196,57 @@ export const logoutAll: RouteHandler = async function (this, request, reply) {
     }
 }
 
+// Get signed in devices
+export const getSessions: RouteHandler = async function (this, request, reply) {
+    const service = this.services.getUserService()
+    try {
+        if (!request.user) {
+            const resp = mapToErrorResponse(
+                new ServiceError(
+                    ServiceErrorType.Forbidden,
+                    "Not authenticated",
+                ),
+                "Not authenticated",
+            )
+            return reply.code(resp.code).send(resp.returnError())
+        }
+
+        const sessions = await service.getSessions(
+            request.user.id,
+            request.user.sessionId,
+        )
+        return { sessions }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get sessions")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Sign a device out
+export const revokeSession: RouteHandler<{
+    Params: { id: string }
+}> = async function (this, request, reply) {
+    const service = this.services.getUserService()
+    try {
+        if (!request.user) {
+            const resp = mapToErrorResponse(
+                new ServiceError(
+                    ServiceErrorType.Forbidden,
+                    "Not authenticated",
+                ),
+                "Not authenticated",
+            )
+            return reply.code(resp.code).send(resp.returnError())
+        }
+
+        await service.revokeSession(request.user.id, request.params.id)
+        return { message: "Session revoked successfully" }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to revoke session")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
 // Change password
 export const changePassword: RouteHandler<{
     Body: {
@@ -7,6 +7,8 @@ import {
     UpdateUserRequestSchema,
     LoginRequestSchema,
     LoginResponseSchema,
+    RefreshRequestSchema,
+    DeviceSessionSchema,
     ChangePasswordRequestSchema,
     SuccessResponseSchema,
     ErrorResponseSchema,
@@ -18,9 +20,12 @@ import {
     updateUser,
     deleteUser,
     login,
+    refresh,
     getMe,
     logout,
     logoutAll,
+    getSessions,
+    revokeSession,
     changePassword,
 } from "./handlers"
 
@@ -49,10 +54,29 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
         login,
     )
 
+    fastify.post(
+        "/refresh",
+        {
+            config: { public: true },
+            schema: {
+                tags: ["Authentication"],
+                summary: "Exchange a refresh token for new tokens",
+                body: RefreshRequestSchema,
+                response: {
+                    200: LoginResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        refresh,
+    )
+
     // Current user routes (auth required)
     fastify.get(
         "/me",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Authentication"],
                 summary: "Get current user",
@@ -71,6 +95,7 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.post(
         "/logout",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Authentication"],
                 summary: "Logout current session",
@@ -88,6 +113,7 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.post(
         "/logout-all",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Authentication"],
                 summary: "Logout all sessions",
@@ -102,9 +128,59 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
         logoutAll,
     )
 
+    fastify.get(
+        "/sessions",
+        {
+            config: { userOnly: true },
+            schema: {
+                tags: ["Authentication"],
+                summary: "List the devices signed in",
+
+                response: {
+                    200: {
+                        sessions: {
+                            type: "array",
+                            items: DeviceSessionSchema,
+                        },
+                    },
+                    401: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        getSessions,
+    )
+
+    fastify.delete(
+        "/sessions/:id",
+        {
+            config: { userOnly: true },
+            schema: {
+                tags: ["Authentication"],
+                summary: "Sign a device out",
+
+                params: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string" },
+                    },
+                    required: ["id"],
+                },
+                response: {
+                    200: SuccessResponseSchema,
+                    401: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+        },
+        revokeSession,
+    )
+
     fastify.post(
         "/change-password",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Authentication"],
                 summary: "Change user password",
@@ -125,6 +201,7 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.get(
         "/",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Users"],
                 summary: "Get all users",
@@ -147,6 +224,7 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.get(
         "/:id",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Users"],
                 summary: "Get user by ID",
@@ -194,6 +272,7 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.put(
         "/:id",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Users"],
                 summary: "Update user",
@@ -221,6 +300,7 @@ const usersRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.delete(
         "/:id",
         {
+            config: { userOnly: true },
             schema: {
                 tags: ["Users"],
                 summary: "Delete user",
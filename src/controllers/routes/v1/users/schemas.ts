@@ -94,6 +94,8 @@ export const LoginRequestSchema = Type.Object({
 // Login response schema
 export const LoginResponseSchema = Type.Object({
     token: Type.String(),
+    expiresIn: Type.Integer(),
+    refreshToken: Type.String(),
     user: Type.Object({
         id: Type.String(),
         email: Type.String(),
@@ -108,6 +110,21 @@ export const LoginResponseSchema = Type.Object({
     }),
 })
 
+// Refresh request schema
+export const RefreshRequestSchema = Type.Object({
+    refreshToken: Type.String({ minLength: 1 }),
+})
+
+// Device session schema
+export const DeviceSessionSchema = Type.Object({
+    id: Type.String(),
+    userAgent: Type.Union([Type.String(), Type.Null()]),
+    ipAddress: Type.Union([Type.String(), Type.Null()]),
+    createdAt: Type.String({ format: "date-time" }),
+    expiresAt: Type.String({ format: "date-time" }),
+    current: Type.Boolean(),
+})
+
 // Change password request schema
 export const ChangePasswordRequestSchema = Type.Object({
     currentPassword: Type.String({ minLength: 1 }),
@@ -0,0 +1,153 @@
+import { Static } from "@sinclair/typebox"
+import { RouteHandler } from "fastify"
+import { mapToErrorResponse } from "controllers/errors"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+import {
+    CreateWebhookSubscriptionRequestSchema,
+    GetWebhookDeliveriesQuerySchema,
+    GetWebhookSubscriptionsQuerySchema,
+    UpdateWebhookSubscriptionRequestSchema,
+    WebhookDeliveryParamsSchema,
+    WebhookParamsSchema,
+} from "./schemas"
+
+// Get webhook subscriptions of a company
+export const getWebhookSubscriptions: RouteHandler<{
+    Querystring: Static<typeof GetWebhookSubscriptionsQuerySchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getWebhookService()
+    try {
+        const companyId =
+            request.query.companyId ?? request.user!.companyId ?? undefined
+        const subscriptions = await service.getSubscriptions(companyId)
+        return { subscriptions }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to get webhook subscriptions",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get webhook subscription by ID
+export const getWebhookSubscriptionById: RouteHandler<{
+    Params: Static<typeof WebhookParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getWebhookService()
+    try {
+        const subscription = await service.getSubscriptionById(
+            request.params.id,
+        )
+        return { subscription }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to get webhook subscription",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Create webhook subscription
+export const createWebhookSubscription: RouteHandler<{
+    Body: Static<typeof CreateWebhookSubscriptionRequestSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getWebhookService()
+    try {
+        const companyId = request.body.companyId ?? request.user!.companyId
+        if (!companyId) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "companyId is required",
+            )
+        }
+
+        const subscription = await service.createSubscription({
+            ...request.body,
+            companyId,
+        })
+        return reply.code(201).send({ subscription })
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to create webhook subscription",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Update webhook subscription
+export const updateWebhookSubscription: RouteHandler<{
+    Params: Static<typeof WebhookParamsSchema>
+    Body: Static<typeof UpdateWebhookSubscriptionRequestSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getWebhookService()
+    try {
+        const subscription = await service.updateSubscription(
+            request.params.id,
+            request.body,
+        )
+        return { subscription }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to update webhook subscription",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Delete webhook subscription
+export const deleteWebhookSubscription: RouteHandler<{
+    Params: Static<typeof WebhookParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getWebhookService()
+    try {
+        await service.deleteSubscription(request.params.id)
+        return { message: "Webhook subscription deleted successfully" }
+    } catch (err) {
+        const resp = mapToErrorResponse(
+            err,
+            "Failed to delete webhook subscription",
+        )
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Get the delivery log of a webhook subscription
+export const getWebhookDeliveries: RouteHandler<{
+    Params: Static<typeof WebhookParamsSchema>
+    Querystring: Static<typeof GetWebhookDeliveriesQuerySchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getWebhookService()
+    try {
+        const { limit, offset } = request.query
+        const deliveries = await service.getDeliveries(
+            request.params.id,
+            limit,
+            offset,
+        )
+        return { deliveries }
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to get webhook deliveries")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
+
+// Send a webhook delivery again
+export const redeliverWebhook: RouteHandler<{
+    Params: Static<typeof WebhookDeliveryParamsSchema>
+}> = async function (this, request, reply) {
+    const service = this.services.getWebhookService()
+    try {
+        const delivery = await service.redeliver(
+            request.params.id,
+            request.params.deliveryId,
+        )
+        return reply.code(202).send({ delivery })
+    } catch (err) {
+        const resp = mapToErrorResponse(err, "Failed to redeliver webhook")
+        return reply.code(resp.code).send(resp.returnError())
+    }
+}
@@ -0,0 +1,212 @@
+import { FastifyPluginAsync } from "fastify"
+import { Static, Type } from "@sinclair/typebox"
+import {
+    WebhookSubscriptionSchema,
+    WebhookSubscriptionWithSecretSchema,
+    WebhookDeliverySchema,
+    GetWebhookSubscriptionsQuerySchema,
+    CreateWebhookSubscriptionRequestSchema,
+    UpdateWebhookSubscriptionRequestSchema,
+    WebhookParamsSchema,
+    WebhookDeliveryParamsSchema,
+    GetWebhookDeliveriesQuerySchema,
+    SuccessResponseSchema,
+    ErrorResponseSchema,
+} from "./schemas"
+import {
+    getWebhookSubscriptions,
+    getWebhookSubscriptionById,
+    createWebhookSubscription,
+    updateWebhookSubscription,
+    deleteWebhookSubscription,
+    getWebhookDeliveries,
+    redeliverWebhook,
+} from "./handlers"
+
+import jwtAuth from "auth/jwtAuth"
+import Authorisation, {
+    createAuthorizer,
+    createGetAuthorizer,
+} from "auth/authorisation"
+import {
+    authoriseGetWebhookSubscriptions,
+    authoriseCreateWebhookSubscription,
+    authoriseWebhookSubscription,
+} from "auth/authorizers"
+
+const webhooksRoutes: FastifyPluginAsync = async (fastify) => {
+    // Register authentication and authorization middleware
+    fastify.register(jwtAuth)
+    fastify.register(Authorisation)
+
+    // Get a company's webhook subscriptions
+    fastify.get<{
+        Querystring: Static<typeof GetWebhookSubscriptionsQuerySchema>
+    }>(
+        "/",
+        {
+            schema: {
+                tags: ["Webhooks"],
+                summary: "List webhook subscriptions",
+                querystring: GetWebhookSubscriptionsQuerySchema,
+                response: {
+                    200: Type.Object({
+                        subscriptions: Type.Array(WebhookSubscriptionSchema),
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(
+                authoriseGetWebhookSubscriptions,
+            ),
+        },
+        getWebhookSubscriptions,
+    )
+
+    // Subscribe a company to events
+    fastify.post<{
+        Body: Static<typeof CreateWebhookSubscriptionRequestSchema>
+    }>(
+        "/",
+        {
+            schema: {
+                tags: ["Webhooks"],
+                summary: "Create a webhook subscription",
+                body: CreateWebhookSubscriptionRequestSchema,
+                response: {
+                    201: Type.Object({
+                        subscription: WebhookSubscriptionWithSecretSchema,
+                    }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseCreateWebhookSubscription),
+        },
+        createWebhookSubscription,
+    )
+
+    fastify.get<{ Params: Static<typeof WebhookParamsSchema> }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["Webhooks"],
+                summary: "Get webhook subscription by ID",
+                params: WebhookParamsSchema,
+                response: {
+                    200: Type.Object({
+                        subscription: WebhookSubscriptionSchema,
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(authoriseWebhookSubscription),
+        },
+        getWebhookSubscriptionById,
+    )
+
+    fastify.put<{
+        Params: Static<typeof WebhookParamsSchema>
+        Body: Static<typeof UpdateWebhookSubscriptionRequestSchema>
+    }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["Webhooks"],
+                summary: "Update a webhook subscription",
+                params: WebhookParamsSchema,
+                body: UpdateWebhookSubscriptionRequestSchema,
+                response: {
+                    200: Type.Object({
+                        subscription: WebhookSubscriptionSchema,
+                    }),
+                    400: ErrorResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseWebhookSubscription),
+        },
+        updateWebhookSubscription,
+    )
+
+    fastify.delete<{ Params: Static<typeof WebhookParamsSchema> }>(
+        "/:id",
+        {
+            schema: {
+                tags: ["Webhooks"],
+                summary: "Delete a webhook subscription",
+                params: WebhookParamsSchema,
+                response: {
+                    200: SuccessResponseSchema,
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseWebhookSubscription),
+        },
+        deleteWebhookSubscription,
+    )
+
+    // Delivery log of a subscription
+    fastify.get<{
+        Params: Static<typeof WebhookParamsSchema>
+        Querystring: Static<typeof GetWebhookDeliveriesQuerySchema>
+    }>(
+        "/:id/deliveries",
+        {
+            schema: {
+                tags: ["Webhooks"],
+                summary: "List the deliveries of a webhook subscription",
+                params: WebhookParamsSchema,
+                querystring: GetWebhookDeliveriesQuerySchema,
+                response: {
+                    200: Type.Object({
+                        deliveries: Type.Array(WebhookDeliverySchema),
+                    }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preSerialization: createGetAuthorizer(authoriseWebhookSubscription),
+        },
+        getWebhookDeliveries,
+    )
+
+    // Send a delivery again
+    fastify.post<{ Params: Static<typeof WebhookDeliveryParamsSchema> }>(
+        "/:id/deliveries/:deliveryId/redeliver",
+        {
+            schema: {
+                tags: ["Webhooks"],
+                summary: "Send a webhook delivery again",
+                params: WebhookDeliveryParamsSchema,
+                response: {
+                    202: Type.Object({ delivery: WebhookDeliverySchema }),
+                    401: ErrorResponseSchema,
+                    403: ErrorResponseSchema,
+                    404: ErrorResponseSchema,
+                    500: ErrorResponseSchema,
+                },
+            },
+            preHandler: createAuthorizer(authoriseWebhookSubscription),
+        },
+        redeliverWebhook,
+    )
+}
+
+export default webhooksRoutes
@@ -0,0 +1,101 @@
+import { Type } from "@sinclair/typebox"
+import { WebhookDeliveryStatus } from "@prisma/client"
+import { TrueFitEventTypes } from "services/events"
+
+const EventTypeSchema = Type.Union(
+    Object.values(TrueFitEventTypes).map((type) => Type.Literal(type)),
+)
+
+// Webhook subscription response schema (without its secret)
+export const WebhookSubscriptionSchema = Type.Object({
+    id: Type.String(),
+    companyId: Type.String(),
+    url: Type.String(),
+    eventTypes: Type.Array(Type.String()),
+    description: Type.Union([Type.String(), Type.Null()]),
+    isActive: Type.Boolean(),
+    createdAt: Type.String({ format: "date-time" }),
+    updatedAt: Type.String({ format: "date-time" }),
+})
+
+// Newly created subscription, the only response including the secret
+export const WebhookSubscriptionWithSecretSchema = Type.Object({
+    ...WebhookSubscriptionSchema.properties,
+    secret: Type.String(),
+})
+
+// Webhook delivery log entry schema
+export const WebhookDeliverySchema = Type.Object({
+    id: Type.String(),
+    subscriptionId: Type.String(),
+    eventType: Type.String(),
+    payload: Type.Any(),
+    status: Type.Union([
+        Type.Literal(WebhookDeliveryStatus.PENDING),
+        Type.Literal(WebhookDeliveryStatus.SUCCEEDED),
+        Type.Literal(WebhookDeliveryStatus.FAILED),
+    ]),
+    attempts: Type.Number(),
+    nextAttemptAt: Type.Union([
+        Type.String({ format: "date-time" }),
+        Type.Null(),
+    ]),
+    responseStatus: Type.Union([Type.Number(), Type.Null()]),
+    lastError: Type.Union([Type.String(), Type.Null()]),
+    createdAt: Type.String({ format: "date-time" }),
+    deliveredAt: Type.Union([
+        Type.String({ format: "date-time" }),
+        Type.Null(),
+    ]),
+})
+
+// List webhook subscriptions query schema
+export const GetWebhookSubscriptionsQuerySchema = Type.Object({
+    companyId: Type.Optional(Type.String()),
+})
+
+// Create webhook subscription request schema
+export const CreateWebhookSubscriptionRequestSchema = Type.Object({
+    companyId: Type.Optional(Type.String()),
+    url: Type.String({ minLength: 1 }),
+    eventTypes: Type.Optional(Type.Array(EventTypeSchema)),
+    secret: Type.Optional(Type.String({ minLength: 16 })),
+    description: Type.Optional(Type.String()),
+    isActive: Type.Optional(Type.Boolean()),
+})
+
+// Update webhook subscription request schema
+export const UpdateWebhookSubscriptionRequestSchema = Type.Object({
+    url: Type.Optional(Type.String({ minLength: 1 })),
+    eventTypes: Type.Optional(Type.Array(EventTypeSchema)),
+    secret: Type.Optional(Type.String({ minLength: 16 })),
+    description: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    isActive: Type.Optional(Type.Boolean()),
+})
+
+export const WebhookParamsSchema = Type.Object({
+    id: Type.String(),
+})
+
+export const WebhookDeliveryParamsSchema = Type.Object({
+    id: Type.String(),
+    deliveryId: Type.String(),
+})
+
+// List webhook deliveries query schema
+export const GetWebhookDeliveriesQuerySchema = Type.Object({
+    limit: Type.Optional(
+        Type.Number({ minimum: 1, maximum: 100, default: 50 }),
+    ),
+    offset: Type.Optional(Type.Number({ minimum: 0, default: 0 })),
+})
+
+// Success response schema
+export const SuccessResponseSchema = Type.Object({
+    message: Type.String(),
+})
+
+// Error response schema
+export const ErrorResponseSchema = Type.Object({
+    error: Type.String(),
+})
@@ -1,16 +1,34 @@
 import { FastifyInstance } from "fastify"
 import fp from "fastify-plugin"
-import AwaitableEventRelaying from "services/events/awaitable"
+import getOutboxEventPool from "persistence/db/pool/outbox-events"
+import OutboxEventRelaying from "services/events/outbox"
+
+interface EventsOptions {
+    /** Whether this instance delivers stored events to listeners */
+    startDispatcher?: boolean
+}
 
 /**
- * Plugin that adds an event relaying instance to the Fastify instance
+ * Plugin that adds an event relaying instance to the Fastify instance.
+ * Events are stored in the outbox table and delivered by a dispatcher.
  * @param fastify
+ * @param options
  */
-async function events(fastify: FastifyInstance) {
-    const events = new AwaitableEventRelaying()
+async function events(fastify: FastifyInstance, options: EventsOptions) {
+    const events = new OutboxEventRelaying(
+        getOutboxEventPool(fastify.db, fastify.log),
+        fastify.log,
+    )
     fastify.decorate("events", events)
+
+    if (options.startDispatcher) {
+        // Start once the services have registered their listeners
+        fastify.addHook("onReady", async () => events.start())
+        fastify.addHook("onClose", async () => events.stop())
+    }
 }
 
 export default fp(events, {
     name: "events",
+    dependencies: ["db"],
 })
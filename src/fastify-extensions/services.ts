@@ -2,15 +2,36 @@ import { FastifyInstance } from "fastify"
 import fp from "fastify-plugin"
 import { getServices } from "../services"
 
+interface ServicesOptions {
+    /**
+     * Whether this instance sends queued webhook deliveries, processes
+     * queued ranking batches and competes for running the ranking scheduler
+     */
+    startDispatchers?: boolean
+}
+
 /**
  * Plugin that adds business logic services to the Fastify instance
  * @param fastify
+ * @param options
  */
-async function services(fastify: FastifyInstance) {
-    fastify.decorate(
-        "services",
-        getServices(fastify.db, fastify.log, fastify.events),
-    )
+async function services(fastify: FastifyInstance, options: ServicesOptions) {
+    const services = getServices(fastify.db, fastify.log, fastify.events)
+    fastify.decorate("services", services)
+
+    if (options.startDispatchers) {
+        const webhooks = services.getWebhookDispatcher()
+        fastify.addHook("onReady", async () => webhooks.start())
+        fastify.addHook("onClose", async () => webhooks.stop())
+
+        const batches = services.getRankingBatchWorker()
+        fastify.addHook("onReady", async () => batches.start())
+        fastify.addHook("onClose", async () => batches.stop())
+
+        const rankings = services.getRankingScheduler()
+        fastify.addHook("onReady", async () => rankings.start())
+        fastify.addHook("onClose", async () => rankings.stop())
+    }
 }
 
 export default fp(services, {
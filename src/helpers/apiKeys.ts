@@ -0,0 +1,29 @@
+import { createHash, randomBytes } from "crypto"
+
+// Every key starts with this, telling keys apart from user JWTs
+export const API_KEY_PREFIX = "tf_"
+
+/**
+ * Generate an API key and the prefix identifying it
+ * @returns {{ key: string; prefix: string }} - The key, `tf_<id>_<secret>`, and its `tf_<id>` prefix
+ */
+export function generateApiKey(): { key: string; prefix: string } {
+    const prefix = `${API_KEY_PREFIX}${randomBytes(6).toString("hex")}`
+    const secret = randomBytes(32).toString("base64url")
+    return { key: `${prefix}_${secret}`, prefix }
+}
+
+/**
+ * Hash an API key for storage and lookup. Keys are random, so a fast hash is
+ * enough to keep them unusable if the keys table leaks.
+ */
+export function hashApiKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex")
+}
+
+/**
+ * Whether a bearer token is an API key rather than a user JWT
+ */
+export function isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX)
+}
@@ -0,0 +1,231 @@
+import {
+    AnswerReviewStatus,
+    PartialCreditMode,
+    QuestionType,
+    TextMatchMode,
+} from "@prisma/client"
+import safeRegex from "safe-regex2"
+
+// Absorbs floating point error when comparing numeric answers
+const NUMERIC_EPSILON = 1e-9
+
+// REGEX patterns compiled so far, oldest first. Null for unusable patterns.
+const MAX_COMPILED_PATTERNS = 1000
+const compiledPatterns = new Map<string, RegExp | null>()
+
+export interface GradableQuestion {
+    type: QuestionType
+    correctAnswer?: string | null
+    correctOptions: string[]
+    partialCredit: PartialCreditMode
+    matchMode?: TextMatchMode
+    acceptedAnswers?: string[]
+    matchPattern?: string | null
+    keywords?: string[]
+    keywordThreshold?: number | null
+    numericTolerance?: number | null
+    rubric?: Array<{ points: number }>
+}
+
+export interface GradableAnswer {
+    answer?: string | null
+    selectedOptions?: string[]
+}
+
+export interface AnswerGrade {
+    isCorrect: boolean
+    credit: number
+    reviewStatus: AnswerReviewStatus
+}
+
+export interface RubricAward {
+    criterionId: string
+    points: number
+}
+
+/**
+ * Grade an answer against its question. The credit is the fraction of the
+ * question weight awarded: MULTI_SELECT questions with PROPORTIONAL credit
+ * earn one share per correct pick minus one per wrong pick (never below 0),
+ * everything else is all-or-nothing. TEXT answers are compared using the
+ * question's matchMode (see matchesText). Non-empty answers to TEXT questions
+ * with a rubric earn no credit until a grader scores them (see gradeRubric).
+ */
+export function gradeAnswer(
+    question: GradableQuestion,
+    answer: GradableAnswer,
+): AnswerGrade {
+    if (
+        question.type === QuestionType.TEXT &&
+        question.rubric?.length &&
+        answer.answer?.trim()
+    ) {
+        return {
+            isCorrect: false,
+            credit: 0,
+            reviewStatus: AnswerReviewStatus.PENDING_REVIEW,
+        }
+    }
+
+    if (question.type !== QuestionType.MULTI_SELECT) {
+        const isCorrect =
+            answer.answer != null &&
+            (question.type === QuestionType.TEXT
+                ? matchesText(question, answer.answer)
+                : answer.answer === question.correctAnswer)
+        return {
+            isCorrect,
+            credit: isCorrect ? 1 : 0,
+            reviewStatus: AnswerReviewStatus.AUTO_GRADED,
+        }
+    }
+
+    const correct = new Set(question.correctOptions)
+    if (correct.size === 0) {
+        return {
+            isCorrect: false,
+            credit: 0,
+            reviewStatus: AnswerReviewStatus.AUTO_GRADED,
+        }
+    }
+
+    const selected = new Set(answer.selectedOptions ?? [])
+    let hits = 0
+    let misses = 0
+    selected.forEach((option) => (correct.has(option) ? hits++ : misses++))
+
+    const isCorrect = hits === correct.size && misses === 0
+    const credit =
+        question.partialCredit === PartialCreditMode.PROPORTIONAL
+            ? Math.max(0, (hits - misses) / correct.size)
+            : isCorrect
+            ? 1
+            : 0
+
+    return { isCorrect, credit, reviewStatus: AnswerReviewStatus.AUTO_GRADED }
+}
+
+/**
+ * Whether a TEXT answer matches the question's answer key:
+ *  - EXACT: identical to correctAnswer
+ *  - NORMALIZED: equal to correctAnswer ignoring case and extra whitespace
+ *  - ALTERNATIVES: NORMALIZED against correctAnswer or any acceptedAnswers
+ *  - REGEX: the whole trimmed answer matches matchPattern, ignoring case
+ *  - KEYWORDS: contains at least keywordThreshold (default all) of keywords
+ *  - NUMERIC: a number within numericTolerance (default 0) of correctAnswer
+ */
+export function matchesText(
+    question: GradableQuestion,
+    answer: string,
+): boolean {
+    switch (question.matchMode ?? TextMatchMode.EXACT) {
+        case TextMatchMode.NORMALIZED:
+            return (
+                question.correctAnswer != null &&
+                normalizeText(answer) === normalizeText(question.correctAnswer)
+            )
+        case TextMatchMode.ALTERNATIVES: {
+            const given = normalizeText(answer)
+            return [question.correctAnswer, ...(question.acceptedAnswers ?? [])]
+                .filter((accepted): accepted is string => accepted != null)
+                .some((accepted) => normalizeText(accepted) === given)
+        }
+        case TextMatchMode.REGEX: {
+            const pattern =
+                question.matchPattern &&
+                compileMatchPattern(question.matchPattern)
+            return !!pattern && pattern.test(answer.trim())
+        }
+        case TextMatchMode.KEYWORDS: {
+            const keywords = question.keywords ?? []
+            if (!keywords.length) {
+                return false
+            }
+            const given = normalizeText(answer)
+            const found = keywords.filter((keyword) =>
+                given.includes(normalizeText(keyword)),
+            ).length
+            return found / keywords.length >= (question.keywordThreshold ?? 1)
+        }
+        case TextMatchMode.NUMERIC: {
+            const value = parseNumericAnswer(answer)
+            const expected = parseNumericAnswer(question.correctAnswer)
+            return (
+                value !== null &&
+                expected !== null &&
+                Math.abs(value - expected) <=
+                    (question.numericTolerance ?? 0) + NUMERIC_EPSILON
+            )
+        }
+        default:
+            return answer === question.correctAnswer
+    }
+}
+
+/**
+ * Compile a REGEX matchPattern to match whole answers, ignoring case. Each
+ * pattern is compiled once. Returns null when the pattern is invalid or
+ * unsafe: nested quantifiers such as (a+)+ can take exponential time to match.
+ */
+export function compileMatchPattern(pattern: string): RegExp | null {
+    if (compiledPatterns.has(pattern)) {
+        return compiledPatterns.get(pattern)!
+    }
+
+    let compiled: RegExp | null
+    try {
+        compiled = new RegExp(`^(?:${pattern})$`, "i")
+    } catch {
+        compiled = null
+    }
+    if (compiled && !safeRegex(compiled)) {
+        compiled = null
+    }
+
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+        compiledPatterns.delete(compiledPatterns.keys().next().value!)
+    }
+    compiledPatterns.set(pattern, compiled)
+    return compiled
+}
+
+/**
+ * Lower-case a text answer and collapse its whitespace
+ */
+export function normalizeText(text: string): string {
+    return text.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+/**
+ * Parse a numeric answer, or null when it is not a plain number
+ */
+export function parseNumericAnswer(
+    text: string | null | undefined,
+): number | null {
+    const trimmed = text?.trim()
+    if (!trimmed) {
+        return null
+    }
+
+    const value = Number(trimmed)
+    return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Grade an answer from the points a grader awarded per rubric criterion. The
+ * credit is the share of the rubric's total points that was awarded.
+ */
+export function gradeRubric(
+    rubric: Array<{ points: number }>,
+    awards: RubricAward[],
+): AnswerGrade {
+    const total = rubric.reduce((sum, criterion) => sum + criterion.points, 0)
+    const awarded = awards.reduce((sum, award) => sum + award.points, 0)
+    const credit = total > 0 ? Math.min(1, awarded / total) : 0
+
+    return {
+        isCorrect: credit >= 1,
+        credit,
+        reviewStatus: AnswerReviewStatus.GRADED,
+    }
+}
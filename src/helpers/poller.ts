@@ -0,0 +1,73 @@
+import { Logger } from "types/logging"
+
+/**
+ * Runs a background task on an interval. The task resolves to whether it
+ * left work behind, in which case it runs again right away instead of
+ * waiting for the next interval. Runs never overlap.
+ */
+export default class Poller {
+    private timer: NodeJS.Timeout | null = null
+    private current: Promise<void> | null = null
+    private running = false
+
+    constructor(
+        private readonly name: string,
+        private readonly task: () => Promise<boolean>,
+        private readonly intervalMs: number,
+        private readonly logger: Logger,
+    ) {}
+
+    start(): void {
+        if (!this.running) {
+            this.running = true
+            this.schedule(0)
+        }
+    }
+
+    /**
+     * Stop polling and wait for the current run to finish
+     */
+    async stop(): Promise<void> {
+        this.running = false
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+        await this.current
+    }
+
+    /**
+     * Run the task as soon as possible, if polling has started
+     */
+    trigger(): void {
+        if (this.running && !this.current) {
+            this.schedule(0)
+        }
+    }
+
+    private schedule(delayMs: number): void {
+        if (this.timer) {
+            clearTimeout(this.timer)
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null
+            this.current = this.run().finally(() => {
+                this.current = null
+            })
+        }, delayMs)
+        this.timer.unref()
+    }
+
+    private async run(): Promise<void> {
+        let hasMore = false
+        try {
+            hasMore = await this.task()
+        } catch (err) {
+            this.logger.error(err, `${this.name} failed`)
+        }
+
+        if (this.running) {
+            this.schedule(hasMore ? 0 : this.intervalMs)
+        }
+    }
+}
@@ -0,0 +1,229 @@
+import { AnswerReviewStatus, ScoringConfig } from "@prisma/client"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ScorableQuestion {
+    weight: number
+    negativeWeight?: number | null
+}
+
+export interface ScorableAnswer {
+    credit: number
+    reviewStatus?: AnswerReviewStatus
+    question: ScorableQuestion
+}
+
+export interface ScorableSubmission {
+    submittedAt: Date
+    latePenaltyPercent?: number | null
+}
+
+export type ScoringRules = Pick<
+    ScoringConfig,
+    "negativeMarkingFraction" | "recencyWindowDays" | "recencyBoostPercent"
+>
+
+export type AnswerOutcome = "correct" | "partial" | "incorrect" | "pending"
+
+export interface ScoredAnswer {
+    weight: number
+    credit: number
+    outcome: AnswerOutcome
+    points: number
+    explanation: string
+}
+
+export interface ScoreTally {
+    count: number
+    points: number
+}
+
+export interface AssessmentScoring {
+    baseScore: number
+    recencyBonus: number
+    latePenalty: number
+    score: number
+    maxPossibleScore: number
+    percentage: number
+    correct: ScoreTally
+    partial: ScoreTally
+    incorrect: ScoreTally
+    pending: ScoreTally
+    answers: ScoredAnswer[]
+    explanation: string[]
+}
+
+/**
+ * Points deducted for an answer that earned no credit. A question's own
+ * negativeWeight takes precedence over the scoring config's
+ * negativeMarkingFraction of the question weight.
+ */
+export function wrongAnswerPenalty(
+    question: ScorableQuestion,
+    negativeMarkingFraction: number,
+): number {
+    return question.negativeWeight ?? question.weight * negativeMarkingFraction
+}
+
+/**
+ * Points earned by an answer. Answers with any credit earn that share of the
+ * weight; answers with none are penalised (see wrongAnswerPenalty).
+ */
+export function answerPoints(
+    question: ScorableQuestion,
+    credit: number,
+    negativeMarkingFraction: number,
+): number {
+    return credit > 0
+        ? question.weight * credit
+        : -wrongAnswerPenalty(question, negativeMarkingFraction)
+}
+
+/**
+ * Whether an assessment submitted at the given time still earns the recency
+ * boost, i.e. it was submitted within the last recencyWindowDays days
+ */
+export function isWithinRecencyWindow(
+    submittedAt: Date,
+    rules: ScoringRules,
+    now: Date = new Date(),
+): boolean {
+    if (!rules.recencyBoostPercent || !rules.recencyWindowDays) {
+        return false
+    }
+
+    return (
+        now.getTime() - submittedAt.getTime() <=
+        rules.recencyWindowDays * DAY_MS
+    )
+}
+
+/**
+ * Score an assessment. This is the single implementation behind rankings,
+ * the per-assessment score and explanation, and scoring config previews.
+ * Scored answers are returned in the order they were given. Answers waiting
+ * for review earn no points but still count towards the maximum score. Late
+ * submissions lose their latePenaltyPercent of a positive score.
+ */
+export function scoreAssessment(
+    answers: ScorableAnswer[],
+    submission: ScorableSubmission,
+    rules: ScoringRules,
+    now: Date = new Date(),
+): AssessmentScoring {
+    const tallies: Record<AnswerOutcome, ScoreTally> = {
+        correct: { count: 0, points: 0 },
+        partial: { count: 0, points: 0 },
+        incorrect: { count: 0, points: 0 },
+        pending: { count: 0, points: 0 },
+    }
+    let maxPossibleScore = 0
+
+    const scoredAnswers = answers.map((answer): ScoredAnswer => {
+        const weight = answer.question.weight
+        const isPending =
+            answer.reviewStatus === AnswerReviewStatus.PENDING_REVIEW
+        const points = isPending
+            ? 0
+            : answerPoints(
+                  answer.question,
+                  answer.credit,
+                  rules.negativeMarkingFraction,
+              )
+        const outcome: AnswerOutcome = isPending
+            ? "pending"
+            : answer.credit >= 1
+            ? "correct"
+            : answer.credit > 0
+            ? "partial"
+            : "incorrect"
+
+        maxPossibleScore += weight
+        tallies[outcome].count++
+        tallies[outcome].points += points
+
+        return {
+            weight,
+            credit: answer.credit,
+            outcome,
+            points,
+            explanation: explainAnswer(outcome, points, answer.credit),
+        }
+    })
+
+    const baseScore =
+        tallies.correct.points +
+        tallies.partial.points +
+        tallies.incorrect.points
+    const recencyBonus = isWithinRecencyWindow(
+        submission.submittedAt,
+        rules,
+        now,
+    )
+        ? (baseScore * rules.recencyBoostPercent!) / 100
+        : 0
+    const boosted = baseScore + recencyBonus
+    const latePenalty =
+        submission.latePenaltyPercent && boosted > 0
+            ? (boosted * submission.latePenaltyPercent) / 100
+            : 0
+    const score = boosted - latePenalty
+
+    return {
+        baseScore,
+        recencyBonus,
+        latePenalty,
+        score,
+        maxPossibleScore,
+        percentage: maxPossibleScore > 0 ? (score / maxPossibleScore) * 100 : 0,
+        ...tallies,
+        answers: scoredAnswers,
+        explanation: [
+            `Correct answers: ${tallies.correct.count} (+${tallies.correct.points} points)`,
+            ...(tallies.partial.count
+                ? [
+                      `Partially correct answers: ${
+                          tallies.partial.count
+                      } (+${tallies.partial.points.toFixed(2)} points)`,
+                  ]
+                : []),
+            `Incorrect answers: ${tallies.incorrect.count} (${tallies.incorrect.points} points)`,
+            ...(tallies.pending.count
+                ? [`Answers awaiting review: ${tallies.pending.count}`]
+                : []),
+            ...(recencyBonus
+                ? [
+                      `Recency bonus: +${recencyBonus.toFixed(2)} points (${
+                          rules.recencyBoostPercent
+                      }% boost)`,
+                  ]
+                : []),
+            ...(latePenalty
+                ? [
+                      `Late submission penalty: -${latePenalty.toFixed(
+                          2,
+                      )} points (${submission.latePenaltyPercent}%)`,
+                  ]
+                : []),
+        ],
+    }
+}
+
+function explainAnswer(
+    outcome: AnswerOutcome,
+    points: number,
+    credit: number,
+): string {
+    switch (outcome) {
+        case "correct":
+            return `Correct answer (+${points} points)`
+        case "pending":
+            return "Awaiting review (0 points)"
+        case "partial":
+            return `Partially correct answer (+${points.toFixed(
+                2,
+            )} points, ${Math.round(credit * 100)}% credit)`
+        default:
+            return `Incorrect answer (${points} points)`
+    }
+}
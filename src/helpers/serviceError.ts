@@ -36,14 +36,18 @@ export function mapDBErrorToServiceError(err: DBError): ServiceError {
     }
 }
 /**
- * Handle a db error by mapping it to a service error and throwing it
+ * Handle a db error by mapping it to a service error and throwing it. Service
+ * errors are rethrown as they are.
  * @param {unknown} err - The error thrown by the db
  * @param {Logger} logger - A logger to log unknown errors to
  * @returns {never} - This function never returns
  * @throws {ServiceError} - The mapped error
  */
 export function handleDBError(err: unknown, logger: Logger): never {
-    if (err instanceof Error) {
+    if (err instanceof ServiceError) {
+        // Already describes what went wrong
+        throw err
+    } else if (err instanceof Error) {
         const dbErr = mapDBError(err)
         const serviceError = mapDBErrorToServiceError(dbErr)
         if (dbErr.type == DBErrorType.Unknown) {
@@ -0,0 +1,161 @@
+import { createHmac, randomBytes } from "crypto"
+import { lookup } from "dns/promises"
+import { BlockList, isIP } from "net"
+import axios from "axios"
+import { WebhookResponse } from "types/webhook"
+
+export const SIGNATURE_HEADER = "x-truefit-signature"
+export const EVENT_HEADER = "x-truefit-event"
+export const DELIVERY_HEADER = "x-truefit-delivery"
+
+// Loopback, private, link-local and other addresses that are not reachable
+// from the internet, such as cloud metadata endpoints
+const PRIVATE_NETWORKS = new BlockList()
+for (const [network, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+] as const) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+] as const) {
+    PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6")
+}
+
+/**
+ * Generate a secret for signing webhook payloads
+ */
+export function generateWebhookSecret(): string {
+    return randomBytes(32).toString("hex")
+}
+
+/**
+ * Sign a webhook body. Receivers recompute the HMAC-SHA256 of
+ * `<timestamp>.<body>` with their secret and compare it to v1, and can
+ * reject old timestamps to prevent replays.
+ * @param {string} secret - The subscription's secret
+ * @param {number} timestamp - Unix time in seconds
+ * @param {string} body - The exact request body
+ * @returns {string} - The signature header value, `t=<timestamp>,v1=<hex>`
+ */
+export function signWebhookPayload(
+    secret: string,
+    timestamp: number,
+    body: string,
+): string {
+    const signature = createHmac("sha256", secret)
+        .update(`${timestamp}.${body}`)
+        .digest("hex")
+    return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Whether an IP address is reachable from the internet
+ */
+function isPublicAddress(address: string): boolean {
+    return !PRIVATE_NETWORKS.check(
+        address,
+        isIP(address) === 6 ? "ipv6" : "ipv4",
+    )
+}
+
+/**
+ * Resolve a host to an address, as long as every address it resolves to is
+ * public. Requests connect through this, so that a host cannot be pointed to
+ * a private address after its URL was checked.
+ */
+async function lookupPublicAddress(hostname: string): Promise<string> {
+    const addresses = await lookup(hostname, { all: true })
+    if (!addresses.every(({ address }) => isPublicAddress(address))) {
+        throw new Error(`${hostname} resolves to a private address`)
+    }
+    return addresses[0].address
+}
+
+/**
+ * Check that webhooks can be sent to a URL. It must be an http or https URL
+ * whose host only resolves to public addresses, which keeps webhooks from
+ * reaching internal services.
+ * @param {string} value - The URL
+ * @param {boolean} allowPrivateNetworks - Whether private addresses are allowed
+ * @returns {Promise<string | null>} - Why the URL is refused, or null
+ */
+export async function checkWebhookUrl(
+    value: string,
+    allowPrivateNetworks: boolean,
+): Promise<string | null> {
+    let url: URL
+    try {
+        url = new URL(value)
+    } catch {
+        return "Must be an http or https URL"
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        return "Must be an http or https URL"
+    }
+    if (allowPrivateNetworks) {
+        return null
+    }
+
+    // IPv6 hosts are bracketed in URLs
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1")
+    let addresses = [host]
+    if (!isIP(host)) {
+        try {
+            const resolved = await lookup(host, { all: true })
+            addresses = resolved.map(({ address }) => address)
+        } catch {
+            return `Could not resolve ${host}`
+        }
+    }
+
+    return addresses.every(isPublicAddress)
+        ? null
+        : "Must not point to a private address"
+}
+
+/**
+ * POST a webhook body. Resolves with the status of any response the server
+ * sends, and rejects when the request could not be completed or the URL is
+ * refused. Response bodies are never read.
+ */
+export async function postWebhook(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+    timeoutMs: number,
+    allowPrivateNetworks: boolean,
+): Promise<WebhookResponse> {
+    // Hosts can point elsewhere since the subscription was created
+    const refused = await checkWebhookUrl(url, allowPrivateNetworks)
+    if (refused) {
+        throw new Error(`Refused ${url}: ${refused}`)
+    }
+
+    const response = await axios.post(url, body, {
+        headers: { ...headers, "content-type": "application/json" },
+        timeout: timeoutMs,
+        maxRedirects: 0,
+        responseType: "stream",
+        validateStatus: () => true,
+        lookup: allowPrivateNetworks ? undefined : lookupPublicAddress,
+    })
+    response.data.destroy()
+
+    return { status: response.status }
+}
@@ -0,0 +1,178 @@
+import { Prisma, PrismaClient } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { Logger } from "types/logging"
+import { ApiKey, ApiKeyCreate } from "types/apiKey"
+import { isPermission } from "auth/permissions"
+
+// Everything but the hash of the key
+const API_KEY_SELECT = Prisma.validator<Prisma.ApiKeySelect>()({
+    id: true,
+    companyId: true,
+    name: true,
+    prefix: true,
+    scopes: true,
+    expiresAt: true,
+    lastUsedAt: true,
+    revokedAt: true,
+    createdAt: true,
+    createdById: true,
+})
+
+// Scopes dropped from the permission catalogue are no longer granted
+const toApiKey = <T extends { scopes: string[] }>(apiKey: T) => ({
+    ...apiKey,
+    scopes: apiKey.scopes.filter(isPermission),
+})
+
+export interface ApiKeyPool {
+    /**
+     * Get API keys, optionally of one company
+     * @param {string} companyId - The ID of the company
+     * @returns {Promise<ApiKey[]>} - The keys, most recent first
+     */
+    getApiKeys(companyId?: string): Promise<ApiKey[]>
+
+    /**
+     * Get an API key by ID
+     * @param {string} id - The ID of the key
+     * @returns {Promise<ApiKey | null>} - The key
+     */
+    getApiKeyById(id: string): Promise<ApiKey | null>
+
+    /**
+     * Get an API key by the hash of its value
+     * @param {string} keyHash - The hash of the key
+     * @returns {Promise<ApiKey | null>} - The key
+     */
+    getApiKeyByHash(keyHash: string): Promise<ApiKey | null>
+
+    /**
+     * Create an API key
+     * @param {ApiKeyCreate} apiKey - The key to create
+     * @param {string} prefix - The prefix identifying the key
+     * @param {string} keyHash - The hash of the key
+     * @param {string | null} createdById - The ID of the user creating the key
+     * @returns {Promise<ApiKey>} - The created key
+     */
+    createApiKey(
+        apiKey: ApiKeyCreate,
+        prefix: string,
+        keyHash: string,
+        createdById: string | null,
+    ): Promise<ApiKey>
+
+    /**
+     * Revoke an API key
+     * @param {string} id - The ID of the key
+     * @returns {Promise<ApiKey>} - The revoked key
+     */
+    revokeApiKey(id: string): Promise<ApiKey>
+
+    /**
+     * Record when an API key was last used
+     * @param {string} id - The ID of the key
+     * @param {Date} usedAt - When the key was used
+     * @returns {Promise<void>}
+     */
+    recordUsage(id: string, usedAt: Date): Promise<void>
+}
+
+class ApiKeyPoolImpl implements ApiKeyPool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async getApiKeys(companyId?: string): Promise<ApiKey[]> {
+        try {
+            const apiKeys = await this.prisma.apiKey.findMany({
+                where: companyId ? { companyId } : {},
+                select: API_KEY_SELECT,
+                orderBy: { createdAt: "desc" },
+            })
+            return apiKeys.map(toApiKey)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getApiKeyById(id: string): Promise<ApiKey | null> {
+        try {
+            const apiKey = await this.prisma.apiKey.findUnique({
+                where: { id },
+                select: API_KEY_SELECT,
+            })
+            return apiKey && toApiKey(apiKey)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+        try {
+            const apiKey = await this.prisma.apiKey.findUnique({
+                where: { keyHash },
+                select: API_KEY_SELECT,
+            })
+            return apiKey && toApiKey(apiKey)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async createApiKey(
+        apiKey: ApiKeyCreate,
+        prefix: string,
+        keyHash: string,
+        createdById: string | null,
+    ): Promise<ApiKey> {
+        try {
+            const created = await this.prisma.apiKey.create({
+                data: {
+                    companyId: apiKey.companyId,
+                    name: apiKey.name,
+                    scopes: apiKey.scopes,
+                    expiresAt: apiKey.expiresAt ?? null,
+                    prefix,
+                    keyHash,
+                    createdById,
+                },
+                select: API_KEY_SELECT,
+            })
+            return toApiKey(created)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async revokeApiKey(id: string): Promise<ApiKey> {
+        try {
+            const revoked = await this.prisma.apiKey.update({
+                where: { id },
+                data: { revokedAt: new Date() },
+                select: API_KEY_SELECT,
+            })
+            return toApiKey(revoked)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async recordUsage(id: string, usedAt: Date): Promise<void> {
+        try {
+            await this.prisma.apiKey.update({
+                where: { id },
+                data: { lastUsedAt: usedAt },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getApiKeyPool(
+    prisma: PrismaClient,
+    logger: Logger,
+): ApiKeyPool {
+    return new ApiKeyPoolImpl(prisma, logger)
+}
@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client"
+import { AnswerReviewStatus, Prisma, PrismaClient } from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
 import { Logger } from "types/logging"
 import {
@@ -8,7 +8,26 @@ import {
     ApplicantAnswerUpdate,
     QuestionAnswerStats,
     CommonAnswer,
+    AnswerRegradeSummary,
 } from "types/assessment"
+import { AnswerGrade, gradeAnswer } from "helpers/grading"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { TrueFitEventTypes } from "services/events"
+
+// Everything gradeAnswer needs to know about a question
+const GRADING_SELECT = Prisma.validator<Prisma.AssessmentQuestionSelect>()({
+    type: true,
+    correctAnswer: true,
+    correctOptions: true,
+    partialCredit: true,
+    matchMode: true,
+    acceptedAnswers: true,
+    matchPattern: true,
+    keywords: true,
+    keywordThreshold: true,
+    numericTolerance: true,
+    rubric: { select: { points: true } },
+})
 
 export interface ApplicantAnswerPool {
     /**
@@ -100,23 +119,123 @@ export interface ApplicantAnswerPool {
     ): Promise<CommonAnswer[]>
 
     /**
-     * Check answer correctness against question
+     * Check answer correctness against question, using its matching rules
      * @param {string} questionId - The question ID
      * @param {string} answer - The answer to check
      * @returns {Promise<boolean>} - Whether the answer is correct
      */
     checkAnswerCorrectness(questionId: string, answer: string): Promise<boolean>
+}
 
-    /**
-     * Bulk update answer correctness for a question
-     * @param {string} questionId - The question ID
-     * @param {string} correctAnswer - The correct answer
-     * @returns {Promise<number>} - Number of answers updated
-     */
-    bulkUpdateAnswerCorrectness(
-        questionId: string,
-        correctAnswer: string,
-    ): Promise<number>
+/**
+ * Re-grade every answer to a question against its current answer key and
+ * matching rules within a transaction, and announce the re-grade to the jobs
+ * whose rankings include the answers. Answers a grader scored against the
+ * rubric keep their grade unless the rubric itself was replaced or removed.
+ * @param {Prisma.TransactionClient} tx - The transaction to re-grade in
+ * @param {string} questionId - The question ID
+ * @param {boolean} resetReviews - Whether the rubric changed, discarding
+ * the grades given against it
+ * @returns {Promise<AnswerRegradeSummary>} - How many grades changed and
+ * the jobs whose rankings include answers to the question
+ */
+export async function regradeAnswers(
+    tx: Prisma.TransactionClient,
+    questionId: string,
+    resetReviews = false,
+): Promise<AnswerRegradeSummary> {
+    const summary: AnswerRegradeSummary = {
+        evaluated: 0,
+        changed: 0,
+        flipped: 0,
+        nowCorrect: 0,
+        nowIncorrect: 0,
+        affectedJobIds: [],
+    }
+
+    const question = await tx.assessmentQuestion.findUnique({
+        where: { id: questionId },
+        select: GRADING_SELECT,
+    })
+    if (!question) {
+        return summary
+    }
+
+    const answers = await tx.applicantAnswer.findMany({
+        where: { questionId },
+        select: {
+            id: true,
+            answer: true,
+            selectedOptions: true,
+            isCorrect: true,
+            credit: true,
+            reviewStatus: true,
+            assessment: { select: { jobId: true } },
+        },
+    })
+    summary.affectedJobIds = [
+        ...new Set(answers.map((a) => a.assessment.jobId)),
+    ]
+
+    // Only write the answers whose grade actually changed, one write per
+    // resulting grade so large questions don't outlast the transaction
+    const changes = new Map<string, { grade: AnswerGrade; ids: string[] }>()
+    for (const answer of answers) {
+        if (
+            answer.reviewStatus === AnswerReviewStatus.GRADED &&
+            !resetReviews
+        ) {
+            continue
+        }
+        summary.evaluated++
+
+        const grade = gradeAnswer(question, answer)
+        if (
+            grade.isCorrect === answer.isCorrect &&
+            grade.credit === answer.credit &&
+            grade.reviewStatus === answer.reviewStatus
+        ) {
+            continue
+        }
+
+        const key = JSON.stringify(grade)
+        const change = changes.get(key) ?? { grade, ids: [] }
+        change.ids.push(answer.id)
+        changes.set(key, change)
+        summary.changed++
+        if (grade.isCorrect !== answer.isCorrect) {
+            summary.flipped++
+            if (grade.isCorrect) {
+                summary.nowCorrect++
+            } else {
+                summary.nowIncorrect++
+            }
+        }
+    }
+
+    for (const { grade, ids } of changes.values()) {
+        await tx.applicantAnswer.updateMany({
+            where: { id: { in: ids } },
+            data: resetReviews
+                ? { ...grade, gradedAt: null, gradedById: null }
+                : grade,
+        })
+    }
+
+    if (summary.affectedJobIds.length) {
+        await writeOutboxEvents(tx, [
+            {
+                type: TrueFitEventTypes.QUESTION_REGRADED,
+                payload: {
+                    questionId,
+                    jobIds: summary.affectedJobIds,
+                    flipped: summary.flipped,
+                },
+            },
+        ])
+    }
+
+    return summary
 }
 
 class ApplicantAnswerPoolImpl implements ApplicantAnswerPool {
@@ -281,21 +400,12 @@ class ApplicantAnswerPoolImpl implements ApplicantAnswerPool {
         answer: ApplicantAnswerCreate,
     ): Promise<ApplicantAnswer> {
         try {
-            // If isCorrect is not provided, check against the question's correct answer
-            if (answer.isCorrect === undefined && answer.answer) {
-                const question =
-                    await this.prisma.assessmentQuestion.findUnique({
-                        where: { id: answer.questionId },
-                        select: { correctAnswer: true },
-                    })
-
-                if (question?.correctAnswer) {
-                    answer.isCorrect = answer.answer === question.correctAnswer
-                }
-            }
-
             return this.prisma.applicantAnswer.create({
-                data: answer,
+                data: await this.withGrade(
+                    this.prisma,
+                    answer.questionId,
+                    answer,
+                ),
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -311,23 +421,12 @@ class ApplicantAnswerPoolImpl implements ApplicantAnswerPool {
                 const createdAnswers: ApplicantAnswer[] = []
 
                 for (const answer of answers) {
-                    // If isCorrect is not provided, check against the question's correct answer
-                    if (answer.isCorrect === undefined && answer.answer) {
-                        const question = await tx.assessmentQuestion.findUnique(
-                            {
-                                where: { id: answer.questionId },
-                                select: { correctAnswer: true },
-                            },
-                        )
-
-                        if (question?.correctAnswer) {
-                            answer.isCorrect =
-                                answer.answer === question.correctAnswer
-                        }
-                    }
-
                     const created = await tx.applicantAnswer.create({
-                        data: answer,
+                        data: await this.withGrade(
+                            tx,
+                            answer.questionId,
+                            answer,
+                        ),
                     })
 
                     createdAnswers.push(created)
@@ -357,27 +456,25 @@ class ApplicantAnswerPoolImpl implements ApplicantAnswerPool {
         answer: ApplicantAnswerUpdate,
     ): Promise<ApplicantAnswer> {
         try {
-            // If updating the answer but not the correctness, recalculate correctness
-            if (answer.answer && answer.isCorrect === undefined) {
-                const existingAnswer =
-                    await this.prisma.applicantAnswer.findUnique({
-                        where: { id },
-                        include: {
-                            question: {
-                                select: { correctAnswer: true },
-                            },
-                        },
-                    })
-
-                if (existingAnswer?.question.correctAnswer) {
-                    answer.isCorrect =
-                        answer.answer === existingAnswer.question.correctAnswer
-                }
-            }
+            // If updating the answer but not the correctness, regrade it
+            const existingAnswer =
+                answer.isCorrect === undefined &&
+                (answer.answer || answer.selectedOptions)
+                    ? await this.prisma.applicantAnswer.findUnique({
+                          where: { id },
+                          select: { questionId: true },
+                      })
+                    : null
 
             return this.prisma.applicantAnswer.update({
                 where: { id },
-                data: answer,
+                data: existingAnswer
+                    ? await this.withGrade(
+                          this.prisma,
+                          existingAnswer.questionId,
+                          answer,
+                      )
+                    : answer,
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -444,46 +541,42 @@ class ApplicantAnswerPoolImpl implements ApplicantAnswerPool {
         try {
             const question = await this.prisma.assessmentQuestion.findUnique({
                 where: { id: questionId },
-                select: { correctAnswer: true },
+                select: GRADING_SELECT,
             })
 
-            return question?.correctAnswer === answer || false
+            return question
+                ? gradeAnswer(question, { answer }).isCorrect
+                : false
         } catch (err) {
             handleDBError(err, this.logger)
         }
     }
 
-    async bulkUpdateAnswerCorrectness(
+    /**
+     * Fill in isCorrect, credit and reviewStatus from the question's answer
+     * key, unless the caller already decided whether the answer is correct
+     */
+    private async withGrade<T extends ApplicantAnswerUpdate>(
+        client: Pick<PrismaClient, "assessmentQuestion">,
         questionId: string,
-        correctAnswer: string,
-    ): Promise<number> {
-        try {
-            // Update all answers for this question to set isCorrect based on the new correct answer
-            const [correctUpdate, incorrectUpdate] = await Promise.all([
-                this.prisma.applicantAnswer.updateMany({
-                    where: {
-                        questionId,
-                        answer: correctAnswer,
-                    },
-                    data: {
-                        isCorrect: true,
-                    },
-                }),
-                this.prisma.applicantAnswer.updateMany({
-                    where: {
-                        questionId,
-                        answer: { not: correctAnswer },
-                    },
-                    data: {
-                        isCorrect: false,
-                    },
-                }),
-            ])
+        answer: T,
+    ): Promise<T> {
+        if (answer.isCorrect !== undefined) {
+            return { credit: answer.isCorrect ? 1 : 0, ...answer }
+        }
 
-            return correctUpdate.count + incorrectUpdate.count
-        } catch (err) {
-            handleDBError(err, this.logger)
+        if (!answer.answer && !answer.selectedOptions?.length) {
+            return answer
         }
+
+        const question = await client.assessmentQuestion.findUnique({
+            where: { id: questionId },
+            select: GRADING_SELECT,
+        })
+
+        return question
+            ? { ...answer, ...gradeAnswer(question, answer) }
+            : answer
     }
 }
 
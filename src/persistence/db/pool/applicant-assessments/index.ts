@@ -1,16 +1,33 @@
-import { PrismaClient } from "@prisma/client"
+import {
+    AnswerReviewStatus,
+    ApplicationStatus,
+    Prisma,
+    PrismaClient,
+} from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
 import { Logger } from "types/logging"
 import {
     ApplicantAssessmentWithDetails,
     AssessmentSubmission,
+    AssessmentAttemptWithAnswers,
+    AttemptStart,
+    AttemptWithTemplate,
+    SubmissionTiming,
     AssessmentScore,
     AssessmentScoreWithDetails,
     AssessmentExplanation,
     AssessmentFilters,
     AssessmentStats,
+    AnswerGradeResult,
+    PendingReview,
+    PendingReviewFilters,
 } from "types/applicant-assessment"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
+import { AnswerGrade, RubricAward, gradeAnswer } from "helpers/grading"
+import { AssessmentScoring, scoreAssessment } from "helpers/scoring"
+import { TrueFitEvent, TrueFitEventTypes } from "services/events"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { findScoringConfig } from "persistence/db/pool/candidate-rankings"
 
 export interface ApplicantAssessmentPool {
     getAssessmentById(
@@ -23,10 +40,58 @@ export interface ApplicantAssessmentPool {
         offset?: number,
     ): Promise<ApplicantAssessmentWithDetails[]>
 
+    /**
+     * Store a submitted assessment and grade its answers, applying the
+     * applicant to the job if they have not yet. ASSESSMENT_SUBMITTED,
+     * APPLICANT_MATCHED for a new application and ASSESSMENT_SCORED once no
+     * answers await review are written to the outbox in the same transaction.
+     * @param {AssessmentSubmission} submission - The submitted answers
+     * @param {SubmissionTiming} timing - Optional timing of the attempt being submitted, which is closed in the same transaction
+     * @returns {Promise<ApplicantAssessmentWithDetails>} - The stored assessment
+     */
     submitAssessment(
         submission: AssessmentSubmission,
+        timing?: SubmissionTiming,
     ): Promise<ApplicantAssessmentWithDetails>
 
+    /**
+     * Start an assessment attempt
+     * @param {AttemptStart} attempt - The applicant, template and job of the attempt
+     * @param {Date} startedAt - When the attempt started
+     * @param {Date | null} expiresAt - When the time limit runs out, if the template has one
+     * @returns {Promise<AttemptWithTemplate>} - The started attempt
+     */
+    createAttempt(
+        attempt: AttemptStart,
+        startedAt: Date,
+        expiresAt: Date | null,
+    ): Promise<AttemptWithTemplate>
+
+    /**
+     * Get an attempt along with its saved answers and template time limit
+     * @param {string} id - The ID of the attempt
+     * @returns {Promise<AttemptWithTemplate | null>} - The attempt
+     */
+    getAttemptById(id: string): Promise<AttemptWithTemplate | null>
+
+    /**
+     * Get the attempt an applicant has started but not submitted yet
+     * @param {AttemptStart} attempt - The applicant, template and job of the attempt
+     * @returns {Promise<AttemptWithTemplate | null>} - The open attempt
+     */
+    getOpenAttempt(attempt: AttemptStart): Promise<AttemptWithTemplate | null>
+
+    /**
+     * Save answers of an attempt, replacing earlier answers to the same questions
+     * @param {string} attemptId - The ID of the attempt
+     * @param {AssessmentSubmission["answers"]} answers - The answers to save
+     * @returns {Promise<AttemptWithTemplate>} - The attempt with all its saved answers
+     */
+    saveAttemptAnswers(
+        attemptId: string,
+        answers: AssessmentSubmission["answers"],
+    ): Promise<AttemptWithTemplate>
+
     getAssessmentScore(id: string): Promise<AssessmentScoreWithDetails>
 
     /**
@@ -46,8 +111,84 @@ export interface ApplicantAssessmentPool {
         templateId?: string,
         jobId?: string,
     ): Promise<AssessmentStats>
+
+    /**
+     * Get an answer of an assessment along with its question's rubric
+     * @param {string} assessmentId - The ID of the assessment
+     * @param {string} answerId - The ID of the answer
+     * @returns {Promise<GradableAssessmentAnswer | null>} - The answer, or null if it is not part of the assessment
+     */
+    getAssessmentAnswer(
+        assessmentId: string,
+        answerId: string,
+    ): Promise<GradableAssessmentAnswer | null>
+
+    /**
+     * Get answers waiting to be graded against a rubric, oldest first
+     * @param {PendingReviewFilters} filters - Optional filters
+     * @param {number} limit - Maximum number of answers to return
+     * @param {number} offset - Number of answers to skip
+     * @returns {Promise<PendingReview[]>} - The answers waiting for review
+     */
+    getPendingReviews(
+        filters?: PendingReviewFilters,
+        limit?: number,
+        offset?: number,
+    ): Promise<PendingReview[]>
+
+    /**
+     * Store a grader's rubric scores for an answer, replacing earlier ones.
+     * Once the assessment has no answers left to review, ASSESSMENT_GRADED
+     * and ASSESSMENT_SCORED events are written to the outbox in the same
+     * transaction, unless a re-grade left the answer's credit unchanged.
+     * @param {string} answerId - The ID of the answer
+     * @param {RubricAward[]} awards - Points awarded per rubric criterion
+     * @param {AnswerGrade} grade - The resulting grade
+     * @param {string} graderId - The ID of the grading user
+     * @returns {Promise<AnswerGradeResult>} - The graded answer and the assessment's remaining reviews
+     */
+    gradeAnswer(
+        answerId: string,
+        awards: RubricAward[],
+        grade: AnswerGrade,
+        graderId: string,
+    ): Promise<AnswerGradeResult>
+}
+
+export interface GradableAssessmentAnswer {
+    id: string
+    reviewStatus: AnswerReviewStatus
+    assessment: {
+        id: string
+        applicantId: string
+        jobId: string
+    }
+    question: {
+        id: string
+        type: string
+        rubric: Array<{ id: string; points: number }>
+    }
 }
 
+const ATTEMPT_INCLUDE = Prisma.validator<Prisma.AssessmentAttemptInclude>()({
+    answers: {
+        select: {
+            questionId: true,
+            answer: true,
+            selectedOptions: true,
+            savedAt: true,
+        },
+        orderBy: { savedAt: "asc" },
+    },
+    template: {
+        select: {
+            timeLimitMinutes: true,
+            lateSubmissionPolicy: true,
+            latePenaltyPercent: true,
+        },
+    },
+})
+
 class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
     constructor(
         private readonly prisma: PrismaClient,
@@ -105,6 +246,7 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                                     type: true,
                                     weight: true,
                                     correctAnswer: true,
+                                    correctOptions: true,
                                 },
                             },
                         },
@@ -187,6 +329,7 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                                     type: true,
                                     weight: true,
                                     correctAnswer: true,
+                                    correctOptions: true,
                                 },
                             },
                         },
@@ -203,10 +346,42 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
 
     async submitAssessment(
         submission: AssessmentSubmission,
+        timing?: SubmissionTiming,
     ): Promise<ApplicantAssessmentWithDetails> {
         try {
             // Use transaction to create assessment and answers
             const result = await this.prisma.$transaction(async (tx) => {
+                const events: TrueFitEvent[] = []
+
+                // Apply the applicant to the job with their first submission
+                const applied = await tx.jobApplication.findFirst({
+                    where: {
+                        applicantId: submission.applicantId,
+                        jobId: submission.jobId,
+                    },
+                    select: { id: true },
+                })
+                if (!applied) {
+                    const application = await tx.jobApplication.create({
+                        data: {
+                            applicantId: submission.applicantId,
+                            jobId: submission.jobId,
+                            status: ApplicationStatus.APPLIED,
+                            statusHistory: {
+                                create: { toStatus: ApplicationStatus.APPLIED },
+                            },
+                        },
+                    })
+                    events.push({
+                        type: TrueFitEventTypes.APPLICANT_MATCHED,
+                        payload: {
+                            applicantId: submission.applicantId,
+                            jobId: submission.jobId,
+                            applicationId: application.id,
+                        },
+                    })
+                }
+
                 // Create assessment
                 const assessment = await tx.applicantAssessment.create({
                     data: {
@@ -214,12 +389,37 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                         templateId: submission.templateId,
                         jobId: submission.jobId,
                         submittedAt: new Date(),
+                        ...(timing && {
+                            startedAt: timing.startedAt,
+                            timeTakenSeconds: timing.timeTakenSeconds,
+                            isLate: timing.isLate,
+                            latePenaltyPercent: timing.latePenaltyPercent,
+                        }),
                     },
                 })
 
+                // Close the attempt the assessment was taken in, unless a
+                // concurrent submission already did
+                if (timing) {
+                    const closed = await tx.assessmentAttempt.updateMany({
+                        where: { id: timing.attemptId, submittedAt: null },
+                        data: {
+                            assessmentId: assessment.id,
+                            submittedAt: assessment.submittedAt,
+                        },
+                    })
+                    if (closed.count === 0) {
+                        throw new ServiceError(
+                            ServiceErrorType.InvalidStatus,
+                            "This attempt has already been submitted",
+                        )
+                    }
+                }
+
                 // Get questions for validation and scoring
                 const questions = await tx.assessmentQuestion.findMany({
                     where: { templateId: submission.templateId },
+                    include: { rubric: { select: { points: true } } },
                 })
 
                 // Create answers with correctness check
@@ -239,14 +439,37 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                             data: {
                                 assessmentId: assessment.id,
                                 questionId: answer.questionId,
-                                answer: answer.answer,
-                                isCorrect:
-                                    answer.answer === question.correctAnswer,
+                                answer: answer.answer ?? null,
+                                selectedOptions: answer.selectedOptions ?? [],
+                                ...gradeAnswer(question, answer),
                             },
                         })
                     }),
                 )
 
+                // Announce the submission for ranking recalculation, and its
+                // score unless answers await review
+                events.push({
+                    type: TrueFitEventTypes.ASSESSMENT_SUBMITTED,
+                    payload: {
+                        assessmentId: assessment.id,
+                        applicantId: assessment.applicantId,
+                        templateId: assessment.templateId,
+                        jobId: submission.jobId,
+                        answersCount: answers.length,
+                    },
+                })
+                if (
+                    answers.every(
+                        (a) =>
+                            a.reviewStatus !==
+                            AnswerReviewStatus.PENDING_REVIEW,
+                    )
+                ) {
+                    events.push(...(await this.scoredEvents(tx, assessment.id)))
+                }
+                await writeOutboxEvents(tx, events)
+
                 // Return assessment with details
                 return tx.applicantAssessment.findUnique({
                     where: { id: assessment.id },
@@ -295,6 +518,7 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                                         type: true,
                                         weight: true,
                                         correctAnswer: true,
+                                        correctOptions: true,
                                     },
                                 },
                             },
@@ -316,155 +540,97 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
         }
     }
 
-    async getAssessmentScore(id: string): Promise<AssessmentScoreWithDetails> {
+    async createAttempt(
+        attempt: AttemptStart,
+        startedAt: Date,
+        expiresAt: Date | null,
+    ): Promise<AttemptWithTemplate> {
         try {
-            const assessment = await this.prisma.applicantAssessment.findUnique(
-                {
-                    where: { id },
-                    include: {
-                        applicant: true,
-                        template: {
-                            include: {
-                                job: {
-                                    include: {
-                                        scoringConfig: true,
-                                        branch: {
-                                            include: {
-                                                company: {
-                                                    select: {
-                                                        id: true,
-                                                        name: true,
-                                                    },
-                                                },
-                                            },
-                                        },
-                                    },
-                                },
-                            },
-                        },
-                        answers: {
-                            include: {
-                                question: true,
-                            },
-                        },
-                    },
-                },
-            )
-
-            if (!assessment) {
-                throw new ServiceError(
-                    ServiceErrorType.NotFound,
-                    "Assessment not found",
-                )
-            }
-
-            // Get scoring config (job-specific or default)
-            const scoringConfig =
-                assessment.template.job?.scoringConfig ||
-                (await this.prisma.scoringConfig.findFirst({
-                    where: { isDefault: true },
-                }))
+            return this.prisma.assessmentAttempt.create({
+                data: { ...attempt, startedAt, expiresAt },
+                include: ATTEMPT_INCLUDE,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
 
-            if (!scoringConfig) {
-                throw new ServiceError(
-                    ServiceErrorType.NotFound,
-                    "No scoring configuration found",
-                )
-            }
+    async getAttemptById(id: string): Promise<AttemptWithTemplate | null> {
+        try {
+            return this.prisma.assessmentAttempt.findUnique({
+                where: { id },
+                include: ATTEMPT_INCLUDE,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
 
-            // Calculate base score
-            let totalPoints = 0
-            let maxPossiblePoints = 0
-            let correctAnswers = 0
-            let incorrectAnswers = 0
-
-            assessment.answers.forEach((answer) => {
-                const weight = answer.question.weight
-                maxPossiblePoints += weight
-
-                if (answer.isCorrect) {
-                    totalPoints += weight
-                    correctAnswers++
-                } else {
-                    totalPoints -=
-                        weight * scoringConfig.negativeMarkingFraction
-                    incorrectAnswers++
-                }
+    async getOpenAttempt(
+        attempt: AttemptStart,
+    ): Promise<AttemptWithTemplate | null> {
+        try {
+            return this.prisma.assessmentAttempt.findFirst({
+                where: { ...attempt, submittedAt: null },
+                include: ATTEMPT_INCLUDE,
+                orderBy: { startedAt: "desc" },
             })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
 
-            // Apply recency boost if configured
-            let recencyBonus = 0
-            if (
-                scoringConfig.recencyBoostPercent &&
-                scoringConfig.recencyWindowDays
-            ) {
-                const submissionDate = assessment.submittedAt
-                const now = new Date()
-                const daysDiff = Math.floor(
-                    (now.getTime() - submissionDate.getTime()) /
-                        (1000 * 60 * 60 * 24),
-                )
+    async saveAttemptAnswers(
+        attemptId: string,
+        answers: AssessmentSubmission["answers"],
+    ): Promise<AttemptWithTemplate> {
+        try {
+            return this.prisma.$transaction(async (tx) => {
+                const saved = await tx.attemptAnswer.findMany({
+                    where: { attemptId },
+                    select: { id: true, questionId: true },
+                })
 
-                if (daysDiff <= scoringConfig.recencyWindowDays) {
-                    recencyBonus =
-                        (totalPoints * scoringConfig.recencyBoostPercent) / 100
-                    totalPoints += recencyBonus
+                const savedAt = new Date()
+                for (const answer of answers) {
+                    const data = {
+                        answer: answer.answer ?? null,
+                        selectedOptions: answer.selectedOptions ?? [],
+                        savedAt,
+                    }
+                    const existing = saved.find(
+                        (a) => a.questionId === answer.questionId,
+                    )
+                    if (existing) {
+                        await tx.attemptAnswer.update({
+                            where: { id: existing.id },
+                            data,
+                        })
+                    } else {
+                        await tx.attemptAnswer.create({
+                            data: {
+                                ...data,
+                                attemptId,
+                                questionId: answer.questionId,
+                            },
+                        })
+                    }
                 }
-            }
 
-            return {
-                assessmentId: assessment.id,
-                applicantId: assessment.applicantId,
-                templateId: assessment.templateId,
-                submittedAt: assessment.submittedAt,
-                scoredAt: new Date(),
-                scoringConfigId: scoringConfig.id,
-                score: totalPoints,
-                maxPossibleScore: maxPossiblePoints,
-                percentage: (totalPoints / maxPossiblePoints) * 100,
-                breakdown: {
-                    correctAnswers: {
-                        count: correctAnswers,
-                        points:
-                            correctAnswers *
-                            assessment.answers[0].question.weight,
-                    },
-                    incorrectAnswers: {
-                        count: incorrectAnswers,
-                        points:
-                            -incorrectAnswers *
-                            assessment.answers[0].question.weight *
-                            scoringConfig.negativeMarkingFraction,
-                    },
-                    recencyBonus: recencyBonus
-                        ? {
-                              percentage: scoringConfig.recencyBoostPercent!,
-                              points: recencyBonus,
-                          }
-                        : undefined,
-                },
-                explanation: [
-                    `Correct answers: ${correctAnswers} (+${
-                        correctAnswers * assessment.answers[0].question.weight
-                    } points)`,
-                    `Incorrect answers: ${incorrectAnswers} (${
-                        -incorrectAnswers *
-                        assessment.answers[0].question.weight *
-                        scoringConfig.negativeMarkingFraction
-                    } points)`,
-                    ...(recencyBonus
-                        ? [
-                              `Recency bonus: +${recencyBonus.toFixed(
-                                  2,
-                              )} points (${
-                                  scoringConfig.recencyBoostPercent
-                              }% boost)`,
-                          ]
-                        : []),
-                ],
-                assessment: assessment as ApplicantAssessmentWithDetails,
-                scoringConfig,
-            }
+                return tx.assessmentAttempt.findUniqueOrThrow({
+                    where: { id: attemptId },
+                    include: ATTEMPT_INCLUDE,
+                })
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getAssessmentScore(id: string): Promise<AssessmentScoreWithDetails> {
+        try {
+            const { score } = await this.scoreAssessmentById(id)
+            return score
         } catch (err) {
             handleDBError(err, this.logger)
         }
@@ -472,7 +638,7 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
 
     async getAssessmentExplanation(id: string): Promise<AssessmentExplanation> {
         try {
-            const score = await this.getAssessmentScore(id)
+            const { score, scoring } = await this.scoreAssessmentById(id)
             const assessment = score.assessment
 
             return {
@@ -496,43 +662,34 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                 assessment: {
                     totalQuestions: assessment.answers.length,
                     answeredQuestions: assessment.answers.filter(
-                        (a) => a.answer !== null,
-                    ).length,
-                    correctAnswers: assessment.answers.filter(
-                        (a) => a.isCorrect,
-                    ).length,
-                    incorrectAnswers: assessment.answers.filter(
-                        (a) => !a.isCorrect,
+                        (a) =>
+                            a.answer !== null || a.selectedOptions.length > 0,
                     ).length,
-                    timeTaken: 0, // Not tracking time yet
+                    correctAnswers: scoring.correct.count,
+                    partialAnswers: scoring.partial.count,
+                    incorrectAnswers: scoring.incorrect.count,
+                    pendingReviews: scoring.pending.count,
+                    timeTaken: assessment.timeTakenSeconds ?? 0,
+                    isLate: assessment.isLate,
                     submittedAt: assessment.submittedAt,
                 },
                 scoring: {
-                    baseScore:
-                        score.breakdown.correctAnswers.points +
-                        score.breakdown.incorrectAnswers.points,
-                    negativeMarking: Math.abs(
-                        score.breakdown.incorrectAnswers.points,
-                    ),
-                    recencyBonus: score.breakdown.recencyBonus?.points || 0,
-                    finalScore: score.score,
-                    maxPossibleScore: score.maxPossibleScore,
+                    baseScore: scoring.baseScore,
+                    negativeMarking: Math.abs(scoring.incorrect.points),
+                    recencyBonus: scoring.recencyBonus,
+                    latePenalty: scoring.latePenalty,
+                    finalScore: scoring.score,
+                    maxPossibleScore: scoring.maxPossibleScore,
                 },
-                breakdown: assessment.answers.map((answer) => ({
+                breakdown: assessment.answers.map((answer, index) => ({
                     questionId: answer.question.id,
                     weight: answer.question.weight,
-                    answer: answer.answer || "",
+                    answer: answer.answer ?? answer.selectedOptions.join(", "),
                     isCorrect: answer.isCorrect,
-                    points: answer.isCorrect
-                        ? answer.question.weight
-                        : -answer.question.weight *
-                          score.scoringConfig.negativeMarkingFraction,
-                    explanation: answer.isCorrect
-                        ? `Correct answer (+${answer.question.weight} points)`
-                        : `Incorrect answer (-${
-                              answer.question.weight *
-                              score.scoringConfig.negativeMarkingFraction
-                          } points)`,
+                    credit: answer.credit,
+                    reviewStatus: answer.reviewStatus,
+                    points: scoring.answers[index].points,
+                    explanation: scoring.answers[index].explanation,
                 })),
             }
         } catch (err) {
@@ -540,6 +697,139 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
         }
     }
 
+    /**
+     * Load an assessment with its scoring config and score it with the
+     * shared scoring engine
+     */
+    private async scoreAssessmentById(
+        id: string,
+        client: Prisma.TransactionClient = this.prisma,
+    ): Promise<{
+        score: AssessmentScoreWithDetails
+        scoring: AssessmentScoring
+    }> {
+        const assessment = await client.applicantAssessment.findUnique({
+            where: { id },
+            include: {
+                applicant: true,
+                template: {
+                    include: {
+                        job: {
+                            include: {
+                                scoringConfig: true,
+                                branch: {
+                                    include: {
+                                        company: {
+                                            select: {
+                                                id: true,
+                                                name: true,
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+                answers: {
+                    include: {
+                        question: true,
+                    },
+                },
+            },
+        })
+
+        if (!assessment) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Assessment not found",
+            )
+        }
+
+        // Scored with the config of the job the assessment was taken for,
+        // which shared templates do not belong to
+        const scoringConfig = await findScoringConfig(client, assessment.jobId)
+
+        const scoredAt = new Date()
+        const scoring = scoreAssessment(
+            assessment.answers,
+            assessment,
+            scoringConfig,
+            scoredAt,
+        )
+
+        const score: AssessmentScoreWithDetails = {
+            assessmentId: assessment.id,
+            applicantId: assessment.applicantId,
+            templateId: assessment.templateId,
+            submittedAt: assessment.submittedAt,
+            scoredAt,
+            scoringConfigId: scoringConfig.id,
+            score: scoring.score,
+            maxPossibleScore: scoring.maxPossibleScore,
+            percentage: scoring.percentage,
+            breakdown: {
+                correctAnswers: scoring.correct,
+                partialAnswers: scoring.partial,
+                incorrectAnswers: scoring.incorrect,
+                pendingReviews: scoring.pending.count,
+                recencyBonus: scoring.recencyBonus
+                    ? {
+                          percentage: scoringConfig.recencyBoostPercent!,
+                          points: scoring.recencyBonus,
+                      }
+                    : undefined,
+                latePenalty: scoring.latePenalty
+                    ? {
+                          percentage: assessment.latePenaltyPercent!,
+                          points: scoring.latePenalty,
+                      }
+                    : undefined,
+            },
+            explanation: scoring.explanation,
+            assessment: assessment as ApplicantAssessmentWithDetails,
+            scoringConfig,
+        }
+
+        return { score, scoring }
+    }
+
+    /**
+     * The ASSESSMENT_SCORED event announcing an assessment's final score.
+     * Nothing is announced while no scoring config applies to it.
+     */
+    private async scoredEvents(
+        tx: Prisma.TransactionClient,
+        assessmentId: string,
+    ): Promise<TrueFitEvent[]> {
+        let score: AssessmentScoreWithDetails
+        try {
+            score = (await this.scoreAssessmentById(assessmentId, tx)).score
+        } catch (err) {
+            if (
+                err instanceof ServiceError &&
+                err.type === ServiceErrorType.NotFound
+            ) {
+                return []
+            }
+            throw err
+        }
+
+        return [
+            {
+                type: TrueFitEventTypes.ASSESSMENT_SCORED,
+                payload: {
+                    assessmentId,
+                    applicantId: score.applicantId,
+                    jobId: score.assessment.jobId,
+                    score: score.score,
+                    maxPossibleScore: score.maxPossibleScore,
+                    percentage: score.percentage,
+                },
+            },
+        ]
+    }
+
     async getAssessmentStats(
         templateId?: string,
         jobId?: string,
@@ -593,6 +883,11 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                 }
             })
 
+            // Only assessments taken as a timed attempt have a duration
+            const timed = assessments.filter(
+                (assessment) => assessment.timeTakenSeconds !== null,
+            )
+
             // Sort scores for median calculation
             const sortedScores = [...scores].sort((a, b) => a.score - b.score)
             const midPoint = Math.floor(sortedScores.length / 2)
@@ -637,7 +932,13 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
                 completionRate:
                     (scores.filter((s) => s.completed).length / scores.length) *
                     100,
-                averageTimeSpent: 0, // Not tracking time yet
+                averageTimeSpent: timed.length
+                    ? timed.reduce(
+                          (sum, assessment) =>
+                              sum + assessment.timeTakenSeconds!,
+                          0,
+                      ) / timed.length
+                    : 0,
                 scoreDistribution: Array.from(distribution.entries()).map(
                     ([range, count]) => ({
                         range,
@@ -663,6 +964,191 @@ class ApplicantAssessmentPoolImpl implements ApplicantAssessmentPool {
             handleDBError(err, this.logger)
         }
     }
+    async getAssessmentAnswer(
+        assessmentId: string,
+        answerId: string,
+    ): Promise<GradableAssessmentAnswer | null> {
+        try {
+            return this.prisma.applicantAnswer.findFirst({
+                where: { id: answerId, assessmentId },
+                select: {
+                    id: true,
+                    reviewStatus: true,
+                    assessment: {
+                        select: { id: true, applicantId: true, jobId: true },
+                    },
+                    question: {
+                        select: {
+                            id: true,
+                            type: true,
+                            rubric: { select: { id: true, points: true } },
+                        },
+                    },
+                },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getPendingReviews(
+        filters?: PendingReviewFilters,
+        limit?: number,
+        offset?: number,
+    ): Promise<PendingReview[]> {
+        try {
+            const answers = await this.prisma.applicantAnswer.findMany({
+                where: {
+                    reviewStatus: AnswerReviewStatus.PENDING_REVIEW,
+                    ...(filters?.assessmentId && {
+                        assessmentId: filters.assessmentId,
+                    }),
+                    ...((filters?.jobId || filters?.companyId) && {
+                        assessment: {
+                            ...(filters.jobId && { jobId: filters.jobId }),
+                            ...(filters.companyId && {
+                                job: {
+                                    branch: { companyId: filters.companyId },
+                                },
+                            }),
+                        },
+                    }),
+                },
+                include: {
+                    assessment: {
+                        select: {
+                            id: true,
+                            applicantId: true,
+                            jobId: true,
+                            submittedAt: true,
+                            job: {
+                                select: {
+                                    branch: { select: { companyId: true } },
+                                },
+                            },
+                        },
+                    },
+                    question: {
+                        select: {
+                            id: true,
+                            text: true,
+                            weight: true,
+                            rubric: {
+                                select: {
+                                    id: true,
+                                    description: true,
+                                    points: true,
+                                    order: true,
+                                },
+                                orderBy: { order: "asc" },
+                            },
+                        },
+                    },
+                },
+                orderBy: { createdAt: "asc" },
+                take: limit,
+                skip: offset,
+            })
+
+            return answers.map((answer) => ({
+                answerId: answer.id,
+                answer: answer.answer,
+                assessmentId: answer.assessment.id,
+                applicantId: answer.assessment.applicantId,
+                jobId: answer.assessment.jobId,
+                companyId: answer.assessment.job.branch.companyId,
+                submittedAt: answer.assessment.submittedAt,
+                question: answer.question,
+            }))
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async gradeAnswer(
+        answerId: string,
+        awards: RubricAward[],
+        grade: AnswerGrade,
+        graderId: string,
+    ): Promise<AnswerGradeResult> {
+        try {
+            return this.prisma.$transaction(async (tx) => {
+                const previous = await tx.applicantAnswer.findUniqueOrThrow({
+                    where: { id: answerId },
+                    select: { reviewStatus: true, credit: true },
+                })
+                const scoreChanged =
+                    previous.reviewStatus !== AnswerReviewStatus.GRADED ||
+                    previous.credit !== grade.credit
+
+                await tx.rubricScore.deleteMany({ where: { answerId } })
+                await tx.rubricScore.createMany({
+                    data: awards.map((award) => ({ answerId, ...award })),
+                })
+
+                const answer = await tx.applicantAnswer.update({
+                    where: { id: answerId },
+                    data: {
+                        ...grade,
+                        gradedAt: new Date(),
+                        gradedById: graderId,
+                    },
+                    select: {
+                        id: true,
+                        assessmentId: true,
+                        questionId: true,
+                        isCorrect: true,
+                        credit: true,
+                        reviewStatus: true,
+                        gradedAt: true,
+                        gradedById: true,
+                        rubricScores: {
+                            select: { criterionId: true, points: true },
+                        },
+                    },
+                })
+
+                const pendingReviews = await tx.applicantAnswer.count({
+                    where: {
+                        assessmentId: answer.assessmentId,
+                        reviewStatus: AnswerReviewStatus.PENDING_REVIEW,
+                    },
+                })
+
+                // Announce the assessment as graded once no answers are left
+                // to review, so rankings pick up the final score
+                if (pendingReviews === 0 && scoreChanged) {
+                    const assessment =
+                        await tx.applicantAssessment.findUniqueOrThrow({
+                            where: { id: answer.assessmentId },
+                            select: { applicantId: true, jobId: true },
+                        })
+                    await writeOutboxEvents(tx, [
+                        {
+                            type: TrueFitEventTypes.ASSESSMENT_GRADED,
+                            payload: {
+                                assessmentId: answer.assessmentId,
+                                applicantId: assessment.applicantId,
+                                jobId: assessment.jobId,
+                                gradedById: graderId,
+                            },
+                        },
+                        ...(await this.scoredEvents(tx, answer.assessmentId)),
+                    ])
+                }
+
+                const { assessmentId, ...graded } = answer
+                return {
+                    assessmentId,
+                    answer: graded,
+                    pendingReviews,
+                    scoreChanged,
+                }
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
 }
 
 export default function getApplicantAssessmentPool(
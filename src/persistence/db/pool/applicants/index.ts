@@ -1,6 +1,8 @@
 import { PrismaClient } from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
 import { Logger } from "types/logging"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { TrueFitEventTypes } from "services/events"
 import {
     Applicant,
     ApplicantWithAssessments,
@@ -35,7 +37,7 @@ export interface ApplicantPool {
     getApplicantByEmail(email: string): Promise<Applicant | null>
 
     /**
-     * Create an applicant
+     * Create an applicant and announce their registration
      * @param {ApplicantCreate} applicant - The applicant to create
      * @returns {Promise<Applicant>} - The created applicant
      */
@@ -183,8 +185,23 @@ class ApplicantPoolImpl implements ApplicantPool {
 
     async createApplicant(applicant: ApplicantCreate): Promise<Applicant> {
         try {
-            return this.prisma.applicant.create({
-                data: applicant,
+            return await this.prisma.$transaction(async (tx) => {
+                const created = await tx.applicant.create({
+                    data: applicant,
+                })
+
+                await writeOutboxEvents(tx, [
+                    {
+                        type: TrueFitEventTypes.APPLICANT_REGISTERED,
+                        payload: {
+                            applicantId: created.id,
+                            email: created.email,
+                            name: `${created.firstName} ${created.lastName}`,
+                        },
+                    },
+                ])
+
+                return created
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -259,6 +276,29 @@ class ApplicantPoolImpl implements ApplicantPool {
                 }
             }
 
+            // Applicants of a company or branch are the ones who applied to
+            // its jobs
+            where.AND = []
+            if (filters.companyId) {
+                where.AND.push({
+                    jobApplications: {
+                        some: {
+                            job: {
+                                branch: { companyId: filters.companyId },
+                            },
+                        },
+                    },
+                })
+            }
+
+            if (filters.branchIds) {
+                where.AND.push({
+                    jobApplications: {
+                        some: { job: { branchId: { in: filters.branchIds } } },
+                    },
+                })
+            }
+
             return this.prisma.applicant.findMany({
                 where,
                 orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client"
+import { Prisma, PrismaClient } from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
 import { Logger } from "types/logging"
 import {
@@ -6,8 +6,19 @@ import {
     AssessmentQuestionWithDetails,
     AssessmentQuestionCreate,
     AssessmentQuestionUpdate,
+    AssessmentQuestionUpdateResult,
     AnswerDistribution,
+    RubricCriterionCreate,
 } from "types/assessment"
+import { regradeAnswers } from "persistence/db/pool/applicant-answers"
+
+// Rubric criteria are returned with every question, in grading order
+const RUBRIC_INCLUDE = Prisma.validator<Prisma.AssessmentQuestionInclude>()({
+    rubric: {
+        select: { id: true, description: true, points: true, order: true },
+        orderBy: { order: "asc" },
+    },
+})
 
 export interface AssessmentQuestionPool {
     /**
@@ -61,15 +72,20 @@ export interface AssessmentQuestionPool {
     deleteAssessmentQuestion(id: string): Promise<void>
 
     /**
-     * Update an assessment question
+     * Update an assessment question. Replacing the rubric discards existing
+     * rubric grades and sends the question's answers back for review. The
+     * re-grade, when requested, runs in the same transaction as the update.
      * @param {string} id - The ID of the question to update
      * @param {AssessmentQuestionUpdate} question - The question data to update
-     * @returns {Promise<AssessmentQuestion>} - The updated question
+     * @param {boolean} regrade - Whether to re-grade the question's answers
+     * @returns {Promise<AssessmentQuestionUpdateResult>} - The updated question
+     * and a summary of the re-graded answers
      */
     updateAssessmentQuestion(
         id: string,
         question: AssessmentQuestionUpdate,
-    ): Promise<AssessmentQuestion>
+        regrade?: boolean,
+    ): Promise<AssessmentQuestionUpdateResult>
 
     /**
      * Reorder questions within a template
@@ -122,6 +138,7 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
         try {
             return this.prisma.assessmentQuestion.findUnique({
                 where: { id },
+                include: RUBRIC_INCLUDE,
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -135,6 +152,7 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
             const question = await this.prisma.assessmentQuestion.findUnique({
                 where: { id },
                 include: {
+                    ...RUBRIC_INCLUDE,
                     template: {
                         include: {
                             job: {
@@ -157,10 +175,20 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
                         select: {
                             id: true,
                             answer: true,
+                            selectedOptions: true,
                             isCorrect: true,
+                            credit: true,
+                            reviewStatus: true,
                             assessment: {
                                 select: {
                                     id: true,
+                                    job: {
+                                        select: {
+                                            branch: {
+                                                select: { companyId: true },
+                                            },
+                                        },
+                                    },
                                     applicant: {
                                         select: {
                                             id: true,
@@ -189,6 +217,7 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
         try {
             return this.prisma.assessmentQuestion.findMany({
                 where: { templateId },
+                include: RUBRIC_INCLUDE,
                 orderBy: { order: "asc" },
             })
         } catch (err) {
@@ -208,8 +237,13 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
                 question.order = nextOrder
             }
 
+            const { rubric, ...data } = question
             return this.prisma.assessmentQuestion.create({
-                data: question,
+                data: {
+                    ...data,
+                    rubric: { create: this.toCriteria(rubric) },
+                },
+                include: RUBRIC_INCLUDE,
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -235,8 +269,13 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
                         question.order = existingCount
                     }
 
+                    const { rubric, ...data } = question
                     const created = await tx.assessmentQuestion.create({
-                        data: question,
+                        data: {
+                            ...data,
+                            rubric: { create: this.toCriteria(rubric) },
+                        },
+                        include: RUBRIC_INCLUDE,
                     })
 
                     createdQuestions.push(created)
@@ -264,11 +303,38 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
     async updateAssessmentQuestion(
         id: string,
         question: AssessmentQuestionUpdate,
-    ): Promise<AssessmentQuestion> {
+        regrade = false,
+    ): Promise<AssessmentQuestionUpdateResult> {
         try {
-            return this.prisma.assessmentQuestion.update({
-                where: { id },
-                data: question,
+            const { rubric, ...data } = question
+            return this.prisma.$transaction(async (tx) => {
+                if (rubric === undefined) {
+                    const updated = await tx.assessmentQuestion.update({
+                        where: { id },
+                        data,
+                        include: RUBRIC_INCLUDE,
+                    })
+                    return {
+                        question: updated,
+                        regrade: regrade ? await regradeAnswers(tx, id) : null,
+                    }
+                }
+
+                await tx.rubricCriterion.deleteMany({
+                    where: { questionId: id },
+                })
+                const updated = await tx.assessmentQuestion.update({
+                    where: { id },
+                    data: {
+                        ...data,
+                        rubric: { create: this.toCriteria(rubric) },
+                    },
+                    include: RUBRIC_INCLUDE,
+                })
+
+                // Grades against the old rubric no longer apply
+                const summary = await regradeAnswers(tx, id, true)
+                return { question: updated, regrade: regrade ? summary : null }
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -399,6 +465,16 @@ class AssessmentQuestionPoolImpl implements AssessmentQuestionPool {
             handleDBError(err, this.logger)
         }
     }
+
+    private toCriteria(
+        rubric: RubricCriterionCreate[] = [],
+    ): Prisma.RubricCriterionCreateWithoutQuestionInput[] {
+        return rubric.map((criterion, order) => ({
+            description: criterion.description,
+            points: criterion.points,
+            order,
+        }))
+    }
 }
 
 export default function getAssessmentQuestionPool(
@@ -165,7 +165,10 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                             type: true,
                             weight: true,
                             order: true,
+                            options: true,
                             correctAnswer: true,
+                            correctOptions: true,
+                            partialCredit: true,
                             negativeWeight: true,
                         },
                         orderBy: { order: "asc" },
@@ -174,6 +177,11 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                         select: {
                             id: true,
                             submittedAt: true,
+                            job: {
+                                select: {
+                                    branch: { select: { companyId: true } },
+                                },
+                            },
                             applicant: {
                                 select: {
                                     id: true,
@@ -241,7 +249,10 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                             type: true,
                             weight: true,
                             order: true,
+                            options: true,
                             correctAnswer: true,
+                            correctOptions: true,
+                            partialCredit: true,
                             negativeWeight: true,
                         },
                         orderBy: { order: "asc" },
@@ -250,6 +261,11 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                         select: {
                             id: true,
                             submittedAt: true,
+                            job: {
+                                select: {
+                                    branch: { select: { companyId: true } },
+                                },
+                            },
                             applicant: {
                                 select: {
                                     id: true,
@@ -304,6 +320,22 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                 where.jobId = filters.jobId
             }
 
+            // Templates of a company include the ones shared by every company
+            if (filters.companyId) {
+                where.AND = [
+                    {
+                        OR: [
+                            { jobId: null },
+                            {
+                                job: {
+                                    branch: { companyId: filters.companyId },
+                                },
+                            },
+                        ],
+                    },
+                ]
+            }
+
             if (filters.search) {
                 where.OR = [
                     { name: { contains: filters.search, mode: "insensitive" } },
@@ -356,7 +388,10 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                             type: true,
                             weight: true,
                             order: true,
+                            options: true,
                             correctAnswer: true,
+                            correctOptions: true,
+                            partialCredit: true,
                             negativeWeight: true,
                         },
                         orderBy: { order: "asc" },
@@ -365,6 +400,11 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                         select: {
                             id: true,
                             submittedAt: true,
+                            job: {
+                                select: {
+                                    branch: { select: { companyId: true } },
+                                },
+                            },
                             applicant: {
                                 select: {
                                     id: true,
@@ -434,7 +474,7 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                     {
                         where: { id },
                         include: {
-                            questions: true,
+                            questions: { include: { rubric: true } },
                         },
                     },
                 )
@@ -448,22 +488,42 @@ class AssessmentTemplatePoolImpl implements AssessmentTemplatePool {
                     data: {
                         name: newName,
                         description: originalTemplate.description,
+                        timeLimitMinutes: originalTemplate.timeLimitMinutes,
+                        lateSubmissionPolicy:
+                            originalTemplate.lateSubmissionPolicy,
+                        latePenaltyPercent: originalTemplate.latePenaltyPercent,
                         jobId: newJobId || originalTemplate.jobId,
                     },
                 })
 
-                // Copy all questions
-                if (originalTemplate.questions.length > 0) {
-                    await tx.assessmentQuestion.createMany({
-                        data: originalTemplate.questions.map((question) => ({
+                // Copy all questions along with their rubrics
+                for (const question of originalTemplate.questions) {
+                    await tx.assessmentQuestion.create({
+                        data: {
                             templateId: newTemplate.id,
                             text: question.text,
                             type: question.type,
                             weight: question.weight,
                             order: question.order,
+                            options: question.options,
                             correctAnswer: question.correctAnswer,
+                            correctOptions: question.correctOptions,
+                            partialCredit: question.partialCredit,
                             negativeWeight: question.negativeWeight,
-                        })),
+                            matchMode: question.matchMode,
+                            acceptedAnswers: question.acceptedAnswers,
+                            matchPattern: question.matchPattern,
+                            keywords: question.keywords,
+                            keywordThreshold: question.keywordThreshold,
+                            numericTolerance: question.numericTolerance,
+                            rubric: {
+                                create: question.rubric.map((criterion) => ({
+                                    description: criterion.description,
+                                    points: criterion.points,
+                                    order: criterion.order,
+                                })),
+                            },
+                        },
                     })
                 }
 
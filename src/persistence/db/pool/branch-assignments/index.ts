@@ -0,0 +1,119 @@
+import { Prisma, PrismaClient } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { BranchAssignment } from "types/company"
+import { Logger } from "types/logging"
+
+const ASSIGNMENT_INCLUDE =
+    Prisma.validator<Prisma.UserBranchAssignmentInclude>()({
+        user: {
+            select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+                role: true,
+            },
+        },
+    })
+
+export interface BranchAssignmentPool {
+    /**
+     * Get the users assigned to a branch
+     * @param {string} branchId - The ID of the branch
+     * @returns {Promise<BranchAssignment[]>} - The assignments with their users
+     */
+    getAssignmentsByBranchId(branchId: string): Promise<BranchAssignment[]>
+
+    /**
+     * Get the assignment of a user to a branch
+     * @param {string} branchId - The ID of the branch
+     * @param {string} userId - The ID of the user
+     * @returns {Promise<BranchAssignment | null>} - The assignment
+     */
+    getAssignment(
+        branchId: string,
+        userId: string,
+    ): Promise<BranchAssignment | null>
+
+    /**
+     * Assign a user to a branch
+     * @param {string} branchId - The ID of the branch
+     * @param {string} userId - The ID of the user
+     * @returns {Promise<BranchAssignment>} - The created assignment
+     */
+    createAssignment(
+        branchId: string,
+        userId: string,
+    ): Promise<BranchAssignment>
+
+    /**
+     * Remove a user from a branch
+     * @param {string} id - The ID of the assignment
+     * @returns {Promise<void>}
+     */
+    deleteAssignment(id: string): Promise<void>
+}
+
+class BranchAssignmentPoolImpl implements BranchAssignmentPool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async getAssignmentsByBranchId(
+        branchId: string,
+    ): Promise<BranchAssignment[]> {
+        try {
+            return this.prisma.userBranchAssignment.findMany({
+                where: { branchId },
+                include: ASSIGNMENT_INCLUDE,
+                orderBy: { createdAt: "asc" },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getAssignment(
+        branchId: string,
+        userId: string,
+    ): Promise<BranchAssignment | null> {
+        try {
+            return this.prisma.userBranchAssignment.findFirst({
+                where: { branchId, userId },
+                include: ASSIGNMENT_INCLUDE,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async createAssignment(
+        branchId: string,
+        userId: string,
+    ): Promise<BranchAssignment> {
+        try {
+            return this.prisma.userBranchAssignment.create({
+                data: { branchId, userId },
+                include: ASSIGNMENT_INCLUDE,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async deleteAssignment(id: string): Promise<void> {
+        try {
+            await this.prisma.userBranchAssignment.delete({ where: { id } })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getBranchAssignmentPool(
+    prisma: PrismaClient,
+    logger: Logger,
+): BranchAssignmentPool {
+    return new BranchAssignmentPoolImpl(prisma, logger)
+}
@@ -8,6 +8,8 @@ import {
     BranchUpdate,
 } from "types/company"
 import { Logger } from "types/logging"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { TrueFitEventTypes } from "services/events"
 
 export interface BranchPool {
     /**
@@ -20,12 +22,12 @@ export interface BranchPool {
     /**
      * Get branches by company ID
      * @param {string} companyId - The ID of the company
-     * @returns {Promise<Branch[]>} - The branches for the company
+     * @returns {Promise<BranchWithCompany[]>} - The branches for the company
      */
-    getBranchesByCompanyId(companyId: string): Promise<Branch[]>
+    getBranchesByCompanyId(companyId: string): Promise<BranchWithCompany[]>
 
     /**
-     * Create a branch
+     * Create a branch and announce it
      * @param {BranchCreate} branch - The branch to create
      * @returns {Promise<BranchCreateResponse>} - The created branch
      */
@@ -89,10 +91,13 @@ class BranchPoolImpl implements BranchPool {
         }
     }
 
-    async getBranchesByCompanyId(companyId: string): Promise<Branch[]> {
+    async getBranchesByCompanyId(
+        companyId: string,
+    ): Promise<BranchWithCompany[]> {
         try {
             return this.prisma.branch.findMany({
                 where: { companyId },
+                include: { company: true },
                 orderBy: { createdAt: "asc" },
             })
         } catch (err) {
@@ -102,22 +107,35 @@ class BranchPoolImpl implements BranchPool {
 
     async createBranch(branch: BranchCreate): Promise<BranchCreateResponse> {
         try {
-            const created = await this.prisma.branch.create({
-                data: branch,
-                select: {
-                    id: true,
-                    name: true,
-                    city: true,
-                    country: true,
-                    address: true,
-                    email: true,
-                    phone: true,
-                    createdAt: true,
-                    companyId: true,
-                },
+            return await this.prisma.$transaction(async (tx) => {
+                const created = await tx.branch.create({
+                    data: branch,
+                    select: {
+                        id: true,
+                        name: true,
+                        city: true,
+                        country: true,
+                        address: true,
+                        email: true,
+                        phone: true,
+                        createdAt: true,
+                        companyId: true,
+                    },
+                })
+
+                await writeOutboxEvents(tx, [
+                    {
+                        type: TrueFitEventTypes.BRANCH_CREATED,
+                        payload: {
+                            branchId: created.id,
+                            name: created.name,
+                            companyId: created.companyId,
+                        },
+                    },
+                ])
+
+                return created
             })
-
-            return created
         } catch (err) {
             handleDBError(err, this.logger)
         }
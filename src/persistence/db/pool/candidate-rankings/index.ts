@@ -1,6 +1,17 @@
-import { PrismaClient, RankingStatus } from "@prisma/client"
+import {
+    ApplicantAssessment,
+    Prisma,
+    PrismaClient,
+    RankingMethod,
+    RankingStatus,
+    RankingTieBreaker,
+    ScoringConfig,
+} from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
+import { DBErrorType, mapDBError } from "persistence/db"
 import { Logger } from "types/logging"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { TrueFitEvent, TrueFitEventTypes } from "services/events"
 import {
     CandidateRankingWithDetails,
     TopCandidatesResponse,
@@ -8,9 +19,52 @@ import {
     CandidateScore,
     RankingInvalidationRequest,
     JobRankingStatus,
+    IncrementalRankingResult,
 } from "types/candidate-ranking"
 import crypto from "crypto"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
+import { ScorableAnswer, scoreAssessment } from "helpers/scoring"
+
+/**
+ * Number of ranking snapshots kept per job
+ */
+const MAX_SNAPSHOTS_PER_JOB = 50
+
+/**
+ * Number of best candidates announced with the match results of a job
+ */
+const MATCH_RESULTS_SIZE = 10
+
+/**
+ * How long a claimed calculation keeps others from calculating the job, in
+ * case the instance that claimed it stopped before finishing
+ */
+const CALCULATION_CLAIM_TTL_MS = 10 * 60 * 1000
+
+// Answer fields an assessment is scored from
+const SCORED_ANSWERS = Prisma.validator<Prisma.ApplicantAnswerFindManyArgs>()({
+    select: {
+        credit: true,
+        reviewStatus: true,
+        question: {
+            select: { weight: true, negativeWeight: true },
+        },
+    },
+})
+
+// Assessment fields a candidate is scored and ranked from
+const SCORED_ASSESSMENT = Prisma.validator<Prisma.ApplicantAssessmentInclude>()(
+    {
+        answers: SCORED_ANSWERS,
+        applicant: { select: { createdAt: true } },
+    },
+)
+
+// Ranking fields that are not stored on the ranking itself but break ties
+const TIE_BREAKING_FIELDS = Prisma.validator<Prisma.CandidateRankingInclude>()({
+    assessment: { select: { submittedAt: true } },
+    applicant: { select: { createdAt: true } },
+})
 
 export interface CandidateRankingPool {
     /**
@@ -25,22 +79,54 @@ export interface CandidateRankingPool {
     ): Promise<TopCandidatesResponse>
 
     /**
-     * Calculate and store rankings for a job
+     * Calculate and store rankings for a job, and announce them with the match
+     * results in the same transaction
      * @param {string} jobId - The ID of the job
      * @param {string} triggerEvent - What triggered the calculation
+     * @param {string[]} triggerEvents - Every trigger the calculation covers, when several were coalesced into it
      * @returns {Promise<RankingCalculationResult>} - Calculation results
      */
     calculateJobRankings(
         jobId: string,
         triggerEvent: string,
+        triggerEvents?: string[],
     ): Promise<RankingCalculationResult>
 
     /**
-     * Invalidate rankings based on various criteria
+     * Claim the calculation of a job's rankings by marking it as calculating,
+     * unless a calculation that has not timed out claimed it already. The
+     * claim is released when the calculation completes or fails.
+     * @param {string} jobId - The ID of the job
+     * @param {string[]} triggerEvents - What triggered the calculation
+     * @returns {Promise<boolean>} - Whether the calculation was claimed
+     */
+    claimRankingCalculation(
+        jobId: string,
+        triggerEvents: string[],
+    ): Promise<boolean>
+
+    /**
+     * Rank a newly submitted assessment into the current rankings of a job,
+     * shifting only the rows between the applicant's old and new rank, and
+     * snapshot and announce the result in the same transaction
+     * @param {string} jobId - The ID of the job
+     * @param {string} assessmentId - The ID of the submitted assessment
+     * @param {string} triggerEvent - What triggered the update
+     * @returns {Promise<IncrementalRankingResult | null>} - The update, or null when the rankings need a full recalculation instead
+     */
+    applyAssessmentToRankings(
+        jobId: string,
+        assessmentId: string,
+        triggerEvent: string,
+    ): Promise<IncrementalRankingResult | null>
+
+    /**
+     * Invalidate rankings based on various criteria, and announce it in the
+     * same transaction
      * @param {RankingInvalidationRequest} request - Invalidation criteria
-     * @returns {Promise<void>}
+     * @returns {Promise<string[]>} - IDs of the jobs whose rankings were invalidated
      */
-    invalidateRankings(request: RankingInvalidationRequest): Promise<void>
+    invalidateRankings(request: RankingInvalidationRequest): Promise<string[]>
 
     /**
      * Get ranking status for a job
@@ -52,17 +138,21 @@ export interface CandidateRankingPool {
     /**
      * Get jobs that need ranking recalculation
      * @param {number} limit - Maximum number of jobs to return
+     * @param {string[]} excludeJobIds - Jobs to leave out, e.g. ones that were just attempted
      * @returns {Promise<string[]>} - Job IDs that need recalculation
      */
-    getJobsNeedingRecalculation(limit?: number): Promise<string[]>
+    getJobsNeedingRecalculation(
+        limit?: number,
+        excludeJobIds?: string[],
+    ): Promise<string[]>
 
     /**
-     * Mark rankings as stale for a specific job
-     * @param {string} jobId - The ID of the job
+     * Mark rankings as stale for jobs, and announce it in the same transaction
+     * @param {string[]} jobIds - The IDs of the jobs
      * @param {string} reason - Reason for marking as stale
      * @returns {Promise<void>}
      */
-    markRankingsStale(jobId: string, reason: string): Promise<void>
+    markRankingsStale(jobIds: string[], reason: string): Promise<void>
 
     /**
      * Get scoring config version hash
@@ -72,6 +162,54 @@ export interface CandidateRankingPool {
     getScoringConfigVersion(jobId: string): Promise<string>
 }
 
+/**
+ * Get the latest assessment of each applicant for a job, with everything it is
+ * scored from. Rankings and scoring config previews score the same
+ * assessments, and older assessments are never loaded with their answers.
+ */
+export async function findLatestScoredAssessments(
+    tx: Prisma.TransactionClient,
+    jobId: string,
+) {
+    const latest = await tx.applicantAssessment.findMany({
+        where: { jobId },
+        distinct: ["applicantId"],
+        orderBy: { submittedAt: "desc" },
+        select: { id: true, applicantId: true },
+    })
+
+    return tx.applicantAssessment.findMany({
+        where: { id: { in: latest.map((assessment) => assessment.id) } },
+        include: SCORED_ASSESSMENT,
+    })
+}
+
+/**
+ * Get the scoring config a job's assessments are scored with: the job's own,
+ * or the default one. Rankings and assessment scores both score with it, so
+ * that they never disagree.
+ */
+export async function findScoringConfig(
+    tx: Prisma.TransactionClient,
+    jobId: string,
+): Promise<ScoringConfig> {
+    const scoringConfig = await tx.scoringConfig.findFirst({
+        where: {
+            OR: [{ jobId }, { isDefault: true }],
+        },
+        orderBy: { jobId: "asc" }, // Prefer job-specific config
+    })
+
+    if (!scoringConfig) {
+        throw new ServiceError(
+            ServiceErrorType.NotFound,
+            "No scoring configuration found",
+        )
+    }
+
+    return scoringConfig
+}
+
 class CandidateRankingPoolImpl implements CandidateRankingPool {
     constructor(
         private readonly prisma: PrismaClient,
@@ -98,6 +236,7 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                         lastCalculatedAt: null,
                         calculationDuration: null,
                         status: RankingStatus.STALE,
+                        candidatesAwaitingReview: 0,
                     },
                 }
             }
@@ -141,10 +280,17 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                         },
                     },
                 },
-                orderBy: { rank: "asc" },
+                // Candidates sharing a rank are listed in a stable order
+                orderBy: [{ rank: "asc" }, { applicantId: "asc" }],
                 take: limit,
             })
 
+            // Candidates whose score may still change once answers are graded
+            const candidatesAwaitingReview =
+                await this.prisma.candidateRanking.count({
+                    where: { jobId, isStale: false, pendingReviews: { gt: 0 } },
+                })
+
             return {
                 jobId,
                 candidates,
@@ -153,6 +299,7 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                     lastCalculatedAt: metadata.lastCalculatedAt,
                     calculationDuration: metadata.calculationDuration,
                     status: metadata.status,
+                    candidatesAwaitingReview,
                 },
             }
         } catch (err) {
@@ -163,6 +310,7 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
     async calculateJobRankings(
         jobId: string,
         triggerEvent: string,
+        triggerEvents: string[] = [triggerEvent],
     ): Promise<RankingCalculationResult> {
         const startTime = Date.now()
 
@@ -178,6 +326,7 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                     update: {
                         status: RankingStatus.CALCULATING,
                         triggerEvent,
+                        triggerEvents,
                         errorMessage: null,
                         scoringConfigVersion: configVersion,
                     },
@@ -185,13 +334,19 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                         jobId,
                         status: RankingStatus.CALCULATING,
                         triggerEvent,
+                        triggerEvents,
                         scoringConfigVersion: configVersion,
                         totalCandidates: 0,
                     },
                 })
 
-                // Calculate scores using optimized SQL
-                const scores = await this.calculateCandidateScores(tx, jobId)
+                // Calculate scores for the latest assessment of each applicant
+                const scoringConfig = await findScoringConfig(tx, jobId)
+                const scores = await this.calculateCandidateScores(
+                    tx,
+                    jobId,
+                    scoringConfig,
+                )
 
                 // Clear existing rankings
                 await tx.candidateRanking.deleteMany({
@@ -199,26 +354,24 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                 })
 
                 // Insert new rankings
-                const rankedCandidates = scores.map((score, index) => ({
-                    jobId,
-                    applicantId: score.applicantId,
-                    assessmentId: score.assessmentId,
-                    rank: index + 1,
-                    score: score.score,
-                    maxPossibleScore: score.maxPossibleScore,
-                    percentage: score.percentage,
-                    correctAnswers: score.correctAnswers,
-                    incorrectAnswers: score.incorrectAnswers,
-                    recencyBonus: score.recencyBonus || 0,
-                    scoringConfigVersion: configVersion,
-                    calculatedAt: new Date(),
-                    isStale: false,
-                }))
+                const ranks = assignRanks(scores, scoringConfig)
+                const rankedCandidates = scores.map((score, index) =>
+                    toRankingRow(jobId, score, ranks[index], configVersion),
+                )
 
                 await tx.candidateRanking.createMany({
                     data: rankedCandidates,
                 })
 
+                // Keep the rankings as a snapshot, to compare them over time
+                await this.createSnapshot(
+                    tx,
+                    jobId,
+                    configVersion,
+                    triggerEvent,
+                    rankedCandidates,
+                )
+
                 const calculationDuration = Date.now() - startTime
 
                 // Update or create metadata (upsert to handle first-time calculations)
@@ -241,6 +394,18 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                     },
                 })
 
+                await writeOutboxEvents(tx, [
+                    {
+                        type: TrueFitEventTypes.RANKING_CALCULATED,
+                        payload: {
+                            jobId,
+                            totalCandidates: scores.length,
+                            calculationDuration,
+                        },
+                    },
+                    toMatchResultsEvent(jobId, rankedCandidates),
+                ])
+
                 return {
                     jobId,
                     totalCandidates: scores.length,
@@ -288,147 +453,405 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
         }
     }
 
+    async claimRankingCalculation(
+        jobId: string,
+        triggerEvents: string[],
+    ): Promise<boolean> {
+        const claim = {
+            status: RankingStatus.CALCULATING,
+            triggerEvent: triggerEvents[triggerEvents.length - 1],
+            triggerEvents,
+            errorMessage: null,
+        }
+
+        try {
+            const { count } = await this.prisma.jobRankingMetadata.updateMany({
+                where: {
+                    jobId,
+                    OR: [
+                        { status: { not: RankingStatus.CALCULATING } },
+                        {
+                            updatedAt: {
+                                lt: new Date(
+                                    Date.now() - CALCULATION_CLAIM_TTL_MS,
+                                ),
+                            },
+                        },
+                    ],
+                },
+                data: claim,
+            })
+            if (count > 0) {
+                return true
+            }
+
+            const existing = await this.prisma.jobRankingMetadata.findUnique({
+                where: { jobId },
+                select: { id: true },
+            })
+            if (existing) {
+                return false
+            }
+
+            // First calculation of the job, racing instances are stopped by
+            // the unique job ID
+            await this.prisma.jobRankingMetadata.create({
+                data: {
+                    jobId,
+                    ...claim,
+                    scoringConfigVersion: await this.getScoringConfigVersion(
+                        jobId,
+                    ),
+                    totalCandidates: 0,
+                },
+            })
+            return true
+        } catch (err) {
+            if (mapDBError(err).type === DBErrorType.DuplicateValue) {
+                return false
+            }
+            handleDBError(err, this.logger)
+        }
+    }
+
     private async calculateCandidateScores(
-        tx: any,
+        tx: Prisma.TransactionClient,
         jobId: string,
+        scoringConfig: ScoringConfig,
     ): Promise<CandidateScore[]> {
-        // Get scoring config
-        const scoringConfig = await tx.scoringConfig.findFirst({
-            where: {
-                OR: [{ jobId }, { isDefault: true }],
-            },
-            orderBy: { jobId: "asc" }, // Prefer job-specific config
-        })
+        // Latest assessment per applicant, scored with the same engine as the
+        // assessment score endpoint
+        const latest = await findLatestScoredAssessments(tx, jobId)
 
-        if (!scoringConfig) {
-            throw new ServiceError(
-                ServiceErrorType.NotFound,
-                "No scoring configuration found",
-            )
-        }
+        const now = new Date()
+        const scores: CandidateScore[] = []
+        latest.forEach((assessment) => {
+            if (assessment.answers.length === 0) {
+                return
+            }
 
-        // Optimized SQL query to calculate scores
-        const rawScores = await tx.$queryRaw`
-            WITH LatestAssessments AS (
-                SELECT DISTINCT ON (aa."applicantId")
-                    aa."applicantId",
-                    aa.id as "assessmentId",
-                    aa."submittedAt",
-                    at.id as "templateId"
-                FROM applicant_assessments aa
-                JOIN assessment_templates at ON aa."templateId" = at.id
-                WHERE aa."jobId" = ${jobId}::uuid
-                ORDER BY aa."applicantId", aa."submittedAt" DESC
-            ),
-            ScoredAnswers AS (
-                SELECT 
-                    la."applicantId",
-                    la."assessmentId",
-                    la."submittedAt",
-                    SUM(CASE 
-                        WHEN aw."isCorrect" THEN aq.weight 
-                        ELSE -aq.weight * ${scoringConfig.negativeMarkingFraction}
-                    END) as "baseScore",
-                    SUM(aq.weight) as "maxPossibleScore",
-                    SUM(CASE WHEN aw."isCorrect" THEN 1 ELSE 0 END) as "correctAnswers",
-                    SUM(CASE WHEN NOT aw."isCorrect" THEN 1 ELSE 0 END) as "incorrectAnswers"
-                FROM LatestAssessments la
-                JOIN applicant_answers aw ON la."assessmentId" = aw."assessmentId"
-                JOIN assessment_questions aq ON aw."questionId" = aq.id
-                GROUP BY la."applicantId", la."assessmentId", la."submittedAt"
-            ),
-            FinalScores AS (
-                SELECT 
-                    "applicantId",
-                    "assessmentId",
-                    "baseScore",
-                    "maxPossibleScore",
-                    "correctAnswers",
-                    "incorrectAnswers",
-                    CASE 
-                        WHEN ${scoringConfig.recencyBoostPercent} IS NOT NULL 
-                             AND ${scoringConfig.recencyWindowDays} IS NOT NULL
-                             AND "submittedAt" > NOW() - INTERVAL '${scoringConfig.recencyWindowDays} days'
-                        THEN "baseScore" * ${scoringConfig.recencyBoostPercent} / 100
-                        ELSE 0
-                    END as "recencyBonus"
-                FROM ScoredAnswers
-            )
-            SELECT 
-                "applicantId",
-                "assessmentId",
-                ("baseScore" + "recencyBonus") as score,
-                "maxPossibleScore",
-                CASE 
-                    WHEN "maxPossibleScore" > 0 
-                    THEN (("baseScore" + "recencyBonus") / "maxPossibleScore") * 100
-                    ELSE 0
-                END as percentage,
-                "correctAnswers",
-                "incorrectAnswers",
-                "recencyBonus"
-            FROM FinalScores
-            ORDER BY ("baseScore" + "recencyBonus") DESC
-        `
-
-        return rawScores.map((row: any) => ({
-            applicantId: row.applicantId,
-            assessmentId: row.assessmentId,
-            score: parseFloat(row.score) || 0,
-            maxPossibleScore: parseFloat(row.maxPossibleScore) || 0,
-            percentage: parseFloat(row.percentage) || 0,
-            correctAnswers: parseInt(row.correctAnswers) || 0,
-            incorrectAnswers: parseInt(row.incorrectAnswers) || 0,
-            recencyBonus: parseFloat(row.recencyBonus) || undefined,
-        }))
+            scores.push(scoreCandidate(assessment, scoringConfig, now))
+        })
+
+        return scores.sort((a, b) =>
+            compareCandidates(a, b, scoringConfig.tieBreakers),
+        )
     }
 
-    async invalidateRankings(
-        request: RankingInvalidationRequest,
-    ): Promise<void> {
+    async applyAssessmentToRankings(
+        jobId: string,
+        assessmentId: string,
+        triggerEvent: string,
+    ): Promise<IncrementalRankingResult | null> {
+        const startTime = Date.now()
+
         try {
-            if (request.jobId) {
-                // Invalidate specific job
-                await this.markRankingsStale(
-                    request.jobId,
-                    request.triggerEvent,
-                )
-            } else if (request.scoringConfigId) {
-                // Invalidate all jobs using this scoring config
-                const affectedJobs = await this.prisma.job.findMany({
+            const configVersion = await this.getScoringConfigVersion(jobId)
+
+            const result = await this.prisma.$transaction(async (tx) => {
+                // Lock the job's metadata so that concurrent updates and full
+                // recalculations shift ranks one after the other
+                await tx.$queryRaw`SELECT id FROM job_ranking_metadata WHERE "jobId" = ${jobId}::uuid FOR UPDATE`
+
+                // Only complete rankings of the current scoring config can
+                // be updated in place
+                const metadata = await tx.jobRankingMetadata.findUnique({
+                    where: { jobId },
+                })
+                if (
+                    !metadata ||
+                    metadata.status !== RankingStatus.COMPLETED ||
+                    metadata.scoringConfigVersion !== configVersion
+                ) {
+                    return null
+                }
+                const outdated = await tx.candidateRanking.count({
                     where: {
+                        jobId,
                         OR: [
-                            { scoringConfig: { id: request.scoringConfigId } },
-                            { scoringConfig: null }, // Jobs using default config
+                            { isStale: true },
+                            { scoringConfigVersion: { not: configVersion } },
                         ],
                     },
+                })
+                if (outdated > 0) {
+                    return null
+                }
+
+                const assessment = await tx.applicantAssessment.findUnique({
+                    where: { id: assessmentId },
+                    include: SCORED_ASSESSMENT,
+                })
+                if (!assessment || assessment.jobId !== jobId) {
+                    throw new ServiceError(
+                        ServiceErrorType.NotFound,
+                        "Assessment not found",
+                    )
+                }
+
+                // Rankings hold the latest assessment of each applicant, and
+                // leave out applicants whose latest assessment is empty
+                const latest = await tx.applicantAssessment.findFirst({
+                    where: { jobId, applicantId: assessment.applicantId },
+                    orderBy: { submittedAt: "desc" },
                     select: { id: true },
                 })
+                if (latest?.id !== assessmentId || !assessment.answers.length) {
+                    return null
+                }
 
-                for (const job of affectedJobs) {
-                    await this.markRankingsStale(job.id, request.triggerEvent)
+                // Shared ranks can change all the way down the rankings
+                const scoringConfig = await findScoringConfig(tx, jobId)
+                if (scoringConfig.rankingMethod !== RankingMethod.ORDINAL) {
+                    return null
                 }
-            } else if (request.applicantId) {
-                // Invalidate all jobs where this applicant has assessments
-                const affectedJobs = await this.prisma.job.findMany({
+                const score = scoreCandidate(
+                    assessment,
+                    scoringConfig,
+                    new Date(),
+                )
+
+                const existing = await tx.candidateRanking.findUnique({
                     where: {
-                        templates: {
-                            some: {
-                                assessments: {
-                                    some: {
-                                        applicantId: request.applicantId,
-                                    },
-                                },
+                        jobId_applicantId: {
+                            jobId,
+                            applicantId: assessment.applicantId,
+                        },
+                    },
+                })
+
+                const higher = await tx.candidateRanking.count({
+                    where: {
+                        jobId,
+                        applicantId: { not: assessment.applicantId },
+                        score: { gt: score.score },
+                    },
+                })
+                // Candidates with the same score are ordered as in a full
+                // calculation
+                const tied = await tx.candidateRanking.findMany({
+                    where: {
+                        jobId,
+                        applicantId: { not: assessment.applicantId },
+                        score: score.score,
+                    },
+                    include: TIE_BREAKING_FIELDS,
+                })
+                const tiedAhead = tied.filter(
+                    (candidate) =>
+                        compareCandidates(
+                            {
+                                ...candidate,
+                                submittedAt: candidate.assessment.submittedAt,
+                                applicantCreatedAt:
+                                    candidate.applicant.createdAt,
                             },
+                            score,
+                            scoringConfig.tieBreakers,
+                        ) < 0,
+                ).length
+                const rank = higher + tiedAhead + 1
+
+                // Shift the candidates between the old and the new rank
+                if (!existing) {
+                    await tx.candidateRanking.updateMany({
+                        where: { jobId, rank: { gte: rank } },
+                        data: { rank: { increment: 1 } },
+                    })
+                } else if (rank < existing.rank) {
+                    await tx.candidateRanking.updateMany({
+                        where: {
+                            jobId,
+                            rank: { gte: rank, lt: existing.rank },
                         },
+                        data: { rank: { increment: 1 } },
+                    })
+                } else if (rank > existing.rank) {
+                    await tx.candidateRanking.updateMany({
+                        where: {
+                            jobId,
+                            rank: { gt: existing.rank, lte: rank },
+                        },
+                        data: { rank: { decrement: 1 } },
+                    })
+                }
+
+                const row = toRankingRow(jobId, score, rank, configVersion)
+                if (existing) {
+                    await tx.candidateRanking.update({
+                        where: { id: existing.id },
+                        data: row,
+                    })
+                } else {
+                    await tx.candidateRanking.create({ data: row })
+                }
+
+                // Snapshot the updated rankings, as full calculations do
+                const rankings = await tx.candidateRanking.findMany({
+                    where: { jobId },
+                    orderBy: { rank: "asc" },
+                })
+                await this.createSnapshot(
+                    tx,
+                    jobId,
+                    configVersion,
+                    triggerEvent,
+                    rankings,
+                )
+
+                const totalCandidates =
+                    metadata.totalCandidates + (existing ? 0 : 1)
+                const calculationDuration = Date.now() - startTime
+                await tx.jobRankingMetadata.update({
+                    where: { jobId },
+                    data: {
+                        totalCandidates,
+                        lastCalculatedAt: new Date(),
+                        calculationDuration,
+                        triggerEvent,
+                        triggerEvents: [triggerEvent],
                     },
-                    select: { id: true },
                 })
 
-                for (const job of affectedJobs) {
-                    await this.markRankingsStale(job.id, request.triggerEvent)
+                // Match results only change when the top candidates did
+                const events: TrueFitEvent[] = [
+                    {
+                        type: TrueFitEventTypes.RANKING_CALCULATED,
+                        payload: {
+                            jobId,
+                            totalCandidates,
+                            calculationDuration,
+                        },
+                    },
+                ]
+                if (
+                    rank <= MATCH_RESULTS_SIZE ||
+                    (existing && existing.rank <= MATCH_RESULTS_SIZE)
+                ) {
+                    events.push(toMatchResultsEvent(jobId, rankings))
                 }
+                await writeOutboxEvents(tx, events)
+
+                return {
+                    jobId,
+                    applicantId: assessment.applicantId,
+                    assessmentId,
+                    rank,
+                    previousRank: existing?.rank ?? null,
+                    totalCandidates,
+                    calculationDuration,
+                    scoringConfigVersion: configVersion,
+                }
+            })
+
+            if (result) {
+                this.logger.info("Updated job rankings incrementally", {
+                    jobId,
+                    assessmentId,
+                    rank: result.rank,
+                    previousRank: result.previousRank,
+                    duration: result.calculationDuration,
+                    trigger: triggerEvent,
+                })
             }
+
+            return result
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    private async createSnapshot(
+        tx: Prisma.TransactionClient,
+        jobId: string,
+        configVersion: string,
+        triggerEvent: string,
+        rankings: Pick<
+            ReturnType<typeof toRankingRow>,
+            "applicantId" | "assessmentId" | "rank" | "score" | "percentage"
+        >[],
+    ): Promise<void> {
+        const snapshot = await tx.rankingSnapshot.create({
+            data: {
+                jobId,
+                scoringConfigVersion: configVersion,
+                triggerEvent,
+                totalCandidates: rankings.length,
+            },
+        })
+        await tx.rankingSnapshotEntry.createMany({
+            data: rankings.map((ranking) => ({
+                snapshotId: snapshot.id,
+                applicantId: ranking.applicantId,
+                assessmentId: ranking.assessmentId,
+                rank: ranking.rank,
+                score: ranking.score,
+                percentage: ranking.percentage,
+            })),
+        })
+
+        // Only the latest snapshots of a job are kept
+        const expired = await tx.rankingSnapshot.findMany({
+            where: { jobId },
+            orderBy: { createdAt: "desc" },
+            skip: MAX_SNAPSHOTS_PER_JOB,
+            select: { id: true },
+        })
+        if (expired.length > 0) {
+            await tx.rankingSnapshot.deleteMany({
+                where: { id: { in: expired.map((s) => s.id) } },
+            })
+        }
+    }
+
+    async invalidateRankings(
+        request: RankingInvalidationRequest,
+    ): Promise<string[]> {
+        try {
+            return await this.prisma.$transaction(async (tx) => {
+                let jobIds: string[] = []
+                if (request.jobId) {
+                    // Invalidate specific job
+                    jobIds = [request.jobId]
+                } else if (request.scoringConfigId) {
+                    // Invalidate all jobs using this scoring config
+                    const affectedJobs = await tx.job.findMany({
+                        where: {
+                            OR: [
+                                {
+                                    scoringConfig: {
+                                        id: request.scoringConfigId,
+                                    },
+                                },
+                                { scoringConfig: null }, // Jobs using default config
+                            ],
+                        },
+                        select: { id: true },
+                    })
+                    jobIds = affectedJobs.map((job) => job.id)
+                } else if (request.applicantId) {
+                    // Invalidate all jobs where this applicant has assessments
+                    const affectedJobs = await tx.job.findMany({
+                        where: {
+                            templates: {
+                                some: {
+                                    assessments: {
+                                        some: {
+                                            applicantId: request.applicantId,
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        select: { id: true },
+                    })
+                    jobIds = affectedJobs.map((job) => job.id)
+                }
+
+                await this.markStale(tx, jobIds, request.triggerEvent)
+
+                return jobIds
+            })
         } catch (err) {
             handleDBError(err, this.logger)
         }
@@ -463,10 +886,14 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
         }
     }
 
-    async getJobsNeedingRecalculation(limit = 10): Promise<string[]> {
+    async getJobsNeedingRecalculation(
+        limit = 10,
+        excludeJobIds: string[] = [],
+    ): Promise<string[]> {
         try {
             const jobs = await this.prisma.jobRankingMetadata.findMany({
                 where: {
+                    jobId: { notIn: excludeJobIds },
                     OR: [
                         { status: RankingStatus.STALE },
                         { status: RankingStatus.ERROR },
@@ -498,37 +925,61 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
         }
     }
 
-    async markRankingsStale(jobId: string, reason: string): Promise<void> {
+    async markRankingsStale(jobIds: string[], reason: string): Promise<void> {
         try {
-            await this.prisma.$transaction([
-                // Mark existing rankings as stale
-                this.prisma.candidateRanking.updateMany({
-                    where: { jobId },
-                    data: { isStale: true },
-                }),
-                // Update metadata
-                this.prisma.jobRankingMetadata.upsert({
-                    where: { jobId },
-                    update: {
-                        status: RankingStatus.STALE,
-                        triggerEvent: reason,
-                    },
-                    create: {
-                        jobId,
-                        status: RankingStatus.STALE,
-                        triggerEvent: reason,
-                        scoringConfigVersion: "",
-                        totalCandidates: 0,
-                    },
-                }),
-            ])
-
-            this.logger.info("Marked rankings as stale", { jobId, reason })
+            await this.prisma.$transaction((tx) =>
+                this.markStale(tx, jobIds, reason),
+            )
         } catch (err) {
             handleDBError(err, this.logger)
         }
     }
 
+    /**
+     * Mark the rankings of jobs as stale and announce it, within a transaction
+     */
+    private async markStale(
+        tx: Prisma.TransactionClient,
+        jobIds: string[],
+        reason: string,
+    ): Promise<void> {
+        if (!jobIds.length) {
+            return
+        }
+
+        for (const jobId of jobIds) {
+            // Mark existing rankings as stale
+            await tx.candidateRanking.updateMany({
+                where: { jobId },
+                data: { isStale: true },
+            })
+            // Update metadata
+            await tx.jobRankingMetadata.upsert({
+                where: { jobId },
+                update: {
+                    status: RankingStatus.STALE,
+                    triggerEvent: reason,
+                },
+                create: {
+                    jobId,
+                    status: RankingStatus.STALE,
+                    triggerEvent: reason,
+                    scoringConfigVersion: "",
+                    totalCandidates: 0,
+                },
+            })
+        }
+
+        await writeOutboxEvents(tx, [
+            {
+                type: TrueFitEventTypes.RANKING_INVALIDATED,
+                payload: { jobIds, reason },
+            },
+        ])
+
+        this.logger.info("Marked rankings as stale", { jobIds, reason })
+    }
+
     async getScoringConfigVersion(jobId: string): Promise<string> {
         try {
             const config = await this.prisma.scoringConfig.findFirst({
@@ -548,6 +999,8 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
                 negativeMarkingFraction: config.negativeMarkingFraction,
                 recencyWindowDays: config.recencyWindowDays,
                 recencyBoostPercent: config.recencyBoostPercent,
+                tieBreakers: config.tieBreakers,
+                rankingMethod: config.rankingMethod,
                 updatedAt: config.updatedAt.toISOString(),
             })
 
@@ -561,6 +1014,205 @@ class CandidateRankingPoolImpl implements CandidateRankingPool {
     }
 }
 
+function scoreCandidate(
+    assessment: ApplicantAssessment & {
+        answers: ScorableAnswer[]
+        applicant: { createdAt: Date }
+    },
+    scoringConfig: ScoringConfig,
+    now: Date,
+): CandidateScore {
+    const scoring = scoreAssessment(
+        assessment.answers,
+        assessment,
+        scoringConfig,
+        now,
+    )
+
+    return {
+        applicantId: assessment.applicantId,
+        assessmentId: assessment.id,
+        score: scoring.score,
+        maxPossibleScore: scoring.maxPossibleScore,
+        percentage: scoring.percentage,
+        correctAnswers: scoring.correct.count,
+        incorrectAnswers: scoring.incorrect.count,
+        recencyBonus: scoring.recencyBonus || undefined,
+        pendingReviews: scoring.pending.count,
+        timeTakenSeconds: assessment.timeTakenSeconds,
+        submittedAt: assessment.submittedAt,
+        applicantCreatedAt: assessment.applicant.createdAt,
+    }
+}
+
+function toRankingRow(
+    jobId: string,
+    score: CandidateScore,
+    rank: number,
+    configVersion: string,
+) {
+    return {
+        jobId,
+        applicantId: score.applicantId,
+        assessmentId: score.assessmentId,
+        rank,
+        score: score.score,
+        maxPossibleScore: score.maxPossibleScore,
+        percentage: score.percentage,
+        correctAnswers: score.correctAnswers,
+        incorrectAnswers: score.incorrectAnswers,
+        recencyBonus: score.recencyBonus || 0,
+        pendingReviews: score.pendingReviews,
+        timeTakenSeconds: score.timeTakenSeconds,
+        scoringConfigVersion: configVersion,
+        calculatedAt: new Date(),
+        isStale: false,
+    }
+}
+
+// Faster candidates first; candidates without a recorded time go last
+function compareTimeTaken(a: number | null, b: number | null): number {
+    if (a === b) {
+        return 0
+    }
+    if (a === null) {
+        return 1
+    }
+    if (b === null) {
+        return -1
+    }
+    return a - b
+}
+
+// The fields candidates are ordered on
+type RankedCandidate = Pick<
+    CandidateScore,
+    | "applicantId"
+    | "score"
+    | "correctAnswers"
+    | "incorrectAnswers"
+    | "timeTakenSeconds"
+    | "submittedAt"
+    | "applicantCreatedAt"
+>
+
+// Each tie-breaker orders two candidates with equal scores, better one first
+const TIE_BREAKERS: Record<
+    RankingTieBreaker,
+    (a: RankedCandidate, b: RankedCandidate) => number
+> = {
+    EARLIER_SUBMISSION: (a, b) =>
+        a.submittedAt.getTime() - b.submittedAt.getTime(),
+    MORE_CORRECT_ANSWERS: (a, b) => b.correctAnswers - a.correctAnswers,
+    FEWER_INCORRECT_ANSWERS: (a, b) => a.incorrectAnswers - b.incorrectAnswers,
+    LESS_TIME_TAKEN: (a, b) =>
+        compareTimeTaken(a.timeTakenSeconds, b.timeTakenSeconds),
+    EARLIER_APPLICANT: (a, b) =>
+        a.applicantCreatedAt.getTime() - b.applicantCreatedAt.getTime(),
+}
+
+// Compare candidates on their score and then on each tie-breaker in turn.
+// Candidates that compare equal share a rank under shared ranking methods.
+function compareOnTieBreakers(
+    a: RankedCandidate,
+    b: RankedCandidate,
+    tieBreakers: RankingTieBreaker[],
+): number {
+    let result = b.score - a.score
+    for (const tieBreaker of tieBreakers) {
+        if (result !== 0) {
+            break
+        }
+        result = TIE_BREAKERS[tieBreaker](a, b)
+    }
+    return result
+}
+
+/**
+ * Order candidates best first. Candidates still tied after the tie-breakers go
+ * newest submission first, then by applicant ID, so that every calculation
+ * gives the same order.
+ * @param {RankedCandidate} a - A candidate
+ * @param {RankedCandidate} b - Another candidate
+ * @param {RankingTieBreaker[]} tieBreakers - The tie-breakers of the scoring config
+ * @returns {number} - Negative when a goes first, positive when b does
+ */
+function compareCandidates(
+    a: RankedCandidate,
+    b: RankedCandidate,
+    tieBreakers: RankingTieBreaker[],
+): number {
+    return (
+        compareOnTieBreakers(a, b, tieBreakers) ||
+        b.submittedAt.getTime() - a.submittedAt.getTime() ||
+        a.applicantId.localeCompare(b.applicantId)
+    )
+}
+
+/**
+ * Rank candidates that are ordered by compareCandidates. Under competition and
+ * dense ranking, candidates tied on their score and every tie-breaker share a
+ * rank.
+ * @param {RankedCandidate[]} candidates - The ordered candidates
+ * @param {ScoringConfig} scoringConfig - The scoring config of the job
+ * @returns {number[]} - The rank of each candidate
+ */
+function assignRanks(
+    candidates: RankedCandidate[],
+    scoringConfig: Pick<ScoringConfig, "tieBreakers" | "rankingMethod">,
+): number[] {
+    const ranks: number[] = []
+    candidates.forEach((candidate, index) => {
+        const previous = candidates[index - 1]
+        if (
+            scoringConfig.rankingMethod === RankingMethod.ORDINAL ||
+            !previous
+        ) {
+            ranks.push(index + 1)
+        } else if (
+            compareOnTieBreakers(
+                previous,
+                candidate,
+                scoringConfig.tieBreakers,
+            ) === 0
+        ) {
+            ranks.push(ranks[index - 1])
+        } else if (scoringConfig.rankingMethod === RankingMethod.DENSE) {
+            ranks.push(ranks[index - 1] + 1)
+        } else {
+            ranks.push(index + 1)
+        }
+    })
+    return ranks
+}
+
+/**
+ * Build the match results of a job from its rankings, best first
+ */
+function toMatchResultsEvent(
+    jobId: string,
+    rankings: Pick<
+        ReturnType<typeof toRankingRow>,
+        "applicantId" | "assessmentId" | "rank" | "score" | "percentage"
+    >[],
+): TrueFitEvent {
+    return {
+        type: TrueFitEventTypes.MATCH_RESULTS_GENERATED,
+        payload: {
+            jobId,
+            candidates: rankings
+                .slice(0, MATCH_RESULTS_SIZE)
+                .map((candidate) => ({
+                    applicantId: candidate.applicantId,
+                    assessmentId: candidate.assessmentId,
+                    rank: candidate.rank,
+                    score: candidate.score,
+                    percentage: candidate.percentage,
+                })),
+        },
+    }
+}
+
 export default function getCandidateRankingPool(
     prisma: PrismaClient,
     logger: Logger,
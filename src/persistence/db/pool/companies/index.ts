@@ -12,6 +12,8 @@ import {
     BranchCreateResponse,
 } from "types/company"
 import { Logger } from "types/logging"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { TrueFitEventTypes } from "services/events"
 
 export interface CompanyPool {
     /**
@@ -36,7 +38,7 @@ export interface CompanyPool {
     createCompany(company: CompanyCreate): Promise<Company>
 
     /**
-     * Create a company with branches
+     * Create a company with branches and announce it
      * @param {CompanyCreate} company - The company to create
      * @param {BranchCreateRequest[]} branches - The branches to create
      * @returns {Promise<CompanyCreateResponse>} - The created company with branches
@@ -143,6 +145,17 @@ class CompanyPoolImpl implements CompanyPool {
                     ),
                 )
 
+                await writeOutboxEvents(tx, [
+                    {
+                        type: TrueFitEventTypes.COMPANY_REGISTERED,
+                        payload: {
+                            companyId: createdCompany.id,
+                            name: createdCompany.name,
+                            branchCount: createdBranches.length,
+                        },
+                    },
+                ])
+
                 return {
                     ...createdCompany,
                     branches: createdBranches,
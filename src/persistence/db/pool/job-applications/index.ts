@@ -1,13 +1,16 @@
 import { PrismaClient, ApplicationStatus } from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
 import { Logger } from "types/logging"
 import {
     JobApplication,
     JobApplicationWithDetails,
     JobApplicationCreate,
-    JobApplicationUpdate,
     JobApplicationFilters,
     JobApplicationStats,
+    JobApplicationStatusChangeCreate,
+    JobApplicationStatusRef,
+    JobApplicationStatusChangeWithActor,
 } from "types/jobApplication"
 
 export interface JobApplicationPool {
@@ -75,16 +78,34 @@ export interface JobApplicationPool {
     ): Promise<JobApplicationWithDetails[]>
 
     /**
-     * Update a job application status
-     * @param {string} id - The ID of the job application to update
-     * @param {JobApplicationUpdate} application - The job application data to update
+     * Get the current status of multiple job applications. Unknown IDs are
+     * left out.
+     * @param {string[]} ids - The IDs of the job applications
+     * @returns {Promise<JobApplicationStatusRef[]>} - The applications' statuses
+     */
+    getJobApplicationStatuses(ids: string[]): Promise<JobApplicationStatusRef[]>
+
+    /**
+     * Update a job application status and record the change in its history
+     * @param {JobApplicationStatusRef} current - The application and the status it is expected to be in
+     * @param {JobApplicationStatusChangeCreate} change - The new status, actor and reason
      * @returns {Promise<JobApplication>} - The updated job application
+     * @throws {ServiceError} - Conflict when the application is no longer in the expected status
      */
-    updateJobApplication(
-        id: string,
-        application: JobApplicationUpdate,
+    updateJobApplicationStatus(
+        current: JobApplicationStatusRef,
+        change: JobApplicationStatusChangeCreate,
     ): Promise<JobApplication>
 
+    /**
+     * Get the status history of a job application, oldest change first
+     * @param {string} id - The ID of the job application
+     * @returns {Promise<JobApplicationStatusChangeWithActor[]>} - The status changes
+     */
+    getJobApplicationStatusHistory(
+        id: string,
+    ): Promise<JobApplicationStatusChangeWithActor[]>
+
     /**
      * Check if an applicant has already applied to a job
      * @param {string} applicantId - The applicant ID
@@ -115,14 +136,17 @@ export interface JobApplicationPool {
     ): Promise<JobApplicationWithDetails[]>
 
     /**
-     * Bulk update job application statuses
-     * @param {string[]} ids - Array of job application IDs
-     * @param {ApplicationStatus} status - The new status
+     * Bulk update job application statuses, recording a history entry per
+     * application. Nothing is updated if any application is no longer in its
+     * expected status.
+     * @param {JobApplicationStatusRef[]} current - The applications and the statuses they are expected to be in
+     * @param {JobApplicationStatusChangeCreate} change - The new status, actor and reason
      * @returns {Promise<number>} - Number of updated applications
+     * @throws {ServiceError} - Conflict when an application is no longer in its expected status
      */
     bulkUpdateJobApplicationStatus(
-        ids: string[],
-        status: ApplicationStatus,
+        current: JobApplicationStatusRef[],
+        change: JobApplicationStatusChangeCreate,
     ): Promise<number>
 }
 
@@ -308,7 +332,15 @@ class JobApplicationPoolImpl implements JobApplicationPool {
     ): Promise<JobApplication> {
         try {
             return this.prisma.jobApplication.create({
-                data: application,
+                data: {
+                    ...application,
+                    statusHistory: {
+                        create: {
+                            toStatus:
+                                application.status ?? ApplicationStatus.APPLIED,
+                        },
+                    },
+                },
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -353,6 +385,7 @@ class JobApplicationPoolImpl implements JobApplicationPool {
 
             if (filters.companyId) {
                 where.job = {
+                    ...where.job,
                     branch: {
                         companyId: filters.companyId,
                     },
@@ -408,14 +441,78 @@ class JobApplicationPoolImpl implements JobApplicationPool {
         }
     }
 
-    async updateJobApplication(
-        id: string,
-        application: JobApplicationUpdate,
+    async getJobApplicationStatuses(
+        ids: string[],
+    ): Promise<JobApplicationStatusRef[]> {
+        try {
+            return await this.prisma.jobApplication.findMany({
+                where: { id: { in: ids } },
+                select: { id: true, status: true },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async updateJobApplicationStatus(
+        current: JobApplicationStatusRef,
+        change: JobApplicationStatusChangeCreate,
     ): Promise<JobApplication> {
         try {
-            return this.prisma.jobApplication.update({
-                where: { id },
-                data: application,
+            return await this.prisma.$transaction(async (tx) => {
+                // Only move the application if nobody changed it since it was
+                // validated, the transition may not be allowed from a new status
+                const { count } = await tx.jobApplication.updateMany({
+                    where: { id: current.id, status: current.status },
+                    data: { status: change.toStatus },
+                })
+                if (count === 0) {
+                    throw new ServiceError(
+                        ServiceErrorType.Conflict,
+                        "Job application status was changed by someone else",
+                    )
+                }
+
+                await tx.jobApplicationStatusChange.create({
+                    data: {
+                        applicationId: current.id,
+                        fromStatus: current.status,
+                        toStatus: change.toStatus,
+                        reason: change.reason,
+                        changedById: change.changedById,
+                        changedByApiKeyId: change.changedByApiKeyId,
+                    },
+                })
+
+                return tx.jobApplication.findUniqueOrThrow({
+                    where: { id: current.id },
+                })
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getJobApplicationStatusHistory(
+        id: string,
+    ): Promise<JobApplicationStatusChangeWithActor[]> {
+        try {
+            return this.prisma.jobApplicationStatusChange.findMany({
+                where: { applicationId: id },
+                include: {
+                    changedBy: {
+                        select: {
+                            id: true,
+                            email: true,
+                            firstName: true,
+                            lastName: true,
+                        },
+                    },
+                    changedByApiKey: {
+                        select: { id: true, name: true, prefix: true },
+                    },
+                },
+                orderBy: { changedAt: "asc" },
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -535,22 +632,51 @@ class JobApplicationPoolImpl implements JobApplicationPool {
     }
 
     async bulkUpdateJobApplicationStatus(
-        ids: string[],
-        status: ApplicationStatus,
+        current: JobApplicationStatusRef[],
+        change: JobApplicationStatusChangeCreate,
     ): Promise<number> {
         try {
-            const result = await this.prisma.jobApplication.updateMany({
-                where: {
-                    id: {
-                        in: ids,
-                    },
-                },
-                data: {
-                    status,
-                },
-            })
+            return await this.prisma.$transaction(async (tx) => {
+                // One conditional update per expected status, the transaction
+                // is rolled back if any application has moved on meanwhile
+                let updated = 0
+                const statuses = new Set(current.map((a) => a.status))
+                for (const status of statuses) {
+                    const result = await tx.jobApplication.updateMany({
+                        where: {
+                            id: {
+                                in: current
+                                    .filter((a) => a.status === status)
+                                    .map((a) => a.id),
+                            },
+                            status,
+                        },
+                        data: {
+                            status: change.toStatus,
+                        },
+                    })
+                    updated += result.count
+                }
+                if (updated !== current.length) {
+                    throw new ServiceError(
+                        ServiceErrorType.Conflict,
+                        "One or more job application statuses were changed by someone else",
+                    )
+                }
 
-            return result.count
+                await tx.jobApplicationStatusChange.createMany({
+                    data: current.map((application) => ({
+                        applicationId: application.id,
+                        fromStatus: application.status,
+                        toStatus: change.toStatus,
+                        reason: change.reason,
+                        changedById: change.changedById,
+                        changedByApiKeyId: change.changedByApiKeyId,
+                    })),
+                })
+
+                return updated
+            })
         } catch (err) {
             handleDBError(err, this.logger)
         }
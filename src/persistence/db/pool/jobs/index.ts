@@ -1,6 +1,8 @@
-import { PrismaClient } from "@prisma/client"
+import { JobStatus, PrismaClient } from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
 import { Logger } from "types/logging"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { TrueFitEvent, TrueFitEventTypes } from "services/events"
 import {
     Job,
     JobWithBranch,
@@ -41,7 +43,7 @@ export interface JobPool {
     getJobsByCompanyId(companyId: string): Promise<JobWithBranch[]>
 
     /**
-     * Create a job
+     * Create a job and announce it
      * @param {JobCreate} job - The job to create
      * @returns {Promise<Job>} - The created job
      */
@@ -68,7 +70,8 @@ export interface JobPool {
     ): Promise<JobWithBranch[]>
 
     /**
-     * Update a job
+     * Update a job and announce the changes, and the job's closing when an
+     * open job is closed or moved back to draft
      * @param {string} id - The ID of the job to update
      * @param {JobUpdate} job - The job data to update
      * @returns {Promise<Job>} - The updated job
@@ -222,8 +225,23 @@ class JobPoolImpl implements JobPool {
 
     async createJob(job: JobCreate): Promise<Job> {
         try {
-            return this.prisma.job.create({
-                data: job,
+            return await this.prisma.$transaction(async (tx) => {
+                const created = await tx.job.create({
+                    data: job,
+                })
+
+                await writeOutboxEvents(tx, [
+                    {
+                        type: TrueFitEventTypes.JOB_CREATED,
+                        payload: {
+                            jobId: created.id,
+                            title: created.title,
+                            branchId: created.branchId,
+                        },
+                    },
+                ])
+
+                return created
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -262,6 +280,10 @@ class JobPoolImpl implements JobPool {
                 }
             }
 
+            if (filters.branchIds) {
+                where.AND = [{ branchId: { in: filters.branchIds } }]
+            }
+
             if (filters.search) {
                 where.OR = [
                     {
@@ -310,9 +332,45 @@ class JobPoolImpl implements JobPool {
 
     async updateJob(id: string, job: JobUpdate): Promise<Job> {
         try {
-            return this.prisma.job.update({
-                where: { id },
-                data: job,
+            return await this.prisma.$transaction(async (tx) => {
+                // Read the status before the update to tell whether the job
+                // is being closed
+                const existing = await tx.job.findUnique({
+                    where: { id },
+                    select: { status: true },
+                })
+
+                const updated = await tx.job.update({
+                    where: { id },
+                    data: job,
+                })
+
+                const events: TrueFitEvent[] = [
+                    {
+                        type: TrueFitEventTypes.JOB_UPDATED,
+                        payload: {
+                            jobId: id,
+                            branchId: updated.branchId,
+                            changes: job,
+                        },
+                    },
+                ]
+                if (
+                    existing?.status === JobStatus.OPEN &&
+                    updated.status !== JobStatus.OPEN
+                ) {
+                    events.push({
+                        type: TrueFitEventTypes.JOB_DEACTIVATED,
+                        payload: {
+                            jobId: id,
+                            branchId: updated.branchId,
+                            status: updated.status,
+                        },
+                    })
+                }
+                await writeOutboxEvents(tx, events)
+
+                return updated
             })
         } catch (err) {
             handleDBError(err, this.logger)
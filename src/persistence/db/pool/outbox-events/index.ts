@@ -0,0 +1,248 @@
+import { OutboxEventStatus, Prisma, PrismaClient } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { Logger } from "types/logging"
+import { OutboxEvent } from "types/outbox"
+import { TrueFitEvent } from "services/events"
+
+export interface OutboxEventPool {
+    /**
+     * Store events for delivery
+     * @param {TrueFitEvent[]} events - The events to store
+     * @returns {Promise<void>}
+     */
+    enqueueEvents(events: TrueFitEvent[]): Promise<void>
+
+    /**
+     * Reserve events that are due for delivery. Events are due when they are
+     * pending and their retry delay has passed, or when the dispatcher that
+     * claimed them did not finish within its lease.
+     * @param {number} limit - Maximum number of events to claim
+     * @param {number} leaseMs - How long the events are reserved for
+     * @returns {Promise<OutboxEvent[]>} - The claimed events, oldest first
+     */
+    claimDueEvents(limit: number, leaseMs: number): Promise<OutboxEvent[]>
+
+    /**
+     * Mark a claimed event as delivered, unless its lease ran out and another
+     * dispatcher claimed it since
+     * @param {OutboxEvent} event - The event as it was claimed
+     * @returns {Promise<boolean>} - Whether the claim was still held
+     */
+    markDelivered(event: OutboxEvent): Promise<boolean>
+
+    /**
+     * Record a failed delivery of a claimed event, unless its lease ran out
+     * and another dispatcher claimed it since
+     * @param {OutboxEvent} event - The event as it was claimed
+     * @param {string} error - Why the delivery failed
+     * @param {Date | null} retryAt - When to try again, or null to dead-letter the event
+     * @param {string[]} deliveredTo - Listeners that handled the event in this attempt
+     * @returns {Promise<boolean>} - Whether the claim was still held
+     */
+    markFailed(
+        event: OutboxEvent,
+        error: string,
+        retryAt: Date | null,
+        deliveredTo: string[],
+    ): Promise<boolean>
+
+    /**
+     * Get an event by ID
+     * @param {string} id - The ID of the event
+     * @returns {Promise<OutboxEvent | null>} - The event
+     */
+    getEventById(id: string): Promise<OutboxEvent | null>
+
+    /**
+     * Get events that ran out of delivery attempts, most recent first
+     * @param {number} limit - Maximum number of events to return
+     * @param {number} offset - Number of events to skip
+     * @returns {Promise<OutboxEvent[]>} - The dead-lettered events
+     */
+    getDeadLetters(limit?: number, offset?: number): Promise<OutboxEvent[]>
+
+    /**
+     * Queue a dead-lettered event for delivery again with fresh attempts.
+     * Listeners that already handled the event are not called again.
+     * @param {string} id - The ID of the event
+     * @returns {Promise<OutboxEvent>} - The requeued event
+     */
+    requeueEvent(id: string): Promise<OutboxEvent>
+}
+
+/**
+ * Store events as part of a transaction, so that they are only delivered
+ * if the change they describe is committed
+ */
+export async function writeOutboxEvents(
+    tx: Prisma.TransactionClient,
+    events: TrueFitEvent[],
+): Promise<void> {
+    if (events.length > 0) {
+        await tx.outboxEvent.createMany({
+            data: events.map(({ type, payload }) => ({
+                type,
+                payload: payload as Prisma.InputJsonObject,
+            })),
+        })
+    }
+}
+
+// Matches an event only while the claim that returned it still holds: a
+// reclaim after the lease ran out bumps its attempts and lease expiry
+function claimedBy(event: OutboxEvent): Prisma.OutboxEventWhereInput {
+    return {
+        id: event.id,
+        status: OutboxEventStatus.PROCESSING,
+        attempts: event.attempts,
+        availableAt: event.availableAt,
+    }
+}
+
+class OutboxEventPoolImpl implements OutboxEventPool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async enqueueEvents(events: TrueFitEvent[]): Promise<void> {
+        try {
+            await writeOutboxEvents(this.prisma, events)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async claimDueEvents(
+        limit: number,
+        leaseMs: number,
+    ): Promise<OutboxEvent[]> {
+        try {
+            const now = new Date()
+            const due = await this.prisma.outboxEvent.findMany({
+                where: {
+                    status: {
+                        in: [
+                            OutboxEventStatus.PENDING,
+                            OutboxEventStatus.PROCESSING,
+                        ],
+                    },
+                    availableAt: { lte: now },
+                },
+                orderBy: { createdAt: "asc" },
+                take: limit,
+            })
+
+            // Claim each event only if no other dispatcher changed it since
+            // it was read
+            const claimed: OutboxEvent[] = []
+            for (const event of due) {
+                const update = {
+                    status: OutboxEventStatus.PROCESSING,
+                    attempts: event.attempts + 1,
+                    availableAt: new Date(now.getTime() + leaseMs),
+                }
+                const { count } = await this.prisma.outboxEvent.updateMany({
+                    where: {
+                        id: event.id,
+                        status: event.status,
+                        attempts: event.attempts,
+                    },
+                    data: update,
+                })
+                if (count === 1) {
+                    claimed.push({ ...event, ...update })
+                }
+            }
+
+            return claimed
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async markDelivered(event: OutboxEvent): Promise<boolean> {
+        try {
+            const { count } = await this.prisma.outboxEvent.updateMany({
+                where: claimedBy(event),
+                data: {
+                    status: OutboxEventStatus.DELIVERED,
+                    deliveredAt: new Date(),
+                    lastError: null,
+                },
+            })
+            return count === 1
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async markFailed(
+        event: OutboxEvent,
+        error: string,
+        retryAt: Date | null,
+        deliveredTo: string[],
+    ): Promise<boolean> {
+        try {
+            const { count } = await this.prisma.outboxEvent.updateMany({
+                where: claimedBy(event),
+                data: {
+                    ...(retryAt
+                        ? {
+                              status: OutboxEventStatus.PENDING,
+                              availableAt: retryAt,
+                          }
+                        : { status: OutboxEventStatus.DEAD }),
+                    lastError: error,
+                    deliveredTo: { push: deliveredTo },
+                },
+            })
+            return count === 1
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getEventById(id: string): Promise<OutboxEvent | null> {
+        try {
+            return this.prisma.outboxEvent.findUnique({ where: { id } })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getDeadLetters(limit = 50, offset = 0): Promise<OutboxEvent[]> {
+        try {
+            return this.prisma.outboxEvent.findMany({
+                where: { status: OutboxEventStatus.DEAD },
+                orderBy: { createdAt: "desc" },
+                take: limit,
+                skip: offset,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async requeueEvent(id: string): Promise<OutboxEvent> {
+        try {
+            return this.prisma.outboxEvent.update({
+                where: { id },
+                data: {
+                    status: OutboxEventStatus.PENDING,
+                    attempts: 0,
+                    availableAt: new Date(),
+                },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getOutboxEventPool(
+    prisma: PrismaClient,
+    logger: Logger,
+): OutboxEventPool {
+    return new OutboxEventPoolImpl(prisma, logger)
+}
@@ -0,0 +1,281 @@
+import { PrismaClient } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { Logger } from "types/logging"
+import {
+    DueRankingBatchItem,
+    RankingBatchCreate,
+    RankingBatchItem,
+    RankingBatchItemStatus,
+    RankingBatchStatus,
+    RankingBatchWithItems,
+} from "types/ranking-batch"
+
+export interface RankingBatchPool {
+    /**
+     * Queue a batch with an item per job
+     * @param {RankingBatchCreate} batch - The batch to queue
+     * @returns {Promise<RankingBatchWithItems>} - The queued batch
+     */
+    createBatch(batch: RankingBatchCreate): Promise<RankingBatchWithItems>
+
+    /**
+     * Get a batch with its items
+     * @param {string} id - The ID of the batch
+     * @returns {Promise<RankingBatchWithItems | null>} - The batch
+     */
+    getBatchById(id: string): Promise<RankingBatchWithItems | null>
+
+    /**
+     * Reserve the next items to recalculate, high priority batches first.
+     * Items are due when they are pending, or when the worker that claimed
+     * them did not finish within its lease.
+     * @param {number} limit - Maximum number of items to claim
+     * @param {number} leaseMs - How long the items are reserved for
+     * @returns {Promise<DueRankingBatchItem[]>} - The claimed items
+     */
+    claimNextItems(
+        limit: number,
+        leaseMs: number,
+    ): Promise<DueRankingBatchItem[]>
+
+    /**
+     * Record a claimed item as recalculated, completing its batch when it
+     * was the last one
+     * @param {RankingBatchItem} item - The item
+     * @param {number} totalCandidates - Candidates in the new ranking
+     * @param {number} calculationDuration - How long the calculation took, in milliseconds
+     * @returns {Promise<void>}
+     */
+    markItemSucceeded(
+        item: RankingBatchItem,
+        totalCandidates: number,
+        calculationDuration: number,
+    ): Promise<void>
+
+    /**
+     * Record a claimed item as failed, completing its batch when it was the
+     * last one
+     * @param {RankingBatchItem} item - The item
+     * @param {string} error - Why the recalculation failed
+     * @returns {Promise<void>}
+     */
+    markItemFailed(item: RankingBatchItem, error: string): Promise<void>
+
+    /**
+     * Cancel a batch. Its pending items are cancelled, items that are being
+     * recalculated still finish.
+     * @param {string} id - The ID of the batch
+     * @returns {Promise<RankingBatchWithItems>} - The cancelled batch
+     */
+    cancelBatch(id: string): Promise<RankingBatchWithItems>
+}
+
+class RankingBatchPoolImpl implements RankingBatchPool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async createBatch(
+        batch: RankingBatchCreate,
+    ): Promise<RankingBatchWithItems> {
+        try {
+            return await this.prisma.rankingBatch.create({
+                data: {
+                    triggerEvent: batch.triggerEvent,
+                    priority: batch.priority,
+                    totalJobs: batch.jobIds.length,
+                    items: {
+                        create: batch.jobIds.map((jobId) => ({
+                            jobId,
+                            priority: batch.priority,
+                        })),
+                    },
+                },
+                include: { items: true },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getBatchById(id: string): Promise<RankingBatchWithItems | null> {
+        try {
+            return await this.prisma.rankingBatch.findUnique({
+                where: { id },
+                include: { items: { orderBy: { createdAt: "asc" } } },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async claimNextItems(
+        limit: number,
+        leaseMs: number,
+    ): Promise<DueRankingBatchItem[]> {
+        try {
+            const now = new Date()
+            const due = await this.prisma.rankingBatchItem.findMany({
+                where: {
+                    OR: [
+                        { status: RankingBatchItemStatus.PENDING },
+                        {
+                            status: RankingBatchItemStatus.RUNNING,
+                            leaseExpiresAt: { lte: now },
+                        },
+                    ],
+                },
+                include: { batch: { select: { triggerEvent: true } } },
+                orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+                take: limit,
+            })
+
+            // Claim each item only if no other worker changed it since it
+            // was read
+            const claimed: DueRankingBatchItem[] = []
+            for (const item of due) {
+                const update = {
+                    status: RankingBatchItemStatus.RUNNING,
+                    startedAt: now,
+                    leaseExpiresAt: new Date(now.getTime() + leaseMs),
+                }
+                const { count } = await this.prisma.rankingBatchItem.updateMany(
+                    {
+                        where: {
+                            id: item.id,
+                            status: item.status,
+                            leaseExpiresAt: item.leaseExpiresAt,
+                        },
+                        data: update,
+                    },
+                )
+                if (count === 1) {
+                    await this.prisma.rankingBatch.updateMany({
+                        where: {
+                            id: item.batchId,
+                            status: RankingBatchStatus.QUEUED,
+                        },
+                        data: {
+                            status: RankingBatchStatus.RUNNING,
+                            startedAt: now,
+                        },
+                    })
+                    claimed.push({ ...item, ...update })
+                }
+            }
+
+            return claimed
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async markItemSucceeded(
+        item: RankingBatchItem,
+        totalCandidates: number,
+        calculationDuration: number,
+    ): Promise<void> {
+        await this.finishItem(item, {
+            status: RankingBatchItemStatus.SUCCEEDED,
+            totalCandidates,
+            calculationDuration,
+        })
+    }
+
+    async markItemFailed(item: RankingBatchItem, error: string): Promise<void> {
+        await this.finishItem(item, {
+            status: RankingBatchItemStatus.FAILED,
+            errorMessage: error,
+        })
+    }
+
+    async cancelBatch(id: string): Promise<RankingBatchWithItems> {
+        try {
+            const now = new Date()
+            await this.prisma.$transaction([
+                this.prisma.rankingBatchItem.updateMany({
+                    where: {
+                        batchId: id,
+                        status: RankingBatchItemStatus.PENDING,
+                    },
+                    data: {
+                        status: RankingBatchItemStatus.CANCELLED,
+                        finishedAt: now,
+                    },
+                }),
+                this.prisma.rankingBatch.update({
+                    where: { id },
+                    data: {
+                        status: RankingBatchStatus.CANCELLED,
+                        finishedAt: now,
+                    },
+                }),
+            ])
+
+            return await this.prisma.rankingBatch.findUniqueOrThrow({
+                where: { id },
+                include: { items: { orderBy: { createdAt: "asc" } } },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    private async finishItem(
+        item: RankingBatchItem,
+        outcome: {
+            status: RankingBatchItemStatus
+            errorMessage?: string
+            totalCandidates?: number
+            calculationDuration?: number
+        },
+    ): Promise<void> {
+        try {
+            const now = new Date()
+            await this.prisma.rankingBatchItem.update({
+                where: { id: item.id },
+                data: { ...outcome, finishedAt: now, leaseExpiresAt: null },
+            })
+
+            // The batch is complete once none of its items are left
+            const remaining = await this.prisma.rankingBatchItem.count({
+                where: {
+                    batchId: item.batchId,
+                    status: {
+                        in: [
+                            RankingBatchItemStatus.PENDING,
+                            RankingBatchItemStatus.RUNNING,
+                        ],
+                    },
+                },
+            })
+            if (remaining === 0) {
+                await this.prisma.rankingBatch.updateMany({
+                    where: {
+                        id: item.batchId,
+                        status: {
+                            in: [
+                                RankingBatchStatus.QUEUED,
+                                RankingBatchStatus.RUNNING,
+                            ],
+                        },
+                    },
+                    data: {
+                        status: RankingBatchStatus.COMPLETED,
+                        finishedAt: now,
+                    },
+                })
+            }
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getRankingBatchPool(
+    prisma: PrismaClient,
+    logger: Logger,
+): RankingBatchPool {
+    return new RankingBatchPoolImpl(prisma, logger)
+}
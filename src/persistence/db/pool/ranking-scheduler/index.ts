@@ -0,0 +1,103 @@
+import { PrismaClient } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { Logger } from "types/logging"
+import {
+    RankingSchedulerRun,
+    RankingSchedulerRunCreate,
+} from "types/ranking-scheduler"
+
+/**
+ * Name of the advisory lock held by the running scheduler
+ */
+const SCHEDULER_LOCK_NAME = "ranking-scheduler"
+
+export interface RankingSchedulerPool {
+    /**
+     * Run a task while holding the scheduler lock, so that only one
+     * instance runs the scheduler at a time. The lock is released when the
+     * task settles or the timeout passes, so the task is given the deadline
+     * by which it has to stop.
+     * @param {(deadline: Date) => Promise<T>} task - The task to run
+     * @param {number} timeoutMs - How long the lock may be held
+     * @returns {Promise<T | null>} - The result of the task, or null if another instance holds the lock
+     */
+    withSchedulerLock<T>(
+        task: (deadline: Date) => Promise<T>,
+        timeoutMs: number,
+    ): Promise<T | null>
+
+    /**
+     * Record a finished scheduler run
+     * @param {RankingSchedulerRunCreate} run - The run
+     * @returns {Promise<RankingSchedulerRun>} - The recorded run
+     */
+    recordRun(run: RankingSchedulerRunCreate): Promise<RankingSchedulerRun>
+
+    /**
+     * Get the latest scheduler runs, most recent first
+     * @param {number} limit - Maximum number of runs to return
+     * @returns {Promise<RankingSchedulerRun[]>} - The runs
+     */
+    getRecentRuns(limit?: number): Promise<RankingSchedulerRun[]>
+}
+
+class RankingSchedulerPoolImpl implements RankingSchedulerPool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async withSchedulerLock<T>(
+        task: (deadline: Date) => Promise<T>,
+        timeoutMs: number,
+    ): Promise<T | null> {
+        try {
+            // The lock belongs to the transaction, so it is released even
+            // if the connection is returned to the pool. The transaction
+            // times out no earlier than this.
+            const deadline = new Date(Date.now() + timeoutMs)
+            return await this.prisma.$transaction(
+                async (tx) => {
+                    const [lock] = await tx.$queryRaw<{ locked: boolean }[]>`
+                        SELECT pg_try_advisory_xact_lock(hashtext(${SCHEDULER_LOCK_NAME})) AS locked
+                    `
+                    if (!lock?.locked) {
+                        return null
+                    }
+                    return task(deadline)
+                },
+                { timeout: timeoutMs },
+            )
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async recordRun(
+        run: RankingSchedulerRunCreate,
+    ): Promise<RankingSchedulerRun> {
+        try {
+            return await this.prisma.rankingSchedulerRun.create({ data: run })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getRecentRuns(limit = 20): Promise<RankingSchedulerRun[]> {
+        try {
+            return await this.prisma.rankingSchedulerRun.findMany({
+                orderBy: { startedAt: "desc" },
+                take: limit,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getRankingSchedulerPool(
+    prisma: PrismaClient,
+    logger: Logger,
+): RankingSchedulerPool {
+    return new RankingSchedulerPoolImpl(prisma, logger)
+}
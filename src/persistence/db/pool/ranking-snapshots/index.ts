@@ -0,0 +1,77 @@
+import { PrismaClient } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { Logger } from "types/logging"
+import {
+    RankingSnapshot,
+    RankingSnapshotWithEntries,
+} from "types/ranking-snapshot"
+
+export interface RankingSnapshotPool {
+    /**
+     * Get the snapshots of a job, latest first
+     * @param {string} jobId - The ID of the job
+     * @param {number} limit - Maximum number of snapshots to return
+     * @param {number} offset - Number of snapshots to skip
+     * @returns {Promise<RankingSnapshot[]>} - The snapshots, without their entries
+     */
+    getSnapshots(
+        jobId: string,
+        limit?: number,
+        offset?: number,
+    ): Promise<RankingSnapshot[]>
+
+    /**
+     * Get a snapshot with its entries in rank order
+     * @param {string} id - The ID of the snapshot
+     * @returns {Promise<RankingSnapshotWithEntries | null>} - The snapshot
+     */
+    getSnapshotById(id: string): Promise<RankingSnapshotWithEntries | null>
+}
+
+class RankingSnapshotPoolImpl implements RankingSnapshotPool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async getSnapshots(
+        jobId: string,
+        limit = 20,
+        offset = 0,
+    ): Promise<RankingSnapshot[]> {
+        try {
+            return await this.prisma.rankingSnapshot.findMany({
+                where: { jobId },
+                orderBy: { createdAt: "desc" },
+                take: limit,
+                skip: offset,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getSnapshotById(
+        id: string,
+    ): Promise<RankingSnapshotWithEntries | null> {
+        try {
+            return await this.prisma.rankingSnapshot.findUnique({
+                where: { id },
+                include: {
+                    entries: {
+                        orderBy: [{ rank: "asc" }, { applicantId: "asc" }],
+                    },
+                },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getRankingSnapshotPool(
+    prisma: PrismaClient,
+    logger: Logger,
+): RankingSnapshotPool {
+    return new RankingSnapshotPoolImpl(prisma, logger)
+}
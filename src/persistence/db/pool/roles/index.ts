@@ -0,0 +1,245 @@
+import { Prisma, PrismaClient } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { Logger } from "types/logging"
+import {
+    CompanyRole,
+    CompanyRoleCreate,
+    CompanyRoleUpdate,
+    CompanyRoleWithAssignments,
+    RoleAssignment,
+    RoleAssignmentCreate,
+} from "types/role"
+import { isPermission } from "auth/permissions"
+
+const ASSIGNMENT_SELECT = Prisma.validator<Prisma.UserRoleAssignmentSelect>()(
+    {
+        id: true,
+        roleId: true,
+        userId: true,
+        branchId: true,
+        createdAt: true,
+    },
+)
+
+// Permissions dropped from the catalogue are no longer granted
+const toRole = <T extends { permissions: string[] }>(role: T) => ({
+    ...role,
+    permissions: role.permissions.filter(isPermission),
+})
+
+export interface RolePool {
+    /**
+     * Get company roles with their assignments, optionally of one company
+     * @param {string} companyId - The ID of the company
+     * @returns {Promise<CompanyRoleWithAssignments[]>} - The roles
+     */
+    getRoles(companyId?: string): Promise<CompanyRoleWithAssignments[]>
+
+    /**
+     * Get a company role with its assignments by ID
+     * @param {string} id - The ID of the role
+     * @returns {Promise<CompanyRoleWithAssignments | null>} - The role
+     */
+    getRoleById(id: string): Promise<CompanyRoleWithAssignments | null>
+
+    /**
+     * Get a company role by name
+     * @param {string} companyId - The ID of the company
+     * @param {string} name - The name of the role
+     * @returns {Promise<CompanyRole | null>} - The role
+     */
+    getRoleByName(companyId: string, name: string): Promise<CompanyRole | null>
+
+    /**
+     * Create a company role
+     * @param {CompanyRoleCreate} role - The role to create
+     * @returns {Promise<CompanyRoleWithAssignments>} - The created role
+     */
+    createRole(role: CompanyRoleCreate): Promise<CompanyRoleWithAssignments>
+
+    /**
+     * Update a company role
+     * @param {string} id - The ID of the role
+     * @param {CompanyRoleUpdate} role - The fields to update
+     * @returns {Promise<CompanyRoleWithAssignments>} - The updated role
+     */
+    updateRole(
+        id: string,
+        role: CompanyRoleUpdate,
+    ): Promise<CompanyRoleWithAssignments>
+
+    /**
+     * Delete a company role and its assignments
+     * @param {string} id - The ID of the role
+     * @returns {Promise<void>}
+     */
+    deleteRole(id: string): Promise<void>
+
+    /**
+     * Get a role assignment by ID
+     * @param {string} id - The ID of the assignment
+     * @returns {Promise<RoleAssignment | null>} - The assignment
+     */
+    getAssignmentById(id: string): Promise<RoleAssignment | null>
+
+    /**
+     * Assign a role to a user
+     * @param {string} roleId - The ID of the role
+     * @param {RoleAssignmentCreate} assignment - The user, and branch the role is limited to
+     * @returns {Promise<RoleAssignment>} - The created assignment
+     */
+    createAssignment(
+        roleId: string,
+        assignment: RoleAssignmentCreate,
+    ): Promise<RoleAssignment>
+
+    /**
+     * Remove a role assignment
+     * @param {string} id - The ID of the assignment
+     * @returns {Promise<void>}
+     */
+    deleteAssignment(id: string): Promise<void>
+}
+
+class RolePoolImpl implements RolePool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async getRoles(companyId?: string): Promise<CompanyRoleWithAssignments[]> {
+        try {
+            const roles = await this.prisma.companyRole.findMany({
+                where: companyId ? { companyId } : {},
+                include: {
+                    assignments: {
+                        select: ASSIGNMENT_SELECT,
+                        orderBy: { createdAt: "asc" },
+                    },
+                },
+                orderBy: { name: "asc" },
+            })
+            return roles.map(toRole)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getRoleById(id: string): Promise<CompanyRoleWithAssignments | null> {
+        try {
+            const role = await this.prisma.companyRole.findUnique({
+                where: { id },
+                include: {
+                    assignments: {
+                        select: ASSIGNMENT_SELECT,
+                        orderBy: { createdAt: "asc" },
+                    },
+                },
+            })
+            return role && toRole(role)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getRoleByName(
+        companyId: string,
+        name: string,
+    ): Promise<CompanyRole | null> {
+        try {
+            const role = await this.prisma.companyRole.findFirst({
+                where: { companyId, name },
+            })
+            return role && toRole(role)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async createRole(
+        role: CompanyRoleCreate,
+    ): Promise<CompanyRoleWithAssignments> {
+        try {
+            const created = await this.prisma.companyRole.create({
+                data: role,
+                include: { assignments: { select: ASSIGNMENT_SELECT } },
+            })
+            return toRole(created)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async updateRole(
+        id: string,
+        role: CompanyRoleUpdate,
+    ): Promise<CompanyRoleWithAssignments> {
+        try {
+            const updated = await this.prisma.companyRole.update({
+                where: { id },
+                data: role,
+                include: {
+                    assignments: {
+                        select: ASSIGNMENT_SELECT,
+                        orderBy: { createdAt: "asc" },
+                    },
+                },
+            })
+            return toRole(updated)
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async deleteRole(id: string): Promise<void> {
+        try {
+            await this.prisma.companyRole.delete({ where: { id } })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getAssignmentById(id: string): Promise<RoleAssignment | null> {
+        try {
+            return this.prisma.userRoleAssignment.findUnique({
+                where: { id },
+                select: ASSIGNMENT_SELECT,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async createAssignment(
+        roleId: string,
+        assignment: RoleAssignmentCreate,
+    ): Promise<RoleAssignment> {
+        try {
+            return this.prisma.userRoleAssignment.create({
+                data: {
+                    roleId,
+                    userId: assignment.userId,
+                    branchId: assignment.branchId ?? null,
+                },
+                select: ASSIGNMENT_SELECT,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async deleteAssignment(id: string): Promise<void> {
+        try {
+            await this.prisma.userRoleAssignment.delete({ where: { id } })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getRolePool(
+    prisma: PrismaClient,
+    logger: Logger,
+): RolePool {
+    return new RolePoolImpl(prisma, logger)
+}
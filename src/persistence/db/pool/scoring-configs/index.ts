@@ -1,5 +1,6 @@
-import { PrismaClient } from "@prisma/client"
+import { Prisma, PrismaClient } from "@prisma/client"
 import { handleDBError } from "helpers/serviceError"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
 import { Logger } from "types/logging"
 import {
     ScoringConfigCreate,
@@ -7,6 +8,28 @@ import {
     ScoringConfigWithDetails,
     ScoringPreview,
 } from "types/scoring"
+import { ScorableAnswer, ScoringRules, scoreAssessment } from "helpers/scoring"
+import { findLatestScoredAssessments } from "persistence/db/pool/candidate-rankings"
+import { writeOutboxEvents } from "persistence/db/pool/outbox-events"
+import { TrueFitEventPayloads, TrueFitEventTypes } from "services/events"
+
+// Configs are returned with the job they apply to and its company
+const CONFIG_DETAILS = Prisma.validator<Prisma.ScoringConfigInclude>()({
+    job: {
+        include: {
+            branch: {
+                include: {
+                    company: {
+                        select: {
+                            id: true,
+                            name: true,
+                        },
+                    },
+                },
+            },
+        },
+    },
+})
 
 export interface ScoringConfigPool {
     /**
@@ -28,7 +51,7 @@ export interface ScoringConfigPool {
     ): Promise<ScoringConfigWithDetails[]>
 
     /**
-     * Create a scoring config
+     * Create a scoring config and announce the change
      * @param {ScoringConfigCreate} config - The config to create
      * @returns {Promise<ScoringConfigWithDetails>} - The created config
      */
@@ -37,7 +60,7 @@ export interface ScoringConfigPool {
     ): Promise<ScoringConfigWithDetails>
 
     /**
-     * Update a scoring config
+     * Update a scoring config and announce the change
      * @param {string} id - The ID of the config to update
      * @param {ScoringConfigUpdate} config - The config data to update
      * @returns {Promise<ScoringConfigWithDetails>} - The updated config
@@ -48,14 +71,14 @@ export interface ScoringConfigPool {
     ): Promise<ScoringConfigWithDetails>
 
     /**
-     * Delete a scoring config
+     * Delete a scoring config and announce the change
      * @param {string} id - The ID of the config to delete
      * @returns {Promise<void>}
      */
     deleteScoringConfig(id: string): Promise<void>
 
     /**
-     * Apply scoring config to a job
+     * Apply scoring config to a job and announce the change
      * @param {string} configId - The ID of the config to apply
      * @param {string} jobId - The ID of the job to apply to
      * @returns {Promise<ScoringConfigWithDetails>} - The applied config
@@ -147,32 +170,28 @@ class ScoringConfigPoolImpl implements ScoringConfigPool {
         config: ScoringConfigCreate,
     ): Promise<ScoringConfigWithDetails> {
         try {
-            // If setting as default, unset any existing default
-            if (config.isDefault) {
-                await this.prisma.scoringConfig.updateMany({
-                    where: { isDefault: true },
-                    data: { isDefault: false },
+            return await this.prisma.$transaction(async (tx) => {
+                // If setting as default, unset any existing default
+                if (config.isDefault) {
+                    await tx.scoringConfig.updateMany({
+                        where: { isDefault: true },
+                        data: { isDefault: false },
+                    })
+                }
+
+                const created = await tx.scoringConfig.create({
+                    data: config,
+                    include: CONFIG_DETAILS,
                 })
-            }
 
-            return this.prisma.scoringConfig.create({
-                data: config,
-                include: {
-                    job: {
-                        include: {
-                            branch: {
-                                include: {
-                                    company: {
-                                        select: {
-                                            id: true,
-                                            name: true,
-                                        },
-                                    },
-                                },
-                            },
-                        },
-                    },
-                },
+                await writeConfigChange(tx, {
+                    configId: created.id,
+                    isDefault: created.isDefault,
+                    jobId: created.jobId,
+                    action: "created",
+                })
+
+                return created
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -184,33 +203,30 @@ class ScoringConfigPoolImpl implements ScoringConfigPool {
         config: ScoringConfigUpdate,
     ): Promise<ScoringConfigWithDetails> {
         try {
-            // If setting as default, unset any existing default
-            if (config.isDefault) {
-                await this.prisma.scoringConfig.updateMany({
-                    where: { isDefault: true },
-                    data: { isDefault: false },
+            return await this.prisma.$transaction(async (tx) => {
+                // If setting as default, unset any existing default
+                if (config.isDefault) {
+                    await tx.scoringConfig.updateMany({
+                        where: { isDefault: true },
+                        data: { isDefault: false },
+                    })
+                }
+
+                const updated = await tx.scoringConfig.update({
+                    where: { id },
+                    data: config,
+                    include: CONFIG_DETAILS,
                 })
-            }
 
-            return this.prisma.scoringConfig.update({
-                where: { id },
-                data: config,
-                include: {
-                    job: {
-                        include: {
-                            branch: {
-                                include: {
-                                    company: {
-                                        select: {
-                                            id: true,
-                                            name: true,
-                                        },
-                                    },
-                                },
-                            },
-                        },
-                    },
-                },
+                await writeConfigChange(tx, {
+                    configId: id,
+                    isDefault: updated.isDefault,
+                    jobId: updated.jobId,
+                    action: "updated",
+                    changes: config,
+                })
+
+                return updated
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -219,8 +235,18 @@ class ScoringConfigPoolImpl implements ScoringConfigPool {
 
     async deleteScoringConfig(id: string): Promise<void> {
         try {
-            await this.prisma.scoringConfig.delete({
-                where: { id },
+            await this.prisma.$transaction(async (tx) => {
+                const deleted = await tx.scoringConfig.delete({
+                    where: { id },
+                })
+
+                // Jobs using the deleted config fall back to the default one
+                await writeConfigChange(tx, {
+                    configId: id,
+                    isDefault: deleted.isDefault,
+                    jobId: deleted.jobId,
+                    action: "deleted",
+                })
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -232,32 +258,28 @@ class ScoringConfigPoolImpl implements ScoringConfigPool {
         jobId: string,
     ): Promise<ScoringConfigWithDetails> {
         try {
-            // First, remove any existing config from the job
-            await this.prisma.scoringConfig.update({
-                where: { jobId },
-                data: { jobId: null },
-            })
+            return await this.prisma.$transaction(async (tx) => {
+                // First, remove any existing config from the job
+                await tx.scoringConfig.updateMany({
+                    where: { jobId },
+                    data: { jobId: null },
+                })
 
-            // Then apply the new config
-            return this.prisma.scoringConfig.update({
-                where: { id: configId },
-                data: { jobId },
-                include: {
-                    job: {
-                        include: {
-                            branch: {
-                                include: {
-                                    company: {
-                                        select: {
-                                            id: true,
-                                            name: true,
-                                        },
-                                    },
-                                },
-                            },
-                        },
-                    },
-                },
+                // Then apply the new config
+                const applied = await tx.scoringConfig.update({
+                    where: { id: configId },
+                    data: { jobId },
+                    include: CONFIG_DETAILS,
+                })
+
+                await writeConfigChange(tx, {
+                    configId,
+                    isDefault: applied.isDefault,
+                    jobId,
+                    action: "applied",
+                })
+
+                return applied
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -269,90 +291,44 @@ class ScoringConfigPoolImpl implements ScoringConfigPool {
         jobId: string,
     ): Promise<ScoringPreview> {
         try {
-            // Get current config scores
-            const currentScores = await this.prisma.$queryRaw`
-                WITH RankedScores AS (
-                    SELECT 
-                        aa.id,
-                        aa."applicantId",
-                        COALESCE(SUM(CASE 
-                            WHEN aw."isCorrect" THEN aq.weight 
-                            ELSE -aq.weight * sc."negativeMarkingFraction"
-                        END), 0) as score,
-                        ROW_NUMBER() OVER (ORDER BY SUM(CASE 
-                            WHEN aw."isCorrect" THEN aq.weight 
-                            ELSE -aq.weight * sc."negativeMarkingFraction"
-                        END) DESC) as rank,
-                        COUNT(*) OVER () as total
-                    FROM "applicant_assessments" aa
-                    JOIN "assessment_templates" at ON aa."templateId" = at.id
-                    JOIN "applicant_answers" aw ON aa.id = aw."assessmentId"
-                    JOIN "assessment_questions" aq ON aw."questionId" = aq.id
-                    LEFT JOIN "scoring_configs" sc ON sc."jobId" = at."jobId"
-                    WHERE at."jobId" = ${jobId}
-                    GROUP BY aa.id, aa."applicantId"
-                )
-                SELECT 
-                    AVG(score) as score,
-                    AVG(rank) as rank,
-                    MAX(total) as total_candidates
-                FROM RankedScores
-            `
-
-            // Get new config scores
-            const newConfig = await this.prisma.scoringConfig.findUnique({
-                where: { id: configId },
-            })
-
-            const newScores = await this.prisma.$queryRaw`
-                WITH RankedScores AS (
-                    SELECT 
-                        aa.id,
-                        aa."applicantId",
-                        COALESCE(SUM(CASE 
-                            WHEN aw."isCorrect" THEN aq.weight 
-                            ELSE -aq.weight * ${
-                                newConfig!.negativeMarkingFraction
-                            }
-                        END), 0) as score,
-                        ROW_NUMBER() OVER (ORDER BY SUM(CASE 
-                            WHEN aw."isCorrect" THEN aq.weight 
-                            ELSE -aq.weight * ${
-                                newConfig!.negativeMarkingFraction
-                            }
-                        END) DESC) as rank,
-                        COUNT(*) OVER () as total
-                    FROM "applicant_assessments" aa
-                    JOIN "assessment_templates" at ON aa."templateId" = at.id
-                    JOIN "applicant_answers" aw ON aa.id = aw."assessmentId"
-                    JOIN "assessment_questions" aq ON aw."questionId" = aq.id
-                    WHERE at."jobId" = ${jobId}
-                    GROUP BY aa.id, aa."applicantId"
+            // Score the latest assessment of each applicant, as rankings do,
+            // under the config currently in effect (job-specific, else
+            // default) and under the proposed one
+            const [currentConfig, newConfig, assessments] = await Promise.all([
+                this.prisma.scoringConfig.findFirst({
+                    where: {
+                        OR: [{ jobId }, { isDefault: true }],
+                    },
+                    orderBy: { jobId: "asc" }, // Prefer job-specific config
+                }),
+                this.prisma.scoringConfig.findUnique({
+                    where: { id: configId },
+                }),
+                findLatestScoredAssessments(this.prisma, jobId),
+            ])
+            if (!newConfig) {
+                throw new ServiceError(
+                    ServiceErrorType.NotFound,
+                    "Scoring config not found",
                 )
-                SELECT 
-                    AVG(score) as score,
-                    AVG(rank) as rank,
-                    MAX(total) as total_candidates
-                FROM RankedScores
-            `
-
-            type ScoreResult = {
-                score: number
-                rank: number
-                total_candidates: number
             }
 
-            const [current, newScore] = [
-                (currentScores as unknown as ScoreResult[])[0],
-                (newScores as unknown as ScoreResult[])[0],
-            ]
+            const current = this.summariseScores(
+                assessments,
+                currentConfig ?? {
+                    negativeMarkingFraction: 0,
+                    recencyWindowDays: null,
+                    recencyBoostPercent: null,
+                },
+            )
+            const newScore = this.summariseScores(assessments, newConfig)
 
-            const currentScore = current?.score || 0
-            const currentRank = current?.rank || 0
-            const currentTotal = current?.total_candidates || 0
-            const newScoreValue = newScore?.score || 0
-            const newRank = newScore?.rank || 0
-            const newTotal = newScore?.total_candidates || 0
+            const currentScore = current.score
+            const currentRank = current.rank
+            const currentTotal = current.totalCandidates
+            const newScoreValue = newScore.score
+            const newRank = newScore.rank
+            const newTotal = newScore.totalCandidates
 
             return {
                 currentConfig: {
@@ -386,6 +362,47 @@ class ScoringConfigPoolImpl implements ScoringConfigPool {
             handleDBError(err, this.logger)
         }
     }
+
+    /**
+     * Average score and rank of a set of assessments under a scoring config.
+     * Assessments without answers are left out.
+     */
+    private summariseScores(
+        assessments: Array<{ submittedAt: Date; answers: ScorableAnswer[] }>,
+        rules: ScoringRules,
+    ): ScoringPreview["currentConfig"] {
+        const now = new Date()
+        const scores = assessments
+            .filter((assessment) => assessment.answers.length > 0)
+            .map(
+                (assessment) =>
+                    scoreAssessment(assessment.answers, assessment, rules, now)
+                        .score,
+            )
+
+        if (scores.length === 0) {
+            return { score: 0, rank: 0, totalCandidates: 0 }
+        }
+
+        const total = scores.length
+        return {
+            score: scores.reduce((sum, score) => sum + score, 0) / total,
+            rank: (total + 1) / 2,
+            totalCandidates: total,
+        }
+    }
+}
+
+/**
+ * Announce a scoring config change for ranking recalculation
+ */
+async function writeConfigChange(
+    tx: Prisma.TransactionClient,
+    payload: TrueFitEventPayloads[TrueFitEventTypes.SCORING_CONFIG_CHANGED],
+): Promise<void> {
+    await writeOutboxEvents(tx, [
+        { type: TrueFitEventTypes.SCORING_CONFIG_CHANGED, payload },
+    ])
 }
 
 export default function getScoringConfigPool(
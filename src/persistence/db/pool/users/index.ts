@@ -6,7 +6,9 @@ import {
     UserCreateResponse,
     UserUpdate,
     UserWithSessions,
+    UserWithAccess,
     UserSession,
+    UserSessionCreate,
 } from "types/user"
 import { Logger } from "types/logging"
 import { handleDBError } from "helpers/serviceError"
@@ -64,29 +66,48 @@ export interface UserPool {
 
     /**
      * Create a user session
-     * @param {string} userId - The user ID
-     * @param {string} sessionId - The session ID
-     * @param {Date} expiresAt - Session expiration
-     * @param {string} userAgent - User agent string
-     * @param {string} ipAddress - User IP address
+     * @param {UserSessionCreate} session - The session to create
      * @returns {Promise<UserSession>} - The created session
      */
-    createSession(
-        userId: string,
+    createSession(session: UserSessionCreate): Promise<UserSession>
+
+    /**
+     * Get a session by the hash of its refresh token, whether or not it is
+     * still active
+     * @param {string} refreshTokenHash - The hash of the refresh token
+     * @returns {Promise<UserSession & { user: User } | null>} - The session with its user
+     */
+    getSessionByRefreshToken(
+        refreshTokenHash: string,
+    ): Promise<(UserSession & { user: User }) | null>
+
+    /**
+     * Replace an active session with a new one of its family. Nothing is
+     * replaced when the session was already rotated or deactivated.
+     * @param {string} sessionId - The ID of the session to replace
+     * @param {UserSessionCreate} session - The session replacing it
+     * @returns {Promise<UserSession | null>} - The new session, null when nothing was replaced
+     */
+    rotateSession(
         sessionId: string,
-        expiresAt: Date,
-        userAgent?: string,
-        ipAddress?: string,
-    ): Promise<UserSession>
+        session: UserSessionCreate,
+    ): Promise<UserSession | null>
+
+    /**
+     * Get the active sessions of a user
+     * @param {string} userId - The user ID
+     * @returns {Promise<UserSession[]>} - The sessions, most recently renewed first
+     */
+    getActiveSessions(userId: string): Promise<UserSession[]>
 
     /**
      * Get session by token/ID
      * @param {string} sessionId - The session ID
-     * @returns {Promise<UserSession & { user: User } | null>} - The session with user
+     * @returns {Promise<UserSession & { user: UserWithAccess } | null>} - The session with user and their roles and branches
      */
     getSessionWithUser(
         sessionId: string,
-    ): Promise<(UserSession & { user: User }) | null>
+    ): Promise<(UserSession & { user: UserWithAccess }) | null>
 
     /**
      * Deactivate a session
@@ -95,6 +116,13 @@ export interface UserPool {
      */
     deactivateSession(sessionId: string): Promise<void>
 
+    /**
+     * Deactivate every session of a family
+     * @param {string} familyId - The ID of the session family
+     * @returns {Promise<void>}
+     */
+    deactivateSessionFamily(familyId: string): Promise<void>
+
     /**
      * Deactivate all sessions for a user
      * @param {string} userId - The user ID
@@ -223,22 +251,60 @@ class UserPoolImpl implements UserPool {
         }
     }
 
-    async createSession(
-        userId: string,
-        sessionId: string,
-        expiresAt: Date,
-        userAgent?: string,
-        ipAddress?: string,
-    ): Promise<UserSession> {
+    async createSession(session: UserSessionCreate): Promise<UserSession> {
         try {
             return this.prisma.userSession.create({
-                data: {
-                    token: sessionId,
+                data: session,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getSessionByRefreshToken(
+        refreshTokenHash: string,
+    ): Promise<(UserSession & { user: User }) | null> {
+        try {
+            return this.prisma.userSession.findUnique({
+                where: { refreshTokenHash },
+                include: { user: true },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async rotateSession(
+        sessionId: string,
+        session: UserSessionCreate,
+    ): Promise<UserSession | null> {
+        try {
+            return await this.prisma.$transaction(async (tx) => {
+                // Only one of concurrent refreshes with the same token wins
+                const { count } = await tx.userSession.updateMany({
+                    where: { id: sessionId, isActive: true, rotatedAt: null },
+                    data: { isActive: false, rotatedAt: new Date() },
+                })
+                if (count === 0) {
+                    return null
+                }
+
+                return tx.userSession.create({ data: session })
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getActiveSessions(userId: string): Promise<UserSession[]> {
+        try {
+            return this.prisma.userSession.findMany({
+                where: {
                     userId,
-                    expiresAt,
-                    userAgent,
-                    ipAddress,
+                    isActive: true,
+                    expiresAt: { gt: new Date() },
                 },
+                orderBy: { createdAt: "desc" },
             })
         } catch (err) {
             handleDBError(err, this.logger)
@@ -247,7 +313,7 @@ class UserPoolImpl implements UserPool {
 
     async getSessionWithUser(
         sessionId: string,
-    ): Promise<(UserSession & { user: User }) | null> {
+    ): Promise<(UserSession & { user: UserWithAccess }) | null> {
         try {
             return this.prisma.userSession.findFirst({
                 where: {
@@ -256,7 +322,27 @@ class UserPoolImpl implements UserPool {
                     expiresAt: { gt: new Date() },
                 },
                 include: {
-                    user: true,
+                    user: {
+                        include: {
+                            roleAssignments: {
+                                select: {
+                                    branchId: true,
+                                    role: {
+                                        select: {
+                                            companyId: true,
+                                            permissions: true,
+                                        },
+                                    },
+                                },
+                            },
+                            branchAssignments: {
+                                select: {
+                                    branchId: true,
+                                    branch: { select: { companyId: true } },
+                                },
+                            },
+                        },
+                    },
                 },
             })
         } catch (err) {
@@ -275,6 +361,17 @@ class UserPoolImpl implements UserPool {
         }
     }
 
+    async deactivateSessionFamily(familyId: string): Promise<void> {
+        try {
+            await this.prisma.userSession.updateMany({
+                where: { familyId },
+                data: { isActive: false },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
     async deactivateAllUserSessions(userId: string): Promise<void> {
         try {
             await this.prisma.userSession.updateMany({
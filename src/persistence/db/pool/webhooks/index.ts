@@ -0,0 +1,502 @@
+import { Prisma, PrismaClient, WebhookDeliveryStatus } from "@prisma/client"
+import { handleDBError } from "helpers/serviceError"
+import { Logger } from "types/logging"
+import {
+    CompanyEventPayload,
+    DueWebhookDelivery,
+    WebhookDelivery,
+    WebhookDeliveryCreate,
+    WebhookResponse,
+    WebhookSubscription,
+    WebhookSubscriptionCreate,
+    WebhookSubscriptionUpdate,
+    WebhookSubscriptionWithSecret,
+} from "types/webhook"
+import { TrueFitEvent } from "services/events"
+
+// Everything but the signing secret
+const SUBSCRIPTION_SELECT =
+    Prisma.validator<Prisma.WebhookSubscriptionSelect>()({
+        id: true,
+        companyId: true,
+        url: true,
+        eventTypes: true,
+        description: true,
+        isActive: true,
+        createdAt: true,
+        updatedAt: true,
+    })
+
+/**
+ * IDs in event payloads that tie an event to a company
+ */
+interface EventScope {
+    companyId?: string
+    branchId?: string
+    jobId?: string
+    jobIds?: string[]
+}
+
+export interface WebhookPool {
+    /**
+     * Get webhook subscriptions, optionally of one company
+     * @param {string} companyId - The ID of the company
+     * @returns {Promise<WebhookSubscription[]>} - The subscriptions
+     */
+    getSubscriptions(companyId?: string): Promise<WebhookSubscription[]>
+
+    /**
+     * Get a webhook subscription by ID
+     * @param {string} id - The ID of the subscription
+     * @returns {Promise<WebhookSubscription | null>} - The subscription
+     */
+    getSubscriptionById(id: string): Promise<WebhookSubscription | null>
+
+    /**
+     * Create a webhook subscription
+     * @param {WebhookSubscriptionCreate} subscription - The subscription, including its secret
+     * @returns {Promise<WebhookSubscriptionWithSecret>} - The created subscription
+     */
+    createSubscription(
+        subscription: WebhookSubscriptionCreate & { secret: string },
+    ): Promise<WebhookSubscriptionWithSecret>
+
+    /**
+     * Update a webhook subscription
+     * @param {string} id - The ID of the subscription
+     * @param {WebhookSubscriptionUpdate} subscription - The fields to update
+     * @returns {Promise<WebhookSubscription>} - The updated subscription
+     */
+    updateSubscription(
+        id: string,
+        subscription: WebhookSubscriptionUpdate,
+    ): Promise<WebhookSubscription>
+
+    /**
+     * Delete a webhook subscription and its deliveries
+     * @param {string} id - The ID of the subscription
+     * @returns {Promise<void>}
+     */
+    deleteSubscription(id: string): Promise<void>
+
+    /**
+     * Get the active subscriptions of the given companies that want an event
+     * @param {string[]} companyIds - The IDs of the companies
+     * @param {string} eventType - The type of the event
+     * @returns {Promise<WebhookSubscription[]>} - The matching subscriptions
+     */
+    getSubscriptionsForEvent(
+        companyIds: string[],
+        eventType: string,
+    ): Promise<WebhookSubscription[]>
+
+    /**
+     * Find the companies an event concerns from the IDs in its payload, with
+     * the payload each of them receives. Lists of jobs are narrowed down to
+     * the jobs of the receiving company.
+     * @param {TrueFitEvent} event - The event
+     * @returns {Promise<CompanyEventPayload[]>} - The companies and their payloads
+     */
+    resolveEventCompanies(event: TrueFitEvent): Promise<CompanyEventPayload[]>
+
+    /**
+     * Queue deliveries for sending, skipping the ones that are queued already
+     * for the same event and subscription
+     * @param {WebhookDeliveryCreate[]} deliveries - The deliveries to queue
+     * @returns {Promise<void>}
+     */
+    createDeliveries(deliveries: WebhookDeliveryCreate[]): Promise<void>
+
+    /**
+     * Get a delivery by ID
+     * @param {string} id - The ID of the delivery
+     * @returns {Promise<WebhookDelivery | null>} - The delivery
+     */
+    getDeliveryById(id: string): Promise<WebhookDelivery | null>
+
+    /**
+     * Get the deliveries of a subscription, most recent first
+     * @param {string} subscriptionId - The ID of the subscription
+     * @param {number} limit - Maximum number of deliveries to return
+     * @param {number} offset - Number of deliveries to skip
+     * @returns {Promise<WebhookDelivery[]>} - The deliveries
+     */
+    getDeliveries(
+        subscriptionId: string,
+        limit?: number,
+        offset?: number,
+    ): Promise<WebhookDelivery[]>
+
+    /**
+     * Queue a delivery for sending again with fresh attempts
+     * @param {string} id - The ID of the delivery
+     * @returns {Promise<WebhookDelivery>} - The requeued delivery
+     */
+    requeueDelivery(id: string): Promise<WebhookDelivery>
+
+    /**
+     * Reserve deliveries that are due for sending
+     * @param {number} limit - Maximum number of deliveries to claim
+     * @param {number} leaseMs - How long the deliveries are reserved for
+     * @returns {Promise<DueWebhookDelivery[]>} - The claimed deliveries, oldest first
+     */
+    claimDueDeliveries(
+        limit: number,
+        leaseMs: number,
+    ): Promise<DueWebhookDelivery[]>
+
+    /**
+     * Record a successful attempt
+     * @param {string} id - The ID of the delivery
+     * @param {WebhookResponse} response - The receiving server's response
+     * @returns {Promise<void>}
+     */
+    markSucceeded(id: string, response: WebhookResponse): Promise<void>
+
+    /**
+     * Record a failed attempt
+     * @param {string} id - The ID of the delivery
+     * @param {WebhookResponse | null} response - The receiving server's response, if it responded
+     * @param {string} error - Why the attempt failed
+     * @param {Date | null} retryAt - When to try again, or null to give up
+     * @returns {Promise<void>}
+     */
+    markFailed(
+        id: string,
+        response: WebhookResponse | null,
+        error: string,
+        retryAt: Date | null,
+    ): Promise<void>
+}
+
+class WebhookPoolImpl implements WebhookPool {
+    constructor(
+        private readonly prisma: PrismaClient,
+        private readonly logger: Logger,
+    ) {}
+
+    async getSubscriptions(companyId?: string): Promise<WebhookSubscription[]> {
+        try {
+            return this.prisma.webhookSubscription.findMany({
+                where: companyId ? { companyId } : {},
+                select: SUBSCRIPTION_SELECT,
+                orderBy: { createdAt: "asc" },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getSubscriptionById(id: string): Promise<WebhookSubscription | null> {
+        try {
+            return this.prisma.webhookSubscription.findUnique({
+                where: { id },
+                select: SUBSCRIPTION_SELECT,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async createSubscription(
+        subscription: WebhookSubscriptionCreate & { secret: string },
+    ): Promise<WebhookSubscriptionWithSecret> {
+        try {
+            return this.prisma.webhookSubscription.create({
+                data: {
+                    ...subscription,
+                    eventTypes: subscription.eventTypes ?? [],
+                },
+                select: { ...SUBSCRIPTION_SELECT, secret: true },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async updateSubscription(
+        id: string,
+        subscription: WebhookSubscriptionUpdate,
+    ): Promise<WebhookSubscription> {
+        try {
+            return this.prisma.webhookSubscription.update({
+                where: { id },
+                data: subscription,
+                select: SUBSCRIPTION_SELECT,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async deleteSubscription(id: string): Promise<void> {
+        try {
+            await this.prisma.webhookSubscription.delete({ where: { id } })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getSubscriptionsForEvent(
+        companyIds: string[],
+        eventType: string,
+    ): Promise<WebhookSubscription[]> {
+        try {
+            const subscriptions =
+                await this.prisma.webhookSubscription.findMany({
+                    where: { companyId: { in: companyIds }, isActive: true },
+                    select: SUBSCRIPTION_SELECT,
+                })
+
+            // An empty filter subscribes to every event type
+            return subscriptions.filter(
+                (s) =>
+                    s.eventTypes.length === 0 ||
+                    s.eventTypes.includes(eventType),
+            )
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async resolveEventCompanies(
+        event: TrueFitEvent,
+    ): Promise<CompanyEventPayload[]> {
+        try {
+            // Payloads name the company they belong to directly, or through a
+            // branch or the job they concern
+            const payload = event.payload as EventScope
+            const owners = new Set<string>()
+            if (payload.companyId) {
+                owners.add(payload.companyId)
+            }
+
+            if (payload.branchId) {
+                const branch = await this.prisma.branch.findUnique({
+                    where: { id: payload.branchId },
+                    select: { companyId: true },
+                })
+                if (branch) {
+                    owners.add(branch.companyId)
+                }
+            }
+
+            if (payload.jobId) {
+                const job = await this.prisma.job.findUnique({
+                    where: { id: payload.jobId },
+                    select: { branch: { select: { companyId: true } } },
+                })
+                if (job) {
+                    owners.add(job.branch.companyId)
+                }
+            }
+
+            const { jobIds } = payload
+            if (!jobIds) {
+                return [...owners].map((companyId) => ({
+                    companyId,
+                    payload: event.payload,
+                }))
+            }
+
+            // Lists of jobs can span companies, and no company may learn
+            // about the jobs of another
+            const jobIdsByCompany = new Map<string, string[]>()
+            const jobs = await this.prisma.job.findMany({
+                where: { id: { in: jobIds } },
+                select: { id: true, branch: { select: { companyId: true } } },
+            })
+            for (const job of jobs) {
+                const companyId = job.branch.companyId
+                jobIdsByCompany.set(companyId, [
+                    ...(jobIdsByCompany.get(companyId) ?? []),
+                    job.id,
+                ])
+            }
+
+            const companyIds = owners.size
+                ? [...owners]
+                : [...jobIdsByCompany.keys()]
+            return companyIds.map((companyId) => ({
+                companyId,
+                payload: {
+                    ...event.payload,
+                    jobIds: jobIds.filter((jobId) =>
+                        jobIdsByCompany.get(companyId)?.includes(jobId),
+                    ),
+                } as TrueFitEvent["payload"],
+            }))
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async createDeliveries(deliveries: WebhookDeliveryCreate[]): Promise<void> {
+        try {
+            // Events can be delivered more than once
+            const queued = await this.prisma.webhookDelivery.findMany({
+                where: {
+                    eventId: {
+                        in: deliveries.map((delivery) => delivery.eventId),
+                    },
+                },
+                select: { subscriptionId: true, eventId: true },
+            })
+            const pending = deliveries.filter(
+                (delivery) =>
+                    !queued.some(
+                        (q) =>
+                            q.subscriptionId === delivery.subscriptionId &&
+                            q.eventId === delivery.eventId,
+                    ),
+            )
+
+            if (pending.length > 0) {
+                const now = new Date()
+                await this.prisma.webhookDelivery.createMany({
+                    data: pending.map((delivery) => ({
+                        ...delivery,
+                        payload: delivery.payload as Prisma.InputJsonObject,
+                        nextAttemptAt: now,
+                    })),
+                    // Deliveries queued at the same time by another instance
+                    skipDuplicates: true,
+                })
+            }
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getDeliveryById(id: string): Promise<WebhookDelivery | null> {
+        try {
+            return this.prisma.webhookDelivery.findUnique({ where: { id } })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async getDeliveries(
+        subscriptionId: string,
+        limit = 50,
+        offset = 0,
+    ): Promise<WebhookDelivery[]> {
+        try {
+            return this.prisma.webhookDelivery.findMany({
+                where: { subscriptionId },
+                orderBy: { createdAt: "desc" },
+                take: limit,
+                skip: offset,
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async requeueDelivery(id: string): Promise<WebhookDelivery> {
+        try {
+            return this.prisma.webhookDelivery.update({
+                where: { id },
+                data: {
+                    status: WebhookDeliveryStatus.PENDING,
+                    attempts: 0,
+                    nextAttemptAt: new Date(),
+                },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async claimDueDeliveries(
+        limit: number,
+        leaseMs: number,
+    ): Promise<DueWebhookDelivery[]> {
+        try {
+            const now = new Date()
+            const due = await this.prisma.webhookDelivery.findMany({
+                where: {
+                    status: WebhookDeliveryStatus.PENDING,
+                    nextAttemptAt: { lte: now },
+                },
+                include: {
+                    subscription: { select: { url: true, secret: true } },
+                },
+                orderBy: { createdAt: "asc" },
+                take: limit,
+            })
+
+            // Claim each delivery only if no other dispatcher changed it
+            // since it was read
+            const claimed: DueWebhookDelivery[] = []
+            for (const delivery of due) {
+                const update = {
+                    attempts: delivery.attempts + 1,
+                    nextAttemptAt: new Date(now.getTime() + leaseMs),
+                }
+                const { count } = await this.prisma.webhookDelivery.updateMany({
+                    where: {
+                        id: delivery.id,
+                        status: WebhookDeliveryStatus.PENDING,
+                        attempts: delivery.attempts,
+                    },
+                    data: update,
+                })
+                if (count === 1) {
+                    claimed.push({ ...delivery, ...update })
+                }
+            }
+
+            return claimed
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async markSucceeded(id: string, response: WebhookResponse): Promise<void> {
+        try {
+            await this.prisma.webhookDelivery.update({
+                where: { id },
+                data: {
+                    status: WebhookDeliveryStatus.SUCCEEDED,
+                    responseStatus: response.status,
+                    lastError: null,
+                    nextAttemptAt: null,
+                    deliveredAt: new Date(),
+                },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+
+    async markFailed(
+        id: string,
+        response: WebhookResponse | null,
+        error: string,
+        retryAt: Date | null,
+    ): Promise<void> {
+        try {
+            await this.prisma.webhookDelivery.update({
+                where: { id },
+                data: {
+                    status: retryAt
+                        ? WebhookDeliveryStatus.PENDING
+                        : WebhookDeliveryStatus.FAILED,
+                    responseStatus: response?.status ?? null,
+                    lastError: error,
+                    nextAttemptAt: retryAt,
+                },
+            })
+        } catch (err) {
+            handleDBError(err, this.logger)
+        }
+    }
+}
+
+export default function getWebhookPool(
+    prisma: PrismaClient,
+    logger: Logger,
+): WebhookPool {
+    return new WebhookPoolImpl(prisma, logger)
+}
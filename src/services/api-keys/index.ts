@@ -0,0 +1,184 @@
+import { UserRole } from "@prisma/client"
+import { ApiKeyPool } from "persistence/db/pool/api-keys"
+import { CompanyPool } from "persistence/db/pool/companies"
+import { isPermission } from "auth/permissions"
+import { generateApiKey, hashApiKey } from "helpers/apiKeys"
+import { ApiKey, ApiKeyCreate, ApiKeyWithSecret } from "types/apiKey"
+import { AuthenticatedUser } from "types/user"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+// Usage is recorded at most this often, sparing a write on every request
+const USAGE_RESOLUTION_MS = 60 * 1000
+
+export interface IApiKeyService {
+    /**
+     * Get API keys, optionally of one company
+     * @param {string} companyId - The ID of the company
+     * @returns {Promise<ApiKey[]>} - The keys
+     */
+    getApiKeys(companyId?: string): Promise<ApiKey[]>
+
+    /**
+     * Get an API key by ID
+     * @param {string} id - The ID of the key
+     * @returns {Promise<ApiKey>} - The key
+     */
+    getApiKeyById(id: string): Promise<ApiKey>
+
+    /**
+     * Create an API key for a company. The key itself is only returned here.
+     * @param {ApiKeyCreate} apiKey - The key to create
+     * @param {string | null} createdById - The ID of the user creating the key
+     * @returns {Promise<ApiKeyWithSecret>} - The created key
+     */
+    createApiKey(
+        apiKey: ApiKeyCreate,
+        createdById: string | null,
+    ): Promise<ApiKeyWithSecret>
+
+    /**
+     * Revoke an API key. Revoked keys are kept so the changes made with them
+     * stay attributed.
+     * @param {string} id - The ID of the key
+     * @returns {Promise<ApiKey>} - The revoked key
+     */
+    revokeApiKey(id: string): Promise<ApiKey>
+
+    /**
+     * Authenticate a request made with an API key. The key acts within its
+     * company with only the permissions of its scopes.
+     * @param {string} key - The API key
+     * @returns {Promise<AuthenticatedUser>} - The actor standing for the key
+     */
+    authenticate(key: string): Promise<AuthenticatedUser>
+}
+
+class ApiKeyService implements IApiKeyService {
+    constructor(
+        private readonly pool: ApiKeyPool,
+        private readonly companyPool: CompanyPool,
+    ) {}
+
+    async getApiKeys(companyId?: string): Promise<ApiKey[]> {
+        return this.pool.getApiKeys(companyId)
+    }
+
+    async getApiKeyById(id: string): Promise<ApiKey> {
+        const apiKey = await this.pool.getApiKeyById(id)
+        if (!apiKey) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "API key not found",
+            )
+        }
+
+        return apiKey
+    }
+
+    async createApiKey(
+        apiKey: ApiKeyCreate,
+        createdById: string | null,
+    ): Promise<ApiKeyWithSecret> {
+        const company = await this.companyPool.getCompanyById(apiKey.companyId)
+        if (!company) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Company not found",
+            )
+        }
+
+        this.validateScopes(apiKey.scopes)
+        if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "expiresAt must be in the future",
+            )
+        }
+
+        const { key, prefix } = generateApiKey()
+        const created = await this.pool.createApiKey(
+            { ...apiKey, scopes: [...new Set(apiKey.scopes)] },
+            prefix,
+            hashApiKey(key),
+            createdById,
+        )
+
+        return { ...created, key }
+    }
+
+    async revokeApiKey(id: string): Promise<ApiKey> {
+        const apiKey = await this.getApiKeyById(id)
+        if (apiKey.revokedAt) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "API key is already revoked",
+            )
+        }
+
+        return this.pool.revokeApiKey(id)
+    }
+
+    async authenticate(key: string): Promise<AuthenticatedUser> {
+        const apiKey = await this.pool.getApiKeyByHash(hashApiKey(key))
+        const now = new Date()
+        if (
+            !apiKey ||
+            apiKey.revokedAt ||
+            (apiKey.expiresAt && apiKey.expiresAt <= now)
+        ) {
+            throw new ServiceError(
+                ServiceErrorType.Forbidden,
+                "Invalid, revoked or expired API key",
+            )
+        }
+
+        if (
+            !apiKey.lastUsedAt ||
+            now.getTime() - apiKey.lastUsedAt.getTime() >= USAGE_RESOLUTION_MS
+        ) {
+            await this.pool.recordUsage(apiKey.id, now)
+        }
+
+        // Keys have no user: they get the least privileged role, and only
+        // hold their scopes
+        return {
+            id: apiKey.id,
+            email: "",
+            firstName: apiKey.name,
+            lastName: "",
+            role: UserRole.READONLY,
+            companyId: apiKey.companyId,
+            sessionId: "",
+            grants: [{ permissions: apiKey.scopes, branchId: null }],
+            apiKey: {
+                id: apiKey.id,
+                name: apiKey.name,
+                prefix: apiKey.prefix,
+            },
+        }
+    }
+
+    private validateScopes(scopes: string[]) {
+        if (scopes.length === 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "At least one scope must be given",
+            )
+        }
+
+        const unknown = scopes.filter((s) => !isPermission(s))
+        if (unknown.length > 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                `Unknown scopes: ${unknown.join(", ")}`,
+            )
+        }
+    }
+}
+
+export default function getApiKeyService(
+    pool: ApiKeyPool,
+    companyPool: CompanyPool,
+): IApiKeyService {
+    return new ApiKeyService(pool, companyPool)
+}
@@ -1,16 +1,31 @@
 import {
     ApplicantAssessmentWithDetails,
     AssessmentSubmission,
+    AttemptStart,
+    AttemptWithTemplate,
+    SubmissionTiming,
     AssessmentScoreWithDetails,
     AssessmentExplanation,
     AssessmentFilters,
     AssessmentStats,
+    AnswerGradeResult,
+    AnswerGradeSubmission,
+    PendingReview,
+    PendingReviewFilters,
 } from "types/applicant-assessment"
 import { ApplicantAssessmentPool } from "persistence/db/pool/applicant-assessments"
-import { JobApplicationPool } from "persistence/db/pool/job-applications"
 import { AssessmentTemplatePool } from "persistence/db/pool/assessment-templates"
-import { ITrueFitEventRelaying, TrueFitEventTypes } from "services/events"
+import { AssessmentQuestionPool } from "persistence/db/pool/assessment-questions"
+import { ITrueFitEventRelaying } from "services/events"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
+import {
+    AnswerReviewStatus,
+    LateSubmissionPolicy,
+    QuestionType,
+} from "@prisma/client"
+import { AuthenticatedUser } from "types/user"
+import { AssessmentTemplate } from "types/assessment"
+import { gradeRubric } from "helpers/grading"
 
 export interface IApplicantAssessmentService {
     getAssessmentById(
@@ -27,6 +42,43 @@ export interface IApplicantAssessmentService {
         submission: AssessmentSubmission,
     ): Promise<ApplicantAssessmentWithDetails>
 
+    /**
+     * Start an attempt at an assessment, or resume the applicant's open one
+     * @param {AttemptStart} attempt - The applicant, template and job of the attempt
+     * @returns {Promise<AttemptWithTemplate>} - The started or resumed attempt
+     */
+    startAttempt(attempt: AttemptStart): Promise<AttemptWithTemplate>
+
+    /**
+     * Get an attempt along with its saved answers
+     * @param {string} id - The ID of the attempt
+     * @returns {Promise<AttemptWithTemplate>} - The attempt
+     */
+    getAttempt(id: string): Promise<AttemptWithTemplate>
+
+    /**
+     * Save answers of an open attempt
+     * @param {string} id - The ID of the attempt
+     * @param {AssessmentSubmission["answers"]} answers - The answers to save
+     * @returns {Promise<AttemptWithTemplate>} - The attempt with all its saved answers
+     */
+    saveAttemptAnswers(
+        id: string,
+        answers: AssessmentSubmission["answers"],
+    ): Promise<AttemptWithTemplate>
+
+    /**
+     * Submit an attempt's saved answers as an assessment, recording the time
+     * taken and whether the time limit was exceeded
+     * @param {string} id - The ID of the attempt
+     * @param {AssessmentSubmission["answers"]} answers - Final answers to save before submitting
+     * @returns {Promise<ApplicantAssessmentWithDetails>} - The submitted assessment
+     */
+    submitAttempt(
+        id: string,
+        answers?: AssessmentSubmission["answers"],
+    ): Promise<ApplicantAssessmentWithDetails>
+
     getAssessmentScore(id: string): Promise<AssessmentScoreWithDetails>
 
     getAssessmentExplanation(id: string): Promise<AssessmentExplanation>
@@ -35,13 +87,26 @@ export interface IApplicantAssessmentService {
         templateId?: string,
         jobId?: string,
     ): Promise<AssessmentStats>
+
+    getPendingReviews(
+        filters?: PendingReviewFilters,
+        limit?: number,
+        offset?: number,
+    ): Promise<PendingReview[]>
+
+    gradeAnswer(
+        assessmentId: string,
+        answerId: string,
+        submission: AnswerGradeSubmission,
+        grader: Pick<AuthenticatedUser, "id">,
+    ): Promise<AnswerGradeResult>
 }
 
 class ApplicantAssessmentService implements IApplicantAssessmentService {
     constructor(
         private readonly pool: ApplicantAssessmentPool,
-        private readonly jobApplicationPool: JobApplicationPool,
         private readonly assessmentTemplatePool: AssessmentTemplatePool,
+        private readonly assessmentQuestionPool: AssessmentQuestionPool,
         private readonly events: ITrueFitEventRelaying,
     ) {}
 
@@ -109,36 +174,125 @@ class ApplicantAssessmentService implements IApplicantAssessmentService {
             )
         }
 
-        // Check if job application already exists, if not create one
-        const hasApplied =
-            await this.jobApplicationPool.hasApplicantAppliedToJob(
-                submission.applicantId,
-                submission.jobId,
+        // Timed assessments are only accepted through an attempt, which
+        // records when the applicant started
+        const template =
+            await this.assessmentTemplatePool.getAssessmentTemplateById(
+                submission.templateId,
+            )
+        if (template) {
+            this.validateTemplateJob(template, submission.jobId)
+        }
+        if (template?.timeLimitMinutes) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "This assessment has a time limit and must be started as an attempt",
+            )
+        }
+
+        await this.validateAnswers(submission.templateId, submission.answers)
+
+        // The pool applies the applicant to the job if they have not yet,
+        // and announces the submission in the same transaction
+        return this.pool.submitAssessment(submission)
+    }
+
+    async startAttempt(attempt: AttemptStart): Promise<AttemptWithTemplate> {
+        const template =
+            await this.assessmentTemplatePool.getAssessmentTemplateById(
+                attempt.templateId,
             )
+        if (!template) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Assessment template not found",
+            )
+        }
+        this.validateTemplateJob(template, attempt.jobId)
 
-        if (!hasApplied) {
-            await this.jobApplicationPool.createJobApplication({
-                applicantId: submission.applicantId,
-                jobId: submission.jobId,
-                status: "APPLIED",
-            })
+        const open = await this.pool.getOpenAttempt(attempt)
+        if (open) {
+            return open
         }
 
-        const assessment = await this.pool.submitAssessment(submission)
+        const startedAt = new Date()
+        const expiresAt = template.timeLimitMinutes
+            ? new Date(
+                  startedAt.getTime() + template.timeLimitMinutes * 60 * 1000,
+              )
+            : null
 
-        // Emit assessment submitted event for ranking recalculation
-        await this.events.dispatchEvent({
-            type: TrueFitEventTypes.ASSESSMENT_SUBMITTED,
-            payload: {
-                assessmentId: assessment.id,
-                applicantId: assessment.applicantId,
-                templateId: assessment.templateId,
-                jobId: submission.jobId, // Use the provided jobId
-                answersCount: assessment.answers.length,
-            },
-        })
+        return this.pool.createAttempt(attempt, startedAt, expiresAt)
+    }
+
+    async getAttempt(id: string): Promise<AttemptWithTemplate> {
+        const attempt = await this.pool.getAttemptById(id)
+        if (!attempt) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Attempt not found",
+            )
+        }
+
+        return attempt
+    }
+
+    async saveAttemptAnswers(
+        id: string,
+        answers: AssessmentSubmission["answers"],
+    ): Promise<AttemptWithTemplate> {
+        const attempt = await this.getOpenAttemptOnTime(id)
+
+        await this.validateAnswers(attempt.templateId, answers)
+
+        return this.pool.saveAttemptAnswers(id, answers)
+    }
+
+    async submitAttempt(
+        id: string,
+        answers: AssessmentSubmission["answers"] = [],
+    ): Promise<ApplicantAssessmentWithDetails> {
+        let attempt = await this.getOpenAttemptOnTime(id)
+
+        if (answers.length > 0) {
+            await this.validateAnswers(attempt.templateId, answers)
+            attempt = await this.pool.saveAttemptAnswers(id, answers)
+        }
+
+        if (!attempt.answers.length) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Assessment must have at least one answer",
+            )
+        }
 
-        return assessment
+        const now = new Date()
+        const isLate = this.isPastTimeLimit(attempt, now)
+        const timing: SubmissionTiming = {
+            attemptId: attempt.id,
+            startedAt: attempt.startedAt,
+            timeTakenSeconds: Math.round(
+                (now.getTime() - attempt.startedAt.getTime()) / 1000,
+            ),
+            isLate,
+            latePenaltyPercent: isLate
+                ? attempt.template.latePenaltyPercent
+                : null,
+        }
+
+        return this.pool.submitAssessment(
+            {
+                applicantId: attempt.applicantId,
+                templateId: attempt.templateId,
+                jobId: attempt.jobId,
+                answers: attempt.answers.map((answer) => ({
+                    questionId: answer.questionId,
+                    answer: answer.answer ?? undefined,
+                    selectedOptions: answer.selectedOptions,
+                })),
+            },
+            timing,
+        )
     }
 
     async getAssessmentScore(id: string): Promise<AssessmentScoreWithDetails> {
@@ -173,18 +327,231 @@ class ApplicantAssessmentService implements IApplicantAssessmentService {
     ): Promise<AssessmentStats> {
         return this.pool.getAssessmentStats(templateId, jobId)
     }
+
+    async getPendingReviews(
+        filters?: PendingReviewFilters,
+        limit?: number,
+        offset?: number,
+    ): Promise<PendingReview[]> {
+        if (limit !== undefined && limit <= 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Limit must be positive",
+            )
+        }
+
+        if (offset !== undefined && offset < 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Offset must be non-negative",
+            )
+        }
+
+        return this.pool.getPendingReviews(filters, limit, offset)
+    }
+
+    async gradeAnswer(
+        assessmentId: string,
+        answerId: string,
+        submission: AnswerGradeSubmission,
+        grader: Pick<AuthenticatedUser, "id">,
+    ): Promise<AnswerGradeResult> {
+        const answer = await this.pool.getAssessmentAnswer(
+            assessmentId,
+            answerId,
+        )
+        if (!answer) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Answer not found",
+            )
+        }
+
+        // Only rubric-graded answers go through review; unanswered TEXT
+        // questions and everything else are graded on submission
+        if (answer.reviewStatus === AnswerReviewStatus.AUTO_GRADED) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Only answers to TEXT questions with a rubric can be graded",
+            )
+        }
+
+        const rubric = answer.question.rubric
+        const errors: { [key: string]: string } = {}
+        const scored = new Set<string>()
+        for (const score of submission.scores) {
+            const criterion = rubric.find((c) => c.id === score.criterionId)
+            if (!criterion) {
+                errors[score.criterionId] =
+                    "Criterion is not part of this question's rubric"
+            } else if (scored.has(score.criterionId)) {
+                errors[score.criterionId] = "Criterion is scored more than once"
+            } else if (score.points < 0 || score.points > criterion.points) {
+                errors[
+                    score.criterionId
+                ] = `Points must be between 0 and ${criterion.points}`
+            }
+            scored.add(score.criterionId)
+        }
+        for (const criterion of rubric) {
+            if (!scored.has(criterion.id)) {
+                errors[criterion.id] = "Criterion must be scored"
+            }
+        }
+
+        if (Object.keys(errors).length > 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Grade contains invalid rubric scores",
+                undefined,
+                errors,
+            )
+        }
+
+        // The pool announces the assessment as graded once no answers are
+        // left to review, re-grades that keep the credit announce nothing
+        return this.pool.gradeAnswer(
+            answerId,
+            submission.scores,
+            gradeRubric(rubric, submission.scores),
+            grader.id,
+        )
+    }
+
+    /**
+     * Get an attempt that still accepts answers. Attempts past their time
+     * limit only do so when the template penalises late submissions.
+     */
+    private async getOpenAttemptOnTime(
+        id: string,
+    ): Promise<AttemptWithTemplate> {
+        const attempt = await this.getAttempt(id)
+
+        if (attempt.submittedAt) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidStatus,
+                "This attempt has already been submitted",
+            )
+        }
+
+        if (
+            this.isPastTimeLimit(attempt, new Date()) &&
+            attempt.template.lateSubmissionPolicy ===
+                LateSubmissionPolicy.REJECT
+        ) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidStatus,
+                "The time limit for this assessment has passed",
+            )
+        }
+
+        return attempt
+    }
+
+    private isPastTimeLimit(attempt: AttemptWithTemplate, now: Date): boolean {
+        return !!attempt.expiresAt && now > attempt.expiresAt
+    }
+
+    /**
+     * Check that answers belong to the template and match one of the
+     * question's options
+     */
+    private async validateAnswers(
+        templateId: string,
+        answers: AssessmentSubmission["answers"],
+    ): Promise<void> {
+        const questions =
+            await this.assessmentQuestionPool.getAssessmentQuestionsByTemplateId(
+                templateId,
+            )
+        const errors: { [key: string]: string } = {}
+        for (const answer of answers) {
+            const question = questions.find((q) => q.id === answer.questionId)
+            if (!question) {
+                errors[answer.questionId] =
+                    "Question does not belong to this assessment template"
+                continue
+            }
+
+            const error =
+                question.type === QuestionType.MULTI_SELECT
+                    ? this.validateSelections(question.options, answer)
+                    : this.validateAnswer(question.options, answer)
+            if (error) {
+                errors[answer.questionId] = error
+            }
+        }
+
+        if (Object.keys(errors).length > 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Assessment contains invalid answers",
+                undefined,
+                errors,
+            )
+        }
+    }
+
+    private validateAnswer(
+        options: string[],
+        answer: AssessmentSubmission["answers"][number],
+    ): string | undefined {
+        if (answer.selectedOptions?.length) {
+            return "Only MULTI_SELECT questions accept selectedOptions"
+        }
+        if (
+            answer.answer !== undefined &&
+            options.length > 0 &&
+            !options.includes(answer.answer)
+        ) {
+            return `Answer must be one of: ${options.join(", ")}`
+        }
+    }
+
+    /**
+     * Check that a template can be taken for the job. Templates without a job
+     * are shared and can be taken for any job.
+     */
+    private validateTemplateJob(
+        template: Pick<AssessmentTemplate, "jobId">,
+        jobId: string,
+    ): void {
+        if (template.jobId && template.jobId !== jobId) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Assessment template belongs to another job",
+            )
+        }
+    }
+
+    private validateSelections(
+        options: string[],
+        answer: AssessmentSubmission["answers"][number],
+    ): string | undefined {
+        if (answer.answer !== undefined) {
+            return "MULTI_SELECT questions are answered with selectedOptions"
+        }
+        const selected = answer.selectedOptions ?? []
+        if (new Set(selected).size !== selected.length) {
+            return "Selected options must be unique"
+        }
+        const invalid = selected.filter((option) => !options.includes(option))
+        if (invalid.length > 0) {
+            return `Selected options must be among: ${options.join(", ")}`
+        }
+    }
 }
 
 export default function getApplicantAssessmentService(
     pool: ApplicantAssessmentPool,
-    jobApplicationPool: JobApplicationPool,
     assessmentTemplatePool: AssessmentTemplatePool,
+    assessmentQuestionPool: AssessmentQuestionPool,
     events: ITrueFitEventRelaying,
 ): IApplicantAssessmentService {
     return new ApplicantAssessmentService(
         pool,
-        jobApplicationPool,
         assessmentTemplatePool,
+        assessmentQuestionPool,
         events,
     )
 }
@@ -91,18 +91,8 @@ class ApplicantService implements IApplicantService {
             throw new Error("Applicant with this email already exists")
         }
 
-        const createdApplicant = await this.pool.createApplicant(applicant)
-
-        // await this.events.dispatchEvent({
-        //     type: "APPLICANT_CREATED",
-        //     payload: {
-        //         applicantId: createdApplicant.id,
-        //         email: createdApplicant.email,
-        //         name: `${createdApplicant.firstName} ${createdApplicant.lastName}`
-        //     }
-        // })
-
-        return createdApplicant
+        // The pool announces the registration in the same transaction
+        return this.pool.createApplicant(applicant)
     }
 
     async deleteApplicant(id: string): Promise<void> {
@@ -3,10 +3,27 @@ import {
     AssessmentQuestionWithDetails,
     AssessmentQuestionCreate,
     AssessmentQuestionUpdate,
+    AssessmentQuestionUpdateResult,
     AnswerDistribution,
+    RubricCriterionCreate,
+    TextMatchingRules,
 } from "types/assessment"
+import { QuestionType, TextMatchMode } from "@prisma/client"
 import { AssessmentQuestionPool } from "persistence/db/pool/assessment-questions"
+import { compileMatchPattern, parseNumericAnswer } from "helpers/grading"
 import { ITrueFitEventRelaying } from "services/events"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+const TRUE_FALSE_OPTIONS = ["true", "false"]
+
+const MATCHING_RULES: Array<keyof TextMatchingRules> = [
+    "matchMode",
+    "acceptedAnswers",
+    "matchPattern",
+    "keywords",
+    "keywordThreshold",
+    "numericTolerance",
+]
 
 export interface IAssessmentQuestionService {
     /**
@@ -33,15 +50,18 @@ export interface IAssessmentQuestionService {
     ): Promise<AssessmentQuestion>
 
     /**
-     * Update an assessment question
+     * Update an assessment question. Changing its answer key or matching
+     * rules re-grades the answers already given to it, and any change that
+     * affects scores invalidates the rankings of the jobs they belong to.
      * @param {string} id - The ID of the question to update
      * @param {AssessmentQuestionUpdate} question - The question data to update
-     * @returns {Promise<AssessmentQuestion>} - The updated question
+     * @returns {Promise<AssessmentQuestionUpdateResult>} - The updated question
+     * and a summary of the re-graded answers
      */
     updateQuestion(
         id: string,
         question: AssessmentQuestionUpdate,
-    ): Promise<AssessmentQuestion>
+    ): Promise<AssessmentQuestionUpdateResult>
 
     /**
      * Delete an assessment question
@@ -79,10 +99,30 @@ class AssessmentQuestionService implements IAssessmentQuestionService {
     async createQuestion(
         question: AssessmentQuestionCreate,
     ): Promise<AssessmentQuestion> {
-        const createdQuestion = await this.pool.createAssessmentQuestion(
+        this.validateNegativeWeight(question.negativeWeight)
+
+        const type = question.type ?? QuestionType.MULTIPLE_CHOICE
+        const answerKey = this.validateOptions(
+            type,
+            question.options,
+            question.correctAnswer,
+            question.correctOptions,
+        )
+        const rubric = this.validateRubric(type, question.rubric)
+        const matching = this.validateMatching(
+            type,
             question,
+            question.correctAnswer,
+            rubric.length > 0,
         )
 
+        const createdQuestion = await this.pool.createAssessmentQuestion({
+            ...question,
+            ...answerKey,
+            ...matching,
+            rubric,
+        })
+
         // await this.events.dispatchEvent({
         //     type: "ASSESSMENT_QUESTION_CREATED",
         //     payload: {
@@ -97,10 +137,118 @@ class AssessmentQuestionService implements IAssessmentQuestionService {
     async updateQuestion(
         id: string,
         question: AssessmentQuestionUpdate,
-    ): Promise<AssessmentQuestion> {
-        const updatedQuestion = await this.pool.updateAssessmentQuestion(
+    ): Promise<AssessmentQuestionUpdateResult> {
+        const existing = await this.pool.getAssessmentQuestionById(id)
+        if (!existing) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Question not found",
+            )
+        }
+
+        this.validateNegativeWeight(question.negativeWeight)
+
+        // Validate the question as it will look after the update. Options are
+        // only carried over when the type stays the same.
+        const changesAnswers =
+            question.type !== undefined ||
+            question.options !== undefined ||
+            question.correctAnswer !== undefined ||
+            question.correctOptions !== undefined
+        if (changesAnswers) {
+            const type = question.type ?? existing.type
+            const sameType = type === existing.type
+            question = {
+                ...question,
+                ...this.validateOptions(
+                    type,
+                    question.options ??
+                        (sameType ? existing.options : undefined),
+                    question.correctAnswer !== undefined
+                        ? question.correctAnswer
+                        : existing.correctAnswer,
+                    question.correctOptions ??
+                        (sameType ? existing.correctOptions : undefined),
+                ),
+            }
+        }
+
+        // Rubrics only apply to TEXT questions, so changing the type away
+        // from TEXT drops the existing rubric
+        const type = question.type ?? existing.type
+        if (question.rubric !== undefined) {
+            question = {
+                ...question,
+                rubric: this.validateRubric(type, question.rubric),
+            }
+        } else if (type !== QuestionType.TEXT && existing.rubric?.length) {
+            question = { ...question, rubric: [] }
+        }
+
+        // Matching rules are validated as they will look after the update and
+        // reset when the question stops being a TEXT question
+        let matchingChanged = false
+        if (
+            question.type !== undefined ||
+            question.correctAnswer !== undefined ||
+            question.rubric !== undefined ||
+            MATCHING_RULES.some((rule) => question[rule] !== undefined)
+        ) {
+            const previous = type === QuestionType.TEXT ? existing : undefined
+            const matching = this.validateMatching(
+                type,
+                {
+                    matchMode: question.matchMode ?? previous?.matchMode,
+                    acceptedAnswers:
+                        question.acceptedAnswers ?? previous?.acceptedAnswers,
+                    matchPattern:
+                        question.matchPattern !== undefined
+                            ? question.matchPattern
+                            : previous?.matchPattern,
+                    keywords: question.keywords ?? previous?.keywords,
+                    keywordThreshold:
+                        question.keywordThreshold !== undefined
+                            ? question.keywordThreshold
+                            : previous?.keywordThreshold,
+                    numericTolerance:
+                        question.numericTolerance !== undefined
+                            ? question.numericTolerance
+                            : previous?.numericTolerance,
+                },
+                question.correctAnswer !== undefined
+                    ? question.correctAnswer
+                    : existing.correctAnswer,
+                question.rubric !== undefined
+                    ? question.rubric.length > 0
+                    : !!existing.rubric?.length,
+            )
+            matchingChanged = MATCHING_RULES.some(
+                (rule) =>
+                    JSON.stringify(matching[rule]) !==
+                    JSON.stringify(existing[rule] ?? null),
+            )
+            question = { ...question, ...matching }
+        }
+
+        // Anything that changes how answers are graded or weighted changes
+        // the scores of candidates who already answered
+        const affectsScores =
+            changesAnswers ||
+            matchingChanged ||
+            question.rubric !== undefined ||
+            (question.partialCredit !== undefined &&
+                question.partialCredit !== existing.partialCredit) ||
+            (question.weight !== undefined &&
+                question.weight !== existing.weight) ||
+            (question.negativeWeight !== undefined &&
+                question.negativeWeight !== (existing.negativeWeight ?? null))
+
+        // The pool re-grades and announces the re-grade in the same
+        // transaction as the update
+        const result = await this.pool.updateAssessmentQuestion(
             id,
             question,
+            affectsScores,
         )
 
         // await this.events.dispatchEvent({
@@ -111,7 +259,7 @@ class AssessmentQuestionService implements IAssessmentQuestionService {
         //     }
         // })
 
-        return updatedQuestion
+        return result
     }
 
     async deleteQuestion(id: string): Promise<void> {
@@ -134,6 +282,313 @@ class AssessmentQuestionService implements IAssessmentQuestionService {
     async getAnswerDistribution(id: string): Promise<AnswerDistribution> {
         return this.pool.getAnswerDistribution(id)
     }
+
+    /**
+     * negativeWeight is the number of points deducted for a wrong answer, so
+     * it is expressed as a positive number
+     */
+    private validateNegativeWeight(negativeWeight?: number | null): void {
+        if (negativeWeight != null && negativeWeight < 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "negativeWeight must be zero or a positive number of points",
+            )
+        }
+    }
+
+    /**
+     * Rubric criteria describe what a grader awards points for on TEXT
+     * answers, so each needs a description and a positive number of points
+     */
+    private validateRubric(
+        type: QuestionType,
+        rubric: RubricCriterionCreate[] | undefined,
+    ): RubricCriterionCreate[] {
+        if (!rubric?.length) {
+            return []
+        }
+
+        if (type !== QuestionType.TEXT) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Only TEXT questions can have a rubric",
+            )
+        }
+
+        return rubric.map((criterion) => {
+            const description = criterion.description.trim()
+            if (!description) {
+                throw new ServiceError(
+                    ServiceErrorType.InvalidInput,
+                    "Rubric criteria must have a description",
+                )
+            }
+            if (!(criterion.points > 0)) {
+                throw new ServiceError(
+                    ServiceErrorType.InvalidInput,
+                    "Rubric criteria must be worth a positive number of points",
+                )
+            }
+            return { description, points: criterion.points }
+        })
+    }
+
+    /**
+     * Validate how TEXT answers are matched against the answer key and return
+     * the rules to store, clearing the ones the matchMode doesn't use. TEXT
+     * questions with a rubric are graded by hand, so they only allow EXACT.
+     */
+    private validateMatching(
+        type: QuestionType,
+        rules: Partial<TextMatchingRules>,
+        correctAnswer: string | null | undefined,
+        hasRubric: boolean,
+    ): TextMatchingRules {
+        const matchMode = rules.matchMode ?? TextMatchMode.EXACT
+        const matching: TextMatchingRules = {
+            matchMode,
+            acceptedAnswers: [],
+            matchPattern: null,
+            keywords: [],
+            keywordThreshold: null,
+            numericTolerance: null,
+        }
+
+        if (matchMode === TextMatchMode.EXACT) {
+            return matching
+        }
+
+        if (type !== QuestionType.TEXT) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Only TEXT questions can use answer matching",
+            )
+        }
+
+        if (hasRubric) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "TEXT questions with a rubric cannot use answer matching",
+            )
+        }
+
+        switch (matchMode) {
+            case TextMatchMode.NORMALIZED:
+                if (!correctAnswer?.trim()) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "NORMALIZED matching needs a correct answer",
+                    )
+                }
+                break
+            case TextMatchMode.ALTERNATIVES: {
+                const accepted = (rules.acceptedAnswers ?? []).map((answer) =>
+                    answer.trim(),
+                )
+                if (accepted.some((answer) => !answer)) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "Accepted answers cannot be empty",
+                    )
+                }
+                if (!correctAnswer?.trim() && !accepted.length) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "ALTERNATIVES matching needs a correct answer or accepted answers",
+                    )
+                }
+                matching.acceptedAnswers = accepted
+                break
+            }
+            case TextMatchMode.REGEX: {
+                const pattern = rules.matchPattern?.trim()
+                if (!pattern) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "REGEX matching needs a matchPattern",
+                    )
+                }
+                try {
+                    new RegExp(`^(?:${pattern})$`, "i")
+                } catch (err) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "matchPattern is not a valid regular expression",
+                        err,
+                    )
+                }
+                if (!compileMatchPattern(pattern)) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "matchPattern may take too long to match, avoid nested quantifiers such as (a+)+",
+                    )
+                }
+                matching.matchPattern = pattern
+                break
+            }
+            case TextMatchMode.KEYWORDS: {
+                const keywords = (rules.keywords ?? []).map((keyword) =>
+                    keyword.trim(),
+                )
+                if (!keywords.length || keywords.some((keyword) => !keyword)) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "KEYWORDS matching needs non-empty keywords",
+                    )
+                }
+                const threshold = rules.keywordThreshold ?? null
+                if (threshold !== null && !(threshold > 0 && threshold <= 1)) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "keywordThreshold must be greater than 0 and at most 1",
+                    )
+                }
+                matching.keywords = keywords
+                matching.keywordThreshold = threshold
+                break
+            }
+            case TextMatchMode.NUMERIC: {
+                if (parseNumericAnswer(correctAnswer) === null) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "NUMERIC matching needs a numeric correct answer",
+                    )
+                }
+                const tolerance = rules.numericTolerance ?? null
+                if (tolerance !== null && !(tolerance >= 0)) {
+                    throw new ServiceError(
+                        ServiceErrorType.InvalidInput,
+                        "numericTolerance must be zero or a positive number",
+                    )
+                }
+                matching.numericTolerance = tolerance
+                break
+            }
+        }
+
+        return matching
+    }
+
+    /**
+     * Validate the answer options and answer key of a question against its
+     * type and return the options to store. TRUE_FALSE questions default to
+     * "true"/"false" and MULTI_SELECT questions are keyed by correctOptions
+     * rather than correctAnswer.
+     */
+    private validateOptions(
+        type: QuestionType,
+        options: string[] | undefined,
+        correctAnswer: string | null | undefined,
+        correctOptions: string[] | undefined,
+    ): {
+        options: string[]
+        correctOptions: string[]
+        correctAnswer?: string | null
+    } {
+        const isMultiSelect = type === QuestionType.MULTI_SELECT
+
+        if (!isMultiSelect && correctOptions?.length) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Only MULTI_SELECT questions can have correct options",
+            )
+        }
+
+        if (type === QuestionType.TEXT) {
+            if (options?.length) {
+                throw new ServiceError(
+                    ServiceErrorType.InvalidInput,
+                    "TEXT questions cannot have answer options",
+                )
+            }
+            return { options: [], correctOptions: [] }
+        }
+
+        // Options are compared trimmed, so the correct answer is too
+        const answer = correctAnswer?.trim() || null
+
+        // Multiple choice questions have always been accepted without
+        // options, and are only checked once they get some
+        if (type === QuestionType.MULTIPLE_CHOICE && !options?.length) {
+            return { options: [], correctOptions: [], correctAnswer: answer }
+        }
+
+        const resolved =
+            type === QuestionType.TRUE_FALSE && !options?.length
+                ? TRUE_FALSE_OPTIONS
+                : (options ?? []).map((option) => option.trim())
+
+        if (resolved.some((option) => !option)) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Answer options cannot be empty",
+            )
+        }
+
+        if (new Set(resolved).size !== resolved.length) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Answer options must be unique",
+            )
+        }
+
+        if (type === QuestionType.TRUE_FALSE && resolved.length !== 2) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "TRUE_FALSE questions must have exactly two answer options",
+            )
+        }
+
+        if (
+            (type === QuestionType.MULTIPLE_CHOICE || isMultiSelect) &&
+            resolved.length < 2
+        ) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                `${type} questions must have at least two answer options`,
+            )
+        }
+
+        if (isMultiSelect) {
+            if (answer) {
+                throw new ServiceError(
+                    ServiceErrorType.InvalidInput,
+                    "MULTI_SELECT questions use correctOptions instead of correctAnswer",
+                )
+            }
+
+            const correct = (correctOptions ?? []).map((option) =>
+                option.trim(),
+            )
+            if (new Set(correct).size !== correct.length) {
+                throw new ServiceError(
+                    ServiceErrorType.InvalidInput,
+                    "Correct options must be unique",
+                )
+            }
+            if (correct.some((option) => !resolved.includes(option))) {
+                throw new ServiceError(
+                    ServiceErrorType.InvalidInput,
+                    "Correct options must be answer options",
+                )
+            }
+
+            return {
+                options: resolved,
+                correctOptions: correct,
+                correctAnswer: null,
+            }
+        }
+
+        if (answer && !resolved.includes(answer)) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Correct answer must be one of the answer options",
+            )
+        }
+
+        return { options: resolved, correctOptions: [], correctAnswer: answer }
+    }
 }
 
 export default function getAssessmentQuestionService(
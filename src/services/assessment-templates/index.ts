@@ -98,6 +98,8 @@ class AssessmentTemplateService implements IAssessmentTemplateService {
     async createAssessmentTemplate(
         template: AssessmentTemplateCreate,
     ): Promise<AssessmentTemplate> {
+        this.validateTimeLimit(template)
+
         // Validate template name uniqueness for the job
         const nameExists = await this.pool.templateNameExistsForJob(
             template.jobId ?? null,
@@ -156,6 +158,8 @@ class AssessmentTemplateService implements IAssessmentTemplateService {
         id: string,
         template: AssessmentTemplateUpdate,
     ): Promise<AssessmentTemplate> {
+        this.validateTimeLimit(template)
+
         // Validate template name uniqueness if name is being updated
         if (template.name) {
             const existingTemplate = await this.pool.getAssessmentTemplateById(
@@ -232,6 +236,32 @@ class AssessmentTemplateService implements IAssessmentTemplateService {
     ): Promise<AssessmentTemplateStats> {
         return this.pool.getAssessmentTemplateStats(companyId)
     }
+
+    private validateTimeLimit(
+        template: AssessmentTemplateCreate | AssessmentTemplateUpdate,
+    ): void {
+        if (
+            template.timeLimitMinutes != null &&
+            (!Number.isInteger(template.timeLimitMinutes) ||
+                template.timeLimitMinutes <= 0)
+        ) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "timeLimitMinutes must be a positive whole number",
+            )
+        }
+
+        if (
+            template.latePenaltyPercent != null &&
+            (template.latePenaltyPercent < 0 ||
+                template.latePenaltyPercent > 100)
+        ) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "latePenaltyPercent must be between 0 and 100",
+            )
+        }
+    }
 }
 
 export default function getAssessmentTemplateService(
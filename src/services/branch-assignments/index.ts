@@ -0,0 +1,112 @@
+import { UserRole } from "@prisma/client"
+import { BranchAssignmentPool } from "persistence/db/pool/branch-assignments"
+import { BranchPool } from "persistence/db/pool/branches"
+import { UserPool } from "persistence/db/pool/users"
+import { BranchAssignment } from "types/company"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+export interface IBranchAssignmentService {
+    /**
+     * Get the users assigned to a branch
+     * @param {string} branchId - The ID of the branch
+     * @returns {Promise<BranchAssignment[]>} - The assignments with their users
+     */
+    getBranchUsers(branchId: string): Promise<BranchAssignment[]>
+
+    /**
+     * Assign a user of the branch's company to the branch. Users assigned to
+     * branches only access those branches of their company.
+     * @param {string} branchId - The ID of the branch
+     * @param {string} userId - The ID of the user
+     * @returns {Promise<BranchAssignment>} - The created assignment
+     */
+    assignUser(branchId: string, userId: string): Promise<BranchAssignment>
+
+    /**
+     * Remove a user from a branch. Users removed from their last branch
+     * access every branch of their company again.
+     * @param {string} branchId - The ID of the branch
+     * @param {string} userId - The ID of the user
+     * @returns {Promise<void>}
+     */
+    unassignUser(branchId: string, userId: string): Promise<void>
+}
+
+class BranchAssignmentService implements IBranchAssignmentService {
+    constructor(
+        private readonly pool: BranchAssignmentPool,
+        private readonly branchPool: BranchPool,
+        private readonly userPool: UserPool,
+    ) {}
+
+    async getBranchUsers(branchId: string): Promise<BranchAssignment[]> {
+        await this.getBranch(branchId)
+        return this.pool.getAssignmentsByBranchId(branchId)
+    }
+
+    async assignUser(
+        branchId: string,
+        userId: string,
+    ): Promise<BranchAssignment> {
+        const branch = await this.getBranch(branchId)
+
+        const user = await this.userPool.getUserById(userId)
+        if (!user) {
+            throw new ServiceError(ServiceErrorType.NotFound, "User not found")
+        }
+        if (user.companyId !== branch.companyId) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "The user doesn't belong to the branch's company",
+            )
+        }
+        // Admins access every company, a branch would never limit them
+        if (user.role === UserRole.ADMIN) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Admins can't be assigned to branches",
+            )
+        }
+
+        const existing = await this.pool.getAssignment(branchId, userId)
+        if (existing) {
+            throw new ServiceError(
+                ServiceErrorType.DuplicateValue,
+                "The user is already assigned to the branch",
+            )
+        }
+
+        return this.pool.createAssignment(branchId, userId)
+    }
+
+    async unassignUser(branchId: string, userId: string): Promise<void> {
+        const assignment = await this.pool.getAssignment(branchId, userId)
+        if (!assignment) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "The user isn't assigned to the branch",
+            )
+        }
+
+        await this.pool.deleteAssignment(assignment.id)
+    }
+
+    private async getBranch(branchId: string) {
+        const branch = await this.branchPool.getBranchById(branchId)
+        if (!branch) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Branch not found",
+            )
+        }
+        return branch
+    }
+}
+
+export default function getBranchAssignmentService(
+    pool: BranchAssignmentPool,
+    branchPool: BranchPool,
+    userPool: UserPool,
+): IBranchAssignmentService {
+    return new BranchAssignmentService(pool, branchPool, userPool)
+}
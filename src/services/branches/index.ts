@@ -21,9 +21,9 @@ export interface IBranchService {
     /**
      * Get branches by company ID
      * @param {string} companyId - The ID of the company
-     * @returns {Promise<Branch[]>} - The branches for the company
+     * @returns {Promise<BranchWithCompany[]>} - The branches for the company
      */
-    getBranchesByCompanyId(companyId: string): Promise<Branch[]>
+    getBranchesByCompanyId(companyId: string): Promise<BranchWithCompany[]>
 
     /**
      * Create a branch
@@ -67,7 +67,9 @@ class BranchService implements IBranchService {
         return this.branchPool.getBranchById(id)
     }
 
-    async getBranchesByCompanyId(companyId: string): Promise<Branch[]> {
+    async getBranchesByCompanyId(
+        companyId: string,
+    ): Promise<BranchWithCompany[]> {
         return this.branchPool.getBranchesByCompanyId(companyId)
     }
 
@@ -112,20 +114,8 @@ class BranchService implements IBranchService {
             companyId: branch.companyId,
         }
 
-        const createdBranch = await this.branchPool.createBranch(branchToCreate)
-
-        // Emit branch created event
-
-        // await this.events.dispatchEvent({
-        //     type: "BRANCH_CREATED",
-        //     payload: {
-        //         branchId: createdBranch.id,
-        //         name: createdBranch.name,
-        //         companyId: createdBranch.companyId,
-        //     }
-        // })
-
-        return createdBranch
+        // The pool announces the branch in the same transaction
+        return this.branchPool.createBranch(branchToCreate)
     }
 
     async deleteBranch(id: string): Promise<void> {
@@ -6,8 +6,10 @@ import {
     RankingCalculationResult,
     JobRankingStatus,
     RankingEventPayload,
-    BulkRankingRequest,
     RankingInvalidationRequest,
+    RankingUpdate,
+    RankingUpdateListener,
+    IncrementalRankingResult,
 } from "types/candidate-ranking"
 
 export interface ICandidateRankingService {
@@ -23,10 +25,13 @@ export interface ICandidateRankingService {
     ): Promise<TopCandidatesResponse>
 
     /**
-     * Force recalculation of rankings for a job
+     * Force recalculation of rankings for a job. Recalculations requested
+     * while the job is being calculated are coalesced into one follow-up
+     * calculation, which records all of their triggers.
      * @param {string} jobId - The ID of the job
      * @param {string} triggerEvent - What triggered the recalculation
      * @returns {Promise<RankingCalculationResult>} - Calculation results
+     * @throws {ServiceError} - Conflict when another instance is calculating the job
      */
     recalculateJobRankings(
         jobId: string,
@@ -34,23 +39,30 @@ export interface ICandidateRankingService {
     ): Promise<RankingCalculationResult>
 
     /**
-     * Get ranking status for a job
+     * Recalculate rankings for a job unless they are being calculated already
      * @param {string} jobId - The ID of the job
-     * @returns {Promise<JobRankingStatus>} - Ranking status
+     * @param {string} triggerEvent - What triggered the recalculation
+     * @returns {Promise<RankingCalculationResult>} - Calculation results
+     * @throws {ServiceError} - Conflict when a calculation of the job is in progress
      */
-    getJobRankingStatus(jobId: string): Promise<JobRankingStatus>
+    requestJobRankingCalculation(
+        jobId: string,
+        triggerEvent: string,
+    ): Promise<RankingCalculationResult>
 
     /**
-     * Process multiple job rankings in batch
-     * @param {BulkRankingRequest} request - Bulk ranking request
-     * @returns {Promise<RankingCalculationResult[]>} - Results for each job
+     * Get ranking status for a job
+     * @param {string} jobId - The ID of the job
+     * @returns {Promise<JobRankingStatus>} - Ranking status
      */
-    processBulkRankings(
-        request: BulkRankingRequest,
-    ): Promise<RankingCalculationResult[]>
+    getJobRankingStatus(jobId: string): Promise<JobRankingStatus>
 
     /**
-     * Handle assessment submission event
+     * Handle assessment submission event. The assessment is ranked into the
+     * current rankings in place; rankings that are stale or follow an older
+     * scoring config are invalidated and recalculated instead. Like the other
+     * event handlers it rejects when the rankings could not be invalidated,
+     * so that the event is delivered again.
      * @param {string} assessmentId - The ID of the submitted assessment
      * @param {string} jobId - The ID of the job
      * @param {string} applicantId - The ID of the applicant
@@ -62,6 +74,22 @@ export interface ICandidateRankingService {
         applicantId: string,
     ): Promise<void>
 
+    /**
+     * Handle an assessment whose last pending answer has been graded
+     * @param {string} assessmentId - The ID of the graded assessment
+     * @param {string} jobId - The ID of the job
+     * @returns {Promise<void>}
+     */
+    handleAssessmentGraded(assessmentId: string, jobId: string): Promise<void>
+
+    /**
+     * Handle a question whose answers were re-graded or re-weighted
+     * @param {string} questionId - The ID of the changed question
+     * @param {string[]} jobIds - The IDs of the jobs with answers to it
+     * @returns {Promise<void>}
+     */
+    handleQuestionRegraded(questionId: string, jobIds: string[]): Promise<void>
+
     /**
      * Handle scoring config change event
      * @param {string} configId - The ID of the changed config
@@ -85,9 +113,36 @@ export interface ICandidateRankingService {
      * @returns {Promise<void>}
      */
     invalidateRankings(request: RankingInvalidationRequest): Promise<void>
+
+    /**
+     * Subscribe to the ranking updates of a job. Only updates of events
+     * relayed to this instance are received.
+     * @param {string} jobId - The ID of the job
+     * @param {RankingUpdateListener} listener - Called with every update of the job
+     * @returns {() => void} - Ends the subscription
+     */
+    subscribeToRankingUpdates(
+        jobId: string,
+        listener: RankingUpdateListener,
+    ): () => void
+}
+
+/**
+ * A calculation of a job's rankings in progress, and the follow-up
+ * calculation that recalculations requested meanwhile are coalesced into
+ */
+interface JobCalculation {
+    current: Promise<RankingCalculationResult>
+    next?: {
+        triggerEvents: string[]
+        result: Promise<RankingCalculationResult>
+    }
 }
 
 class CandidateRankingService implements ICandidateRankingService {
+    private readonly subscribers = new Map<string, Set<RankingUpdateListener>>()
+    private readonly calculations = new Map<string, JobCalculation>()
+
     constructor(
         private readonly pool: CandidateRankingPool,
         private readonly events: ITrueFitEventRelaying,
@@ -98,6 +153,7 @@ class CandidateRankingService implements ICandidateRankingService {
     private setupEventHandlers(): void {
         // Listen for assessment submissions
         this.events.listenForEvents(
+            "ranking-assessment-submitted",
             [TrueFitEventTypes.ASSESSMENT_SUBMITTED],
             async (event) => {
                 const payload = event.payload
@@ -109,8 +165,35 @@ class CandidateRankingService implements ICandidateRankingService {
             },
         )
 
+        // Listen for assessments whose manual grading has completed
+        this.events.listenForEvents(
+            "ranking-assessment-graded",
+            [TrueFitEventTypes.ASSESSMENT_GRADED],
+            async (event) => {
+                const payload = event.payload
+                await this.handleAssessmentGraded(
+                    payload.assessmentId,
+                    payload.jobId,
+                )
+            },
+        )
+
+        // Listen for questions whose answers were re-graded
+        this.events.listenForEvents(
+            "ranking-question-regraded",
+            [TrueFitEventTypes.QUESTION_REGRADED],
+            async (event) => {
+                const payload = event.payload
+                await this.handleQuestionRegraded(
+                    payload.questionId,
+                    payload.jobIds,
+                )
+            },
+        )
+
         // Listen for scoring config changes
         this.events.listenForEvents(
+            "ranking-scoring-config-changed",
             [TrueFitEventTypes.SCORING_CONFIG_CHANGED],
             async (event) => {
                 const payload = event.payload
@@ -123,14 +206,50 @@ class CandidateRankingService implements ICandidateRankingService {
 
         // Listen for job changes
         this.events.listenForEvents(
+            "ranking-job-updated",
             [TrueFitEventTypes.JOB_UPDATED],
             async (event) => {
                 const payload = event.payload
-                await this.pool.markRankingsStale(payload.jobId, "JOB_UPDATED")
+                await this.pool.markRankingsStale(
+                    [payload.jobId],
+                    "JOB_UPDATED",
+                )
+            },
+        )
+
+        // Stream ranking updates to the subscribers of their jobs
+        this.events.listenForEvents(
+            "ranking-stream",
+            [
+                TrueFitEventTypes.RANKING_CALCULATED,
+                TrueFitEventTypes.RANKING_INVALIDATED,
+                TrueFitEventTypes.ASSESSMENT_SUBMITTED,
+            ],
+            async (event) => {
+                this.notifySubscribers(event)
             },
         )
     }
 
+    subscribeToRankingUpdates(
+        jobId: string,
+        listener: RankingUpdateListener,
+    ): () => void {
+        const listeners = this.subscribers.get(jobId) ?? new Set()
+        listeners.add(listener)
+        this.subscribers.set(jobId, listeners)
+
+        return () => {
+            listeners.delete(listener)
+            if (
+                listeners.size === 0 &&
+                this.subscribers.get(jobId) === listeners
+            ) {
+                this.subscribers.delete(jobId)
+            }
+        }
+    }
+
     async getTopCandidates(
         jobId: string,
         limit = 5,
@@ -189,23 +308,80 @@ class CandidateRankingService implements ICandidateRankingService {
             )
         }
 
+        const calculation = this.calculations.get(jobId)
+        if (!calculation) {
+            return this.startCalculation(jobId, [triggerEvent])
+        }
+
+        // The calculation in progress may have missed what triggered this
+        // one, so the job is calculated once more after it
+        if (!calculation.next) {
+            const triggerEvents: string[] = []
+            calculation.next = {
+                triggerEvents,
+                result: calculation.current
+                    .catch(() => undefined)
+                    .then(() => this.startCalculation(jobId, triggerEvents)),
+            }
+        }
+        calculation.next.triggerEvents.push(triggerEvent)
+        return calculation.next.result
+    }
+
+    async requestJobRankingCalculation(
+        jobId: string,
+        triggerEvent: string,
+    ): Promise<RankingCalculationResult> {
+        if (this.calculations.has(jobId)) {
+            throw new ServiceError(
+                ServiceErrorType.Conflict,
+                "Rankings of the job are already being calculated",
+            )
+        }
+
+        return this.recalculateJobRankings(jobId, triggerEvent)
+    }
+
+    /**
+     * Calculate the rankings of a job as the job's calculation in progress
+     */
+    private startCalculation(
+        jobId: string,
+        triggerEvents: string[],
+    ): Promise<RankingCalculationResult> {
+        const current = this.calculate(jobId, triggerEvents).finally(() => {
+            const calculation = this.calculations.get(jobId)
+            if (calculation?.current === current && !calculation.next) {
+                this.calculations.delete(jobId)
+            }
+        })
+        this.calculations.set(jobId, { current })
+        return current
+    }
+
+    private async calculate(
+        jobId: string,
+        triggerEvents: string[],
+    ): Promise<RankingCalculationResult> {
         try {
-            const result = await this.pool.calculateJobRankings(
+            // Other instances calculate through the job's metadata too, the
+            // calculations in progress here only cover this one
+            const claimed = await this.pool.claimRankingCalculation(
                 jobId,
-                triggerEvent,
+                triggerEvents,
             )
+            if (!claimed) {
+                throw new ServiceError(
+                    ServiceErrorType.Conflict,
+                    "Rankings of the job are already being calculated",
+                )
+            }
 
-            // Emit event for successful calculation
-            await this.events.dispatchEvent({
-                type: TrueFitEventTypes.RANKING_CALCULATED,
-                payload: {
-                    jobId,
-                    totalCandidates: result.totalCandidates,
-                    calculationDuration: result.calculationDuration,
-                },
-            })
-
-            return result
+            return await this.pool.calculateJobRankings(
+                jobId,
+                triggerEvents[triggerEvents.length - 1],
+                triggerEvents,
+            )
         } catch (err) {
             if (err instanceof ServiceError) {
                 throw err
@@ -251,128 +427,106 @@ class CandidateRankingService implements ICandidateRankingService {
         }
     }
 
-    async processBulkRankings(
-        request: BulkRankingRequest,
-    ): Promise<RankingCalculationResult[]> {
-        if (!request.jobIds || request.jobIds.length === 0) {
-            throw new ServiceError(
-                ServiceErrorType.InvalidInput,
-                "Job IDs are required",
-            )
-        }
-
-        if (request.jobIds.length > 50) {
-            throw new ServiceError(
-                ServiceErrorType.InvalidInput,
-                "Cannot process more than 50 jobs at once",
+    async handleAssessmentSubmitted(
+        assessmentId: string,
+        jobId: string,
+        applicantId: string,
+    ): Promise<void> {
+        // Rank the new assessment into the current rankings when they are
+        // up to date, which spares rewriting every ranking of the job
+        let update: IncrementalRankingResult | null = null
+        try {
+            update = await this.pool.applyAssessmentToRankings(
+                jobId,
+                assessmentId,
+                "ASSESSMENT_SUBMITTED",
             )
+        } catch (err) {
+            console.error("Incremental ranking update failed:", err)
         }
-
-        const results: RankingCalculationResult[] = []
-        const errors: Array<{ jobId: string; error: string }> = []
-
-        // Process jobs with controlled concurrency
-        const batchSize = request.priority === "high" ? 5 : 2
-        for (let i = 0; i < request.jobIds.length; i += batchSize) {
-            const batch = request.jobIds.slice(i, i + batchSize)
-
-            const batchPromises = batch.map(async (jobId) => {
-                try {
-                    const result = await this.recalculateJobRankings(
-                        jobId,
-                        request.triggerEvent,
-                    )
-                    results.push(result)
-                } catch (err) {
-                    errors.push({
-                        jobId,
-                        error:
-                            err instanceof Error
-                                ? err.message
-                                : "Unknown error",
-                    })
-                }
-            })
-
-            await Promise.allSettled(batchPromises)
-
-            // Add delay between batches for normal priority
-            if (
-                request.priority === "normal" &&
-                i + batchSize < request.jobIds.length
-            ) {
-                await new Promise((resolve) => setTimeout(resolve, 1000))
-            }
+        if (update) {
+            return
         }
 
-        if (errors.length > 0) {
-            console.error("Bulk ranking errors:", errors)
-        }
+        // Failing to invalidate is left to the event dispatcher to retry
+        await this.pool.markRankingsStale(
+            [jobId],
+            `ASSESSMENT_SUBMITTED:${assessmentId}`,
+        )
 
-        return results
+        // For high-impact events (new assessments), trigger immediate recalculation
+        // Don't await - let it run in background
+        this.recalculateJobRankings(jobId, "ASSESSMENT_SUBMITTED").catch(
+            (err) => {
+                console.error("Assessment-triggered recalculation failed:", err)
+            },
+        )
     }
 
-    async handleAssessmentSubmitted(
+    async handleAssessmentGraded(
         assessmentId: string,
         jobId: string,
-        applicantId: string,
     ): Promise<void> {
-        try {
-            await this.pool.markRankingsStale(
-                jobId,
-                `ASSESSMENT_SUBMITTED:${assessmentId}`,
-            )
+        await this.pool.markRankingsStale(
+            [jobId],
+            `ASSESSMENT_GRADED:${assessmentId}`,
+        )
 
-            // For high-impact events (new assessments), trigger immediate recalculation
-            // Don't await - let it run in background
-            this.recalculateJobRankings(jobId, "ASSESSMENT_SUBMITTED").catch(
-                (err) => {
-                    console.error(
-                        "Assessment-triggered recalculation failed:",
-                        err,
-                    )
-                },
-            )
-        } catch (err) {
-            console.error("Failed to handle assessment submission:", err)
-        }
+        // Grading settles the candidate's final score, so recalculate now
+        // Don't await - let it run in background
+        this.recalculateJobRankings(jobId, "ASSESSMENT_GRADED").catch((err) => {
+            console.error("Grading-triggered recalculation failed:", err)
+        })
+    }
+
+    async handleQuestionRegraded(
+        questionId: string,
+        jobIds: string[],
+    ): Promise<void> {
+        await this.pool.markRankingsStale(
+            jobIds,
+            `QUESTION_REGRADED:${questionId}`,
+        )
+
+        // A question can be shared by several jobs, so recalculate them
+        // in the background like a config change
+        this.scheduleStaleJobRecalculations().catch((err) => {
+            console.error("Regrade-triggered recalculation failed:", err)
+        })
     }
 
     async handleScoringConfigChanged(
         configId: string,
         jobId: string | null,
     ): Promise<void> {
-        try {
-            await this.pool.invalidateRankings({
-                jobId: jobId || undefined,
-                scoringConfigId: jobId ? undefined : configId,
-                triggerEvent: `SCORING_CONFIG_CHANGED:${configId}`,
-            })
-
-            // For config changes, schedule background recalculation
-            // Don't trigger immediate recalculation as it affects multiple jobs
-            this.scheduleStaleJobRecalculations().catch((err) => {
-                console.error("Config-triggered recalculation failed:", err)
-            })
-        } catch (err) {
-            console.error("Failed to handle scoring config change:", err)
-        }
+        await this.pool.invalidateRankings({
+            jobId: jobId || undefined,
+            scoringConfigId: jobId ? undefined : configId,
+            triggerEvent: `SCORING_CONFIG_CHANGED:${configId}`,
+        })
+
+        // For config changes, schedule background recalculation
+        // Don't trigger immediate recalculation as it affects multiple jobs
+        this.scheduleStaleJobRecalculations().catch((err) => {
+            console.error("Config-triggered recalculation failed:", err)
+        })
     }
 
     async scheduleStaleJobRecalculations(): Promise<void> {
         try {
             const staleJobs = await this.pool.getJobsNeedingRecalculation(10)
 
-            if (staleJobs.length === 0) {
-                return
+            for (const jobId of staleJobs) {
+                await this.recalculateJobRankings(
+                    jobId,
+                    "SCHEDULED_RECALCULATION",
+                ).catch((err) => {
+                    console.error(
+                        `Scheduled recalculation of job ${jobId} failed:`,
+                        err,
+                    )
+                })
             }
-
-            // Process stale jobs with normal priority
-            await this.processBulkRankings({
-                jobIds: staleJobs,
-                triggerEvent: "SCHEDULED_RECALCULATION",
-                priority: "normal",
-            })
         } catch (err) {
             console.error("Failed to schedule stale job recalculations:", err)
         }
@@ -393,6 +547,27 @@ class CandidateRankingService implements ICandidateRankingService {
             )
         }
     }
+
+    private notifySubscribers(update: RankingUpdate): void {
+        const jobIds =
+            update.type === TrueFitEventTypes.RANKING_INVALIDATED
+                ? update.payload.jobIds
+                : [update.payload.jobId]
+
+        for (const jobId of jobIds) {
+            for (const listener of this.subscribers.get(jobId) ?? []) {
+                // A failing subscriber must not fail the event delivery
+                try {
+                    listener(update)
+                } catch (err) {
+                    console.error(
+                        `Failed to notify ranking subscriber of job ${jobId}:`,
+                        err,
+                    )
+                }
+            }
+        }
+    }
 }
 
 export default function getCandidateRankingService(
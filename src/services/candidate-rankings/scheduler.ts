@@ -0,0 +1,192 @@
+import { RankingSchedulerRunStatus } from "@prisma/client"
+import Poller from "helpers/poller"
+import { CandidateRankingPool } from "persistence/db/pool/candidate-rankings"
+import { RankingSchedulerPool } from "persistence/db/pool/ranking-scheduler"
+import { Logger } from "types/logging"
+import {
+    RankingSchedulerOptions,
+    RankingSchedulerRun,
+} from "types/ranking-scheduler"
+import { ICandidateRankingService } from "."
+
+const DEFAULT_OPTIONS: RankingSchedulerOptions = {
+    intervalMs: 60 * 1000,
+    batchSize: 10,
+    maxJobsPerRun: 100,
+    lockTimeoutMs: 10 * 60 * 1000,
+}
+
+/**
+ * Recalculates stale and failed job rankings in the background. Only one
+ * instance runs the scheduler at a time, and every run that found work is
+ * recorded.
+ */
+export default class RankingScheduler {
+    private readonly options: RankingSchedulerOptions
+    private readonly poller: Poller
+    private running: Promise<RankingSchedulerRun | null> | null = null
+
+    constructor(
+        private readonly pool: RankingSchedulerPool,
+        private readonly rankingPool: CandidateRankingPool,
+        private readonly rankings: ICandidateRankingService,
+        private readonly logger: Logger,
+        options: Partial<RankingSchedulerOptions> = {},
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+        this.poller = new Poller(
+            "Ranking scheduler",
+            async () => {
+                const run = await this.runOnce()
+                // A run that hit its cap leaves stale jobs behind
+                return (
+                    !!run &&
+                    run.jobsRecalculated + run.jobsFailed >=
+                        this.options.maxJobsPerRun
+                )
+            },
+            this.options.intervalMs,
+            logger,
+        )
+    }
+
+    /**
+     * Recalculate the rankings that are currently stale or failed.
+     * Concurrent calls share the run that is already in progress.
+     * @returns {Promise<RankingSchedulerRun | null>} - The recorded run, or null if there was nothing to do or another instance is running
+     */
+    runOnce(): Promise<RankingSchedulerRun | null> {
+        if (!this.running) {
+            this.running = this.pool
+                .withSchedulerLock(
+                    (deadline) => this.drainStaleRankings(deadline),
+                    this.options.lockTimeoutMs,
+                )
+                .finally(() => {
+                    this.running = null
+                })
+        }
+        return this.running
+    }
+
+    /**
+     * Get the latest recorded runs, most recent first
+     * @param {number} limit - Maximum number of runs to return
+     * @returns {Promise<RankingSchedulerRun[]>} - The runs
+     */
+    getRecentRuns(limit?: number): Promise<RankingSchedulerRun[]> {
+        return this.pool.getRecentRuns(limit)
+    }
+
+    /**
+     * Start recalculating stale rankings on the configured interval
+     */
+    start(): void {
+        this.poller.start()
+    }
+
+    /**
+     * Stop the scheduler and wait for the current run to finish
+     */
+    stop(): Promise<void> {
+        return this.poller.stop()
+    }
+
+    /**
+     * Recalculate stale rankings until none are left, the run hits its cap
+     * or the scheduler lock is about to be released. Another instance can
+     * take the lock from then on, so no job is started that might not
+     * finish before the deadline, judging by the slowest one so far.
+     */
+    private async drainStaleRankings(
+        deadline: Date,
+    ): Promise<RankingSchedulerRun | null> {
+        const startedAt = new Date()
+        const attempted = new Set<string>()
+        const failedJobIds: string[] = []
+        let errorMessage: string | null = null
+        let slowestMs = 0
+        let outOfTime = false
+
+        try {
+            while (!outOfTime && attempted.size < this.options.maxJobsPerRun) {
+                // Jobs failing again are left for the next run
+                const jobIds =
+                    await this.rankingPool.getJobsNeedingRecalculation(
+                        Math.min(
+                            this.options.batchSize,
+                            this.options.maxJobsPerRun - attempted.size,
+                        ),
+                        [...attempted],
+                    )
+                if (jobIds.length === 0) {
+                    break
+                }
+
+                for (const jobId of jobIds) {
+                    if (Date.now() + slowestMs >= deadline.getTime()) {
+                        this.logger.warn(
+                            { jobsAttempted: attempted.size },
+                            "Scheduler lock is about to expire, leaving the rest to the next run",
+                        )
+                        outOfTime = true
+                        break
+                    }
+
+                    attempted.add(jobId)
+                    const jobStartedAt = Date.now()
+                    try {
+                        await this.rankings.recalculateJobRankings(
+                            jobId,
+                            "SCHEDULED_RECALCULATION",
+                        )
+                    } catch (err) {
+                        this.logger.warn(
+                            { err, jobId },
+                            "Scheduled ranking recalculation failed",
+                        )
+                        failedJobIds.push(jobId)
+                    }
+                    slowestMs = Math.max(slowestMs, Date.now() - jobStartedAt)
+                }
+            }
+        } catch (err) {
+            errorMessage = err instanceof Error ? err.message : String(err)
+        }
+
+        if (attempted.size === 0 && !errorMessage) {
+            return null
+        }
+
+        const jobsRecalculated = attempted.size - failedJobIds.length
+        return this.pool.recordRun({
+            status: this.runStatus(
+                jobsRecalculated,
+                failedJobIds.length,
+                errorMessage,
+            ),
+            jobsRecalculated,
+            jobsFailed: failedJobIds.length,
+            failedJobIds,
+            errorMessage,
+            startedAt,
+            finishedAt: new Date(),
+        })
+    }
+
+    /**
+     * A run fails when it was aborted or none of its jobs could be recalculated
+     */
+    private runStatus(
+        jobsRecalculated: number,
+        jobsFailed: number,
+        errorMessage: string | null,
+    ): RankingSchedulerRunStatus {
+        if (errorMessage || (jobsFailed > 0 && jobsRecalculated === 0)) {
+            return RankingSchedulerRunStatus.FAILED
+        }
+        return jobsFailed > 0
+            ? RankingSchedulerRunStatus.PARTIALLY_FAILED
+            : RankingSchedulerRunStatus.SUCCEEDED
+    }
+}
@@ -111,17 +111,7 @@ class CompanyService implements ICompanyService {
             ])
         }
 
-        // Emit company created event
-
-        // await this.events.dispatchEvent({
-        //     type: "COMPANY_CREATED",
-        //     payload: {
-        //         companyId: result.id,
-        //         name: result.name,
-        //         branchCount: result.branches.length,
-        //     }
-        // })
-
+        // The pool announces the company in the same transaction
         return result
     }
 
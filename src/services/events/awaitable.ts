@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto"
 import {
     ITrueFitEventRelaying,
     TrueFitEvent,
@@ -12,21 +13,25 @@ export default class AwaitableEventRelaying implements ITrueFitEventRelaying {
     private listeners = new Map<TrueFitEventTypes, TrueFitEventListener[]>()
 
     async dispatchEvent(event: TrueFitEvent): Promise<void> {
+        const eventId = randomUUID()
         await Promise.all(
-            this.listeners.get(event.type)?.map((l) => l(event)) ?? [],
+            this.listeners.get(event.type)?.map((l) => l(event, eventId)) ?? [],
         )
     }
 
-    listenForEvents(
-        eventTypes: TrueFitEventTypes[],
-        listener: TrueFitEventListener,
+    listenForEvents<T extends TrueFitEventTypes>(
+        _name: string,
+        eventTypes: T[],
+        listener: TrueFitEventListener<T>,
     ): void {
+        // Listeners are only called with events of the types they listen for
+        const l = listener as TrueFitEventListener
         for (const t of eventTypes) {
             const arr = this.listeners.get(t)
             if (arr) {
-                arr.push(listener)
+                arr.push(l)
             } else {
-                this.listeners.set(t, [listener])
+                this.listeners.set(t, [l])
             }
         }
     }
@@ -1,3 +1,7 @@
+import { JobStatus } from "@prisma/client"
+import { JobUpdate } from "types/job"
+import { ScoringConfigUpdate } from "types/scoring"
+
 /**
  * Different types of events that may occur in the system.
  */
@@ -5,6 +9,8 @@ export enum TrueFitEventTypes {
     APPLICANT_REGISTERED = "APPLICANT_REGISTERED",
     ASSESSMENT_SUBMITTED = "ASSESSMENT_SUBMITTED",
     ASSESSMENT_SCORED = "ASSESSMENT_SCORED",
+    ASSESSMENT_GRADED = "ASSESSMENT_GRADED",
+    QUESTION_REGRADED = "QUESTION_REGRADED",
     JOB_CREATED = "JOB_CREATED",
     JOB_UPDATED = "JOB_UPDATED",
     JOB_DEACTIVATED = "JOB_DEACTIVATED",
@@ -17,14 +23,125 @@ export enum TrueFitEventTypes {
     RANKING_INVALIDATED = "RANKING_INVALIDATED",
 }
 
-export type TrueFitEvent = {
-    type: TrueFitEventTypes
-    payload: any
+/**
+ * A candidate in the match results of a job
+ */
+export interface MatchedCandidate {
+    applicantId: string
+    assessmentId: string
+    rank: number
+    score: number
+    percentage: number
+}
+
+/**
+ * Payload of every event type. Payloads are stored as JSON by the event
+ * outbox, so they only hold JSON values.
+ */
+export interface TrueFitEventPayloads {
+    [TrueFitEventTypes.APPLICANT_REGISTERED]: {
+        applicantId: string
+        email: string
+        name: string
+    }
+    [TrueFitEventTypes.ASSESSMENT_SUBMITTED]: {
+        assessmentId: string
+        applicantId: string
+        templateId: string
+        jobId: string
+        answersCount: number
+    }
+    /** The assessment has a final score, i.e. no answers await review */
+    [TrueFitEventTypes.ASSESSMENT_SCORED]: {
+        assessmentId: string
+        applicantId: string
+        jobId: string
+        score: number
+        maxPossibleScore: number
+        percentage: number
+    }
+    [TrueFitEventTypes.ASSESSMENT_GRADED]: {
+        assessmentId: string
+        applicantId: string
+        jobId: string
+        gradedById: string
+    }
+    [TrueFitEventTypes.QUESTION_REGRADED]: {
+        questionId: string
+        jobIds: string[]
+        flipped: number
+    }
+    [TrueFitEventTypes.JOB_CREATED]: {
+        jobId: string
+        title: string
+        branchId: string
+    }
+    [TrueFitEventTypes.JOB_UPDATED]: {
+        jobId: string
+        branchId: string
+        changes: JobUpdate
+    }
+    /** The job stopped being open */
+    [TrueFitEventTypes.JOB_DEACTIVATED]: {
+        jobId: string
+        branchId: string
+        status: JobStatus
+    }
+    /** The applicant applied to the job by submitting one of its assessments */
+    [TrueFitEventTypes.APPLICANT_MATCHED]: {
+        applicantId: string
+        jobId: string
+        applicationId: string
+    }
+    /** The best candidates of a recalculated job ranking */
+    [TrueFitEventTypes.MATCH_RESULTS_GENERATED]: {
+        jobId: string
+        candidates: MatchedCandidate[]
+    }
+    [TrueFitEventTypes.COMPANY_REGISTERED]: {
+        companyId: string
+        name: string
+        branchCount: number
+    }
+    [TrueFitEventTypes.BRANCH_CREATED]: {
+        branchId: string
+        name: string
+        companyId: string
+    }
+    [TrueFitEventTypes.SCORING_CONFIG_CHANGED]: {
+        configId: string
+        isDefault: boolean
+        jobId: string | null
+        action: "created" | "updated" | "deleted" | "applied"
+        changes?: ScoringConfigUpdate
+    }
+    [TrueFitEventTypes.RANKING_CALCULATED]: {
+        jobId: string
+        totalCandidates: number
+        calculationDuration: number
+    }
+    [TrueFitEventTypes.RANKING_INVALIDATED]: {
+        jobIds: string[]
+        reason: string
+    }
 }
+
+/**
+ * An event of one of the given types, discriminated by its type
+ */
+export type TrueFitEvent<T extends TrueFitEventTypes = TrueFitEventTypes> = {
+    [K in T]: {
+        type: K
+        payload: TrueFitEventPayloads[K]
+    }
+}[T]
 /**
- * An event listener can be used to listen for dispatched events
+ * An event listener can be used to listen for dispatched events. Events can
+ * be delivered more than once, with the same ID every time.
  */
-export type TrueFitEventListener = (event: TrueFitEvent) => Promise<void>
+export type TrueFitEventListener<
+    T extends TrueFitEventTypes = TrueFitEventTypes,
+> = (event: TrueFitEvent<T>, eventId: string) => Promise<void>
 /**
  * Interface for relaying events
  */
@@ -36,11 +153,13 @@ export interface ITrueFitEventRelaying {
     dispatchEvent(event: TrueFitEvent): Promise<void>
     /**
      * Listen for events of specified types
+     * @param {string} name - Unique name of the listener, under which its deliveries are recorded
      * @param {TrueFitEventTypes[]} eventTypes - Types of events that should be listened for
      * @param {TrueFitEventListener} listener - Callback function that will be called when an event is dispatched
      */
-    listenForEvents(
-        eventTypes: TrueFitEventTypes[],
-        listener: TrueFitEventListener,
+    listenForEvents<T extends TrueFitEventTypes>(
+        name: string,
+        eventTypes: T[],
+        listener: TrueFitEventListener<T>,
     ): void
 }
@@ -0,0 +1,210 @@
+import Poller from "helpers/poller"
+import { OutboxEventPool } from "persistence/db/pool/outbox-events"
+import { Logger } from "types/logging"
+import { OutboxDispatchOptions, OutboxEvent } from "types/outbox"
+import {
+    ITrueFitEventRelaying,
+    TrueFitEvent,
+    TrueFitEventListener,
+    TrueFitEventTypes,
+} from "."
+
+const DEFAULT_OPTIONS: OutboxDispatchOptions = {
+    batchSize: 50,
+    maxAttempts: 8,
+    baseRetryDelayMs: 1000,
+    maxRetryDelayMs: 5 * 60 * 1000,
+    leaseMs: 60 * 1000,
+    pollIntervalMs: 1000,
+}
+
+/**
+ * A listener along with the name its deliveries are recorded under
+ */
+interface NamedListener {
+    name: string
+    listener: TrueFitEventListener
+}
+
+/**
+ * Durable event relay backed by the outbox table. Dispatched events are
+ * stored first and delivered to listeners by a polling dispatcher, so they
+ * survive restarts. Failed deliveries are retried with exponential backoff
+ * and dead-lettered once they run out of attempts. Retries only go to the
+ * listeners that failed.
+ */
+export default class OutboxEventRelaying implements ITrueFitEventRelaying {
+    private listeners = new Map<TrueFitEventTypes, NamedListener[]>()
+    private readonly options: OutboxDispatchOptions
+    private readonly poller: Poller
+    private delivering: Promise<number> | null = null
+
+    constructor(
+        private readonly pool: OutboxEventPool,
+        private readonly logger: Logger,
+        options: Partial<OutboxDispatchOptions> = {},
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+        // Keep going while full batches are coming in
+        this.poller = new Poller(
+            "Outbox event delivery",
+            async () =>
+                (await this.deliverDueEvents()) >= this.options.batchSize,
+            this.options.pollIntervalMs,
+            logger,
+        )
+    }
+
+    async dispatchEvent(event: TrueFitEvent): Promise<void> {
+        await this.pool.enqueueEvents([event])
+        this.poller.trigger()
+    }
+
+    listenForEvents<T extends TrueFitEventTypes>(
+        name: string,
+        eventTypes: T[],
+        listener: TrueFitEventListener<T>,
+    ): void {
+        // Listeners are only called with events of the types they listen for
+        const l = { name, listener: listener as TrueFitEventListener }
+        for (const t of eventTypes) {
+            if (this.listeners.get(t)?.some((other) => other.name === name)) {
+                throw new Error(`Event listener ${name} is already registered`)
+            }
+        }
+        for (const t of eventTypes) {
+            const arr = this.listeners.get(t)
+            if (arr) {
+                arr.push(l)
+            } else {
+                this.listeners.set(t, [l])
+            }
+        }
+    }
+
+    /**
+     * Deliver the events that are currently due. Concurrent calls share the
+     * delivery round that is already in progress.
+     * @returns {Promise<number>} - The number of events delivered
+     */
+    deliverDueEvents(): Promise<number> {
+        if (!this.delivering) {
+            this.delivering = this.deliverBatch().finally(() => {
+                this.delivering = null
+            })
+        }
+        return this.delivering
+    }
+
+    /**
+     * Start polling the outbox for due events
+     */
+    start(): void {
+        this.poller.start()
+    }
+
+    /**
+     * Stop polling and wait for the current delivery round to finish
+     */
+    stop(): Promise<void> {
+        return this.poller.stop()
+    }
+
+    private async deliverBatch(): Promise<number> {
+        const events = await this.pool.claimDueEvents(
+            this.options.batchSize,
+            this.options.leaseMs,
+        )
+
+        for (const event of events) {
+            await this.deliver(event)
+        }
+
+        return events.length
+    }
+
+    private async deliver(event: OutboxEvent): Promise<void> {
+        const type = event.type as TrueFitEventTypes
+        // Listeners that handled the event on an earlier attempt are skipped
+        const listeners = (this.listeners.get(type) ?? []).filter(
+            ({ name }) => !event.deliveredTo.includes(name),
+        )
+
+        // Stored events were written from a typed TrueFitEvent
+        const stored = { type, payload: event.payload } as TrueFitEvent
+        const results = await Promise.allSettled(
+            listeners.map(({ listener }) => listener(stored, event.id)),
+        )
+
+        const delivered: string[] = []
+        const errors: string[] = []
+        results.forEach((result, i) => {
+            const { name } = listeners[i]
+            if (result.status === "fulfilled") {
+                delivered.push(name)
+            } else {
+                const err = result.reason
+                errors.push(
+                    `${name}: ${
+                        err instanceof Error ? err.message : String(err)
+                    }`,
+                )
+            }
+        })
+
+        if (errors.length > 0) {
+            const error = errors.join("; ")
+            const retryAt =
+                event.attempts < this.options.maxAttempts
+                    ? new Date(Date.now() + this.retryDelay(event.attempts))
+                    : null
+            if (retryAt) {
+                this.logger.warn(
+                    { eventId: event.id, type, attempts: event.attempts },
+                    `Failed to deliver event, retrying: ${error}`,
+                )
+            } else {
+                this.logger.error(
+                    { eventId: event.id, type, attempts: event.attempts },
+                    `Failed to deliver event, dead-lettering it: ${error}`,
+                )
+            }
+            const recorded = await this.pool.markFailed(
+                event,
+                error,
+                retryAt,
+                delivered,
+            )
+            if (!recorded) {
+                this.logLostClaim(event)
+            }
+            return
+        }
+
+        const recorded = await this.pool.markDelivered(event)
+        if (!recorded) {
+            this.logLostClaim(event)
+        }
+    }
+
+    /**
+     * The event's lease ran out during delivery and another dispatcher
+     * claimed it, so the outcome is left for that dispatcher to record
+     */
+    private logLostClaim(event: OutboxEvent): void {
+        this.logger.warn(
+            { eventId: event.id, type: event.type, attempts: event.attempts },
+            "Event was reclaimed during delivery, not recording the outcome",
+        )
+    }
+
+    /**
+     * Delay before the next attempt, doubling after every failed one
+     */
+    private retryDelay(attempts: number): number {
+        return Math.min(
+            this.options.baseRetryDelayMs * 2 ** (attempts - 1),
+            this.options.maxRetryDelayMs,
+        )
+    }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto"
 import { Subject, filter } from "rxjs"
 import {
     ITrueFitEventRelaying,
@@ -10,18 +11,25 @@ import {
  * Does not support awaiting of event dispatching.
  */
 export default class RxEventHandler implements ITrueFitEventRelaying {
-    private eventSubject: Subject<TrueFitEvent> = new Subject<TrueFitEvent>()
+    private eventSubject = new Subject<{
+        event: TrueFitEvent
+        eventId: string
+    }>()
 
     async dispatchEvent(event: TrueFitEvent): Promise<void> {
-        this.eventSubject.next(event)
+        this.eventSubject.next({ event, eventId: randomUUID() })
     }
 
-    listenForEvents(
-        eventTypes: TrueFitEventTypes[],
-        listener: TrueFitEventListener,
+    listenForEvents<T extends TrueFitEventTypes>(
+        _name: string,
+        eventTypes: T[],
+        listener: TrueFitEventListener<T>,
     ): void {
+        // Listeners are only called with events of the types they listen for
+        const types: TrueFitEventTypes[] = eventTypes
+        const l = listener as TrueFitEventListener
         this.eventSubject
-            .pipe(filter((event) => eventTypes.includes(event.type)))
-            .subscribe(listener)
+            .pipe(filter(({ event }) => types.includes(event.type)))
+            .subscribe(({ event, eventId }) => l(event, eventId))
     }
 }
@@ -25,6 +25,15 @@ import getScoringConfigService, {
 import getCandidateRankingService, {
     ICandidateRankingService,
 } from "./candidate-rankings"
+import RankingScheduler from "./candidate-rankings/scheduler"
+import getRankingBatchService, { IRankingBatchService } from "./ranking-batches"
+import RankingBatchWorker from "./ranking-batches/worker"
+import getRankingSnapshotService, {
+    IRankingSnapshotService,
+} from "./ranking-snapshots"
+import getJobApplicationService, {
+    IJobApplicationService,
+} from "./job-applications"
 import getJobPool from "persistence/db/pool/jobs"
 import getApplicantPool from "persistence/db/pool/applicants"
 import getJobApplicationPool from "persistence/db/pool/job-applications"
@@ -34,6 +43,22 @@ import getApplicantAssessmentPool from "persistence/db/pool/applicant-assessment
 import getApplicantAnswerPool from "persistence/db/pool/applicant-answers"
 import getScoringConfigPool from "persistence/db/pool/scoring-configs"
 import getCandidateRankingPool from "persistence/db/pool/candidate-rankings"
+import getRankingSchedulerPool from "persistence/db/pool/ranking-scheduler"
+import getRankingBatchPool from "persistence/db/pool/ranking-batches"
+import getRankingSnapshotPool from "persistence/db/pool/ranking-snapshots"
+import getOutboxEventService, { IOutboxEventService } from "./outbox-events"
+import getOutboxEventPool from "persistence/db/pool/outbox-events"
+import getWebhookService, { IWebhookService } from "./webhooks"
+import WebhookDispatcher from "./webhooks/dispatcher"
+import getWebhookPool from "persistence/db/pool/webhooks"
+import getRoleService, { IRoleService } from "./roles"
+import getRolePool from "persistence/db/pool/roles"
+import getBranchAssignmentService, {
+    IBranchAssignmentService,
+} from "./branch-assignments"
+import getBranchAssignmentPool from "persistence/db/pool/branch-assignments"
+import getApiKeyService, { IApiKeyService } from "./api-keys"
+import getApiKeyPool from "persistence/db/pool/api-keys"
 
 /**
  * Pool registry interface for direct database access
@@ -51,6 +76,14 @@ export interface PoolRegistry {
     getApplicantAnswerPool(): ReturnType<typeof getApplicantAnswerPool>
     getScoringConfigPool(): ReturnType<typeof getScoringConfigPool>
     getCandidateRankingPool(): ReturnType<typeof getCandidateRankingPool>
+    getOutboxEventPool(): ReturnType<typeof getOutboxEventPool>
+    getWebhookPool(): ReturnType<typeof getWebhookPool>
+    getRankingSchedulerPool(): ReturnType<typeof getRankingSchedulerPool>
+    getRankingBatchPool(): ReturnType<typeof getRankingBatchPool>
+    getRankingSnapshotPool(): ReturnType<typeof getRankingSnapshotPool>
+    getRolePool(): ReturnType<typeof getRolePool>
+    getBranchAssignmentPool(): ReturnType<typeof getBranchAssignmentPool>
+    getApiKeyPool(): ReturnType<typeof getApiKeyPool>
 }
 
 /**
@@ -67,6 +100,15 @@ export interface ServiceRegistry {
     getApplicantAssessmentService(): IApplicantAssessmentService
     getScoringConfigService(): IScoringConfigService
     getCandidateRankingService(): ICandidateRankingService
+    getJobApplicationService(): IJobApplicationService
+    getOutboxEventService(): IOutboxEventService
+    getWebhookService(): IWebhookService
+    getRankingScheduler(): RankingScheduler
+    getRankingBatchService(): IRankingBatchService
+    getRankingSnapshotService(): IRankingSnapshotService
+    getRoleService(): IRoleService
+    getBranchAssignmentService(): IBranchAssignmentService
+    getApiKeyService(): IApiKeyService
 }
 
 export class Services implements ServiceRegistry, PoolRegistry {
@@ -88,6 +130,8 @@ export class Services implements ServiceRegistry, PoolRegistry {
     private initializeEventListeners(): void {
         // Initialize CandidateRankingService to register ASSESSMENT_SUBMITTED event listeners
         this.getCandidateRankingService()
+        // Initialize WebhookService to forward events to subscribers
+        this.getWebhookService()
     }
 
     private getService(name: string): any {
@@ -193,18 +237,18 @@ export class Services implements ServiceRegistry, PoolRegistry {
                 this.db,
                 this.logger,
             )
-            const jobApplicationPool = getJobApplicationPool(
+            const assessmentTemplatePool = getAssessmentTemplatePool(
                 this.db,
                 this.logger,
             )
-            const assessmentTemplatePool = getAssessmentTemplatePool(
+            const assessmentQuestionPool = getAssessmentQuestionPool(
                 this.db,
                 this.logger,
             )
             const applicantAssessmentService = getApplicantAssessmentService(
                 applicantAssessmentPool,
-                jobApplicationPool,
                 assessmentTemplatePool,
+                assessmentQuestionPool,
                 this.events,
             )
             this.services.set(
@@ -245,6 +289,172 @@ export class Services implements ServiceRegistry, PoolRegistry {
         return this.services.get("candidateRankingService")
     }
 
+    getJobApplicationService(): IJobApplicationService {
+        if (!this.services.has("jobApplicationService")) {
+            const jobApplicationPool = getJobApplicationPool(
+                this.db,
+                this.logger,
+            )
+            const jobPool = getJobPool(this.db, this.logger)
+            const jobApplicationService = getJobApplicationService(
+                jobApplicationPool,
+                jobPool,
+                this.events,
+            )
+            this.services.set("jobApplicationService", jobApplicationService)
+        }
+        return this.services.get("jobApplicationService")
+    }
+
+    getOutboxEventService(): IOutboxEventService {
+        if (!this.services.has("outboxEventService")) {
+            const outboxEventPool = getOutboxEventPool(this.db, this.logger)
+            const outboxEventService = getOutboxEventService(outboxEventPool)
+            this.services.set("outboxEventService", outboxEventService)
+        }
+        return this.services.get("outboxEventService")
+    }
+
+    getWebhookService(): IWebhookService {
+        if (!this.services.has("webhookService")) {
+            const webhookPool = getWebhookPool(this.db, this.logger)
+            const companyPool = getCompanyPool(this.db, this.logger)
+            const webhookService = getWebhookService(
+                webhookPool,
+                companyPool,
+                this.getWebhookDispatcher(),
+                this.events,
+            )
+            this.services.set("webhookService", webhookService)
+        }
+        return this.services.get("webhookService")
+    }
+
+    getRoleService(): IRoleService {
+        if (!this.services.has("roleService")) {
+            const rolePool = getRolePool(this.db, this.logger)
+            const companyPool = getCompanyPool(this.db, this.logger)
+            const userPool = getUserPool(this.db, this.logger)
+            const branchPool = getBranchPool(this.db, this.logger)
+            const roleService = getRoleService(
+                rolePool,
+                companyPool,
+                userPool,
+                branchPool,
+            )
+            this.services.set("roleService", roleService)
+        }
+        return this.services.get("roleService")
+    }
+
+    getBranchAssignmentService(): IBranchAssignmentService {
+        if (!this.services.has("branchAssignmentService")) {
+            const branchAssignmentPool = getBranchAssignmentPool(
+                this.db,
+                this.logger,
+            )
+            const branchPool = getBranchPool(this.db, this.logger)
+            const userPool = getUserPool(this.db, this.logger)
+            const branchAssignmentService = getBranchAssignmentService(
+                branchAssignmentPool,
+                branchPool,
+                userPool,
+            )
+            this.services.set(
+                "branchAssignmentService",
+                branchAssignmentService,
+            )
+        }
+        return this.services.get("branchAssignmentService")
+    }
+
+    getApiKeyService(): IApiKeyService {
+        if (!this.services.has("apiKeyService")) {
+            const apiKeyPool = getApiKeyPool(this.db, this.logger)
+            const companyPool = getCompanyPool(this.db, this.logger)
+            const apiKeyService = getApiKeyService(apiKeyPool, companyPool)
+            this.services.set("apiKeyService", apiKeyService)
+        }
+        return this.services.get("apiKeyService")
+    }
+
+    /**
+     * The dispatcher sending queued webhook deliveries, shared by every
+     * user of this registry
+     */
+    getWebhookDispatcher(): WebhookDispatcher {
+        if (!this.services.has("webhookDispatcher")) {
+            const webhookPool = getWebhookPool(this.db, this.logger)
+            const webhookDispatcher = new WebhookDispatcher(
+                webhookPool,
+                this.logger,
+            )
+            this.services.set("webhookDispatcher", webhookDispatcher)
+        }
+        return this.services.get("webhookDispatcher")
+    }
+
+    /**
+     * The scheduler recalculating stale rankings in the background. The
+     * interval can be set with RANKING_SCHEDULER_INTERVAL_MS.
+     */
+    getRankingScheduler(): RankingScheduler {
+        if (!this.services.has("rankingScheduler")) {
+            const intervalMs = Number(process.env.RANKING_SCHEDULER_INTERVAL_MS)
+            const rankingScheduler = new RankingScheduler(
+                getRankingSchedulerPool(this.db, this.logger),
+                getCandidateRankingPool(this.db, this.logger),
+                this.getCandidateRankingService(),
+                this.logger,
+                intervalMs > 0 ? { intervalMs } : {},
+            )
+            this.services.set("rankingScheduler", rankingScheduler)
+        }
+        return this.services.get("rankingScheduler")
+    }
+
+    getRankingBatchService(): IRankingBatchService {
+        if (!this.services.has("rankingBatchService")) {
+            const rankingBatchPool = getRankingBatchPool(this.db, this.logger)
+            const rankingBatchService = getRankingBatchService(
+                rankingBatchPool,
+                this.getRankingBatchWorker(),
+            )
+            this.services.set("rankingBatchService", rankingBatchService)
+        }
+        return this.services.get("rankingBatchService")
+    }
+
+    getRankingSnapshotService(): IRankingSnapshotService {
+        if (!this.services.has("rankingSnapshotService")) {
+            const rankingSnapshotPool = getRankingSnapshotPool(
+                this.db,
+                this.logger,
+            )
+            const rankingSnapshotService =
+                getRankingSnapshotService(rankingSnapshotPool)
+            this.services.set("rankingSnapshotService", rankingSnapshotService)
+        }
+        return this.services.get("rankingSnapshotService")
+    }
+
+    /**
+     * The worker recalculating queued ranking batches, shared by every user
+     * of this registry
+     */
+    getRankingBatchWorker(): RankingBatchWorker {
+        if (!this.services.has("rankingBatchWorker")) {
+            const rankingBatchPool = getRankingBatchPool(this.db, this.logger)
+            const rankingBatchWorker = new RankingBatchWorker(
+                rankingBatchPool,
+                this.getCandidateRankingService(),
+                this.logger,
+            )
+            this.services.set("rankingBatchWorker", rankingBatchWorker)
+        }
+        return this.services.get("rankingBatchWorker")
+    }
+
     // Pool methods for direct database access
     getUserPool(): ReturnType<typeof getUserPool> {
         if (!this.pools.has("userPool")) {
@@ -361,6 +571,79 @@ export class Services implements ServiceRegistry, PoolRegistry {
         }
         return this.pools.get("candidateRankingPool")
     }
+
+    getOutboxEventPool(): ReturnType<typeof getOutboxEventPool> {
+        if (!this.pools.has("outboxEventPool")) {
+            const outboxEventPool = getOutboxEventPool(this.db, this.logger)
+            this.pools.set("outboxEventPool", outboxEventPool)
+        }
+        return this.pools.get("outboxEventPool")
+    }
+
+    getWebhookPool(): ReturnType<typeof getWebhookPool> {
+        if (!this.pools.has("webhookPool")) {
+            const webhookPool = getWebhookPool(this.db, this.logger)
+            this.pools.set("webhookPool", webhookPool)
+        }
+        return this.pools.get("webhookPool")
+    }
+
+    getRankingSchedulerPool(): ReturnType<typeof getRankingSchedulerPool> {
+        if (!this.pools.has("rankingSchedulerPool")) {
+            const rankingSchedulerPool = getRankingSchedulerPool(
+                this.db,
+                this.logger,
+            )
+            this.pools.set("rankingSchedulerPool", rankingSchedulerPool)
+        }
+        return this.pools.get("rankingSchedulerPool")
+    }
+
+    getRankingBatchPool(): ReturnType<typeof getRankingBatchPool> {
+        if (!this.pools.has("rankingBatchPool")) {
+            const rankingBatchPool = getRankingBatchPool(this.db, this.logger)
+            this.pools.set("rankingBatchPool", rankingBatchPool)
+        }
+        return this.pools.get("rankingBatchPool")
+    }
+
+    getRankingSnapshotPool(): ReturnType<typeof getRankingSnapshotPool> {
+        if (!this.pools.has("rankingSnapshotPool")) {
+            const rankingSnapshotPool = getRankingSnapshotPool(
+                this.db,
+                this.logger,
+            )
+            this.pools.set("rankingSnapshotPool", rankingSnapshotPool)
+        }
+        return this.pools.get("rankingSnapshotPool")
+    }
+
+    getRolePool(): ReturnType<typeof getRolePool> {
+        if (!this.pools.has("rolePool")) {
+            const rolePool = getRolePool(this.db, this.logger)
+            this.pools.set("rolePool", rolePool)
+        }
+        return this.pools.get("rolePool")
+    }
+
+    getBranchAssignmentPool(): ReturnType<typeof getBranchAssignmentPool> {
+        if (!this.pools.has("branchAssignmentPool")) {
+            const branchAssignmentPool = getBranchAssignmentPool(
+                this.db,
+                this.logger,
+            )
+            this.pools.set("branchAssignmentPool", branchAssignmentPool)
+        }
+        return this.pools.get("branchAssignmentPool")
+    }
+
+    getApiKeyPool(): ReturnType<typeof getApiKeyPool> {
+        if (!this.pools.has("apiKeyPool")) {
+            const apiKeyPool = getApiKeyPool(this.db, this.logger)
+            this.pools.set("apiKeyPool", apiKeyPool)
+        }
+        return this.pools.get("apiKeyPool")
+    }
 }
 
 export function getServices(
@@ -0,0 +1,333 @@
+import { ApplicationStatus, UserRole } from "@prisma/client"
+import {
+    JobApplication,
+    JobApplicationWithDetails,
+    JobApplicationFilters,
+    JobApplicationStats,
+    JobApplicationStatusChangeWithActor,
+} from "types/jobApplication"
+import { AuthenticatedUser } from "types/user"
+import { JobApplicationPool } from "persistence/db/pool/job-applications"
+import { JobPool } from "persistence/db/pool/jobs"
+import { ITrueFitEventRelaying } from "services/events"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+export type StatusChangeActor = Pick<
+    AuthenticatedUser,
+    "id" | "role" | "apiKey"
+>
+
+/**
+ * Allowed application status transitions. HIRED is terminal and reopening a
+ * REJECTED application is restricted to admins (see ADMIN_ONLY_TRANSITIONS).
+ */
+const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+    [ApplicationStatus.APPLIED]: [
+        ApplicationStatus.REVIEWING,
+        ApplicationStatus.REJECTED,
+    ],
+    [ApplicationStatus.REVIEWING]: [
+        ApplicationStatus.HIRED,
+        ApplicationStatus.REJECTED,
+    ],
+    [ApplicationStatus.REJECTED]: [ApplicationStatus.REVIEWING],
+    [ApplicationStatus.HIRED]: [],
+}
+
+const ADMIN_ONLY_TRANSITIONS: Partial<
+    Record<ApplicationStatus, ApplicationStatus[]>
+> = {
+    [ApplicationStatus.REJECTED]: [ApplicationStatus.REVIEWING],
+}
+
+export interface IJobApplicationService {
+    /**
+     * Get a job application by ID
+     * @param {string} id - The ID of the job application to get
+     * @returns {Promise<JobApplicationWithDetails | null>} - The job application with details
+     */
+    getJobApplicationById(id: string): Promise<JobApplicationWithDetails | null>
+
+    /**
+     * Get all job applications with filtering
+     * @param {JobApplicationFilters} filters - Filters to apply
+     * @param {number} limit - Maximum number of applications to return
+     * @param {number} offset - Number of applications to skip
+     * @returns {Promise<JobApplicationWithDetails[]>} - The job applications with details
+     */
+    getJobApplications(
+        filters?: JobApplicationFilters,
+        limit?: number,
+        offset?: number,
+    ): Promise<JobApplicationWithDetails[]>
+
+    /**
+     * Get job applications for a job
+     * @param {string} jobId - The ID of the job
+     * @returns {Promise<JobApplicationWithDetails[]>} - The job applications for the job
+     */
+    getJobApplicationsByJobId(
+        jobId: string,
+    ): Promise<JobApplicationWithDetails[]>
+
+    /**
+     * Get job applications for a company
+     * @param {string} companyId - The ID of the company
+     * @returns {Promise<JobApplicationWithDetails[]>} - The job applications for the company
+     */
+    getJobApplicationsByCompanyId(
+        companyId: string,
+    ): Promise<JobApplicationWithDetails[]>
+
+    /**
+     * Move a job application to a new status, enforcing the allowed transitions
+     * @param {string} id - The ID of the job application
+     * @param {ApplicationStatus} status - The new status
+     * @param {StatusChangeActor} actor - The user making the change
+     * @param {string} reason - Optional note explaining the change
+     * @returns {Promise<JobApplication>} - The updated job application
+     * @throws {ServiceError} - Conflict when the status was changed concurrently
+     */
+    updateJobApplicationStatus(
+        id: string,
+        status: ApplicationStatus,
+        actor: StatusChangeActor,
+        reason?: string,
+    ): Promise<JobApplication>
+
+    /**
+     * Move multiple job applications to a new status. Nothing is updated if
+     * any of the applications cannot make the transition.
+     * @param {string[]} ids - The IDs of the job applications
+     * @param {ApplicationStatus} status - The new status
+     * @param {StatusChangeActor} actor - The user making the change
+     * @param {string} reason - Optional note explaining the change
+     * @returns {Promise<number>} - Number of updated applications
+     * @throws {ServiceError} - Conflict when a status was changed concurrently
+     */
+    bulkUpdateJobApplicationStatus(
+        ids: string[],
+        status: ApplicationStatus,
+        actor: StatusChangeActor,
+        reason?: string,
+    ): Promise<number>
+
+    /**
+     * Get the status history of a job application, oldest change first
+     * @param {string} id - The ID of the job application
+     * @returns {Promise<JobApplicationStatusChangeWithActor[]>} - The status changes
+     */
+    getJobApplicationStatusHistory(
+        id: string,
+    ): Promise<JobApplicationStatusChangeWithActor[]>
+
+    /**
+     * Get job application statistics for a company
+     * @param {string} companyId - The company ID
+     * @returns {Promise<JobApplicationStats>} - The job application statistics
+     */
+    getJobApplicationStats(companyId: string): Promise<JobApplicationStats>
+
+    /**
+     * Get recent job applications
+     * @param {number} limit - Maximum number of applications to return
+     * @param {string} companyId - Optional company ID to filter by
+     * @returns {Promise<JobApplicationWithDetails[]>} - The recent job applications
+     */
+    getRecentJobApplications(
+        limit?: number,
+        companyId?: string,
+    ): Promise<JobApplicationWithDetails[]>
+}
+
+class JobApplicationService implements IJobApplicationService {
+    constructor(
+        private readonly pool: JobApplicationPool,
+        private readonly jobPool: JobPool,
+        private readonly events: ITrueFitEventRelaying,
+    ) {}
+
+    async getJobApplicationById(
+        id: string,
+    ): Promise<JobApplicationWithDetails | null> {
+        return this.pool.getJobApplicationById(id)
+    }
+
+    async getJobApplications(
+        filters?: JobApplicationFilters,
+        limit?: number,
+        offset?: number,
+    ): Promise<JobApplicationWithDetails[]> {
+        return this.pool.getJobApplications(filters, limit, offset)
+    }
+
+    async getJobApplicationsByJobId(
+        jobId: string,
+    ): Promise<JobApplicationWithDetails[]> {
+        const job = await this.jobPool.getJobById(jobId)
+        if (!job) {
+            throw new ServiceError(ServiceErrorType.NotFound, "Job not found")
+        }
+
+        return this.pool.getJobApplicationsByJobId(jobId)
+    }
+
+    async getJobApplicationsByCompanyId(
+        companyId: string,
+    ): Promise<JobApplicationWithDetails[]> {
+        return this.pool.getJobApplicationsByCompanyId(companyId)
+    }
+
+    async updateJobApplicationStatus(
+        id: string,
+        status: ApplicationStatus,
+        actor: StatusChangeActor,
+        reason?: string,
+    ): Promise<JobApplication> {
+        const application = await this.pool.getJobApplicationById(id)
+        if (!application) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Job application not found",
+            )
+        }
+
+        this.validateTransition(application.status, status, actor)
+
+        return this.pool.updateJobApplicationStatus(application, {
+            toStatus: status,
+            reason,
+            ...changedBy(actor),
+        })
+    }
+
+    async bulkUpdateJobApplicationStatus(
+        ids: string[],
+        status: ApplicationStatus,
+        actor: StatusChangeActor,
+        reason?: string,
+    ): Promise<number> {
+        const uniqueIds = [...new Set(ids)]
+        if (uniqueIds.length === 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "At least one job application ID must be provided",
+            )
+        }
+
+        // Validate every transition up front so the batch is all-or-nothing
+        const applications = await this.pool.getJobApplicationStatuses(
+            uniqueIds,
+        )
+        const statuses = new Map(applications.map((a) => [a.id, a.status]))
+        const errors: { [key: string]: string } = {}
+        for (const id of uniqueIds) {
+            const current = statuses.get(id)
+            if (!current) {
+                errors[id] = "Job application not found"
+                continue
+            }
+
+            try {
+                this.validateTransition(current, status, actor)
+            } catch (err) {
+                errors[id] = (err as Error).message
+            }
+        }
+
+        if (Object.keys(errors).length > 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidStatus,
+                "One or more job applications cannot change status",
+                undefined,
+                errors,
+            )
+        }
+
+        return this.pool.bulkUpdateJobApplicationStatus(applications, {
+            toStatus: status,
+            reason,
+            ...changedBy(actor),
+        })
+    }
+
+    async getJobApplicationStatusHistory(
+        id: string,
+    ): Promise<JobApplicationStatusChangeWithActor[]> {
+        const application = await this.pool.getJobApplicationById(id)
+        if (!application) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Job application not found",
+            )
+        }
+
+        return this.pool.getJobApplicationStatusHistory(id)
+    }
+
+    async getJobApplicationStats(
+        companyId: string,
+    ): Promise<JobApplicationStats> {
+        if (!companyId) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "companyId must be provided",
+            )
+        }
+        return this.pool.getJobApplicationStats(companyId)
+    }
+
+    private validateTransition(
+        from: ApplicationStatus,
+        to: ApplicationStatus,
+        actor: StatusChangeActor,
+    ): void {
+        if (from === to) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                `Job application is already ${to}`,
+            )
+        }
+
+        if (!STATUS_TRANSITIONS[from].includes(to)) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidStatus,
+                `Cannot change job application status from ${from} to ${to}`,
+            )
+        }
+
+        if (
+            ADMIN_ONLY_TRANSITIONS[from]?.includes(to) &&
+            actor.role !== UserRole.ADMIN
+        ) {
+            throw new ServiceError(
+                ServiceErrorType.Forbidden,
+                `Only admins can change job application status from ${from} to ${to}`,
+            )
+        }
+    }
+
+    async getRecentJobApplications(
+        limit?: number,
+        companyId?: string,
+    ): Promise<JobApplicationWithDetails[]> {
+        return this.pool.getRecentJobApplications(limit, companyId)
+    }
+}
+
+/**
+ * Who a status change is attributed to, the user or the API key making it
+ */
+function changedBy(actor: StatusChangeActor) {
+    return actor.apiKey
+        ? { changedById: null, changedByApiKeyId: actor.apiKey.id }
+        : { changedById: actor.id, changedByApiKeyId: null }
+}
+
+export default function getJobApplicationService(
+    pool: JobApplicationPool,
+    jobPool: JobPool,
+    events: ITrueFitEventRelaying,
+): IJobApplicationService {
+    return new JobApplicationService(pool, jobPool, events)
+}
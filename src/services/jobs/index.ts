@@ -74,18 +74,8 @@ class JobService implements IJobService {
     }
 
     async createJob(job: JobCreate): Promise<Job> {
-        const createdJob = await this.pool.createJob(job)
-
-        // await this.events.dispatchEvent({
-        //     type: "JOB_CREATED",
-        //     payload: {
-        //         jobId: createdJob.id,
-        //         title: createdJob.title,
-        //         branchId: createdJob.branchId
-        //     }
-        // })
-
-        return createdJob
+        // The pool announces the job in the same transaction
+        return this.pool.createJob(job)
     }
 
     async deleteJob(id: string): Promise<void> {
@@ -115,17 +105,8 @@ class JobService implements IJobService {
     }
 
     async updateJob(id: string, job: JobUpdate): Promise<Job> {
-        const updatedJob = await this.pool.updateJob(id, job)
-
-        // await this.events.dispatchEvent({
-        //     type: "JOB_UPDATED",
-        //     payload: {
-        //         jobId: id,
-        //         changes: job,
-        //     }
-        // })
-
-        return updatedJob
+        // The pool announces the changes in the same transaction
+        return this.pool.updateJob(id, job)
     }
 
     async getJobStats(
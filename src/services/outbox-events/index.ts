@@ -0,0 +1,51 @@
+import { OutboxEventStatus } from "@prisma/client"
+import { OutboxEventPool } from "persistence/db/pool/outbox-events"
+import { OutboxEvent } from "types/outbox"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+export interface IOutboxEventService {
+    /**
+     * Get events that could not be delivered, most recent first
+     * @param {number} limit - Maximum number of events to return
+     * @param {number} offset - Number of events to skip
+     * @returns {Promise<OutboxEvent[]>} - The dead-lettered events
+     */
+    getDeadLetters(limit?: number, offset?: number): Promise<OutboxEvent[]>
+
+    /**
+     * Queue a dead-lettered event for delivery again
+     * @param {string} id - The ID of the event
+     * @returns {Promise<OutboxEvent>} - The requeued event
+     */
+    retryDeadLetter(id: string): Promise<OutboxEvent>
+}
+
+class OutboxEventService implements IOutboxEventService {
+    constructor(private readonly pool: OutboxEventPool) {}
+
+    async getDeadLetters(limit = 50, offset = 0): Promise<OutboxEvent[]> {
+        return this.pool.getDeadLetters(limit, offset)
+    }
+
+    async retryDeadLetter(id: string): Promise<OutboxEvent> {
+        const event = await this.pool.getEventById(id)
+        if (!event) {
+            throw new ServiceError(ServiceErrorType.NotFound, "Event not found")
+        }
+
+        if (event.status !== OutboxEventStatus.DEAD) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidStatus,
+                "Only dead-lettered events can be retried",
+            )
+        }
+
+        return this.pool.requeueEvent(id)
+    }
+}
+
+export default function getOutboxEventService(
+    pool: OutboxEventPool,
+): IOutboxEventService {
+    return new OutboxEventService(pool)
+}
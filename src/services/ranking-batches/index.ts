@@ -0,0 +1,178 @@
+import { RankingBatchPool } from "persistence/db/pool/ranking-batches"
+import { BulkRankingRequest } from "types/candidate-ranking"
+import {
+    RankingBatchItemStatus,
+    RankingBatchPriority,
+    RankingBatchProgress,
+    RankingBatchStatus,
+    RankingBatchWithItems,
+} from "types/ranking-batch"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+import RankingBatchWorker from "./worker"
+
+/**
+ * Maximum number of jobs in a single batch
+ */
+const MAX_BATCH_JOBS = 1000
+
+export interface IRankingBatchService {
+    /**
+     * Queue the recalculation of several job rankings. The batch is
+     * processed in the background.
+     * @param {BulkRankingRequest} request - The jobs to recalculate
+     * @returns {Promise<RankingBatchProgress>} - The queued batch
+     */
+    enqueueBatch(request: BulkRankingRequest): Promise<RankingBatchProgress>
+
+    /**
+     * Get the progress of a batch
+     * @param {string} id - The ID of the batch
+     * @returns {Promise<RankingBatchProgress>} - The progress of the batch
+     */
+    getBatchProgress(id: string): Promise<RankingBatchProgress>
+
+    /**
+     * Cancel the jobs of a batch that have not started yet
+     * @param {string} id - The ID of the batch
+     * @returns {Promise<RankingBatchProgress>} - The progress of the cancelled batch
+     */
+    cancelBatch(id: string): Promise<RankingBatchProgress>
+}
+
+class RankingBatchService implements IRankingBatchService {
+    constructor(
+        private readonly pool: RankingBatchPool,
+        private readonly worker: RankingBatchWorker,
+    ) {}
+
+    async enqueueBatch(
+        request: BulkRankingRequest,
+    ): Promise<RankingBatchProgress> {
+        const jobIds = [...new Set(request.jobIds ?? [])]
+        if (jobIds.length === 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Job IDs are required",
+            )
+        }
+
+        if (jobIds.length > MAX_BATCH_JOBS) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                `Cannot queue more than ${MAX_BATCH_JOBS} jobs at once`,
+            )
+        }
+
+        const batch = await this.pool.createBatch({
+            jobIds,
+            triggerEvent: request.triggerEvent,
+            priority:
+                request.priority === "high"
+                    ? RankingBatchPriority.HIGH
+                    : RankingBatchPriority.NORMAL,
+        })
+        this.worker.trigger()
+
+        return toProgress(batch)
+    }
+
+    async getBatchProgress(id: string): Promise<RankingBatchProgress> {
+        const batch = await this.pool.getBatchById(id)
+        if (!batch) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Ranking batch not found",
+            )
+        }
+
+        return toProgress(batch)
+    }
+
+    async cancelBatch(id: string): Promise<RankingBatchProgress> {
+        const batch = await this.pool.getBatchById(id)
+        if (!batch) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Ranking batch not found",
+            )
+        }
+
+        if (
+            batch.status === RankingBatchStatus.COMPLETED ||
+            batch.status === RankingBatchStatus.CANCELLED
+        ) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidStatus,
+                "Only queued or running batches can be cancelled",
+            )
+        }
+
+        return toProgress(await this.pool.cancelBatch(id))
+    }
+}
+
+/**
+ * Summarise a batch and estimate its completion from the pace so far
+ */
+function toProgress(
+    batch: RankingBatchWithItems,
+    now = new Date(),
+): RankingBatchProgress {
+    const counts = Object.fromEntries(
+        Object.values(RankingBatchItemStatus).map((status) => [status, 0]),
+    ) as RankingBatchProgress["counts"]
+    for (const item of batch.items) {
+        counts[item.status]++
+    }
+
+    const remaining =
+        counts[RankingBatchItemStatus.PENDING] +
+        counts[RankingBatchItemStatus.RUNNING]
+    const processed =
+        counts[RankingBatchItemStatus.SUCCEEDED] +
+        counts[RankingBatchItemStatus.FAILED]
+
+    let estimatedCompletionAt: Date | null = null
+    if (remaining > 0 && processed > 0 && batch.startedAt) {
+        const msPerJob = (now.getTime() - batch.startedAt.getTime()) / processed
+        estimatedCompletionAt = new Date(
+            now.getTime() + Math.round(msPerJob * remaining),
+        )
+    }
+
+    return {
+        id: batch.id,
+        status: batch.status,
+        priority:
+            batch.priority === RankingBatchPriority.HIGH ? "high" : "normal",
+        triggerEvent: batch.triggerEvent,
+        totalJobs: batch.totalJobs,
+        counts,
+        progress:
+            batch.totalJobs > 0
+                ? Math.round(
+                      ((batch.totalJobs - remaining) / batch.totalJobs) * 100,
+                  )
+                : 100,
+        estimatedCompletionAt,
+        createdAt: batch.createdAt,
+        startedAt: batch.startedAt,
+        finishedAt: batch.finishedAt,
+        jobs: batch.items.map((item) => ({
+            jobId: item.jobId,
+            status: item.status,
+            errorMessage: item.errorMessage,
+            totalCandidates: item.totalCandidates,
+            calculationDuration: item.calculationDuration,
+            startedAt: item.startedAt,
+            finishedAt: item.finishedAt,
+        })),
+    }
+}
+
+export default function getRankingBatchService(
+    pool: RankingBatchPool,
+    worker: RankingBatchWorker,
+): IRankingBatchService {
+    return new RankingBatchService(pool, worker)
+}
@@ -0,0 +1,108 @@
+import Poller from "helpers/poller"
+import { RankingBatchPool } from "persistence/db/pool/ranking-batches"
+import { ICandidateRankingService } from "services/candidate-rankings"
+import { Logger } from "types/logging"
+import {
+    DueRankingBatchItem,
+    RankingBatchWorkerOptions,
+} from "types/ranking-batch"
+
+const DEFAULT_OPTIONS: RankingBatchWorkerOptions = {
+    concurrency: 2,
+    leaseMs: 5 * 60 * 1000,
+    pollIntervalMs: 5 * 1000,
+}
+
+/**
+ * Recalculates the rankings of queued batches, high priority batches first.
+ * Jobs of a batch are claimed one round at a time, so a high priority batch
+ * queued later overtakes the rest of a normal one.
+ */
+export default class RankingBatchWorker {
+    private readonly options: RankingBatchWorkerOptions
+    private readonly poller: Poller
+    private processing: Promise<number> | null = null
+
+    constructor(
+        private readonly pool: RankingBatchPool,
+        private readonly rankings: ICandidateRankingService,
+        private readonly logger: Logger,
+        options: Partial<RankingBatchWorkerOptions> = {},
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+        this.poller = new Poller(
+            "Ranking batch",
+            async () =>
+                (await this.processNextJobs()) >= this.options.concurrency,
+            this.options.pollIntervalMs,
+            logger,
+        )
+    }
+
+    /**
+     * Recalculate the next queued jobs. Concurrent calls share the round
+     * that is already in progress.
+     * @returns {Promise<number>} - The number of jobs recalculated
+     */
+    processNextJobs(): Promise<number> {
+        if (!this.processing) {
+            this.processing = this.processRound().finally(() => {
+                this.processing = null
+            })
+        }
+        return this.processing
+    }
+
+    /**
+     * Start polling for queued jobs
+     */
+    start(): void {
+        this.poller.start()
+    }
+
+    /**
+     * Stop polling and wait for the current round to finish
+     */
+    stop(): Promise<void> {
+        return this.poller.stop()
+    }
+
+    /**
+     * Process newly queued batches without waiting for the next poll
+     */
+    trigger(): void {
+        this.poller.trigger()
+    }
+
+    private async processRound(): Promise<number> {
+        const items = await this.pool.claimNextItems(
+            this.options.concurrency,
+            this.options.leaseMs,
+        )
+
+        await Promise.all(items.map((item) => this.process(item)))
+
+        return items.length
+    }
+
+    private async process(item: DueRankingBatchItem): Promise<void> {
+        try {
+            const result = await this.rankings.recalculateJobRankings(
+                item.jobId,
+                item.batch.triggerEvent,
+            )
+            await this.pool.markItemSucceeded(
+                item,
+                result.totalCandidates,
+                result.calculationDuration,
+            )
+        } catch (err) {
+            const error = err instanceof Error ? err.message : String(err)
+            this.logger.warn(
+                { batchId: item.batchId, jobId: item.jobId },
+                `Batch ranking recalculation failed: ${error}`,
+            )
+            await this.pool.markItemFailed(item, error)
+        }
+    }
+}
@@ -0,0 +1,146 @@
+import { RankingSnapshotPool } from "persistence/db/pool/ranking-snapshots"
+import {
+    ApplicantRankMovement,
+    RankingSnapshot,
+    RankingSnapshotDiff,
+    RankingSnapshotEntry,
+    RankingSnapshotWithEntries,
+    RankMovement,
+} from "types/ranking-snapshot"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+export interface IRankingSnapshotService {
+    /**
+     * Get the ranking snapshots of a job, latest first
+     * @param {string} jobId - The ID of the job
+     * @param {number} limit - Maximum number of snapshots to return
+     * @param {number} offset - Number of snapshots to skip
+     * @returns {Promise<RankingSnapshot[]>} - The snapshots, without their entries
+     */
+    getSnapshots(
+        jobId: string,
+        limit?: number,
+        offset?: number,
+    ): Promise<RankingSnapshot[]>
+
+    /**
+     * Compare two ranking snapshots of a job
+     * @param {string} jobId - The ID of the job
+     * @param {string} fromId - The ID of the earlier snapshot
+     * @param {string} toId - The ID of the later snapshot
+     * @param {number} top - Only compare applicants ranked this high in either snapshot
+     * @returns {Promise<RankingSnapshotDiff>} - The movement of each applicant
+     */
+    diffSnapshots(
+        jobId: string,
+        fromId: string,
+        toId: string,
+        top?: number,
+    ): Promise<RankingSnapshotDiff>
+}
+
+class RankingSnapshotService implements IRankingSnapshotService {
+    constructor(private readonly pool: RankingSnapshotPool) {}
+
+    async getSnapshots(
+        jobId: string,
+        limit?: number,
+        offset?: number,
+    ): Promise<RankingSnapshot[]> {
+        return this.pool.getSnapshots(jobId, limit, offset)
+    }
+
+    async diffSnapshots(
+        jobId: string,
+        fromId: string,
+        toId: string,
+        top?: number,
+    ): Promise<RankingSnapshotDiff> {
+        const [from, to] = await Promise.all([
+            this.getJobSnapshot(jobId, fromId),
+            this.getJobSnapshot(jobId, toId),
+        ])
+
+        const { entries: fromEntries, ...fromSnapshot } = from
+        const { entries: toEntries, ...toSnapshot } = to
+
+        const inTop = (entry?: RankingSnapshotEntry) =>
+            entry !== undefined && (top === undefined || entry.rank <= top)
+
+        const before = new Map(fromEntries.map((e) => [e.applicantId, e]))
+        const after = new Map(toEntries.map((e) => [e.applicantId, e]))
+        // Applicants in rank order of the later snapshot, then the ones
+        // that dropped out
+        const applicantIds = new Set([...after.keys(), ...before.keys()])
+        const movements: ApplicantRankMovement[] = []
+        for (const applicantId of applicantIds) {
+            const was = before.get(applicantId)
+            const is = after.get(applicantId)
+            if (inTop(was) || inTop(is)) {
+                movements.push(toMovement(applicantId, was, is))
+            }
+        }
+
+        return {
+            jobId,
+            from: fromSnapshot,
+            to: toSnapshot,
+            top: top ?? null,
+            movements,
+        }
+    }
+
+    private async getJobSnapshot(
+        jobId: string,
+        id: string,
+    ): Promise<RankingSnapshotWithEntries> {
+        const snapshot = await this.pool.getSnapshotById(id)
+        if (!snapshot || snapshot.jobId !== jobId) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Ranking snapshot not found",
+            )
+        }
+        return snapshot
+    }
+}
+
+/**
+ * Describe how an applicant moved between the earlier and the later
+ * snapshot, given their entries in each
+ */
+function toMovement(
+    applicantId: string,
+    was?: RankingSnapshotEntry,
+    is?: RankingSnapshotEntry,
+): ApplicantRankMovement {
+    let movement: RankMovement
+    if (!was) {
+        movement = "ENTERED"
+    } else if (!is) {
+        movement = "DROPPED"
+    } else if (is.rank < was.rank) {
+        movement = "UP"
+    } else if (is.rank > was.rank) {
+        movement = "DOWN"
+    } else {
+        movement = "UNCHANGED"
+    }
+
+    return {
+        applicantId,
+        movement,
+        fromRank: was?.rank ?? null,
+        toRank: is?.rank ?? null,
+        rankChange: was && is ? was.rank - is.rank : null,
+        fromScore: was?.score ?? null,
+        toScore: is?.score ?? null,
+        scoreChange: was && is ? is.score - was.score : null,
+    }
+}
+
+export default function getRankingSnapshotService(
+    pool: RankingSnapshotPool,
+): IRankingSnapshotService {
+    return new RankingSnapshotService(pool)
+}
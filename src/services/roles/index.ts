@@ -0,0 +1,266 @@
+import { UserRole } from "@prisma/client"
+import { RolePool } from "persistence/db/pool/roles"
+import { CompanyPool } from "persistence/db/pool/companies"
+import { UserPool } from "persistence/db/pool/users"
+import { BranchPool } from "persistence/db/pool/branches"
+import {
+    ALL_PERMISSIONS,
+    BUILT_IN_ROLES,
+    PERMISSION_DESCRIPTIONS,
+    isPermission,
+} from "auth/permissions"
+import {
+    BuiltInRole,
+    CompanyRoleCreate,
+    CompanyRoleUpdate,
+    CompanyRoleWithAssignments,
+    PermissionDescription,
+    RoleAssignment,
+    RoleAssignmentCreate,
+} from "types/role"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+
+export interface IRoleService {
+    /**
+     * Get the permissions roles can grant and the built-in roles
+     * @returns {{ permissions: PermissionDescription[]; builtInRoles: BuiltInRole[] }} - The permission catalogue
+     */
+    getPermissionCatalogue(): {
+        permissions: PermissionDescription[]
+        builtInRoles: BuiltInRole[]
+    }
+
+    /**
+     * Get company roles, optionally of one company
+     * @param {string} companyId - The ID of the company
+     * @returns {Promise<CompanyRoleWithAssignments[]>} - The roles
+     */
+    getRoles(companyId?: string): Promise<CompanyRoleWithAssignments[]>
+
+    /**
+     * Get a company role by ID
+     * @param {string} id - The ID of the role
+     * @returns {Promise<CompanyRoleWithAssignments>} - The role
+     */
+    getRoleById(id: string): Promise<CompanyRoleWithAssignments>
+
+    /**
+     * Define a role for a company
+     * @param {CompanyRoleCreate} role - The role to create
+     * @returns {Promise<CompanyRoleWithAssignments>} - The created role
+     */
+    createRole(role: CompanyRoleCreate): Promise<CompanyRoleWithAssignments>
+
+    /**
+     * Update a company role. Users holding the role get the new permissions
+     * on their next request.
+     * @param {string} id - The ID of the role
+     * @param {CompanyRoleUpdate} role - The fields to update
+     * @returns {Promise<CompanyRoleWithAssignments>} - The updated role
+     */
+    updateRole(
+        id: string,
+        role: CompanyRoleUpdate,
+    ): Promise<CompanyRoleWithAssignments>
+
+    /**
+     * Delete a company role, taking it away from every user holding it
+     * @param {string} id - The ID of the role
+     * @returns {Promise<void>}
+     */
+    deleteRole(id: string): Promise<void>
+
+    /**
+     * Assign a role to a user of its company, for the whole company or one
+     * of its branches
+     * @param {string} roleId - The ID of the role
+     * @param {RoleAssignmentCreate} assignment - The user, and branch the role is limited to
+     * @returns {Promise<RoleAssignment>} - The created assignment
+     */
+    assignRole(
+        roleId: string,
+        assignment: RoleAssignmentCreate,
+    ): Promise<RoleAssignment>
+
+    /**
+     * Take a role away from a user
+     * @param {string} roleId - The ID of the role
+     * @param {string} assignmentId - The ID of the assignment
+     * @returns {Promise<void>}
+     */
+    unassignRole(roleId: string, assignmentId: string): Promise<void>
+}
+
+class RoleService implements IRoleService {
+    constructor(
+        private readonly pool: RolePool,
+        private readonly companyPool: CompanyPool,
+        private readonly userPool: UserPool,
+        private readonly branchPool: BranchPool,
+    ) {}
+
+    getPermissionCatalogue(): {
+        permissions: PermissionDescription[]
+        builtInRoles: BuiltInRole[]
+    } {
+        return {
+            permissions: ALL_PERMISSIONS.map((name) => ({
+                name,
+                description: PERMISSION_DESCRIPTIONS[name],
+            })),
+            builtInRoles: Object.values(UserRole).map((name) => ({
+                name,
+                permissions: BUILT_IN_ROLES[name],
+            })),
+        }
+    }
+
+    async getRoles(companyId?: string): Promise<CompanyRoleWithAssignments[]> {
+        return this.pool.getRoles(companyId)
+    }
+
+    async getRoleById(id: string): Promise<CompanyRoleWithAssignments> {
+        const role = await this.pool.getRoleById(id)
+        if (!role) {
+            throw new ServiceError(ServiceErrorType.NotFound, "Role not found")
+        }
+
+        return role
+    }
+
+    async createRole(
+        role: CompanyRoleCreate,
+    ): Promise<CompanyRoleWithAssignments> {
+        const company = await this.companyPool.getCompanyById(role.companyId)
+        if (!company) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Company not found",
+            )
+        }
+
+        this.validatePermissions(role.permissions)
+        await this.ensureNameIsFree(role.companyId, role.name)
+
+        return this.pool.createRole({
+            ...role,
+            permissions: [...new Set(role.permissions)],
+        })
+    }
+
+    async updateRole(
+        id: string,
+        role: CompanyRoleUpdate,
+    ): Promise<CompanyRoleWithAssignments> {
+        const existing = await this.getRoleById(id)
+
+        if (role.permissions) {
+            this.validatePermissions(role.permissions)
+        }
+        if (role.name && role.name !== existing.name) {
+            await this.ensureNameIsFree(existing.companyId, role.name)
+        }
+
+        return this.pool.updateRole(id, {
+            ...role,
+            permissions: role.permissions && [...new Set(role.permissions)],
+        })
+    }
+
+    async deleteRole(id: string): Promise<void> {
+        await this.getRoleById(id)
+        await this.pool.deleteRole(id)
+    }
+
+    async assignRole(
+        roleId: string,
+        assignment: RoleAssignmentCreate,
+    ): Promise<RoleAssignment> {
+        const role = await this.getRoleById(roleId)
+
+        // Roles only ever apply within their own company
+        const user = await this.userPool.getUserById(assignment.userId)
+        if (!user) {
+            throw new ServiceError(ServiceErrorType.NotFound, "User not found")
+        }
+        if (user.companyId !== role.companyId) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "The user doesn't belong to the role's company",
+            )
+        }
+
+        const branchId = assignment.branchId ?? null
+        if (branchId) {
+            const branch = await this.branchPool.getBranchById(branchId)
+            if (!branch) {
+                throw new ServiceError(
+                    ServiceErrorType.NotFound,
+                    "Branch not found",
+                )
+            }
+            if (branch.companyId !== role.companyId) {
+                throw new ServiceError(
+                    ServiceErrorType.InvalidInput,
+                    "The branch doesn't belong to the role's company",
+                )
+            }
+        }
+
+        const assigned = role.assignments.some(
+            (a) => a.userId === user.id && a.branchId === branchId,
+        )
+        if (assigned) {
+            throw new ServiceError(
+                ServiceErrorType.DuplicateValue,
+                "The role is already assigned to the user",
+            )
+        }
+
+        return this.pool.createAssignment(roleId, {
+            userId: user.id,
+            branchId,
+        })
+    }
+
+    async unassignRole(roleId: string, assignmentId: string): Promise<void> {
+        const assignment = await this.pool.getAssignmentById(assignmentId)
+        if (!assignment || assignment.roleId !== roleId) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Role assignment not found",
+            )
+        }
+
+        await this.pool.deleteAssignment(assignmentId)
+    }
+
+    private validatePermissions(permissions: string[]) {
+        const unknown = permissions.filter((p) => !isPermission(p))
+        if (unknown.length > 0) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                `Unknown permissions: ${unknown.join(", ")}`,
+            )
+        }
+    }
+
+    private async ensureNameIsFree(companyId: string, name: string) {
+        const existing = await this.pool.getRoleByName(companyId, name)
+        if (existing) {
+            throw new ServiceError(
+                ServiceErrorType.DuplicateValue,
+                "A role with this name already exists in the company",
+            )
+        }
+    }
+}
+
+export default function getRoleService(
+    pool: RolePool,
+    companyPool: CompanyPool,
+    userPool: UserPool,
+    branchPool: BranchPool,
+): IRoleService {
+    return new RoleService(pool, companyPool, userPool, branchPool)
+}
@@ -5,7 +5,7 @@ import {
     ScoringPreview,
 } from "types/scoring"
 import { ScoringConfigPool } from "persistence/db/pool/scoring-configs"
-import { ITrueFitEventRelaying, TrueFitEventTypes } from "services/events"
+import { ITrueFitEventRelaying } from "services/events"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
 
 export interface IScoringConfigService {
@@ -135,20 +135,17 @@ class ScoringConfigService implements IScoringConfigService {
             }
         }
 
-        const createdConfig = await this.pool.createScoringConfig(config)
-
-        // Emit scoring config changed event for ranking recalculation
-        await this.events.dispatchEvent({
-            type: TrueFitEventTypes.SCORING_CONFIG_CHANGED,
-            payload: {
-                configId: createdConfig.id,
-                isDefault: createdConfig.isDefault,
-                jobId: createdConfig.jobId,
-                action: "created",
-            },
-        })
+        // Validate tie-breakers, each of which can only apply once
+        const tieBreakers = config.tieBreakers
+        if (tieBreakers && new Set(tieBreakers).size !== tieBreakers.length) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Tie-breakers must not repeat",
+            )
+        }
 
-        return createdConfig
+        // The pool announces the change in the same transaction
+        return this.pool.createScoringConfig(config)
     }
 
     async updateScoringConfig(
@@ -192,21 +189,17 @@ class ScoringConfigService implements IScoringConfigService {
             }
         }
 
-        const updatedConfig = await this.pool.updateScoringConfig(id, config)
-
-        // Emit scoring config changed event for ranking recalculation
-        await this.events.dispatchEvent({
-            type: TrueFitEventTypes.SCORING_CONFIG_CHANGED,
-            payload: {
-                configId: id,
-                isDefault: updatedConfig.isDefault,
-                jobId: updatedConfig.jobId,
-                action: "updated",
-                changes: config,
-            },
-        })
+        // Validate tie-breakers, each of which can only apply once
+        const tieBreakers = config.tieBreakers
+        if (tieBreakers && new Set(tieBreakers).size !== tieBreakers.length) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Tie-breakers must not repeat",
+            )
+        }
 
-        return updatedConfig
+        // The pool announces the change in the same transaction
+        return this.pool.updateScoringConfig(id, config)
     }
 
     async deleteScoringConfig(id: string): Promise<void> {
@@ -226,14 +219,6 @@ class ScoringConfigService implements IScoringConfigService {
         }
 
         await this.pool.deleteScoringConfig(id)
-
-        // await this.events.dispatchEvent({
-        //     type: "SCORING_CONFIG_DELETED",
-        //     payload: {
-        //         configId: id,
-        //         jobId: config.jobId,
-        //     }
-        // })
     }
 
     async applyScoringConfig(
@@ -248,20 +233,7 @@ class ScoringConfigService implements IScoringConfigService {
             )
         }
 
-        const appliedConfig = await this.pool.applyScoringConfig(
-            configId,
-            jobId,
-        )
-
-        // await this.events.dispatchEvent({
-        //     type: "SCORING_CONFIG_APPLIED",
-        //     payload: {
-        //         configId,
-        //         jobId,
-        //     }
-        // })
-
-        return appliedConfig
+        return this.pool.applyScoringConfig(configId, jobId)
     }
 
     async previewScoringConfig(
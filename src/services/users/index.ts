@@ -1,19 +1,25 @@
 import bcrypt from "bcryptjs"
 import jwt from "jsonwebtoken"
-import { randomUUID } from "crypto"
+import { createHash, randomBytes, randomUUID } from "crypto"
 import {
     User,
     UserCreateRequest,
     UserCreateResponse,
     UserUpdate,
     UserWithSessions,
+    UserWithAccess,
     LoginRequest,
     LoginResponse,
     AuthenticatedUser,
+    DeviceSession,
+    UserSession,
 } from "types/user"
 import { UserPool } from "persistence/db/pool/users"
 import { ITrueFitEventRelaying } from "services/events"
 import { ServiceError, ServiceErrorType } from "types/serviceError"
+import { PermissionGrant } from "types/role"
+import { isPermission } from "auth/permissions"
+import { ACCESS_TOKEN_TTL_SECONDS, SESSION_TTL_MS } from "../../constants"
 
 export interface IUserService {
     /**
@@ -63,7 +69,7 @@ export interface IUserService {
      * @param {LoginRequest} credentials - Login credentials
      * @param {string} userAgent - User agent string
      * @param {string} ipAddress - User IP address
-     * @returns {Promise<LoginResponse>} - Login response with token
+     * @returns {Promise<LoginResponse>} - Login response with access and refresh tokens
      */
     login(
         credentials: LoginRequest,
@@ -71,6 +77,40 @@ export interface IUserService {
         ipAddress?: string,
     ): Promise<LoginResponse>
 
+    /**
+     * Exchange a refresh token for new access and refresh tokens, renewing
+     * the session. Presenting a refresh token a second time revokes every
+     * session renewed from it.
+     * @param {string} refreshToken - The refresh token
+     * @param {string} userAgent - User agent string
+     * @param {string} ipAddress - User IP address
+     * @returns {Promise<LoginResponse>} - Login response with the new tokens
+     */
+    refresh(
+        refreshToken: string,
+        userAgent?: string,
+        ipAddress?: string,
+    ): Promise<LoginResponse>
+
+    /**
+     * Get the devices signed in as a user
+     * @param {string} userId - User ID
+     * @param {string} currentSessionId - The session making the request
+     * @returns {Promise<DeviceSession[]>} - The active sessions
+     */
+    getSessions(
+        userId: string,
+        currentSessionId: string,
+    ): Promise<DeviceSession[]>
+
+    /**
+     * Sign a device of a user out
+     * @param {string} userId - User ID
+     * @param {string} sessionId - The ID of the session to revoke
+     * @returns {Promise<void>}
+     */
+    revokeSession(userId: string, sessionId: string): Promise<void>
+
     /**
      * Verify JWT token and return user
      * @param {string} token - JWT token
@@ -190,45 +230,95 @@ class UserService implements IUserService {
             )
         }
 
-        // Create session
-        const sessionId = randomUUID()
-        const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-
-        await this.pool.createSession(
-            user.id,
-            sessionId,
-            expiresAt,
+        // Create session, starting a new family of refreshed sessions
+        const refreshToken = generateRefreshToken()
+        const session = await this.pool.createSession({
+            userId: user.id,
+            token: randomUUID(),
+            refreshTokenHash: hashRefreshToken(refreshToken),
+            familyId: randomUUID(),
+            expiresAt: new Date(Date.now() + SESSION_TTL_MS),
             userAgent,
             ipAddress,
+        })
+
+        // Update last login
+        await this.pool.updateLastLogin(user.id)
+
+        return this.toLoginResponse(user, session, refreshToken)
+    }
+
+    async refresh(
+        refreshToken: string,
+        userAgent?: string,
+        ipAddress?: string,
+    ): Promise<LoginResponse> {
+        const session = await this.pool.getSessionByRefreshToken(
+            hashRefreshToken(refreshToken),
         )
+        if (!session) {
+            throw new ServiceError(
+                ServiceErrorType.Forbidden,
+                "Invalid refresh token",
+            )
+        }
 
-        // Create JWT token
-        const tokenPayload = {
-            sub: user.id,
-            email: user.email,
-            role: user.role,
-            companyId: user.companyId,
-            jti: sessionId, // JWT ID for session tracking
+        if (session.rotatedAt) {
+            return this.revokeReusedSession(session)
         }
 
-        const token = jwt.sign(tokenPayload, process.env.JWT_SECRET!, {
-            expiresIn: "7d",
+        if (!session.isActive || session.expiresAt <= new Date()) {
+            throw new ServiceError(
+                ServiceErrorType.Forbidden,
+                "Session expired or signed out",
+            )
+        }
+
+        // Sliding renewal: the new session is valid for a full period again
+        const nextRefreshToken = generateRefreshToken()
+        const rotated = await this.pool.rotateSession(session.id, {
+            userId: session.user.id,
+            token: randomUUID(),
+            refreshTokenHash: hashRefreshToken(nextRefreshToken),
+            familyId: session.familyId,
+            expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+            userAgent: userAgent ?? session.userAgent,
+            ipAddress: ipAddress ?? session.ipAddress,
         })
+        if (!rotated) {
+            // Another request exchanged the same token first
+            return this.revokeReusedSession(session)
+        }
 
-        // Update last login
-        await this.pool.updateLastLogin(user.id)
+        return this.toLoginResponse(session.user, rotated, nextRefreshToken)
+    }
 
-        return {
-            token,
-            user: {
-                id: user.id,
-                email: user.email,
-                firstName: user.firstName,
-                lastName: user.lastName,
-                role: user.role,
-                companyId: user.companyId,
-            },
+    async getSessions(
+        userId: string,
+        currentSessionId: string,
+    ): Promise<DeviceSession[]> {
+        const sessions = await this.pool.getActiveSessions(userId)
+        return sessions.map((session) => ({
+            id: session.id,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            createdAt: session.createdAt,
+            expiresAt: session.expiresAt,
+            current: session.id === currentSessionId,
+        }))
+    }
+
+    async revokeSession(userId: string, sessionId: string): Promise<void> {
+        const sessions = await this.pool.getActiveSessions(userId)
+        const session = sessions.find((s) => s.id === sessionId)
+        if (!session) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Session not found",
+            )
         }
+
+        await this.pool.deactivateSessionFamily(session.familyId)
     }
 
     async verifyToken(token: string): Promise<AuthenticatedUser> {
@@ -254,6 +344,8 @@ class UserService implements IUserService {
                 role: session.user.role,
                 companyId: session.user.companyId,
                 sessionId: session.id,
+                grants: toPermissionGrants(session.user),
+                branchIds: toBranchIds(session.user),
             }
         } catch (error) {
             console.log(error)
@@ -340,6 +432,86 @@ class UserService implements IUserService {
         //     }
         // })
     }
+
+    /**
+     * Sign the session out when one of its rotated refresh tokens is
+     * presented again, as the token may have been stolen
+     */
+    private async revokeReusedSession(session: UserSession): Promise<never> {
+        await this.pool.deactivateSessionFamily(session.familyId)
+        throw new ServiceError(
+            ServiceErrorType.Forbidden,
+            "Refresh token already used, the session was signed out",
+        )
+    }
+
+    private toLoginResponse(
+        user: User,
+        session: UserSession,
+        refreshToken: string,
+    ): LoginResponse {
+        // Create JWT token
+        const tokenPayload = {
+            sub: user.id,
+            email: user.email,
+            role: user.role,
+            companyId: user.companyId,
+            jti: session.token, // JWT ID for session tracking
+        }
+
+        const token = jwt.sign(tokenPayload, process.env.JWT_SECRET!, {
+            expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        })
+
+        return {
+            token,
+            expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+            refreshToken,
+            user: {
+                id: user.id,
+                email: user.email,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                role: user.role,
+                companyId: user.companyId,
+            },
+        }
+    }
+}
+
+/**
+ * The permissions a user holds through their company roles. Roles of a
+ * company the user no longer belongs to are left out.
+ */
+function toPermissionGrants(user: UserWithAccess): PermissionGrant[] {
+    return user.roleAssignments
+        .filter((a) => a.role.companyId === user.companyId)
+        .map((a) => ({
+            permissions: a.role.permissions.filter(isPermission),
+            branchId: a.branchId,
+        }))
+}
+
+/**
+ * The branches a user is limited to. Branches of a company the user no
+ * longer belongs to are left out.
+ */
+function toBranchIds(user: UserWithAccess): string[] {
+    return user.branchAssignments
+        .filter((a) => a.branch.companyId === user.companyId)
+        .map((a) => a.branchId)
+}
+
+function generateRefreshToken(): string {
+    return randomBytes(32).toString("base64url")
+}
+
+/**
+ * Refresh tokens are random, so a fast hash is enough to keep them unusable
+ * if the sessions table leaks
+ */
+function hashRefreshToken(refreshToken: string): string {
+    return createHash("sha256").update(refreshToken).digest("hex")
 }
 
 export default function getUserService(
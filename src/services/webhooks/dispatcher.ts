@@ -0,0 +1,171 @@
+import Poller from "helpers/poller"
+import {
+    DELIVERY_HEADER,
+    EVENT_HEADER,
+    SIGNATURE_HEADER,
+    checkWebhookUrl,
+    postWebhook,
+    signWebhookPayload,
+} from "helpers/webhooks"
+import { WebhookPool } from "persistence/db/pool/webhooks"
+import { Logger } from "types/logging"
+import {
+    DueWebhookDelivery,
+    WebhookDispatchOptions,
+    WebhookResponse,
+} from "types/webhook"
+
+const DEFAULT_OPTIONS: WebhookDispatchOptions = {
+    batchSize: 20,
+    maxAttempts: 8,
+    baseRetryDelayMs: 10 * 1000,
+    maxRetryDelayMs: 60 * 60 * 1000,
+    leaseMs: 60 * 1000,
+    requestTimeoutMs: 10 * 1000,
+    pollIntervalMs: 5 * 1000,
+    allowPrivateNetworks: false,
+}
+
+/**
+ * Sends queued webhook deliveries as signed HTTP POSTs. Deliveries that do
+ * not get a 2xx response are retried with exponential backoff until they
+ * run out of attempts.
+ */
+export default class WebhookDispatcher {
+    private readonly options: WebhookDispatchOptions
+    private readonly poller: Poller
+    private delivering: Promise<number> | null = null
+
+    constructor(
+        private readonly pool: WebhookPool,
+        private readonly logger: Logger,
+        options: Partial<WebhookDispatchOptions> = {},
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+        this.poller = new Poller(
+            "Webhook delivery",
+            async () =>
+                (await this.deliverDueWebhooks()) >= this.options.batchSize,
+            this.options.pollIntervalMs,
+            logger,
+        )
+    }
+
+    /**
+     * Send the deliveries that are currently due. Concurrent calls share the
+     * round that is already in progress.
+     * @returns {Promise<number>} - The number of deliveries attempted
+     */
+    deliverDueWebhooks(): Promise<number> {
+        if (!this.delivering) {
+            this.delivering = this.deliverBatch().finally(() => {
+                this.delivering = null
+            })
+        }
+        return this.delivering
+    }
+
+    /**
+     * Start polling for due deliveries
+     */
+    start(): void {
+        this.poller.start()
+    }
+
+    /**
+     * Stop polling and wait for the current round to finish
+     */
+    stop(): Promise<void> {
+        return this.poller.stop()
+    }
+
+    /**
+     * Check that webhooks can be sent to a URL
+     * @param {string} url - The URL
+     * @returns {Promise<string | null>} - Why the URL is refused, or null
+     */
+    checkUrl(url: string): Promise<string | null> {
+        return checkWebhookUrl(url, this.options.allowPrivateNetworks)
+    }
+
+    /**
+     * Send newly queued deliveries without waiting for the next poll
+     */
+    trigger(): void {
+        this.poller.trigger()
+    }
+
+    private async deliverBatch(): Promise<number> {
+        const deliveries = await this.pool.claimDueDeliveries(
+            this.options.batchSize,
+            this.options.leaseMs,
+        )
+
+        await Promise.all(deliveries.map((d) => this.deliver(d)))
+
+        return deliveries.length
+    }
+
+    private async deliver(delivery: DueWebhookDelivery): Promise<void> {
+        const body = JSON.stringify({
+            id: delivery.id,
+            type: delivery.eventType,
+            createdAt: delivery.createdAt.toISOString(),
+            data: delivery.payload,
+        })
+        const timestamp = Math.floor(Date.now() / 1000)
+
+        let response: WebhookResponse | null = null
+        let error: string
+        try {
+            response = await postWebhook(
+                delivery.subscription.url,
+                body,
+                {
+                    [SIGNATURE_HEADER]: signWebhookPayload(
+                        delivery.subscription.secret,
+                        timestamp,
+                        body,
+                    ),
+                    [EVENT_HEADER]: delivery.eventType,
+                    [DELIVERY_HEADER]: delivery.id,
+                },
+                this.options.requestTimeoutMs,
+                this.options.allowPrivateNetworks,
+            )
+            if (response.status >= 200 && response.status < 300) {
+                await this.pool.markSucceeded(delivery.id, response)
+                return
+            }
+            error = `Received HTTP ${response.status}`
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err)
+        }
+
+        const retryAt =
+            delivery.attempts < this.options.maxAttempts
+                ? new Date(Date.now() + this.retryDelay(delivery.attempts))
+                : null
+        this.logger.warn(
+            {
+                deliveryId: delivery.id,
+                subscriptionId: delivery.subscriptionId,
+                attempts: delivery.attempts,
+            },
+            retryAt
+                ? `Webhook delivery failed, retrying: ${error}`
+                : `Webhook delivery failed, giving up: ${error}`,
+        )
+        await this.pool.markFailed(delivery.id, response, error, retryAt)
+    }
+
+    /**
+     * Delay before the next attempt, doubling after every failed one
+     */
+    private retryDelay(attempts: number): number {
+        return Math.min(
+            this.options.baseRetryDelayMs * 2 ** (attempts - 1),
+            this.options.maxRetryDelayMs,
+        )
+    }
+}
@@ -0,0 +1,270 @@
+import { WebhookPool } from "persistence/db/pool/webhooks"
+import { CompanyPool } from "persistence/db/pool/companies"
+import {
+    ITrueFitEventRelaying,
+    TrueFitEvent,
+    TrueFitEventTypes,
+} from "services/events"
+import { generateWebhookSecret } from "helpers/webhooks"
+import {
+    WebhookDelivery,
+    WebhookSubscription,
+    WebhookSubscriptionCreate,
+    WebhookSubscriptionUpdate,
+    WebhookSubscriptionWithSecret,
+} from "types/webhook"
+import { ServiceError, ServiceErrorType } from "types/serviceError"
+import WebhookDispatcher from "./dispatcher"
+
+const EVENT_TYPES: string[] = Object.values(TrueFitEventTypes)
+
+export interface IWebhookService {
+    /**
+     * Get webhook subscriptions, optionally of one company
+     * @param {string} companyId - The ID of the company
+     * @returns {Promise<WebhookSubscription[]>} - The subscriptions
+     */
+    getSubscriptions(companyId?: string): Promise<WebhookSubscription[]>
+
+    /**
+     * Get a webhook subscription by ID
+     * @param {string} id - The ID of the subscription
+     * @returns {Promise<WebhookSubscription>} - The subscription
+     */
+    getSubscriptionById(id: string): Promise<WebhookSubscription>
+
+    /**
+     * Subscribe a company to events. A signing secret is generated unless
+     * one is given, and is only returned here.
+     * @param {WebhookSubscriptionCreate} subscription - The subscription to create
+     * @returns {Promise<WebhookSubscriptionWithSecret>} - The created subscription
+     */
+    createSubscription(
+        subscription: WebhookSubscriptionCreate,
+    ): Promise<WebhookSubscriptionWithSecret>
+
+    /**
+     * Update a webhook subscription
+     * @param {string} id - The ID of the subscription
+     * @param {WebhookSubscriptionUpdate} subscription - The fields to update
+     * @returns {Promise<WebhookSubscription>} - The updated subscription
+     */
+    updateSubscription(
+        id: string,
+        subscription: WebhookSubscriptionUpdate,
+    ): Promise<WebhookSubscription>
+
+    /**
+     * Delete a webhook subscription and its delivery log
+     * @param {string} id - The ID of the subscription
+     * @returns {Promise<void>}
+     */
+    deleteSubscription(id: string): Promise<void>
+
+    /**
+     * Get the delivery log of a subscription, most recent first
+     * @param {string} subscriptionId - The ID of the subscription
+     * @param {number} limit - Maximum number of deliveries to return
+     * @param {number} offset - Number of deliveries to skip
+     * @returns {Promise<WebhookDelivery[]>} - The deliveries
+     */
+    getDeliveries(
+        subscriptionId: string,
+        limit?: number,
+        offset?: number,
+    ): Promise<WebhookDelivery[]>
+
+    /**
+     * Send a delivery again with fresh attempts, whatever its outcome was
+     * @param {string} subscriptionId - The ID of the subscription
+     * @param {string} deliveryId - The ID of the delivery
+     * @returns {Promise<WebhookDelivery>} - The requeued delivery
+     */
+    redeliver(
+        subscriptionId: string,
+        deliveryId: string,
+    ): Promise<WebhookDelivery>
+
+    /**
+     * Queue a delivery of an event for every active subscription of the
+     * companies it concerns, once per event
+     * @param {TrueFitEvent} event - The event to deliver
+     * @param {string} eventId - The ID of the event
+     * @returns {Promise<number>} - The number of subscriptions the event is queued for
+     */
+    handleEvent(event: TrueFitEvent, eventId: string): Promise<number>
+}
+
+class WebhookService implements IWebhookService {
+    constructor(
+        private readonly pool: WebhookPool,
+        private readonly companyPool: CompanyPool,
+        private readonly dispatcher: WebhookDispatcher,
+        private readonly events: ITrueFitEventRelaying,
+    ) {
+        // Every event type can be subscribed to
+        this.events.listenForEvents(
+            "webhooks",
+            Object.values(TrueFitEventTypes),
+            async (event, eventId) => {
+                await this.handleEvent(event, eventId)
+            },
+        )
+    }
+
+    async getSubscriptions(companyId?: string): Promise<WebhookSubscription[]> {
+        return this.pool.getSubscriptions(companyId)
+    }
+
+    async getSubscriptionById(id: string): Promise<WebhookSubscription> {
+        const subscription = await this.pool.getSubscriptionById(id)
+        if (!subscription) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Webhook subscription not found",
+            )
+        }
+
+        return subscription
+    }
+
+    async createSubscription(
+        subscription: WebhookSubscriptionCreate,
+    ): Promise<WebhookSubscriptionWithSecret> {
+        const company = await this.companyPool.getCompanyById(
+            subscription.companyId,
+        )
+        if (!company) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Company not found",
+            )
+        }
+
+        await this.validateSubscription(subscription)
+
+        return this.pool.createSubscription({
+            ...subscription,
+            secret: subscription.secret ?? generateWebhookSecret(),
+        })
+    }
+
+    async updateSubscription(
+        id: string,
+        subscription: WebhookSubscriptionUpdate,
+    ): Promise<WebhookSubscription> {
+        await this.getSubscriptionById(id)
+        await this.validateSubscription(subscription)
+
+        return this.pool.updateSubscription(id, subscription)
+    }
+
+    async deleteSubscription(id: string): Promise<void> {
+        await this.getSubscriptionById(id)
+        await this.pool.deleteSubscription(id)
+    }
+
+    async getDeliveries(
+        subscriptionId: string,
+        limit = 50,
+        offset = 0,
+    ): Promise<WebhookDelivery[]> {
+        await this.getSubscriptionById(subscriptionId)
+        return this.pool.getDeliveries(subscriptionId, limit, offset)
+    }
+
+    async redeliver(
+        subscriptionId: string,
+        deliveryId: string,
+    ): Promise<WebhookDelivery> {
+        const delivery = await this.pool.getDeliveryById(deliveryId)
+        if (!delivery || delivery.subscriptionId !== subscriptionId) {
+            throw new ServiceError(
+                ServiceErrorType.NotFound,
+                "Webhook delivery not found",
+            )
+        }
+
+        const requeued = await this.pool.requeueDelivery(deliveryId)
+        this.dispatcher.trigger()
+
+        return requeued
+    }
+
+    async handleEvent(event: TrueFitEvent, eventId: string): Promise<number> {
+        const companies = await this.pool.resolveEventCompanies(event)
+        if (companies.length === 0) {
+            return 0
+        }
+
+        // Each company receives the payload narrowed down to it
+        const payloads = new Map(
+            companies.map(({ companyId, payload }) => [companyId, payload]),
+        )
+        const subscriptions = await this.pool.getSubscriptionsForEvent(
+            [...payloads.keys()],
+            event.type,
+        )
+        await this.pool.createDeliveries(
+            subscriptions.map((subscription) => ({
+                subscriptionId: subscription.id,
+                eventId,
+                eventType: event.type,
+                payload: payloads.get(subscription.companyId)!,
+            })),
+        )
+        if (subscriptions.length > 0) {
+            this.dispatcher.trigger()
+        }
+
+        return subscriptions.length
+    }
+
+    private async validateSubscription(
+        subscription: WebhookSubscriptionCreate | WebhookSubscriptionUpdate,
+    ): Promise<void> {
+        const errors: Record<string, string> = {}
+
+        // Deliveries check the URL again, its host may point elsewhere by then
+        if (subscription.url !== undefined) {
+            const refused = await this.dispatcher.checkUrl(subscription.url)
+            if (refused) {
+                errors.url = refused
+            }
+        }
+
+        const unknownTypes = (subscription.eventTypes ?? []).filter(
+            (type) => !EVENT_TYPES.includes(type),
+        )
+        if (unknownTypes.length) {
+            errors.eventTypes = `Unknown event types: ${unknownTypes.join(
+                ", ",
+            )}`
+        }
+
+        if (
+            subscription.secret !== undefined &&
+            subscription.secret.length < 16
+        ) {
+            errors.secret = "Must be at least 16 characters long"
+        }
+
+        if (Object.keys(errors).length) {
+            throw new ServiceError(
+                ServiceErrorType.InvalidInput,
+                "Invalid webhook subscription",
+                undefined,
+                errors,
+            )
+        }
+    }
+}
+
+export default function getWebhookService(
+    pool: WebhookPool,
+    companyPool: CompanyPool,
+    dispatcher: WebhookDispatcher,
+    events: ITrueFitEventRelaying,
+): IWebhookService {
+    return new WebhookService(pool, companyPool, dispatcher, events)
+}
@@ -30,5 +30,10 @@ declare module "fastify" {
     }
     interface FastifyContextConfig {
         public?: boolean
+        /**
+         * The route acts on the signed in user or records them as the actor,
+         * so API keys are refused
+         */
+        userOnly?: boolean
     }
 }
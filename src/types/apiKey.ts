@@ -0,0 +1,38 @@
+import { Permission } from "auth/permissions"
+
+export interface ApiKey {
+    id: string
+    companyId: string
+    name: string
+    prefix: string
+    scopes: Permission[]
+    expiresAt: Date | null
+    lastUsedAt: Date | null
+    revokedAt: Date | null
+    createdAt: Date
+    createdById: string | null
+}
+
+/**
+ * A key including its secret value, which is only returned when the key is
+ * created
+ */
+export interface ApiKeyWithSecret extends ApiKey {
+    key: string
+}
+
+export interface ApiKeyCreate {
+    companyId: string
+    name: string
+    scopes: Permission[]
+    expiresAt?: Date | null
+}
+
+/**
+ * The API key a request was authenticated with
+ */
+export interface ApiKeyActor {
+    id: string
+    name: string
+    prefix: string
+}
@@ -1,4 +1,8 @@
-import { ApplicantAssessment } from "@prisma/client"
+import {
+    AnswerReviewStatus,
+    ApplicantAssessment,
+    LateSubmissionPolicy,
+} from "@prisma/client"
 import { ScoringResult, ScoringExplanation } from "./scoring"
 
 export interface ApplicantAssessmentWithDetails extends ApplicantAssessment {
@@ -35,13 +39,18 @@ export interface ApplicantAssessmentWithDetails extends ApplicantAssessment {
     answers: Array<{
         id: string
         answer?: string | null
+        selectedOptions: string[]
         isCorrect: boolean
+        credit: number
+        reviewStatus: AnswerReviewStatus
+        gradedAt?: Date | null
         question: {
             id: string
             text: string
             type: string
             weight: number
             correctAnswer?: string | null
+            correctOptions: string[]
         }
     }>
 }
@@ -52,10 +61,103 @@ export interface AssessmentSubmission {
     jobId: string
     answers: Array<{
         questionId: string
-        answer: string
+        answer?: string
+        selectedOptions?: string[]
     }>
 }
 
+export interface SubmissionTiming {
+    attemptId: string
+    startedAt: Date
+    timeTakenSeconds: number
+    isLate: boolean
+    latePenaltyPercent: number | null
+}
+
+export interface AttemptStart {
+    applicantId: string
+    templateId: string
+    jobId: string
+}
+
+export interface AssessmentAttemptWithAnswers {
+    id: string
+    applicantId: string
+    templateId: string
+    jobId: string
+    assessmentId: string | null
+    startedAt: Date
+    expiresAt: Date | null
+    submittedAt: Date | null
+    answers: Array<{
+        questionId: string
+        answer: string | null
+        selectedOptions: string[]
+        savedAt: Date
+    }>
+}
+
+export interface AttemptWithTemplate extends AssessmentAttemptWithAnswers {
+    template: {
+        timeLimitMinutes: number | null
+        lateSubmissionPolicy: LateSubmissionPolicy
+        latePenaltyPercent: number | null
+    }
+}
+
+export interface AnswerGradeSubmission {
+    scores: Array<{
+        criterionId: string
+        points: number
+    }>
+}
+
+export interface AnswerGradeResult {
+    assessmentId: string
+    answer: {
+        id: string
+        questionId: string
+        isCorrect: boolean
+        credit: number
+        reviewStatus: AnswerReviewStatus
+        gradedAt: Date | null
+        gradedById: string | null
+        rubricScores: Array<{
+            criterionId: string
+            points: number
+        }>
+    }
+    pendingReviews: number
+    scoreChanged: boolean // False when a re-grade left the answer's credit as it was
+}
+
+export interface PendingReview {
+    answerId: string
+    answer: string | null
+    assessmentId: string
+    applicantId: string
+    jobId: string
+    companyId: string
+    submittedAt: Date
+    question: {
+        id: string
+        text: string
+        weight: number
+        rubric: Array<{
+            id: string
+            description: string
+            points: number
+            order: number
+        }>
+    }
+}
+
+export interface PendingReviewFilters {
+    jobId?: string
+    companyId?: string
+    assessmentId?: string
+}
+
 export interface AssessmentScore extends ScoringResult {
     assessmentId: string
     applicantId: string
@@ -80,6 +80,8 @@ export interface ApplicantFilters {
     country?: string
     hasAssessments?: boolean
     hasApplications?: boolean
+    companyId?: string
+    branchIds?: string[]
 }
 
 export interface ApplicantStats {
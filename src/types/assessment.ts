@@ -1,10 +1,19 @@
-import { QuestionType } from "@prisma/client"
+import {
+    AnswerReviewStatus,
+    LateSubmissionPolicy,
+    PartialCreditMode,
+    QuestionType,
+    TextMatchMode,
+} from "@prisma/client"
 
 // Assessment Template Types
 export interface AssessmentTemplate {
     id: string
     name: string
     description?: string | null
+    timeLimitMinutes?: number | null
+    lateSubmissionPolicy: LateSubmissionPolicy
+    latePenaltyPercent?: number | null
     createdAt: Date
     updatedAt: Date
     jobId?: string | null
@@ -30,12 +39,20 @@ export interface AssessmentTemplateWithDetails extends AssessmentTemplate {
         type: QuestionType
         weight: number
         order: number
+        options: string[]
         correctAnswer?: string | null
+        correctOptions: string[]
+        partialCredit: PartialCreditMode
         negativeWeight?: number | null
     }>
     assessments: Array<{
         id: string
         submittedAt: Date
+        job: {
+            branch: {
+                companyId: string
+            }
+        }
         applicant: {
             id: string
             firstName: string
@@ -48,17 +65,24 @@ export interface AssessmentTemplateWithDetails extends AssessmentTemplate {
 export interface AssessmentTemplateCreate {
     name: string
     description?: string | null
+    timeLimitMinutes?: number | null
+    lateSubmissionPolicy?: LateSubmissionPolicy
+    latePenaltyPercent?: number | null
     jobId?: string | null
 }
 
 export interface AssessmentTemplateUpdate {
     name?: string
     description?: string | null
+    timeLimitMinutes?: number | null
+    lateSubmissionPolicy?: LateSubmissionPolicy
+    latePenaltyPercent?: number | null
     jobId?: string | null
 }
 
 export interface AssessmentTemplateFilters {
     jobId?: string
+    companyId?: string
     search?: string
     hasQuestions?: boolean
     hasAssessments?: boolean
@@ -78,9 +102,40 @@ export interface AssessmentQuestion {
     type: QuestionType
     weight: number
     order: number
+    options: string[]
     correctAnswer?: string | null
+    correctOptions: string[]
+    partialCredit: PartialCreditMode
     negativeWeight?: number | null
+    matchMode: TextMatchMode
+    acceptedAnswers: string[]
+    matchPattern?: string | null
+    keywords: string[]
+    keywordThreshold?: number | null
+    numericTolerance?: number | null
     createdAt: Date
+    rubric?: RubricCriterion[]
+}
+
+export interface TextMatchingRules {
+    matchMode: TextMatchMode
+    acceptedAnswers: string[]
+    matchPattern: string | null
+    keywords: string[]
+    keywordThreshold: number | null
+    numericTolerance: number | null
+}
+
+export interface RubricCriterion {
+    id: string
+    description: string
+    points: number
+    order: number
+}
+
+export interface RubricCriterionCreate {
+    description: string
+    points: number
 }
 
 export interface AssessmentQuestionWithDetails extends AssessmentQuestion {
@@ -103,9 +158,17 @@ export interface AssessmentQuestionWithDetails extends AssessmentQuestion {
     answers: Array<{
         id: string
         answer?: string | null
+        selectedOptions: string[]
         isCorrect: boolean
+        credit: number
+        reviewStatus: AnswerReviewStatus
         assessment: {
             id: string
+            job: {
+                branch: {
+                    companyId: string
+                }
+            }
             applicant: {
                 id: string
                 firstName: string
@@ -122,8 +185,18 @@ export interface AssessmentQuestionCreate {
     type?: QuestionType
     weight?: number
     order?: number
+    options?: string[]
     correctAnswer?: string | null
+    correctOptions?: string[]
+    partialCredit?: PartialCreditMode
     negativeWeight?: number | null
+    matchMode?: TextMatchMode
+    acceptedAnswers?: string[]
+    matchPattern?: string | null
+    keywords?: string[]
+    keywordThreshold?: number | null
+    numericTolerance?: number | null
+    rubric?: RubricCriterionCreate[]
 }
 
 export interface AssessmentQuestionUpdate {
@@ -131,8 +204,32 @@ export interface AssessmentQuestionUpdate {
     type?: QuestionType
     weight?: number
     order?: number
+    options?: string[]
     correctAnswer?: string | null
+    correctOptions?: string[]
+    partialCredit?: PartialCreditMode
     negativeWeight?: number | null
+    matchMode?: TextMatchMode
+    acceptedAnswers?: string[]
+    matchPattern?: string | null
+    keywords?: string[]
+    keywordThreshold?: number | null
+    numericTolerance?: number | null
+    rubric?: RubricCriterionCreate[]
+}
+
+export interface AnswerRegradeSummary {
+    evaluated: number // Answers checked against the answer key
+    changed: number // Answers whose correctness or credit changed
+    flipped: number // Answers that went from correct to incorrect or back
+    nowCorrect: number
+    nowIncorrect: number
+    affectedJobIds: string[] // Jobs with assessments answering the question
+}
+
+export interface AssessmentQuestionUpdateResult {
+    question: AssessmentQuestion
+    regrade: AnswerRegradeSummary | null // Set when the update can change scores
 }
 
 // Applicant Assessment Types
@@ -234,7 +331,12 @@ export interface AssessmentStats {
 export interface ApplicantAnswer {
     id: string
     answer?: string | null
+    selectedOptions: string[]
     isCorrect: boolean
+    credit: number
+    reviewStatus: AnswerReviewStatus
+    gradedAt?: Date | null
+    gradedById?: string | null
     createdAt: Date
     assessmentId: string
     questionId: string
@@ -273,12 +375,16 @@ export interface ApplicantAnswerCreate {
     assessmentId: string
     questionId: string
     answer?: string | null
+    selectedOptions?: string[]
     isCorrect?: boolean
+    credit?: number
 }
 
 export interface ApplicantAnswerUpdate {
     answer?: string | null
+    selectedOptions?: string[]
     isCorrect?: boolean
+    credit?: number
 }
 
 export interface QuestionAnswerStats {
@@ -15,3 +15,139 @@ export class Branch {
         this.companyId = companyId
     }
 }
+
+export class JobApplication {
+    id?: string
+    companyId?: string
+    branchId?: string
+
+    constructor(id?: string, companyId?: string, branchId?: string) {
+        this.id = id
+        this.companyId = companyId
+        this.branchId = branchId
+    }
+}
+
+/**
+ * A null company marks assessments across every company, such as the
+ * statistics of a shared template
+ */
+export class ApplicantAssessment {
+    id?: string
+    companyId?: string | null
+
+    constructor(id?: string, companyId?: string | null) {
+        this.id = id
+        this.companyId = companyId
+    }
+}
+
+export class WebhookSubscription {
+    id?: string
+    companyId?: string
+
+    constructor(id?: string, companyId?: string) {
+        this.id = id
+        this.companyId = companyId
+    }
+}
+
+/**
+ * The branch of a job, where known, lets roles assigned for that branch apply
+ * and limits it to the users of that branch
+ */
+export class Job {
+    id?: string
+    companyId?: string
+    branchId?: string
+
+    constructor(id?: string, companyId?: string, branchId?: string) {
+        this.id = id
+        this.companyId = companyId
+        this.branchId = branchId
+    }
+}
+
+/**
+ * Applicants don't belong to a company, they are visible to the companies
+ * and branches whose jobs they applied to
+ */
+export class Applicant {
+    id?: string
+    companyIds?: string[]
+    branchIds?: string[]
+
+    constructor(id?: string, companyIds?: string[], branchIds?: string[]) {
+        this.id = id
+        this.companyIds = companyIds
+        this.branchIds = branchIds
+    }
+}
+
+/**
+ * A null company marks a template that isn't tied to a job and is shared
+ * by every company
+ */
+export class AssessmentTemplate {
+    id?: string
+    companyId?: string | null
+
+    constructor(id?: string, companyId?: string | null) {
+        this.id = id
+        this.companyId = companyId
+    }
+}
+
+/**
+ * Questions belong to the company of their template, a null company marks
+ * a question of a shared template
+ */
+export class AssessmentQuestion {
+    id?: string
+    companyId?: string | null
+
+    constructor(id?: string, companyId?: string | null) {
+        this.id = id
+        this.companyId = companyId
+    }
+}
+
+/**
+ * A null company marks a scoring config that isn't tied to a job, such as
+ * the default config
+ */
+export class ScoringConfig {
+    id?: string
+    companyId?: string | null
+
+    constructor(id?: string, companyId?: string | null) {
+        this.id = id
+        this.companyId = companyId
+    }
+}
+
+/**
+ * A null company marks rankings across every company, such as an
+ * invalidation by scoring config version
+ */
+export class CandidateRanking {
+    id?: string
+    companyId?: string | null
+    branchId?: string
+
+    constructor(id?: string, companyId?: string | null, branchId?: string) {
+        this.id = id
+        this.companyId = companyId
+        this.branchId = branchId
+    }
+}
+
+export class Role {
+    id?: string
+    companyId?: string
+
+    constructor(id?: string, companyId?: string) {
+        this.id = id
+        this.companyId = companyId
+    }
+}
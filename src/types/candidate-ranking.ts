@@ -3,6 +3,7 @@ import {
     JobRankingMetadata,
     RankingStatus,
 } from "@prisma/client"
+import { TrueFitEvent, TrueFitEventTypes } from "services/events"
 
 export interface CandidateRankingWithDetails extends CandidateRanking {
     applicant: {
@@ -40,6 +41,7 @@ export interface TopCandidatesResponse {
         lastCalculatedAt: Date | null
         calculationDuration: number | null
         status: RankingStatus
+        candidatesAwaitingReview: number
     }
 }
 
@@ -57,6 +59,21 @@ export interface RankingCalculationResult {
     scoringConfigVersion: string
 }
 
+/**
+ * The ranking of a job after a single assessment was ranked into it
+ */
+export interface IncrementalRankingResult {
+    jobId: string
+    applicantId: string
+    assessmentId: string
+    rank: number
+    /** The applicant's rank before their new assessment, if they had one */
+    previousRank: number | null
+    totalCandidates: number
+    calculationDuration: number
+    scoringConfigVersion: string
+}
+
 export interface CandidateScore {
     applicantId: string
     assessmentId: string
@@ -66,6 +83,10 @@ export interface CandidateScore {
     correctAnswers: number
     incorrectAnswers: number
     recencyBonus?: number
+    pendingReviews: number
+    timeTakenSeconds: number | null
+    submittedAt: Date
+    applicantCreatedAt: Date
 }
 
 export interface RankingInvalidationRequest {
@@ -87,6 +108,7 @@ export interface JobRankingStatus {
 export interface RankingEventPayload {
     type:
         | "ASSESSMENT_SUBMITTED"
+        | "ASSESSMENT_GRADED"
         | "SCORING_CONFIG_CHANGED"
         | "JOB_UPDATED"
         | "MANUAL_TRIGGER"
@@ -99,6 +121,17 @@ export interface RankingEventPayload {
     }
 }
 
+/**
+ * A change to the ranking of a job, streamed to the job's subscribers
+ */
+export type RankingUpdate = TrueFitEvent<
+    | TrueFitEventTypes.RANKING_CALCULATED
+    | TrueFitEventTypes.RANKING_INVALIDATED
+    | TrueFitEventTypes.ASSESSMENT_SUBMITTED
+>
+
+export type RankingUpdateListener = (update: RankingUpdate) => void
+
 export interface BulkRankingRequest {
     jobIds: string[]
     triggerEvent: string
@@ -1,3 +1,5 @@
+import { UserRole } from "@prisma/client"
+
 export interface Company {
     id: string
     name: string
@@ -130,3 +132,17 @@ export interface BranchUpdate {
     email?: string | null
     phone?: string | null
 }
+
+export interface BranchAssignment {
+    id: string
+    userId: string
+    branchId: string
+    createdAt: Date
+    user: {
+        id: string
+        email: string
+        firstName: string
+        lastName: string
+        role: UserRole
+    }
+}
@@ -81,6 +81,7 @@ export interface JobUpdate {
 export interface JobFilters {
     status?: JobStatus
     branchId?: string
+    branchIds?: string[]
     companyId?: string
     search?: string
 }
@@ -9,6 +9,12 @@ export interface JobApplication {
     jobId: string
 }
 
+/**
+ * The status an application was read with, used to only change applications
+ * that are still in that status when the update is written
+ */
+export type JobApplicationStatusRef = Pick<JobApplication, "id" | "status">
+
 export interface JobApplicationWithDetails extends JobApplication {
     applicant: {
         id: string
@@ -45,10 +51,6 @@ export interface JobApplicationCreate {
     status?: ApplicationStatus
 }
 
-export interface JobApplicationUpdate {
-    status?: ApplicationStatus
-}
-
 export interface JobApplicationFilters {
     status?: ApplicationStatus
     jobId?: string
@@ -66,3 +68,36 @@ export interface JobApplicationStats {
     rejected: number
     hired: number
 }
+
+export interface JobApplicationStatusChange {
+    id: string
+    applicationId: string
+    fromStatus: ApplicationStatus | null
+    toStatus: ApplicationStatus
+    reason?: string | null
+    changedAt: Date
+    changedById?: string | null
+    changedByApiKeyId?: string | null
+}
+
+export interface JobApplicationStatusChangeWithActor
+    extends JobApplicationStatusChange {
+    changedBy?: {
+        id: string
+        email: string
+        firstName: string
+        lastName: string
+    } | null
+    changedByApiKey?: {
+        id: string
+        name: string
+        prefix: string
+    } | null
+}
+
+export interface JobApplicationStatusChangeCreate {
+    toStatus: ApplicationStatus
+    reason?: string | null
+    changedById?: string | null
+    changedByApiKeyId?: string | null
+}
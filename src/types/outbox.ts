@@ -0,0 +1,18 @@
+import { OutboxEvent } from "@prisma/client"
+
+export { OutboxEvent }
+
+export interface OutboxDispatchOptions {
+    /** Maximum number of events claimed per delivery round */
+    batchSize: number
+    /** Deliveries attempted before an event is dead-lettered */
+    maxAttempts: number
+    /** Delay before the first retry, doubled for every further attempt */
+    baseRetryDelayMs: number
+    /** Upper bound for the delay between retries */
+    maxRetryDelayMs: number
+    /** How long a claimed event is reserved for the claiming dispatcher */
+    leaseMs: number
+    /** How often the dispatcher looks for due events */
+    pollIntervalMs: number
+}
@@ -0,0 +1,69 @@
+import {
+    RankingBatch,
+    RankingBatchItem,
+    RankingBatchItemStatus,
+    RankingBatchPriority,
+    RankingBatchStatus,
+} from "@prisma/client"
+
+export {
+    RankingBatch,
+    RankingBatchItem,
+    RankingBatchItemStatus,
+    RankingBatchPriority,
+    RankingBatchStatus,
+}
+
+export interface RankingBatchWithItems extends RankingBatch {
+    items: RankingBatchItem[]
+}
+
+/**
+ * An item claimed for recalculation, with what triggered its batch
+ */
+export interface DueRankingBatchItem extends RankingBatchItem {
+    batch: Pick<RankingBatch, "triggerEvent">
+}
+
+export interface RankingBatchCreate {
+    jobIds: string[]
+    triggerEvent: string
+    priority: RankingBatchPriority
+}
+
+/**
+ * Progress of a ranking batch, as reported to clients
+ */
+export interface RankingBatchProgress {
+    id: string
+    status: RankingBatchStatus
+    priority: "high" | "normal"
+    triggerEvent: string
+    totalJobs: number
+    counts: Record<RankingBatchItemStatus, number>
+    /** Percentage of jobs that are no longer pending or running */
+    progress: number
+    /** Extrapolated from the pace of the batch so far */
+    estimatedCompletionAt: Date | null
+    createdAt: Date
+    startedAt: Date | null
+    finishedAt: Date | null
+    jobs: Array<{
+        jobId: string
+        status: RankingBatchItemStatus
+        errorMessage: string | null
+        totalCandidates: number | null
+        calculationDuration: number | null
+        startedAt: Date | null
+        finishedAt: Date | null
+    }>
+}
+
+export interface RankingBatchWorkerOptions {
+    /** Number of jobs recalculated at the same time */
+    concurrency: number
+    /** How long a claimed job is reserved for the claiming worker */
+    leaseMs: number
+    /** How often the worker looks for queued jobs */
+    pollIntervalMs: number
+}
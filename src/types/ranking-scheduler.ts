@@ -0,0 +1,16 @@
+import { RankingSchedulerRun } from "@prisma/client"
+
+export { RankingSchedulerRun }
+
+export type RankingSchedulerRunCreate = Omit<RankingSchedulerRun, "id">
+
+export interface RankingSchedulerOptions {
+    /** How often the scheduler looks for stale rankings */
+    intervalMs: number
+    /** Number of jobs looked up at a time */
+    batchSize: number
+    /** Jobs recalculated before a run makes way for the next one */
+    maxJobsPerRun: number
+    /** How long a run may hold the scheduler lock */
+    lockTimeoutMs: number
+}
@@ -0,0 +1,35 @@
+import { RankingSnapshot, RankingSnapshotEntry } from "@prisma/client"
+
+export { RankingSnapshot, RankingSnapshotEntry }
+
+export interface RankingSnapshotWithEntries extends RankingSnapshot {
+    entries: RankingSnapshotEntry[]
+}
+
+/**
+ * How an applicant's rank changed between two snapshots. Applicants only
+ * ranked in the later snapshot entered the ranking, applicants only ranked
+ * in the earlier one dropped out of it.
+ */
+export type RankMovement = "UP" | "DOWN" | "UNCHANGED" | "ENTERED" | "DROPPED"
+
+export interface ApplicantRankMovement {
+    applicantId: string
+    movement: RankMovement
+    fromRank: number | null
+    toRank: number | null
+    /** Positive when the applicant moved up */
+    rankChange: number | null
+    fromScore: number | null
+    toScore: number | null
+    scoreChange: number | null
+}
+
+export interface RankingSnapshotDiff {
+    jobId: string
+    from: RankingSnapshot
+    to: RankingSnapshot
+    /** Set when only applicants in the top of either snapshot are compared */
+    top: number | null
+    movements: ApplicantRankMovement[]
+}
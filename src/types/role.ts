@@ -0,0 +1,61 @@
+import { UserRole } from "@prisma/client"
+import { Permission } from "auth/permissions"
+
+export interface CompanyRole {
+    id: string
+    companyId: string
+    name: string
+    description: string | null
+    permissions: Permission[]
+    createdAt: Date
+    updatedAt: Date
+}
+
+export interface CompanyRoleWithAssignments extends CompanyRole {
+    assignments: RoleAssignment[]
+}
+
+export interface CompanyRoleCreate {
+    companyId: string
+    name: string
+    description?: string | null
+    permissions: Permission[]
+}
+
+export interface CompanyRoleUpdate {
+    name?: string
+    description?: string | null
+    permissions?: Permission[]
+}
+
+export interface RoleAssignment {
+    id: string
+    roleId: string
+    userId: string
+    branchId: string | null
+    createdAt: Date
+}
+
+export interface RoleAssignmentCreate {
+    userId: string
+    branchId?: string | null
+}
+
+/**
+ * Permissions a user holds through one of their roles, within one branch or
+ * the whole company when the branch is null
+ */
+export interface PermissionGrant {
+    permissions: Permission[]
+    branchId: string | null
+}
+
+export interface BuiltInRole {
+    name: UserRole
+    permissions: Permission[]
+}
+
+export interface PermissionDescription {
+    name: Permission
+    description: string
+}
@@ -1,9 +1,16 @@
-import { ScoringConfig } from "@prisma/client"
+import {
+    AnswerReviewStatus,
+    RankingMethod,
+    RankingTieBreaker,
+    ScoringConfig,
+} from "@prisma/client"
 
 export interface ScoringConfigCreate {
     negativeMarkingFraction: number
     recencyWindowDays?: number | null
     recencyBoostPercent?: number | null
+    tieBreakers?: RankingTieBreaker[]
+    rankingMethod?: RankingMethod
     isDefault?: boolean
     jobId?: string | null
 }
@@ -12,6 +19,8 @@ export interface ScoringConfigUpdate {
     negativeMarkingFraction?: number
     recencyWindowDays?: number | null
     recencyBoostPercent?: number | null
+    tieBreakers?: RankingTieBreaker[]
+    rankingMethod?: RankingMethod
     isDefault?: boolean
 }
 
@@ -39,14 +48,23 @@ export interface ScoringResult {
             count: number
             points: number
         }
+        partialAnswers: {
+            count: number
+            points: number
+        }
         incorrectAnswers: {
             count: number
             points: number
         }
+        pendingReviews: number
         recencyBonus?: {
             percentage: number
             points: number
         }
+        latePenalty?: {
+            percentage: number
+            points: number
+        }
     }
     explanation: string[]
 }
@@ -90,14 +108,18 @@ export interface ScoringExplanation {
         totalQuestions: number
         answeredQuestions: number
         correctAnswers: number
+        partialAnswers: number
         incorrectAnswers: number
+        pendingReviews: number
         timeTaken: number
+        isLate: boolean
         submittedAt: Date
     }
     scoring: {
         baseScore: number
         negativeMarking: number
         recencyBonus: number
+        latePenalty: number
         finalScore: number
         maxPossibleScore: number
     }
@@ -106,6 +128,8 @@ export interface ScoringExplanation {
         weight: number
         answer: string
         isCorrect: boolean
+        credit: number
+        reviewStatus: AnswerReviewStatus
         points: number
         explanation: string
     }>
@@ -5,6 +5,7 @@
  * @property {number} InternalError - Error thrown when an internal error occurs
  * @property {number} DuplicateValue - Error thrown when a unique value constraint is violated
  * @property {number} InvalidInput - Error thrown when the input is invalid
+ * @property {number} Conflict - Error thrown when the operation conflicts with one in progress
  */
 export enum ServiceErrorType {
     NotFound = "NotFound",
@@ -13,6 +14,7 @@ export enum ServiceErrorType {
     InternalError = "InternalError",
     InvalidStatus = "InvalidStatus",
     Forbidden = "Forbidden",
+    Conflict = "Conflict",
 }
 /**
  * @class ServiceError
@@ -55,6 +57,9 @@ export class ServiceError extends Error {
                 case ServiceErrorType.Forbidden:
                     errorMessage = "Forbidden operation on resource"
                     break
+                case ServiceErrorType.Conflict:
+                    errorMessage = "Conflicting operation in progress"
+                    break
                 default:
                     errorMessage = "Internal error"
             }
@@ -91,4 +96,8 @@ export class ServiceError extends Error {
     static get Forbidden(): ServiceError {
         return new ServiceError(ServiceErrorType.Forbidden)
     }
+
+    static get Conflict(): ServiceError {
+        return new ServiceError(ServiceErrorType.Conflict)
+    }
 }
@@ -1,4 +1,6 @@
 import { UserRole } from "@prisma/client"
+import { PermissionGrant } from "types/role"
+import { ApiKeyActor } from "types/apiKey"
 
 export interface User {
     id: string
@@ -62,6 +64,20 @@ export interface UserWithSessions {
     sessions: UserSession[]
 }
 
+/**
+ * A user with the company roles and branches assigned to them
+ */
+export interface UserWithAccess extends User {
+    roleAssignments: {
+        branchId: string | null
+        role: { companyId: string; permissions: string[] }
+    }[]
+    branchAssignments: {
+        branchId: string
+        branch: { companyId: string }
+    }[]
+}
+
 export interface UserSession {
     id: string
     token: string
@@ -70,6 +86,35 @@ export interface UserSession {
     userAgent: string | null
     ipAddress: string | null
     createdAt: Date
+    refreshTokenHash: string | null
+    /** Sessions created by refreshing one another share their family */
+    familyId: string
+    /** When the session's refresh token was exchanged for a new session */
+    rotatedAt: Date | null
+}
+
+export interface UserSessionCreate {
+    userId: string
+    token: string
+    refreshTokenHash: string
+    familyId: string
+    expiresAt: Date
+    userAgent?: string | null
+    ipAddress?: string | null
+}
+
+/**
+ * A device signed in as the user
+ */
+export interface DeviceSession {
+    id: string
+    userAgent: string | null
+    ipAddress: string | null
+    /** When the session was last renewed */
+    createdAt: Date
+    expiresAt: Date
+    /** Whether this is the session making the request */
+    current: boolean
 }
 
 export interface LoginRequest {
@@ -78,7 +123,12 @@ export interface LoginRequest {
 }
 
 export interface LoginResponse {
+    /** Short-lived access token */
     token: string
+    /** Seconds until the access token expires */
+    expiresIn: number
+    /** Single-use token exchanged for new tokens at POST /users/refresh */
+    refreshToken: string
     user: {
         id: string
         email: string
@@ -97,4 +147,13 @@ export interface AuthenticatedUser {
     role: UserRole
     companyId: string | null
     sessionId: string
+    /** Permissions granted by the company roles assigned to the user */
+    grants?: PermissionGrant[]
+    /** Branches the user is limited to, every branch of their company when empty */
+    branchIds?: string[]
+    /**
+     * Set when the request was made with an API key, which then stands in for
+     * the user: `id` is the key's ID and `grants` its scopes
+     */
+    apiKey?: ApiKeyActor
 }
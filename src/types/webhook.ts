@@ -0,0 +1,85 @@
+import { WebhookDelivery, WebhookDeliveryStatus } from "@prisma/client"
+import { TrueFitEvent } from "services/events"
+
+export { WebhookDelivery, WebhookDeliveryStatus }
+
+export interface WebhookSubscription {
+    id: string
+    companyId: string
+    url: string
+    eventTypes: string[]
+    description: string | null
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+}
+
+/**
+ * A subscription including its signing secret, which is only returned when
+ * the subscription is created
+ */
+export interface WebhookSubscriptionWithSecret extends WebhookSubscription {
+    secret: string
+}
+
+export interface WebhookSubscriptionCreate {
+    companyId: string
+    url: string
+    eventTypes?: string[]
+    secret?: string
+    description?: string
+    isActive?: boolean
+}
+
+export interface WebhookSubscriptionUpdate {
+    url?: string
+    eventTypes?: string[]
+    secret?: string
+    description?: string | null
+    isActive?: boolean
+}
+
+export interface WebhookDeliveryCreate {
+    subscriptionId: string
+    eventId: string
+    eventType: TrueFitEvent["type"]
+    payload: TrueFitEvent["payload"]
+}
+
+/**
+ * The payload of an event as delivered to one of the companies it concerns
+ */
+export interface CompanyEventPayload {
+    companyId: string
+    payload: TrueFitEvent["payload"]
+}
+
+/**
+ * A delivery claimed for sending, with what is needed to send it
+ */
+export interface DueWebhookDelivery extends WebhookDelivery {
+    subscription: { url: string; secret: string }
+}
+
+export interface WebhookResponse {
+    status: number
+}
+
+export interface WebhookDispatchOptions {
+    /** Maximum number of deliveries sent per round */
+    batchSize: number
+    /** Attempts before a delivery is given up on */
+    maxAttempts: number
+    /** Delay before the first retry, doubled for every further attempt */
+    baseRetryDelayMs: number
+    /** Upper bound for the delay between retries */
+    maxRetryDelayMs: number
+    /** How long a claimed delivery is reserved for the claiming dispatcher */
+    leaseMs: number
+    /** How long to wait for the receiving server to respond */
+    requestTimeoutMs: number
+    /** How often the dispatcher looks for due deliveries */
+    pollIntervalMs: number
+    /** Whether webhooks may be sent to private addresses, for local development */
+    allowPrivateNetworks: boolean
+}
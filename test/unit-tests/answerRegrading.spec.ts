@@ -0,0 +1,171 @@
+import { expect } from "chai"
+import pino from "pino"
+import { QuestionType } from "@prisma/client"
+
+import getAssessmentQuestionService from "../../src/services/assessment-questions"
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import OutboxEventRelaying from "../../src/services/events/outbox"
+import { TrueFitEvent, TrueFitEventTypes } from "../../src/services/events"
+import makeMockDB from "./mockDB"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getOutboxEventPool from "../../src/persistence/db/pool/outbox-events"
+
+describe("Answer re-grading", async function () {
+    const logger = pino()
+    const db = makeMockDB()
+    const events = new OutboxEventRelaying(
+        getOutboxEventPool(db, logger),
+        logger,
+    )
+    const questionPool = getAssessmentQuestionPool(db, logger)
+    const assessmentQuestionService = getAssessmentQuestionService(
+        questionPool,
+        events,
+    )
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        questionPool,
+        events,
+    )
+
+    const regradeEvents: TrueFitEvent<TrueFitEventTypes.QUESTION_REGRADED>[] =
+        []
+    events.listenForEvents(
+        "test",
+        [TrueFitEventTypes.QUESTION_REGRADED],
+        async (event) => {
+            regradeEvents.push(event)
+        },
+    )
+
+    // Mock data setup
+    const jobIds: string[] = []
+    let questionId: string
+    let assessmentId: string
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Regrading Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId: company.id },
+        })
+        for (const title of ["Backend Engineer", "Platform Engineer"]) {
+            const job = await db.job.create({
+                data: { title, branchId: branch.id },
+            })
+            jobIds.push(job.id)
+            await db.scoringConfig.create({
+                data: {
+                    negativeMarkingFraction: 0,
+                    jobId: job.id,
+                    updatedAt: new Date(),
+                },
+            })
+        }
+
+        // The template is shared by both jobs, and scored with the default
+        // config as it has no job of its own
+        await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Shared" },
+        })
+        const question = await assessmentQuestionService.createQuestion({
+            templateId: template.id,
+            text: "Which protocol does HTTPS build on?",
+            type: QuestionType.TEXT,
+            weight: 2,
+            correctAnswer: "TSL",
+        })
+        questionId = question.id
+
+        const answers = ["TLS", "TLS", "SSH", "TSL"]
+        for (let i = 0; i < answers.length; i++) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `regrade${i}@example.com`,
+                    firstName: `Regrade${i}`,
+                    lastName: "Candidate",
+                },
+            })
+            const assessment =
+                await applicantAssessmentService.submitAssessment({
+                    applicantId: applicant.id,
+                    templateId: template.id,
+                    jobId: jobIds[i % 2],
+                    answers: [{ questionId, answer: answers[i] }],
+                })
+            if (i === 0) {
+                assessmentId = assessment.id
+            }
+        }
+    })
+
+    it("should not re-grade when the update cannot change scores", async function () {
+        const { regrade } = await assessmentQuestionService.updateQuestion(
+            questionId,
+            { text: "Which protocol secures HTTPS?" },
+        )
+
+        expect(regrade).to.be.null
+        await events.deliverDueEvents()
+        expect(regradeEvents).to.have.length(0)
+    })
+
+    it("should re-grade answers when the correct answer is fixed", async function () {
+        const { question, regrade } =
+            await assessmentQuestionService.updateQuestion(questionId, {
+                correctAnswer: "TLS",
+            })
+
+        expect(question.correctAnswer).to.equal("TLS")
+        expect(regrade).to.deep.include({
+            evaluated: 4,
+            changed: 3,
+            flipped: 3,
+            nowCorrect: 2,
+            nowIncorrect: 1,
+        })
+        expect(regrade!.affectedJobIds).to.have.members(jobIds)
+
+        const score = await applicantAssessmentService.getAssessmentScore(
+            assessmentId,
+        )
+        expect(score.breakdown.correctAnswers.count).to.equal(1)
+    })
+
+    it("should invalidate the rankings of every affected job", async function () {
+        await events.deliverDueEvents()
+
+        expect(regradeEvents).to.have.length(1)
+        expect(regradeEvents[0].payload.questionId).to.equal(questionId)
+        expect(regradeEvents[0].payload.jobIds).to.have.members(jobIds)
+        expect(regradeEvents[0].payload.flipped).to.equal(3)
+    })
+
+    it("should invalidate rankings without flipping answers when the weight changes", async function () {
+        const { regrade } = await assessmentQuestionService.updateQuestion(
+            questionId,
+            { weight: 3 },
+        )
+
+        expect(regrade!.flipped).to.equal(0)
+        await events.deliverDueEvents()
+        expect(regradeEvents).to.have.length(2)
+        expect(regradeEvents[1].payload.jobIds).to.have.members(jobIds)
+
+        const score = await applicantAssessmentService.getAssessmentScore(
+            assessmentId,
+        )
+        expect(score.score).to.equal(3)
+    })
+})
@@ -0,0 +1,291 @@
+import { expect } from "chai"
+import { FastifyInstance } from "fastify"
+import { ApplicationStatus, JobStatus, UserRole } from "@prisma/client"
+
+import { build } from "../../src/app"
+import makeMockDB from "./mockDB"
+
+describe("API keys", async function () {
+    const db = makeMockDB()
+    let server: FastifyInstance
+
+    // Mock data setup
+    let companyA: string
+    let companyB: string
+    const jobs: Record<"a" | "b", string> = { a: "", b: "" }
+    const tokens: Record<string, string> = {}
+
+    const request = (
+        token: string,
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        url: string,
+        payload?: object,
+    ) =>
+        server.inject({
+            method,
+            url: `/v1${url}`,
+            payload,
+            headers: { authorization: `Bearer ${token}` },
+        })
+
+    const createKey = async (scopes: string[], expiresAt?: string) => {
+        const response = await request(tokens.admin, "POST", "/api-keys", {
+            companyId: companyA,
+            name: "ATS sync",
+            scopes,
+            expiresAt,
+        })
+        expect(response.statusCode).to.equal(201)
+        return response.json().apiKey as { id: string; key: string }
+    }
+
+    before(async function () {
+        this.timeout(30000)
+        process.env.JWT_SECRET = "test-jwt-secret-for-unit-tests"
+
+        server = await build({ logger: false }, db)
+        await server.ready()
+
+        companyA = (await db.company.create({ data: { name: "Company A" } })).id
+        companyB = (await db.company.create({ data: { name: "Company B" } })).id
+
+        for (const [name, companyId] of [
+            ["a", companyA],
+            ["b", companyB],
+        ] as const) {
+            const branch = await db.branch.create({
+                data: { name, companyId },
+            })
+            const job = await db.job.create({
+                data: {
+                    title: `Engineer ${name}`,
+                    status: JobStatus.OPEN,
+                    branchId: branch.id,
+                },
+            })
+            jobs[name] = job.id
+
+            await db.scoringConfig.create({
+                data: {
+                    negativeMarkingFraction: 0,
+                    jobId: job.id,
+                    updatedAt: new Date(),
+                },
+            })
+        }
+
+        const userService = server.services.getUserService()
+        const accounts: [string, UserRole, string | undefined][] = [
+            ["admin", UserRole.ADMIN, undefined],
+            ["recruiterA", UserRole.RECRUITER, companyA],
+        ]
+        for (const [name, role, companyId] of accounts) {
+            await userService.createUser({
+                email: `${name.toLowerCase()}@example.com`,
+                firstName: name,
+                lastName: "User",
+                password: "securePassword123",
+                role,
+                companyId,
+            })
+
+            const { token } = await userService.login({
+                email: `${name.toLowerCase()}@example.com`,
+                password: "securePassword123",
+            })
+            tokens[name] = token
+        }
+    })
+
+    after(async function () {
+        await server.close()
+    })
+
+    describe("Managing keys", function () {
+        it("should only show the key when it is created", async function () {
+            const created = await request(tokens.admin, "POST", "/api-keys", {
+                companyId: companyA,
+                name: "Reporting",
+                scopes: ["jobs:read"],
+            })
+            expect(created.statusCode).to.equal(201)
+
+            const apiKey = created.json().apiKey
+            expect(apiKey.key.startsWith(apiKey.prefix)).to.equal(true)
+            expect(apiKey.scopes).to.deep.equal(["jobs:read"])
+            expect(apiKey).to.not.have.property("keyHash")
+
+            const stored = await db.apiKey.findUnique({
+                where: { id: apiKey.id },
+            })
+            expect(stored!.keyHash).to.not.equal(apiKey.key)
+
+            const fetched = await request(
+                tokens.admin,
+                "GET",
+                `/api-keys/${apiKey.id}`,
+            )
+            expect(fetched.statusCode).to.equal(200)
+            expect(fetched.json().apiKey).to.not.have.property("key")
+        })
+
+        it("should keep key management to admins", async function () {
+            const create = await request(
+                tokens.recruiterA,
+                "POST",
+                "/api-keys",
+                {
+                    name: "Self-made",
+                    scopes: ["jobs:read"],
+                },
+            )
+            expect(create.statusCode).to.equal(403)
+
+            const list = await request(tokens.recruiterA, "GET", "/api-keys")
+            expect(list.statusCode).to.equal(403)
+
+            const { key } = await createKey(["jobs:read"])
+            const withKey = await request(key, "GET", "/api-keys")
+            expect(withKey.statusCode).to.equal(403)
+        })
+
+        it("should reject invalid keys", async function () {
+            const unknown = await request(tokens.admin, "POST", "/api-keys", {
+                companyId: companyA,
+                name: "Teleporter",
+                scopes: ["applicants:teleport"],
+            })
+            expect(unknown.statusCode).to.equal(400)
+
+            const expired = await request(tokens.admin, "POST", "/api-keys", {
+                companyId: companyA,
+                name: "Expired",
+                scopes: ["jobs:read"],
+                expiresAt: new Date(Date.now() - 1000).toISOString(),
+            })
+            expect(expired.statusCode).to.equal(400)
+        })
+    })
+
+    describe("Authenticating", function () {
+        it("should act within the key's company with only its scopes", async function () {
+            const { key } = await createKey(["jobs:read"])
+
+            const list = await request(key, "GET", "/jobs")
+            expect(list.statusCode).to.equal(200)
+            expect(
+                list.json().jobs.map((j: { id: string }) => j.id),
+            ).to.deep.equal([jobs.a])
+
+            const other = await request(key, "GET", `/jobs/${jobs.b}`)
+            expect(other.statusCode).to.equal(403)
+
+            // Recruiters can edit jobs, the key wasn't given the scope
+            const edit = await request(key, "PUT", `/jobs/${jobs.a}`, {
+                openPositions: 2,
+            })
+            expect(edit.statusCode).to.equal(403)
+
+            const me = await request(key, "GET", "/users/me")
+            expect(me.statusCode).to.equal(403)
+        })
+
+        it("should not act where changes are recorded against a user", async function () {
+            const { key } = await createKey(["assessments:grade"])
+
+            // Grades are recorded against the grading user, the key is refused
+            // before the assessment is looked up
+            const grade = await request(
+                key,
+                "PUT",
+                "/applicant-assessments/some-assessment/answers/some-answer/grade",
+                { scores: [] },
+            )
+            expect(grade.statusCode).to.equal(403)
+        })
+
+        it("should record when the key was last used", async function () {
+            const { id, key } = await createKey(["jobs:read"])
+
+            const unused = await request(tokens.admin, "GET", `/api-keys/${id}`)
+            expect(unused.json().apiKey.lastUsedAt).to.equal(null)
+
+            await request(key, "GET", "/jobs")
+
+            const used = await request(tokens.admin, "GET", `/api-keys/${id}`)
+            expect(used.json().apiKey.lastUsedAt).to.be.a("string")
+        })
+
+        it("should refuse revoked, expired and unknown keys", async function () {
+            const revoked = await createKey(["jobs:read"])
+            const revoke = await request(
+                tokens.admin,
+                "DELETE",
+                `/api-keys/${revoked.id}`,
+            )
+            expect(revoke.statusCode).to.equal(200)
+            expect(
+                (await request(revoked.key, "GET", "/jobs")).statusCode,
+            ).to.equal(401)
+
+            const expired = await createKey(
+                ["jobs:read"],
+                new Date(Date.now() + 60 * 1000).toISOString(),
+            )
+            await db.apiKey.update({
+                where: { id: expired.id },
+                data: { expiresAt: new Date(Date.now() - 1000) },
+            })
+            expect(
+                (await request(expired.key, "GET", "/jobs")).statusCode,
+            ).to.equal(401)
+
+            const unknown = await request("tf_unknown_key", "GET", "/jobs")
+            expect(unknown.statusCode).to.equal(401)
+        })
+
+        it("should record the key as the actor of status changes", async function () {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: "synced@applicants.com",
+                    firstName: "Synced",
+                    lastName: "Applicant",
+                },
+            })
+            const application = await db.jobApplication.create({
+                data: {
+                    applicantId: applicant.id,
+                    jobId: jobs.a,
+                    status: ApplicationStatus.REVIEWING,
+                },
+            })
+
+            const { id, key } = await createKey([
+                "applications:read",
+                "applications:review",
+            ])
+            const update = await request(
+                key,
+                "PUT",
+                `/job-applications/${application.id}/status`,
+                { status: ApplicationStatus.REJECTED },
+            )
+            expect(update.statusCode).to.equal(200)
+
+            const history = await request(
+                tokens.admin,
+                "GET",
+                `/job-applications/${application.id}/history`,
+            )
+            expect(history.statusCode).to.equal(200)
+            const change = history.json().history.at(-1)
+            expect(change.toStatus).to.equal(ApplicationStatus.REJECTED)
+            expect(change.changedBy).to.equal(null)
+            expect(change.changedByApiKey).to.deep.equal({
+                id,
+                name: "ATS sync",
+                prefix: key.split("_").slice(0, 2).join("_"),
+            })
+        })
+    })
+})
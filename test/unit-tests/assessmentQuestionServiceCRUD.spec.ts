@@ -0,0 +1,464 @@
+import { expect } from "chai"
+import pino from "pino"
+import { PartialCreditMode, QuestionType } from "@prisma/client"
+
+import getAssessmentQuestionService from "../../src/services/assessment-questions"
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("AssessmentQuestionService CRUD", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const questionPool = getAssessmentQuestionPool(db, logger)
+    const assessmentQuestionService = getAssessmentQuestionService(
+        questionPool,
+        events,
+    )
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        questionPool,
+        events,
+    )
+
+    // Mock data setup
+    let templateId: string
+    let jobId: string
+    let applicantId: string
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Questions Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: { title: "Data Analyst", branchId: branch.id },
+        })
+        jobId = job.id
+
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Screening", jobId },
+        })
+        templateId = template.id
+
+        const applicant = await db.applicant.create({
+            data: {
+                email: "question.candidate@example.com",
+                firstName: "Question",
+                lastName: "Candidate",
+            },
+        })
+        applicantId = applicant.id
+    })
+
+    describe("Create Question", function () {
+        it("should store options for a multiple choice question", async function () {
+            const question = await assessmentQuestionService.createQuestion({
+                templateId,
+                text: "Which is a SQL keyword?",
+                type: QuestionType.MULTIPLE_CHOICE,
+                order: 1,
+                options: [" SELECT", "FETCHALL", "GRAB "],
+                correctAnswer: "SELECT ",
+            })
+
+            expect(question.options).to.deep.equal([
+                "SELECT",
+                "FETCHALL",
+                "GRAB",
+            ])
+            expect(question.correctAnswer).to.equal("SELECT")
+        })
+
+        it("should create a multiple choice question without options", async function () {
+            const question = await assessmentQuestionService.createQuestion({
+                templateId,
+                text: "Which is a SQL keyword?",
+                type: QuestionType.MULTIPLE_CHOICE,
+                order: 4,
+            })
+
+            expect(question.options).to.deep.equal([])
+        })
+
+        it("should default true/false options", async function () {
+            const question = await assessmentQuestionService.createQuestion({
+                templateId,
+                text: "SQL is declarative",
+                type: QuestionType.TRUE_FALSE,
+                order: 2,
+                correctAnswer: "true",
+            })
+
+            expect(question.options).to.deep.equal(["true", "false"])
+        })
+
+        it("should throw error when a multiple choice question has fewer than two options", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick one",
+                    type: QuestionType.MULTIPLE_CHOICE,
+                    order: 3,
+                    options: ["Only"],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.InvalidInput,
+                )
+                expect((error as Error).message).to.include(
+                    "at least two answer options",
+                )
+            }
+        })
+
+        it("should throw error when options are duplicated", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick one",
+                    type: QuestionType.MULTIPLE_CHOICE,
+                    order: 3,
+                    options: ["A", "A "],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include("must be unique")
+            }
+        })
+
+        it("should throw error when the correct answer is not an option", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick one",
+                    type: QuestionType.MULTIPLE_CHOICE,
+                    order: 3,
+                    options: ["A", "B"],
+                    correctAnswer: "C",
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "Correct answer must be one of the answer options",
+                )
+            }
+        })
+
+        it("should throw error for a negative negativeWeight", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick one",
+                    order: 3,
+                    options: ["A", "B"],
+                    negativeWeight: -1,
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "negativeWeight must be zero or a positive number",
+                )
+            }
+        })
+
+        it("should throw error when a text question has options", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Describe a join",
+                    type: QuestionType.TEXT,
+                    order: 3,
+                    options: ["A", "B"],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "TEXT questions cannot have answer options",
+                )
+            }
+        })
+    })
+
+    describe("Multi-Select Questions", function () {
+        it("should store the correct options of a multi-select question", async function () {
+            const question = await assessmentQuestionService.createQuestion({
+                templateId,
+                text: "Which are SQL aggregate functions?",
+                type: QuestionType.MULTI_SELECT,
+                order: 20,
+                options: ["COUNT", "SUM", "JOIN"],
+                correctOptions: ["COUNT", "SUM"],
+                partialCredit: PartialCreditMode.PROPORTIONAL,
+            })
+
+            expect(question.correctOptions).to.deep.equal(["COUNT", "SUM"])
+            expect(question.partialCredit).to.equal(
+                PartialCreditMode.PROPORTIONAL,
+            )
+        })
+
+        it("should throw error when a correct option is not an answer option", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick all",
+                    type: QuestionType.MULTI_SELECT,
+                    order: 21,
+                    options: ["A", "B"],
+                    correctOptions: ["A", "C"],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "Correct options must be answer options",
+                )
+            }
+        })
+
+        it("should throw error when a multi-select question has a correct answer", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick all",
+                    type: QuestionType.MULTI_SELECT,
+                    order: 21,
+                    options: ["A", "B"],
+                    correctAnswer: "A",
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "use correctOptions instead of correctAnswer",
+                )
+            }
+        })
+
+        it("should throw error when a single-answer question has correct options", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick one",
+                    type: QuestionType.MULTIPLE_CHOICE,
+                    order: 21,
+                    options: ["A", "B"],
+                    correctOptions: ["A"],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "Only MULTI_SELECT questions can have correct options",
+                )
+            }
+        })
+    })
+
+    describe("Update Question", function () {
+        let questionId: string
+
+        before(async function () {
+            const question = await assessmentQuestionService.createQuestion({
+                templateId,
+                text: "Which database is relational?",
+                type: QuestionType.MULTIPLE_CHOICE,
+                order: 10,
+                options: ["Postgres", "Redis"],
+                correctAnswer: "Postgres",
+            })
+            questionId = question.id
+        })
+
+        it("should validate a new correct answer against existing options", async function () {
+            try {
+                await assessmentQuestionService.updateQuestion(questionId, {
+                    correctAnswer: "MongoDB",
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "Correct answer must be one of the answer options",
+                )
+            }
+        })
+
+        it("should update options and correct answer together", async function () {
+            const { question } = await assessmentQuestionService.updateQuestion(
+                questionId,
+                {
+                    options: ["Postgres", "Redis", "MySQL"],
+                    correctAnswer: "MySQL",
+                },
+            )
+
+            expect(question.options).to.deep.equal([
+                "Postgres",
+                "Redis",
+                "MySQL",
+            ])
+            expect(question.correctAnswer).to.equal("MySQL")
+        })
+
+        it("should clear options when changing to a text question", async function () {
+            const { question } = await assessmentQuestionService.updateQuestion(
+                questionId,
+                { type: QuestionType.TEXT, correctAnswer: null },
+            )
+
+            expect(question.options).to.deep.equal([])
+        })
+
+        it("should throw error for non-existent question", async function () {
+            try {
+                await assessmentQuestionService.updateQuestion(
+                    "non-existent-id",
+                    { text: "Updated" },
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "Question not found",
+                )
+            }
+        })
+    })
+
+    describe("Submit Assessment", function () {
+        it("should award partial credit consistently in score and explanation", async function () {
+            const scoringTemplate = await db.assessmentTemplate.create({
+                data: { name: "Partial Credit", jobId },
+            })
+            await db.scoringConfig.create({
+                data: { negativeMarkingFraction: 0.5, jobId },
+            })
+
+            const proportional = await assessmentQuestionService.createQuestion(
+                {
+                    templateId: scoringTemplate.id,
+                    text: "Which are relational databases?",
+                    type: QuestionType.MULTI_SELECT,
+                    weight: 4,
+                    order: 1,
+                    options: ["Postgres", "MySQL", "SQLite", "Redis"],
+                    correctOptions: ["Postgres", "MySQL", "SQLite"],
+                    partialCredit: PartialCreditMode.PROPORTIONAL,
+                },
+            )
+            const allOrNothing = await assessmentQuestionService.createQuestion(
+                {
+                    templateId: scoringTemplate.id,
+                    text: "Which are key-value stores?",
+                    type: QuestionType.MULTI_SELECT,
+                    weight: 2,
+                    order: 2,
+                    options: ["Redis", "Postgres", "Memcached"],
+                    correctOptions: ["Redis", "Memcached"],
+                },
+            )
+
+            const assessment =
+                await applicantAssessmentService.submitAssessment({
+                    applicantId,
+                    templateId: scoringTemplate.id,
+                    jobId,
+                    answers: [
+                        {
+                            questionId: proportional.id,
+                            selectedOptions: ["Postgres", "MySQL"],
+                        },
+                        {
+                            questionId: allOrNothing.id,
+                            selectedOptions: ["Redis"],
+                        },
+                    ],
+                })
+
+            const score = await applicantAssessmentService.getAssessmentScore(
+                assessment.id,
+            )
+            const explanation =
+                await applicantAssessmentService.getAssessmentExplanation(
+                    assessment.id,
+                )
+
+            // 2/3 of 4 points, minus half of 2 points for the missed question
+            const expected = (4 * 2) / 3 - 1
+            expect(score.score).to.be.closeTo(expected, 1e-9)
+            expect(score.breakdown.partialAnswers.count).to.equal(1)
+            expect(score.breakdown.incorrectAnswers.count).to.equal(1)
+            expect(explanation.scoring.finalScore).to.be.closeTo(expected, 1e-9)
+            expect(
+                explanation.breakdown.reduce((sum, b) => sum + b.points, 0),
+            ).to.be.closeTo(expected, 1e-9)
+        })
+
+        it("should reject selections that are not options", async function () {
+            const questions =
+                await assessmentQuestionService.getQuestionsByTemplateId(
+                    templateId,
+                )
+            const multiSelect = questions.find(
+                (q) => q.type === QuestionType.MULTI_SELECT,
+            )!
+
+            try {
+                await applicantAssessmentService.submitAssessment({
+                    applicantId,
+                    templateId,
+                    jobId,
+                    answers: [
+                        {
+                            questionId: multiSelect.id,
+                            selectedOptions: ["COUNT", "AVG"],
+                        },
+                    ],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).errors).to.have.keys(
+                    multiSelect.id,
+                )
+            }
+        })
+
+        it("should reject answers that are not one of the options", async function () {
+            const questions =
+                await assessmentQuestionService.getQuestionsByTemplateId(
+                    templateId,
+                )
+            const trueFalse = questions.find(
+                (q) => q.type === QuestionType.TRUE_FALSE,
+            )!
+
+            try {
+                await applicantAssessmentService.submitAssessment({
+                    applicantId,
+                    templateId,
+                    jobId,
+                    answers: [
+                        { questionId: trueFalse.id, answer: "maybe" },
+                        { questionId: "unknown-question", answer: "true" },
+                    ],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                const serviceError = error as ServiceError
+                expect(serviceError.type).to.equal(
+                    ServiceErrorType.InvalidInput,
+                )
+                expect(serviceError.errors).to.have.keys(
+                    trueFalse.id,
+                    "unknown-question",
+                )
+            }
+        })
+    })
+})
@@ -0,0 +1,356 @@
+import { expect } from "chai"
+import { FastifyInstance } from "fastify"
+import { JobStatus, UserRole } from "@prisma/client"
+
+import { build } from "../../src/app"
+import makeMockDB from "./mockDB"
+
+describe("Branch-scoped access", async function () {
+    const db = makeMockDB()
+    let server: FastifyInstance
+
+    // Mock data setup
+    let companyA: string
+    let companyB: string
+    const branches: Record<"north" | "south" | "other", string> = {
+        north: "",
+        south: "",
+        other: "",
+    }
+    const jobs: Record<"north" | "south" | "other", string> = {
+        north: "",
+        south: "",
+        other: "",
+    }
+    const applicants: Record<"north" | "south", string> = {
+        north: "",
+        south: "",
+    }
+    const users: Record<string, string> = {}
+    const tokens: Record<string, string> = {}
+
+    const request = (
+        user: string,
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        url: string,
+        payload?: object,
+    ) =>
+        server.inject({
+            method,
+            url: `/v1${url}`,
+            payload,
+            headers: { authorization: `Bearer ${tokens[user]}` },
+        })
+
+    before(async function () {
+        this.timeout(30000)
+        process.env.JWT_SECRET = "test-jwt-secret-for-unit-tests"
+
+        server = await build({ logger: false }, db)
+        await server.ready()
+
+        companyA = (await db.company.create({ data: { name: "Company A" } })).id
+        companyB = (await db.company.create({ data: { name: "Company B" } })).id
+
+        const branchCompanies = {
+            north: companyA,
+            south: companyA,
+            other: companyB,
+        }
+        for (const name of ["north", "south", "other"] as const) {
+            const branch = await db.branch.create({
+                data: { name, companyId: branchCompanies[name] },
+            })
+            branches[name] = branch.id
+
+            const job = await db.job.create({
+                data: {
+                    title: `Engineer ${name}`,
+                    status: JobStatus.OPEN,
+                    branchId: branch.id,
+                },
+            })
+            jobs[name] = job.id
+
+            await db.scoringConfig.create({
+                data: {
+                    negativeMarkingFraction: 0,
+                    jobId: job.id,
+                    updatedAt: new Date(),
+                },
+            })
+        }
+
+        for (const name of ["north", "south"] as const) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `${name}@applicants.com`,
+                    firstName: name,
+                    lastName: "Applicant",
+                },
+            })
+            await db.jobApplication.create({
+                data: { applicantId: applicant.id, jobId: jobs[name] },
+            })
+            applicants[name] = applicant.id
+        }
+
+        const userService = server.services.getUserService()
+        const accounts: [string, UserRole, string | undefined][] = [
+            ["admin", UserRole.ADMIN, undefined],
+            ["recruiterA", UserRole.RECRUITER, companyA],
+            ["northRecruiter", UserRole.RECRUITER, companyA],
+            ["readonlyB", UserRole.READONLY, companyB],
+        ]
+        for (const [name, role, companyId] of accounts) {
+            const user = await userService.createUser({
+                email: `${name.toLowerCase()}@example.com`,
+                firstName: name,
+                lastName: "User",
+                password: "securePassword123",
+                role,
+                companyId,
+            })
+            users[name] = user.id
+
+            const { token } = await userService.login({
+                email: `${name.toLowerCase()}@example.com`,
+                password: "securePassword123",
+            })
+            tokens[name] = token
+        }
+
+        const assigned = await request(
+            "admin",
+            "POST",
+            `/branches/${branches.north}/users`,
+            { userId: users.northRecruiter },
+        )
+        expect(assigned.statusCode).to.equal(201)
+    })
+
+    after(async function () {
+        await server.close()
+    })
+
+    describe("Jobs", function () {
+        it("should only list the jobs of the recruiter's branches", async function () {
+            const restricted = await request("northRecruiter", "GET", "/jobs")
+            expect(restricted.statusCode).to.equal(200)
+            expect(
+                restricted.json().jobs.map((j: { id: string }) => j.id),
+            ).to.deep.equal([jobs.north])
+
+            const unrestricted = await request("recruiterA", "GET", "/jobs")
+            expect(
+                unrestricted.json().jobs.map((j: { id: string }) => j.id),
+            ).to.have.members([jobs.north, jobs.south])
+        })
+
+        it("should keep the recruiter to jobs of their branches", async function () {
+            const own = await request(
+                "northRecruiter",
+                "PUT",
+                `/jobs/${jobs.north}`,
+                { openPositions: 2 },
+            )
+            expect(own.statusCode).to.equal(200)
+
+            const other = await request(
+                "northRecruiter",
+                "PUT",
+                `/jobs/${jobs.south}`,
+                { openPositions: 2 },
+            )
+            expect(other.statusCode).to.equal(403)
+
+            const read = await request(
+                "northRecruiter",
+                "GET",
+                `/jobs/${jobs.south}`,
+            )
+            expect(read.statusCode).to.equal(403)
+
+            const create = await request("northRecruiter", "POST", "/jobs", {
+                title: "Engineer south",
+                branchId: branches.south,
+            })
+            expect(create.statusCode).to.equal(403)
+        })
+
+        it("should only show top candidates of the recruiter's branches", async function () {
+            const own = await request(
+                "northRecruiter",
+                "GET",
+                `/jobs/${jobs.north}/candidates/top`,
+            )
+            expect(own.statusCode).to.equal(200)
+
+            const other = await request(
+                "northRecruiter",
+                "GET",
+                `/jobs/${jobs.south}/candidates/top`,
+            )
+            expect(other.statusCode).to.equal(403)
+        })
+    })
+
+    describe("Applicants", function () {
+        it("should only list applicants of the recruiter's branches", async function () {
+            const restricted = await request(
+                "northRecruiter",
+                "GET",
+                "/applicants",
+            )
+            expect(restricted.statusCode).to.equal(200)
+            expect(
+                restricted.json().applicants.map((a: { id: string }) => a.id),
+            ).to.deep.equal([applicants.north])
+
+            const unrestricted = await request(
+                "recruiterA",
+                "GET",
+                "/applicants",
+            )
+            expect(
+                unrestricted.json().applicants.map((a: { id: string }) => a.id),
+            ).to.have.members([applicants.north, applicants.south])
+        })
+
+        it("should hide applicants who only applied to other branches", async function () {
+            const own = await request(
+                "northRecruiter",
+                "GET",
+                `/applicants/${applicants.north}`,
+            )
+            expect(own.statusCode).to.equal(200)
+
+            const other = await request(
+                "northRecruiter",
+                "GET",
+                `/applicants/${applicants.south}`,
+            )
+            expect(other.statusCode).to.equal(403)
+
+            const update = await request(
+                "northRecruiter",
+                "PUT",
+                `/applicants/${applicants.south}`,
+                { city: "Elsewhere" },
+            )
+            expect(update.statusCode).to.equal(403)
+        })
+    })
+
+    describe("Branches", function () {
+        it("should only list and change the recruiter's branches", async function () {
+            const list = await request(
+                "northRecruiter",
+                "GET",
+                `/branches?companyId=${companyA}`,
+            )
+            expect(list.statusCode).to.equal(200)
+            expect(
+                list.json().branches.map((b: { id: string }) => b.id),
+            ).to.deep.equal([branches.north])
+
+            const update = await request(
+                "northRecruiter",
+                "PUT",
+                `/branches/${branches.south}`,
+                { city: "Elsewhere" },
+            )
+            expect(update.statusCode).to.equal(403)
+
+            const create = await request(
+                "northRecruiter",
+                "POST",
+                "/branches",
+                {
+                    name: "East",
+                    companyId: companyA,
+                },
+            )
+            expect(create.statusCode).to.equal(403)
+        })
+
+        it("should keep assigning users to branches to admins by default", async function () {
+            const list = await request(
+                "recruiterA",
+                "GET",
+                `/branches/${branches.north}/users`,
+            )
+            expect(list.statusCode).to.equal(200)
+            expect(
+                list.json().users.map((u: { userId: string }) => u.userId),
+            ).to.deep.equal([users.northRecruiter])
+
+            const assign = await request(
+                "recruiterA",
+                "POST",
+                `/branches/${branches.south}/users`,
+                { userId: users.recruiterA },
+            )
+            expect(assign.statusCode).to.equal(403)
+        })
+
+        it("should reject invalid assignments", async function () {
+            const foreignUser = await request(
+                "admin",
+                "POST",
+                `/branches/${branches.north}/users`,
+                { userId: users.readonlyB },
+            )
+            expect(foreignUser.statusCode).to.equal(400)
+
+            const admin = await request(
+                "admin",
+                "POST",
+                `/branches/${branches.north}/users`,
+                { userId: users.admin },
+            )
+            expect(admin.statusCode).to.equal(400)
+
+            const twice = await request(
+                "admin",
+                "POST",
+                `/branches/${branches.north}/users`,
+                { userId: users.northRecruiter },
+            )
+            expect(twice.statusCode).to.equal(400)
+        })
+
+        it("should restore company-wide access once unassigned", async function () {
+            const assigned = await request(
+                "admin",
+                "POST",
+                `/branches/${branches.south}/users`,
+                { userId: users.recruiterA },
+            )
+            expect(assigned.statusCode).to.equal(201)
+
+            const restricted = await request(
+                "recruiterA",
+                "PUT",
+                `/jobs/${jobs.north}`,
+                { openPositions: 3 },
+            )
+            expect(restricted.statusCode).to.equal(403)
+
+            const unassigned = await request(
+                "admin",
+                "DELETE",
+                `/branches/${branches.south}/users/${users.recruiterA}`,
+            )
+            expect(unassigned.statusCode).to.equal(200)
+
+            const restored = await request(
+                "recruiterA",
+                "PUT",
+                `/jobs/${jobs.north}`,
+                { openPositions: 3 },
+            )
+            expect(restored.statusCode).to.equal(200)
+        })
+    })
+})
@@ -0,0 +1,426 @@
+import { expect } from "chai"
+import { FastifyInstance } from "fastify"
+import { ApplicationStatus, JobStatus, UserRole } from "@prisma/client"
+
+import { build } from "../../src/app"
+import makeMockDB from "./mockDB"
+
+describe("Custom roles", async function () {
+    const db = makeMockDB()
+    let server: FastifyInstance
+
+    // Mock data setup
+    let companyA: string
+    let companyB: string
+    const branches: Record<"north" | "south" | "other", string> = {
+        north: "",
+        south: "",
+        other: "",
+    }
+    const jobs: Record<"north" | "south" | "other", string> = {
+        north: "",
+        south: "",
+        other: "",
+    }
+    const users: Record<string, string> = {}
+    const tokens: Record<string, string> = {}
+
+    const request = (
+        user: string,
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        url: string,
+        payload?: object,
+    ) =>
+        server.inject({
+            method,
+            url: `/v1${url}`,
+            payload,
+            headers: { authorization: `Bearer ${tokens[user]}` },
+        })
+
+    const createRole = async (name: string, permissions: string[]) => {
+        const response = await request("admin", "POST", "/roles", {
+            companyId: companyA,
+            name,
+            permissions,
+        })
+        expect(response.statusCode).to.equal(201)
+        return response.json().role.id as string
+    }
+
+    const assignRole = async (
+        roleId: string,
+        user: string,
+        branchId?: string,
+    ) => {
+        const response = await request(
+            "admin",
+            "POST",
+            `/roles/${roleId}/assignments`,
+            { userId: users[user], branchId },
+        )
+        expect(response.statusCode).to.equal(201)
+        return response.json().assignment.id as string
+    }
+
+    const createApplication = async (jobId: string, email: string) => {
+        const applicant = await db.applicant.create({
+            data: { email, firstName: "Ada", lastName: "Applicant" },
+        })
+        const application = await db.jobApplication.create({
+            data: {
+                applicantId: applicant.id,
+                jobId,
+                status: ApplicationStatus.REVIEWING,
+            },
+        })
+        return application.id
+    }
+
+    before(async function () {
+        this.timeout(30000)
+        process.env.JWT_SECRET = "test-jwt-secret-for-unit-tests"
+
+        server = await build({ logger: false }, db)
+        await server.ready()
+
+        companyA = (await db.company.create({ data: { name: "Company A" } })).id
+        companyB = (await db.company.create({ data: { name: "Company B" } })).id
+
+        const branchCompanies = {
+            north: companyA,
+            south: companyA,
+            other: companyB,
+        }
+        for (const name of ["north", "south", "other"] as const) {
+            const branch = await db.branch.create({
+                data: { name, companyId: branchCompanies[name] },
+            })
+            branches[name] = branch.id
+
+            const job = await db.job.create({
+                data: {
+                    title: `Engineer ${name}`,
+                    status: JobStatus.OPEN,
+                    branchId: branch.id,
+                },
+            })
+            jobs[name] = job.id
+        }
+
+        const userService = server.services.getUserService()
+        const accounts: [string, UserRole, string | undefined][] = [
+            ["admin", UserRole.ADMIN, undefined],
+            ["recruiterA", UserRole.RECRUITER, companyA],
+            ["editorA", UserRole.READONLY, companyA],
+            ["northEditorA", UserRole.READONLY, companyA],
+            ["reviewerA", UserRole.READONLY, companyA],
+            ["managerA", UserRole.READONLY, companyA],
+            ["readonlyB", UserRole.READONLY, companyB],
+        ]
+        for (const [name, role, companyId] of accounts) {
+            const user = await userService.createUser({
+                email: `${name.toLowerCase()}@example.com`,
+                firstName: name,
+                lastName: "User",
+                password: "securePassword123",
+                role,
+                companyId,
+            })
+            users[name] = user.id
+
+            const { token } = await userService.login({
+                email: `${name.toLowerCase()}@example.com`,
+                password: "securePassword123",
+            })
+            tokens[name] = token
+        }
+    })
+
+    after(async function () {
+        await server.close()
+    })
+
+    describe("Permission catalogue", function () {
+        it("should list permissions and the built-in roles", async function () {
+            const response = await request(
+                "editorA",
+                "GET",
+                "/roles/permissions",
+            )
+            expect(response.statusCode).to.equal(200)
+
+            const { permissions, builtInRoles } = response.json()
+            const names = permissions.map((p: { name: string }) => p.name)
+            expect(names).to.include.members([
+                "rankings:recalculate",
+                "scoring:edit",
+                "applications:hire",
+            ])
+
+            const readonly = builtInRoles.find(
+                (r: { name: string }) => r.name === UserRole.READONLY,
+            )
+            expect(readonly.permissions).to.include("jobs:read")
+            expect(readonly.permissions).not.to.include("jobs:edit")
+        })
+    })
+
+    describe("Granting permissions", function () {
+        it("should grant a role's permissions across the company", async function () {
+            const before = await request(
+                "editorA",
+                "PUT",
+                `/jobs/${jobs.north}`,
+                { openPositions: 2 },
+            )
+            expect(before.statusCode).to.equal(403)
+
+            const roleId = await createRole("Job editor", ["jobs:edit"])
+            await assignRole(roleId, "editorA")
+
+            for (const jobId of [jobs.north, jobs.south]) {
+                const response = await request(
+                    "editorA",
+                    "PUT",
+                    `/jobs/${jobId}`,
+                    { openPositions: 2 },
+                )
+                expect(response.statusCode).to.equal(200)
+            }
+
+            const other = await request(
+                "editorA",
+                "PUT",
+                `/jobs/${jobs.other}`,
+                { openPositions: 2 },
+            )
+            expect(other.statusCode).to.equal(403)
+        })
+
+        it("should limit a branch assignment to that branch", async function () {
+            const roleId = await createRole("North job editor", ["jobs:edit"])
+            await assignRole(roleId, "northEditorA", branches.north)
+
+            const north = await request(
+                "northEditorA",
+                "PUT",
+                `/jobs/${jobs.north}`,
+                { openPositions: 3 },
+            )
+            expect(north.statusCode).to.equal(200)
+
+            const south = await request(
+                "northEditorA",
+                "PUT",
+                `/jobs/${jobs.south}`,
+                { openPositions: 3 },
+            )
+            expect(south.statusCode).to.equal(403)
+        })
+
+        it("should keep hiring separate from reviewing", async function () {
+            const roleId = await createRole("Reviewer", ["applications:review"])
+            await assignRole(roleId, "reviewerA")
+
+            const rejected = await createApplication(
+                jobs.north,
+                "rejected@example.com",
+            )
+            const reject = await request(
+                "reviewerA",
+                "PUT",
+                `/job-applications/${rejected}/status`,
+                { status: ApplicationStatus.REJECTED },
+            )
+            expect(reject.statusCode).to.equal(200)
+
+            const hired = await createApplication(
+                jobs.north,
+                "hired@example.com",
+            )
+            const hire = await request(
+                "reviewerA",
+                "PUT",
+                `/job-applications/${hired}/status`,
+                { status: ApplicationStatus.HIRED },
+            )
+            expect(hire.statusCode).to.equal(403)
+
+            const bulkHire = await request(
+                "reviewerA",
+                "PUT",
+                "/job-applications/bulk-status",
+                { ids: [hired], status: ApplicationStatus.HIRED },
+            )
+            expect(bulkHire.statusCode).to.equal(403)
+
+            const recruiterHire = await request(
+                "recruiterA",
+                "PUT",
+                `/job-applications/${hired}/status`,
+                { status: ApplicationStatus.HIRED },
+            )
+            expect(recruiterHire.statusCode).to.equal(200)
+        })
+
+        it("should ignore roles of another company", async function () {
+            // Written directly, as the API refuses cross-company assignments
+            const role = await db.companyRole.create({
+                data: {
+                    companyId: companyA,
+                    name: "Leaked editor",
+                    permissions: ["jobs:edit"],
+                },
+            })
+            await db.userRoleAssignment.create({
+                data: { roleId: role.id, userId: users.readonlyB },
+            })
+
+            for (const jobId of [jobs.north, jobs.other]) {
+                const response = await request(
+                    "readonlyB",
+                    "PUT",
+                    `/jobs/${jobId}`,
+                    { openPositions: 4 },
+                )
+                expect(response.statusCode).to.equal(403)
+            }
+        })
+
+        it("should revoke permissions when the role is unassigned", async function () {
+            const roleId = await createRole("Temporary editor", ["jobs:edit"])
+            const assignmentId = await assignRole(roleId, "managerA")
+
+            const granted = await request(
+                "managerA",
+                "PUT",
+                `/jobs/${jobs.south}`,
+                { openPositions: 5 },
+            )
+            expect(granted.statusCode).to.equal(200)
+
+            const unassign = await request(
+                "admin",
+                "DELETE",
+                `/roles/${roleId}/assignments/${assignmentId}`,
+            )
+            expect(unassign.statusCode).to.equal(200)
+
+            const revoked = await request(
+                "managerA",
+                "PUT",
+                `/jobs/${jobs.south}`,
+                { openPositions: 6 },
+            )
+            expect(revoked.statusCode).to.equal(403)
+        })
+    })
+
+    describe("Managing roles", function () {
+        it("should keep role management to admins by default", async function () {
+            const create = await request("recruiterA", "POST", "/roles", {
+                name: "Self-made",
+                permissions: ["roles:manage"],
+            })
+            expect(create.statusCode).to.equal(403)
+
+            const list = await request("recruiterA", "GET", "/roles")
+            expect(list.statusCode).to.equal(403)
+        })
+
+        it("should let holders of roles:manage manage their company's roles", async function () {
+            const roleId = await createRole("Role manager", [
+                "roles:read",
+                "roles:manage",
+            ])
+            await assignRole(roleId, "managerA")
+
+            const create = await request("managerA", "POST", "/roles", {
+                name: "Scorer",
+                permissions: ["scoring:edit", "rankings:recalculate"],
+            })
+            expect(create.statusCode).to.equal(201)
+            expect(create.json().role.companyId).to.equal(companyA)
+
+            const list = await request("managerA", "GET", "/roles")
+            expect(list.statusCode).to.equal(200)
+            const companies = list
+                .json()
+                .roles.map((r: { companyId: string }) => r.companyId)
+            expect(companies).to.not.be.empty
+            expect(companies.every((id: string) => id === companyA)).to.equal(
+                true,
+            )
+
+            const other = await request("managerA", "POST", "/roles", {
+                companyId: companyB,
+                name: "Intruder",
+                permissions: ["jobs:edit"],
+            })
+            expect(other.statusCode).to.equal(403)
+        })
+
+        it("should reject invalid roles and assignments", async function () {
+            const unknown = await request("admin", "POST", "/roles", {
+                companyId: companyA,
+                name: "Exporter",
+                permissions: ["applicants:teleport"],
+            })
+            expect(unknown.statusCode).to.equal(400)
+
+            const duplicate = await request("admin", "POST", "/roles", {
+                companyId: companyA,
+                name: "Job editor",
+                permissions: ["jobs:edit"],
+            })
+            expect(duplicate.statusCode).to.equal(400)
+
+            const roleId = await createRole("Validated", ["jobs:read"])
+
+            const foreignUser = await request(
+                "admin",
+                "POST",
+                `/roles/${roleId}/assignments`,
+                { userId: users.readonlyB },
+            )
+            expect(foreignUser.statusCode).to.equal(400)
+
+            const foreignBranch = await request(
+                "admin",
+                "POST",
+                `/roles/${roleId}/assignments`,
+                { userId: users.editorA, branchId: branches.other },
+            )
+            expect(foreignBranch.statusCode).to.equal(400)
+
+            await assignRole(roleId, "editorA")
+            const twice = await request(
+                "admin",
+                "POST",
+                `/roles/${roleId}/assignments`,
+                { userId: users.editorA },
+            )
+            expect(twice.statusCode).to.equal(400)
+        })
+
+        it("should take a deleted role away from its holders", async function () {
+            const roleId = await createRole("Short-lived", ["jobs:edit"])
+            await assignRole(roleId, "reviewerA")
+
+            const deleted = await request("admin", "DELETE", `/roles/${roleId}`)
+            expect(deleted.statusCode).to.equal(200)
+
+            const response = await request(
+                "reviewerA",
+                "PUT",
+                `/jobs/${jobs.north}`,
+                { openPositions: 7 },
+            )
+            expect(response.statusCode).to.equal(403)
+
+            const missing = await request("admin", "GET", `/roles/${roleId}`)
+            expect(missing.statusCode).to.equal(404)
+        })
+    })
+})
@@ -0,0 +1,300 @@
+import { expect } from "chai"
+import pino from "pino"
+import { JobStatus } from "@prisma/client"
+
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import getApplicantService from "../../src/services/applicants"
+import getCandidateRankingService from "../../src/services/candidate-rankings"
+import getCompanyService from "../../src/services/companies"
+import getJobService from "../../src/services/jobs"
+import getScoringConfigService from "../../src/services/scoring-configs"
+import OutboxEventRelaying from "../../src/services/events/outbox"
+import { TrueFitEvent, TrueFitEventTypes } from "../../src/services/events"
+import makeMockDB from "./mockDB"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getApplicantPool from "../../src/persistence/db/pool/applicants"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getCompanyPool from "../../src/persistence/db/pool/companies"
+import getJobPool from "../../src/persistence/db/pool/jobs"
+import getOutboxEventPool from "../../src/persistence/db/pool/outbox-events"
+import getScoringConfigPool from "../../src/persistence/db/pool/scoring-configs"
+
+describe("Domain events", async function () {
+    const logger = pino()
+    const db = makeMockDB()
+    const events = new OutboxEventRelaying(
+        getOutboxEventPool(db, logger),
+        logger,
+    )
+    const companyService = getCompanyService(getCompanyPool(db, logger), events)
+    const jobService = getJobService(getJobPool(db, logger), events)
+    const applicantService = getApplicantService(
+        getApplicantPool(db, logger),
+        events,
+    )
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        getAssessmentQuestionPool(db, logger),
+        events,
+    )
+    const scoringConfigService = getScoringConfigService(
+        getScoringConfigPool(db, logger),
+        events,
+    )
+    const rankingService = getCandidateRankingService(
+        getCandidateRankingPool(db, logger),
+        events,
+    )
+
+    const dispatched: TrueFitEvent[] = []
+    events.listenForEvents(
+        "test",
+        Object.values(TrueFitEventTypes),
+        async (event) => {
+            dispatched.push(event)
+        },
+    )
+
+    // Deliver the events written with the changes, and the ones their
+    // listeners wrote in turn
+    const deliverEvents = async () => {
+        let delivered: number
+        do {
+            delivered = await events.deliverDueEvents()
+        } while (delivered > 0)
+    }
+
+    const eventsOf = <T extends TrueFitEventTypes>(type: T) =>
+        dispatched.filter((event) => event.type === type) as TrueFitEvent<T>[]
+
+    // Mock data setup
+    let branchId: string
+    let jobId: string
+    let templateId: string
+    let questionId: string
+    let applicantId: string
+
+    beforeEach(function () {
+        dispatched.length = 0
+    })
+
+    describe("Companies and jobs", function () {
+        it("should announce registered companies", async function () {
+            const company = await companyService.createCompany({
+                name: "Evented Company",
+            })
+            branchId = company.branches[0].id
+            await deliverEvents()
+
+            expect(
+                eventsOf(TrueFitEventTypes.COMPANY_REGISTERED),
+            ).to.deep.equal([
+                {
+                    type: TrueFitEventTypes.COMPANY_REGISTERED,
+                    payload: {
+                        companyId: company.id,
+                        name: "Evented Company",
+                        branchCount: 1,
+                    },
+                },
+            ])
+        })
+
+        it("should announce created and updated jobs", async function () {
+            const job = await jobService.createJob({
+                title: "Event Engineer",
+                status: JobStatus.OPEN,
+                branchId,
+            })
+            jobId = job.id
+            await jobService.updateJob(jobId, { openPositions: 2 })
+            await deliverEvents()
+
+            const [created] = eventsOf(TrueFitEventTypes.JOB_CREATED)
+            expect(created.payload).to.deep.equal({
+                jobId,
+                title: "Event Engineer",
+                branchId,
+            })
+            const [updated] = eventsOf(TrueFitEventTypes.JOB_UPDATED)
+            expect(updated.payload).to.deep.equal({
+                jobId,
+                branchId,
+                changes: { openPositions: 2 },
+            })
+            expect(eventsOf(TrueFitEventTypes.JOB_DEACTIVATED)).to.be.empty
+        })
+
+        it("should announce jobs that are no longer open", async function () {
+            await jobService.updateJob(jobId, { status: JobStatus.CLOSED })
+            await jobService.updateJob(jobId, { status: JobStatus.DRAFT })
+            await deliverEvents()
+
+            const deactivated = eventsOf(TrueFitEventTypes.JOB_DEACTIVATED)
+            expect(deactivated).to.have.length(1)
+            expect(deactivated[0].payload).to.deep.equal({
+                jobId,
+                branchId,
+                status: JobStatus.CLOSED,
+            })
+            expect(eventsOf(TrueFitEventTypes.JOB_UPDATED)).to.have.length(2)
+        })
+    })
+
+    describe("Applicants and assessments", function () {
+        before(async function () {
+            await db.scoringConfig.create({
+                data: {
+                    negativeMarkingFraction: 0,
+                    isDefault: true,
+                    updatedAt: new Date(),
+                },
+            })
+            const template = await db.assessmentTemplate.create({
+                data: { name: "Evented", jobId },
+            })
+            templateId = template.id
+            const question = await db.assessmentQuestion.create({
+                data: {
+                    templateId,
+                    text: "Pick A",
+                    weight: 2,
+                    options: ["A", "B"],
+                    correctAnswer: "A",
+                },
+            })
+            questionId = question.id
+        })
+
+        it("should announce registered applicants", async function () {
+            const applicant = await applicantService.createApplicant({
+                email: "evented@example.com",
+                firstName: "Evented",
+                lastName: "Candidate",
+            })
+            applicantId = applicant.id
+            await deliverEvents()
+
+            const [registered] = eventsOf(
+                TrueFitEventTypes.APPLICANT_REGISTERED,
+            )
+            expect(registered.payload).to.deep.equal({
+                applicantId,
+                email: "evented@example.com",
+                name: "Evented Candidate",
+            })
+        })
+
+        it("should announce the match and the score of a first submission", async function () {
+            const assessment =
+                await applicantAssessmentService.submitAssessment({
+                    applicantId,
+                    templateId,
+                    jobId,
+                    answers: [{ questionId, answer: "A" }],
+                })
+            await deliverEvents()
+
+            const [matched] = eventsOf(TrueFitEventTypes.APPLICANT_MATCHED)
+            expect(matched.payload).to.include({ applicantId, jobId })
+            const application = await db.jobApplication.findFirstOrThrow({
+                where: { applicantId, jobId },
+            })
+            expect(matched.payload.applicationId).to.equal(application.id)
+
+            const [scored] = eventsOf(TrueFitEventTypes.ASSESSMENT_SCORED)
+            expect(scored.payload).to.deep.equal({
+                assessmentId: assessment.id,
+                applicantId,
+                jobId,
+                score: 2,
+                maxPossibleScore: 2,
+                percentage: 100,
+            })
+        })
+
+        it("should not announce a match for applicants that applied already", async function () {
+            await applicantAssessmentService.submitAssessment({
+                applicantId,
+                templateId,
+                jobId,
+                answers: [{ questionId, answer: "B" }],
+            })
+            await deliverEvents()
+
+            expect(eventsOf(TrueFitEventTypes.APPLICANT_MATCHED)).to.be.empty
+            expect(
+                eventsOf(TrueFitEventTypes.ASSESSMENT_SCORED),
+            ).to.have.length(1)
+        })
+    })
+
+    describe("Rankings and scoring configs", function () {
+        it("should announce the match results of a ranking", async function () {
+            const result = await rankingService.recalculateJobRankings(
+                jobId,
+                "TEST",
+            )
+            await deliverEvents()
+
+            const [calculated] = eventsOf(TrueFitEventTypes.RANKING_CALCULATED)
+            expect(calculated.payload.totalCandidates).to.equal(
+                result.totalCandidates,
+            )
+            const [results] = eventsOf(
+                TrueFitEventTypes.MATCH_RESULTS_GENERATED,
+            )
+            expect(results.payload.jobId).to.equal(jobId)
+            expect(results.payload.candidates).to.have.length(
+                result.rankedCandidates.length,
+            )
+            expect(results.payload.candidates[0]).to.include({
+                applicantId,
+                rank: 1,
+            })
+        })
+
+        it("should announce invalidated rankings", async function () {
+            await rankingService.invalidateRankings({
+                jobId,
+                triggerEvent: "MANUAL_TRIGGER",
+            })
+            await deliverEvents()
+
+            const [invalidated] = eventsOf(
+                TrueFitEventTypes.RANKING_INVALIDATED,
+            )
+            expect(invalidated.payload).to.deep.equal({
+                jobIds: [jobId],
+                reason: "MANUAL_TRIGGER",
+            })
+        })
+
+        it("should announce applied and deleted scoring configs", async function () {
+            const config = await db.scoringConfig.create({
+                data: { negativeMarkingFraction: 0.5, updatedAt: new Date() },
+            })
+
+            await scoringConfigService.applyScoringConfig(config.id, jobId)
+            await scoringConfigService.deleteScoringConfig(config.id)
+            await deliverEvents()
+
+            const changes = eventsOf(TrueFitEventTypes.SCORING_CONFIG_CHANGED)
+            expect(changes.map((e) => e.payload.action)).to.deep.equal([
+                "applied",
+                "deleted",
+            ])
+            expect(changes[0].payload).to.include({
+                configId: config.id,
+                jobId,
+            })
+
+            // Rankings of the job follow the changed config
+            const invalidated = eventsOf(TrueFitEventTypes.RANKING_INVALIDATED)
+            expect(invalidated[0].payload.jobIds).to.deep.equal([jobId])
+        })
+    })
+})
@@ -0,0 +1,314 @@
+import { expect } from "chai"
+import pino from "pino"
+import { OutboxEventStatus } from "@prisma/client"
+
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import getOutboxEventService from "../../src/services/outbox-events"
+import OutboxEventRelaying from "../../src/services/events/outbox"
+import { TrueFitEvent, TrueFitEventTypes } from "../../src/services/events"
+import makeMockDB from "./mockDB"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getOutboxEventPool from "../../src/persistence/db/pool/outbox-events"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Event outbox", async function () {
+    const logger = pino()
+    const db = makeMockDB()
+    const outboxPool = getOutboxEventPool(db, logger)
+    const events = new OutboxEventRelaying(outboxPool, logger, {
+        maxAttempts: 3,
+        baseRetryDelayMs: 1000,
+    })
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        getAssessmentQuestionPool(db, logger),
+        events,
+    )
+    const outboxEventService = getOutboxEventService(outboxPool)
+
+    const submittedEvents: TrueFitEvent<TrueFitEventTypes.ASSESSMENT_SUBMITTED>[] =
+        []
+    events.listenForEvents(
+        "submissions",
+        [TrueFitEventTypes.ASSESSMENT_SUBMITTED],
+        async (event) => {
+            submittedEvents.push(event)
+        },
+    )
+
+    // Handles every delivery of JOB_CREATED it is called with
+    let jobCreatedDeliveries = 0
+    events.listenForEvents(
+        "succeeding",
+        [TrueFitEventTypes.JOB_CREATED],
+        async () => {
+            jobCreatedDeliveries++
+        },
+    )
+
+    // Fails every delivery of JOB_CREATED until told otherwise
+    let jobCreatedFails = true
+    events.listenForEvents(
+        "failing",
+        [TrueFitEventTypes.JOB_CREATED],
+        async () => {
+            if (jobCreatedFails) {
+                throw new Error("Listener unavailable")
+            }
+        },
+    )
+
+    // Mock data setup
+    let branchId: string
+    let jobId: string
+    let templateId: string
+    let questionId: string
+
+    const getEvent = async (type: TrueFitEventTypes) =>
+        db.outboxEvent.findFirstOrThrow({ where: { type } })
+
+    // Make an event that is waiting for a retry due immediately
+    const makeDue = async (id: string) =>
+        db.outboxEvent.update({
+            where: { id },
+            data: { availableAt: new Date(Date.now() - 1000) },
+        })
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Outbox Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId: company.id },
+        })
+        branchId = branch.id
+        const job = await db.job.create({
+            data: { title: "Integration Engineer", branchId },
+        })
+        jobId = job.id
+
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Outbox", jobId },
+        })
+        templateId = template.id
+        const question = await db.assessmentQuestion.create({
+            data: {
+                templateId,
+                text: "Pick A",
+                options: ["A", "B"],
+                correctAnswer: "A",
+            },
+        })
+        questionId = question.id
+    })
+
+    it("should refuse listeners whose name is taken", function () {
+        expect(() =>
+            events.listenForEvents(
+                "failing",
+                [TrueFitEventTypes.JOB_CREATED],
+                async () => {},
+            ),
+        ).to.throw("Event listener failing is already registered")
+    })
+
+    describe("Delivery", function () {
+        it("should store the submission event with the assessment", async function () {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: "outbox@example.com",
+                    firstName: "Outbox",
+                    lastName: "Candidate",
+                },
+            })
+            // Applied already, so only the submission is announced
+            await db.jobApplication.create({
+                data: { applicantId: applicant.id, jobId },
+            })
+            const assessment =
+                await applicantAssessmentService.submitAssessment({
+                    applicantId: applicant.id,
+                    templateId,
+                    jobId,
+                    answers: [{ questionId, answer: "A" }],
+                })
+
+            const event = await getEvent(TrueFitEventTypes.ASSESSMENT_SUBMITTED)
+            expect(event.status).to.equal(OutboxEventStatus.PENDING)
+            expect(event.payload).to.deep.include({
+                assessmentId: assessment.id,
+                jobId,
+                answersCount: 1,
+            })
+            expect(submittedEvents).to.have.length(0)
+        })
+
+        it("should deliver due events to listeners once", async function () {
+            expect(await events.deliverDueEvents()).to.equal(1)
+            expect(submittedEvents).to.have.length(1)
+            expect(submittedEvents[0].payload.jobId).to.equal(jobId)
+
+            const event = await getEvent(TrueFitEventTypes.ASSESSMENT_SUBMITTED)
+            expect(event.status).to.equal(OutboxEventStatus.DELIVERED)
+            expect(event.attempts).to.equal(1)
+            expect(event.deliveredAt).to.not.be.null
+
+            expect(await events.deliverDueEvents()).to.equal(0)
+            expect(submittedEvents).to.have.length(1)
+        })
+
+        it("should mark events without listeners as delivered", async function () {
+            await events.dispatchEvent({
+                type: TrueFitEventTypes.BRANCH_CREATED,
+                payload: {
+                    branchId,
+                    name: "Main Branch",
+                    companyId: "company",
+                },
+            })
+            await events.deliverDueEvents()
+
+            const event = await getEvent(TrueFitEventTypes.BRANCH_CREATED)
+            expect(event.status).to.equal(OutboxEventStatus.DELIVERED)
+        })
+
+        it("should reclaim events whose dispatcher did not finish in time", async function () {
+            await events.dispatchEvent({
+                type: TrueFitEventTypes.APPLICANT_REGISTERED,
+                payload: {
+                    applicantId: "applicant",
+                    email: "registered@example.com",
+                    name: "Registered Candidate",
+                },
+            })
+            const [claimed] = await outboxPool.claimDueEvents(10, 60 * 1000)
+            expect(claimed.status).to.equal(OutboxEventStatus.PROCESSING)
+            expect(await outboxPool.claimDueEvents(10, 60 * 1000)).to.be.empty
+
+            await makeDue(claimed.id)
+            const [reclaimed] = await outboxPool.claimDueEvents(10, 60 * 1000)
+            expect(reclaimed.id).to.equal(claimed.id)
+            expect(reclaimed.attempts).to.equal(2)
+
+            // The first dispatcher lost its claim and cannot settle the event
+            expect(await outboxPool.markDelivered(claimed)).to.be.false
+            expect(await outboxPool.markFailed(claimed, "too late", null, []))
+                .to.be.false
+            const event = await outboxPool.getEventById(claimed.id)
+            expect(event!.status).to.equal(OutboxEventStatus.PROCESSING)
+
+            expect(await outboxPool.markDelivered(reclaimed)).to.be.true
+        })
+    })
+
+    describe("Retries", function () {
+        let eventId: string
+
+        it("should retry a failed delivery with a backoff", async function () {
+            await events.dispatchEvent({
+                type: TrueFitEventTypes.JOB_CREATED,
+                payload: {
+                    jobId,
+                    title: "Integration Engineer",
+                    branchId,
+                },
+            })
+            const before = Date.now()
+            await events.deliverDueEvents()
+
+            const event = await getEvent(TrueFitEventTypes.JOB_CREATED)
+            eventId = event.id
+            expect(event.status).to.equal(OutboxEventStatus.PENDING)
+            expect(event.attempts).to.equal(1)
+            expect(event.lastError).to.equal("failing: Listener unavailable")
+            expect(event.deliveredTo).to.deep.equal(["succeeding"])
+            expect(event.availableAt.getTime() - before).to.be.within(
+                1000,
+                1500,
+            )
+
+            // Not due again until the backoff has passed
+            expect(await events.deliverDueEvents()).to.equal(0)
+        })
+
+        it("should double the delay after every failed attempt", async function () {
+            await makeDue(eventId)
+            const before = Date.now()
+            await events.deliverDueEvents()
+
+            const event = await getEvent(TrueFitEventTypes.JOB_CREATED)
+            expect(event.attempts).to.equal(2)
+            expect(event.availableAt.getTime() - before).to.be.within(
+                2000,
+                2500,
+            )
+        })
+
+        it("should only retry the listeners that failed", async function () {
+            const event = await getEvent(TrueFitEventTypes.JOB_CREATED)
+            expect(event.deliveredTo).to.deep.equal(["succeeding"])
+            expect(jobCreatedDeliveries).to.equal(1)
+        })
+
+        it("should dead-letter the event once it runs out of attempts", async function () {
+            await makeDue(eventId)
+            await events.deliverDueEvents()
+
+            const event = await getEvent(TrueFitEventTypes.JOB_CREATED)
+            expect(event.status).to.equal(OutboxEventStatus.DEAD)
+            expect(event.attempts).to.equal(3)
+
+            const deadLetters = await outboxEventService.getDeadLetters()
+            expect(deadLetters.map((e) => e.id)).to.deep.equal([eventId])
+            expect(await events.deliverDueEvents()).to.equal(0)
+        })
+    })
+
+    describe("Dead letters", function () {
+        it("should only retry dead-lettered events", async function () {
+            const delivered = await getEvent(
+                TrueFitEventTypes.ASSESSMENT_SUBMITTED,
+            )
+            try {
+                await outboxEventService.retryDeadLetter(delivered.id)
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.InvalidStatus,
+                )
+            }
+        })
+
+        it("should reject retrying an unknown event", async function () {
+            try {
+                await outboxEventService.retryDeadLetter(
+                    "00000000-0000-0000-0000-000000000000",
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.NotFound,
+                )
+            }
+        })
+
+        it("should deliver a retried dead letter with fresh attempts", async function () {
+            const { id } = await getEvent(TrueFitEventTypes.JOB_CREATED)
+            const requeued = await outboxEventService.retryDeadLetter(id)
+            expect(requeued.status).to.equal(OutboxEventStatus.PENDING)
+            expect(requeued.attempts).to.equal(0)
+
+            jobCreatedFails = false
+            await events.deliverDueEvents()
+
+            const event = await getEvent(TrueFitEventTypes.JOB_CREATED)
+            expect(event.status).to.equal(OutboxEventStatus.DELIVERED)
+            expect(event.attempts).to.equal(1)
+            expect(jobCreatedDeliveries).to.equal(1)
+            expect(await outboxEventService.getDeadLetters()).to.be.empty
+        })
+    })
+})
@@ -0,0 +1,282 @@
+import { expect } from "chai"
+import pino from "pino"
+import { JobStatus } from "@prisma/client"
+
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import getCandidateRankingService from "../../src/services/candidate-rankings"
+import OutboxEventRelaying from "../../src/services/events/outbox"
+import { TrueFitEvent, TrueFitEventTypes } from "../../src/services/events"
+import makeMockDB from "./mockDB"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getOutboxEventPool from "../../src/persistence/db/pool/outbox-events"
+
+describe("Incremental rankings", async function () {
+    const logger = pino()
+    const db = makeMockDB()
+    const events = new OutboxEventRelaying(
+        getOutboxEventPool(db, logger),
+        logger,
+    )
+    const rankingPool = getCandidateRankingPool(db, logger)
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        getAssessmentQuestionPool(db, logger),
+        events,
+    )
+    const rankingService = getCandidateRankingService(rankingPool, events)
+
+    const dispatched: TrueFitEvent[] = []
+    events.listenForEvents(
+        "test",
+        Object.values(TrueFitEventTypes),
+        async (event) => {
+            dispatched.push(event)
+        },
+    )
+
+    // Deliver the events written with the changes, and the ones their
+    // listeners wrote in turn
+    const deliverEvents = async () => {
+        let delivered: number
+        do {
+            delivered = await events.deliverDueEvents()
+        } while (delivered > 0)
+    }
+
+    const eventsOf = <T extends TrueFitEventTypes>(type: T) =>
+        dispatched.filter((event) => event.type === type) as TrueFitEvent<T>[]
+
+    // Mock data setup
+    let jobId: string
+    let configId: string
+    let templateId: string
+    const questionIds: string[] = []
+    const applicantIds: string[] = []
+
+    // Question weights are 1 and 2, so scores are 0 to 3
+    // Submissions are delivered to the rankings, unless told otherwise
+    const submit = async (
+        applicant: number,
+        correct: boolean[],
+        deliver = true,
+    ) => {
+        const assessment = await applicantAssessmentService.submitAssessment({
+            applicantId: applicantIds[applicant],
+            templateId,
+            jobId,
+            answers: questionIds.map((questionId, i) => ({
+                questionId,
+                answer: correct[i] ? "A" : "B",
+            })),
+        })
+        if (deliver) {
+            await deliverEvents()
+        }
+        return assessment
+    }
+
+    const ranking = async () =>
+        (
+            await db.candidateRanking.findMany({
+                where: { jobId },
+                orderBy: { rank: "asc" },
+            })
+        ).map(({ applicantId, rank, score }) => ({
+            applicant: applicantIds.indexOf(applicantId),
+            rank,
+            score,
+        }))
+
+    // Updating in place must give the ranking a full calculation gives
+    const expectFullCalculationToAgree = async () => {
+        const updated = await ranking()
+        await rankingPool.calculateJobRankings(jobId, "TEST")
+        expect(await ranking()).to.deep.equal(updated)
+    }
+
+    before(async function () {
+        const config = await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        configId = config.id
+        const company = await db.company.create({
+            data: { name: "Incremental Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: {
+                title: "Ranked Engineer",
+                status: JobStatus.OPEN,
+                branchId: branch.id,
+            },
+        })
+        jobId = job.id
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Incremental", jobId },
+        })
+        templateId = template.id
+        for (const weight of [1, 2]) {
+            const question = await db.assessmentQuestion.create({
+                data: {
+                    templateId,
+                    text: `Worth ${weight}`,
+                    weight,
+                    order: weight,
+                    options: ["A", "B"],
+                    correctAnswer: "A",
+                },
+            })
+            questionIds.push(question.id)
+        }
+        for (const name of ["Ada", "Bo", "Cy", "Di"]) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `${name.toLowerCase()}@example.com`,
+                    firstName: name,
+                    lastName: "Ranked",
+                },
+            })
+            applicantIds.push(applicant.id)
+        }
+
+        // Start from a calculated ranking
+        await submit(0, [true, true])
+        await submit(1, [true, false])
+        await rankingPool.calculateJobRankings(jobId, "TEST")
+    })
+
+    beforeEach(async function () {
+        await deliverEvents()
+        dispatched.length = 0
+    })
+
+    it("should rank a new applicant in place", async function () {
+        const before = await db.candidateRanking.findMany({ where: { jobId } })
+
+        await submit(2, [false, true])
+
+        expect(await ranking()).to.deep.equal([
+            { applicant: 0, rank: 1, score: 3 },
+            { applicant: 2, rank: 2, score: 2 },
+            { applicant: 1, rank: 3, score: 1 },
+        ])
+        // The existing rankings were shifted, not rewritten
+        const after = await db.candidateRanking.findMany({ where: { jobId } })
+        for (const row of before) {
+            expect(after.map((r) => r.id)).to.include(row.id)
+        }
+        const metadata = await db.jobRankingMetadata.findUniqueOrThrow({
+            where: { jobId },
+        })
+        expect(metadata).to.include({
+            status: "COMPLETED",
+            totalCandidates: 3,
+            triggerEvent: "ASSESSMENT_SUBMITTED",
+        })
+
+        // The update is kept as a snapshot like a full calculation
+        const snapshot = await db.rankingSnapshot.findFirstOrThrow({
+            where: { jobId },
+            orderBy: { createdAt: "desc" },
+            include: { entries: { orderBy: { rank: "asc" } } },
+        })
+        expect(snapshot).to.include({
+            triggerEvent: "ASSESSMENT_SUBMITTED",
+            totalCandidates: 3,
+        })
+        expect(
+            snapshot.entries.map(({ applicantId, rank }) => [
+                applicantIds.indexOf(applicantId),
+                rank,
+            ]),
+        ).to.deep.equal([
+            [0, 1],
+            [2, 2],
+            [1, 3],
+        ])
+
+        expect(eventsOf(TrueFitEventTypes.RANKING_INVALIDATED)).to.be.empty
+        const [calculated] = eventsOf(TrueFitEventTypes.RANKING_CALCULATED)
+        expect(calculated.payload).to.include({ jobId, totalCandidates: 3 })
+        const [results] = eventsOf(TrueFitEventTypes.MATCH_RESULTS_GENERATED)
+        expect(results.payload.candidates.map((c) => c.rank)).to.deep.equal([
+            1, 2, 3,
+        ])
+
+        await expectFullCalculationToAgree()
+    })
+
+    it("should move a resubmitting applicant to their new rank", async function () {
+        await submit(0, [false, false])
+
+        expect(await ranking()).to.deep.equal([
+            { applicant: 2, rank: 1, score: 2 },
+            { applicant: 1, rank: 2, score: 1 },
+            { applicant: 0, rank: 3, score: 0 },
+        ])
+        expect(
+            eventsOf(TrueFitEventTypes.RANKING_CALCULATED)[0].payload,
+        ).to.include({ totalCandidates: 3 })
+
+        await submit(0, [true, false])
+
+        expect(await ranking()).to.deep.equal([
+            { applicant: 2, rank: 1, score: 2 },
+            { applicant: 0, rank: 2, score: 1 },
+            { applicant: 1, rank: 3, score: 1 },
+        ])
+        await expectFullCalculationToAgree()
+    })
+
+    it("should rank the newest assessment ahead of the candidates it ties with", async function () {
+        await submit(3, [false, true])
+
+        expect(await ranking()).to.deep.equal([
+            { applicant: 3, rank: 1, score: 2 },
+            { applicant: 2, rank: 2, score: 2 },
+            { applicant: 0, rank: 3, score: 1 },
+            { applicant: 1, rank: 4, score: 1 },
+        ])
+        await expectFullCalculationToAgree()
+    })
+
+    it("should not update stale rankings in place", async function () {
+        await rankingPool.markRankingsStale([jobId], "TEST")
+
+        const update = await rankingPool.applyAssessmentToRankings(
+            jobId,
+            (
+                await submit(1, [true, true], false)
+            ).id,
+            "TEST",
+        )
+
+        expect(update).to.be.null
+        await rankingPool.calculateJobRankings(jobId, "TEST")
+    })
+
+    it("should fall back to a full recalculation when the scoring config changed", async function () {
+        await db.scoringConfig.update({
+            where: { id: configId },
+            data: { negativeMarkingFraction: 0.5, updatedAt: new Date() },
+        })
+
+        const assessment = await submit(2, [true, true])
+
+        const [invalidated] = eventsOf(TrueFitEventTypes.RANKING_INVALIDATED)
+        expect(invalidated.payload).to.deep.equal({
+            jobIds: [jobId],
+            reason: `ASSESSMENT_SUBMITTED:${assessment.id}`,
+        })
+    })
+})
@@ -0,0 +1,427 @@
+import { expect } from "chai"
+import pino from "pino"
+import { ApplicationStatus, UserRole } from "@prisma/client"
+
+import getJobApplicationService from "../../src/services/job-applications"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getJobApplicationPool from "../../src/persistence/db/pool/job-applications"
+import getJobPool from "../../src/persistence/db/pool/jobs"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("JobApplicationService CRUD", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const pool = getJobApplicationPool(db, logger)
+    const jobPool = getJobPool(db, logger)
+    const jobApplicationService = getJobApplicationService(
+        pool,
+        jobPool,
+        events,
+    )
+
+    // Mock data setup
+    let companyId: string
+    let otherCompanyId: string
+    let jobId: string
+    let otherJobId: string
+    const applicantIds: string[] = []
+    const recruiter = { id: "", role: UserRole.RECRUITER }
+    const admin = { id: "", role: UserRole.ADMIN }
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Applications Company" },
+        })
+        companyId = company.id
+
+        const otherCompany = await db.company.create({
+            data: { name: "Other Applications Company" },
+        })
+        otherCompanyId = otherCompany.id
+
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId },
+        })
+        const otherBranch = await db.branch.create({
+            data: { name: "Other Branch", companyId: otherCompanyId },
+        })
+
+        const job = await db.job.create({
+            data: { title: "Backend Engineer", branchId: branch.id },
+        })
+        jobId = job.id
+
+        const otherJob = await db.job.create({
+            data: { title: "Frontend Engineer", branchId: otherBranch.id },
+        })
+        otherJobId = otherJob.id
+
+        const recruiterUser = await db.user.create({
+            data: {
+                email: "recruiter@applications.com",
+                firstName: "Rita",
+                lastName: "Recruiter",
+                passwordHash: "hash",
+                role: UserRole.RECRUITER,
+                companyId,
+            },
+        })
+        recruiter.id = recruiterUser.id
+
+        const adminUser = await db.user.create({
+            data: {
+                email: "admin@applications.com",
+                firstName: "Adam",
+                lastName: "Admin",
+                passwordHash: "hash",
+                role: UserRole.ADMIN,
+            },
+        })
+        admin.id = adminUser.id
+
+        for (let i = 0; i < 3; i++) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `candidate${i}@example.com`,
+                    firstName: `Candidate${i}`,
+                    lastName: "Test",
+                },
+            })
+            applicantIds.push(applicant.id)
+        }
+    })
+
+    describe("Get Job Applications", function () {
+        before(async function () {
+            await pool.createJobApplication({
+                applicantId: applicantIds[0],
+                jobId,
+            })
+            await pool.createJobApplication({
+                applicantId: applicantIds[1],
+                jobId,
+                status: ApplicationStatus.REVIEWING,
+            })
+            await pool.createJobApplication({
+                applicantId: applicantIds[2],
+                jobId: otherJobId,
+            })
+        })
+
+        it("should get job applications for a job", async function () {
+            const applications =
+                await jobApplicationService.getJobApplicationsByJobId(jobId)
+
+            expect(applications).to.have.length(2)
+            applications.forEach((application) => {
+                expect(application.jobId).to.equal(jobId)
+            })
+        })
+
+        it("should throw error when getting applications for non-existent job", async function () {
+            try {
+                await jobApplicationService.getJobApplicationsByJobId(
+                    "non-existent-job-id",
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include("Job not found")
+            }
+        })
+
+        it("should filter job applications by job and status", async function () {
+            const applications = await jobApplicationService.getJobApplications(
+                { jobId, status: ApplicationStatus.REVIEWING },
+            )
+
+            expect(applications).to.have.length(1)
+            expect(applications[0].applicantId).to.equal(applicantIds[1])
+        })
+    })
+
+    describe("Update Job Application Status", function () {
+        let applicationId: string
+
+        before(async function () {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: "status.candidate@example.com",
+                    firstName: "Status",
+                    lastName: "Candidate",
+                },
+            })
+            const application = await pool.createJobApplication({
+                applicantId: applicant.id,
+                jobId,
+            })
+            applicationId = application.id
+        })
+
+        it("should move a job application to a new status", async function () {
+            const application =
+                await jobApplicationService.updateJobApplicationStatus(
+                    applicationId,
+                    ApplicationStatus.REVIEWING,
+                    recruiter,
+                )
+
+            expect(application.status).to.equal(ApplicationStatus.REVIEWING)
+        })
+
+        it("should throw error when status is unchanged", async function () {
+            try {
+                await jobApplicationService.updateJobApplicationStatus(
+                    applicationId,
+                    ApplicationStatus.REVIEWING,
+                    recruiter,
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include("already REVIEWING")
+            }
+        })
+
+        it("should throw error for non-existent job application", async function () {
+            try {
+                await jobApplicationService.updateJobApplicationStatus(
+                    "non-existent-id",
+                    ApplicationStatus.REVIEWING,
+                    recruiter,
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "Job application not found",
+                )
+            }
+        })
+
+        it("should reject a transition outside of the status graph", async function () {
+            try {
+                await jobApplicationService.updateJobApplicationStatus(
+                    applicationId,
+                    ApplicationStatus.APPLIED,
+                    recruiter,
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.InvalidStatus,
+                )
+                expect((error as Error).message).to.include(
+                    "from REVIEWING to APPLIED",
+                )
+            }
+        })
+
+        it("should only allow admins to reopen a rejected job application", async function () {
+            await jobApplicationService.updateJobApplicationStatus(
+                applicationId,
+                ApplicationStatus.REJECTED,
+                recruiter,
+                "Failed the technical interview",
+            )
+
+            try {
+                await jobApplicationService.updateJobApplicationStatus(
+                    applicationId,
+                    ApplicationStatus.REVIEWING,
+                    recruiter,
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.Forbidden,
+                )
+            }
+
+            const application =
+                await jobApplicationService.updateJobApplicationStatus(
+                    applicationId,
+                    ApplicationStatus.REVIEWING,
+                    admin,
+                    "Reopened after appeal",
+                )
+            expect(application.status).to.equal(ApplicationStatus.REVIEWING)
+        })
+
+        it("should treat HIRED as a terminal status", async function () {
+            await jobApplicationService.updateJobApplicationStatus(
+                applicationId,
+                ApplicationStatus.HIRED,
+                recruiter,
+            )
+
+            for (const status of [
+                ApplicationStatus.REJECTED,
+                ApplicationStatus.REVIEWING,
+            ]) {
+                try {
+                    await jobApplicationService.updateJobApplicationStatus(
+                        applicationId,
+                        status,
+                        admin,
+                    )
+                    expect.fail("Should have thrown an error")
+                } catch (error) {
+                    expect((error as ServiceError).type).to.equal(
+                        ServiceErrorType.InvalidStatus,
+                    )
+                }
+            }
+        })
+
+        it("should not change a job application that moved on since it was read", async function () {
+            try {
+                // Validated while REVIEWING, but it has been HIRED since
+                await pool.updateJobApplicationStatus(
+                    { id: applicationId, status: ApplicationStatus.REVIEWING },
+                    { toStatus: ApplicationStatus.REJECTED },
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.Conflict,
+                )
+            }
+
+            const application =
+                await jobApplicationService.getJobApplicationById(applicationId)
+            expect(application!.status).to.equal(ApplicationStatus.HIRED)
+        })
+
+        it("should record every status change in the history", async function () {
+            const history =
+                await jobApplicationService.getJobApplicationStatusHistory(
+                    applicationId,
+                )
+
+            expect(
+                history.map((change) => [change.fromStatus, change.toStatus]),
+            ).to.deep.equal([
+                [null, ApplicationStatus.APPLIED],
+                [ApplicationStatus.APPLIED, ApplicationStatus.REVIEWING],
+                [ApplicationStatus.REVIEWING, ApplicationStatus.REJECTED],
+                [ApplicationStatus.REJECTED, ApplicationStatus.REVIEWING],
+                [ApplicationStatus.REVIEWING, ApplicationStatus.HIRED],
+            ])
+            expect(history[2].reason).to.equal("Failed the technical interview")
+            expect(history[2].changedById).to.equal(recruiter.id)
+            expect(history[3].changedById).to.equal(admin.id)
+        })
+    })
+
+    describe("Bulk Update Job Application Status", function () {
+        const bulkIds: string[] = []
+
+        before(async function () {
+            for (let i = 0; i < 2; i++) {
+                const applicant = await db.applicant.create({
+                    data: {
+                        email: `bulk${i}@example.com`,
+                        firstName: `Bulk${i}`,
+                        lastName: "Candidate",
+                    },
+                })
+                const application = await pool.createJobApplication({
+                    applicantId: applicant.id,
+                    jobId,
+                })
+                bulkIds.push(application.id)
+            }
+        })
+
+        it("should update the status of multiple job applications", async function () {
+            const updated =
+                await jobApplicationService.bulkUpdateJobApplicationStatus(
+                    [...bulkIds, bulkIds[0]],
+                    ApplicationStatus.REVIEWING,
+                    recruiter,
+                    "Shortlisted",
+                )
+
+            expect(updated).to.equal(bulkIds.length)
+
+            const history =
+                await jobApplicationService.getJobApplicationStatusHistory(
+                    bulkIds[1],
+                )
+            expect(history[history.length - 1].fromStatus).to.equal(
+                ApplicationStatus.APPLIED,
+            )
+            expect(history[history.length - 1].reason).to.equal("Shortlisted")
+        })
+
+        it("should not update any job application if one transition is invalid", async function () {
+            await jobApplicationService.updateJobApplicationStatus(
+                bulkIds[0],
+                ApplicationStatus.HIRED,
+                recruiter,
+            )
+
+            try {
+                await jobApplicationService.bulkUpdateJobApplicationStatus(
+                    bulkIds,
+                    ApplicationStatus.REJECTED,
+                    recruiter,
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).errors).to.have.property(
+                    bulkIds[0],
+                )
+            }
+
+            const application =
+                await jobApplicationService.getJobApplicationById(bulkIds[1])
+            expect(application!.status).to.equal(ApplicationStatus.REVIEWING)
+        })
+
+        it("should reject the batch if a job application moved on since it was read", async function () {
+            try {
+                await pool.bulkUpdateJobApplicationStatus(
+                    bulkIds.map((id) => ({
+                        id,
+                        status: ApplicationStatus.REVIEWING,
+                    })),
+                    { toStatus: ApplicationStatus.REJECTED },
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.Conflict,
+                )
+            }
+        })
+
+        it("should throw error when no IDs are given", async function () {
+            try {
+                await jobApplicationService.bulkUpdateJobApplicationStatus(
+                    [],
+                    ApplicationStatus.REJECTED,
+                    recruiter,
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "At least one job application ID must be provided",
+                )
+            }
+        })
+    })
+
+    describe("Get Job Application Statistics", function () {
+        it("should throw error when company ID is missing", async function () {
+            try {
+                await jobApplicationService.getJobApplicationStats("")
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "companyId must be provided",
+                )
+            }
+        })
+    })
+})
@@ -1,14 +1,100 @@
+import { Prisma } from "@prisma/client"
 import { PrismockClient } from "prismock"
 import { DB } from "../../src/persistence/db"
 
+const ATOMIC_OPERATIONS = ["increment", "decrement", "multiply", "divide"]
+
+const hasAtomicOperation = (data: Record<string, unknown>) =>
+    Object.values(data).some(
+        (value) =>
+            typeof value === "object" &&
+            value !== null &&
+            ATOMIC_OPERATIONS.some((operation) => operation in value),
+    )
+
+/**
+ * Prismock shares the data of an updateMany between the rows it updates, so
+ * atomic number operations would give every row the result of the first one.
+ * Such updates are applied row by row instead.
+ * @param {DB} mockDB - The client to patch
+ */
+function applyAtomicUpdatesPerRow(mockDB: DB) {
+    for (const model of Object.values(Prisma.ModelName)) {
+        const delegate = (mockDB as any)[
+            model.charAt(0).toLowerCase() + model.slice(1)
+        ]
+        const updateMany = delegate.updateMany.bind(delegate)
+        delegate.updateMany = async (args: {
+            where?: object
+            data: Record<string, unknown>
+        }) => {
+            if (!hasAtomicOperation(args.data)) {
+                return updateMany(args)
+            }
+            const rows: { id: string }[] = await delegate.findMany({
+                where: args.where,
+            })
+            for (const row of rows) {
+                await delegate.update({
+                    where: { id: row.id },
+                    data: structuredClone(args.data),
+                })
+            }
+            return { count: rows.length }
+        }
+    }
+}
+
+/**
+ * Prismock leaves out the defaults of list fields, which the database fills
+ * in with empty lists. Created rows are given those defaults instead.
+ * @param {DB} mockDB - The client to patch
+ */
+function applyListDefaults(mockDB: DB) {
+    for (const model of Prisma.dmmf.datamodel.models) {
+        const defaults = Object.fromEntries(
+            model.fields
+                .filter((field) => field.isList && field.hasDefaultValue)
+                .map((field) => [field.name, field.default]),
+        )
+        if (Object.keys(defaults).length === 0) {
+            continue
+        }
+        const withDefaults = (data: object) => ({
+            ...structuredClone(defaults),
+            ...data,
+        })
+        const delegate = (mockDB as any)[
+            model.name.charAt(0).toLowerCase() + model.name.slice(1)
+        ]
+        const { create, createMany, upsert } = delegate
+        delegate.create = (args: { data: object }) =>
+            create.call(delegate, { ...args, data: withDefaults(args.data) })
+        delegate.createMany = (args: { data: object | object[] }) =>
+            createMany.call(delegate, {
+                ...args,
+                data: Array.isArray(args.data)
+                    ? args.data.map(withDefaults)
+                    : withDefaults(args.data),
+            })
+        delegate.upsert = (args: { create: object }) =>
+            upsert.call(delegate, {
+                ...args,
+                create: withDefaults(args.create),
+            })
+    }
+}
+
 /**
  * Creates a mock database instance using Prismock for testing
  * This provides an in-memory SQLite database that implements the Prisma interface
  * @returns {DB} A mock database client
  */
 function makeMockDB(): DB {
-    const mockDB = new PrismockClient()
-    return mockDB as DB
+    const mockDB = new PrismockClient() as DB
+    applyAtomicUpdatesPerRow(mockDB)
+    applyListDefaults(mockDB)
+    return mockDB
 }
 
 export default makeMockDB
@@ -0,0 +1,277 @@
+import { expect } from "chai"
+import pino from "pino"
+import { JobStatus } from "@prisma/client"
+
+import getCandidateRankingService, {
+    ICandidateRankingService,
+} from "../../src/services/candidate-rankings"
+import getRankingBatchService from "../../src/services/ranking-batches"
+import RankingBatchWorker from "../../src/services/ranking-batches/worker"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getRankingBatchPool from "../../src/persistence/db/pool/ranking-batches"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Ranking batches", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const batchPool = getRankingBatchPool(db, logger)
+    const rankingService = getCandidateRankingService(
+        getCandidateRankingPool(db, logger),
+        events,
+    )
+
+    // Recalculating the broken job fails
+    let brokenJobId: string | null = null
+    const rankings: ICandidateRankingService = Object.create(rankingService)
+    rankings.recalculateJobRankings = async (jobId, triggerEvent) => {
+        if (jobId === brokenJobId) {
+            throw new Error("Calculation failed")
+        }
+        return rankingService.recalculateJobRankings(jobId, triggerEvent)
+    }
+
+    const worker = new RankingBatchWorker(batchPool, rankings, logger, {
+        concurrency: 1,
+    })
+    const batchService = getRankingBatchService(batchPool, worker)
+
+    const drain = async () => {
+        while ((await worker.processNextJobs()) > 0) {
+            // Keep processing until the queue is empty
+        }
+    }
+
+    // Mock data setup
+    const jobIds: string[] = []
+
+    before(async function () {
+        await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        const company = await db.company.create({
+            data: { name: "Batched Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main", companyId: company.id },
+        })
+        for (const title of ["First", "Second", "Third"]) {
+            const job = await db.job.create({
+                data: { title, status: JobStatus.OPEN, branchId: branch.id },
+            })
+            jobIds.push(job.id)
+        }
+    })
+
+    afterEach(async function () {
+        brokenJobId = null
+        await drain()
+    })
+
+    describe("Queueing", function () {
+        it("should queue a batch without recalculating it", async function () {
+            const batch = await batchService.enqueueBatch({
+                jobIds: [jobIds[0], jobIds[1], jobIds[0]],
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+
+            expect(batch).to.include({
+                status: "QUEUED",
+                priority: "normal",
+                totalJobs: 2,
+                progress: 0,
+                estimatedCompletionAt: null,
+            })
+            expect(batch.counts.PENDING).to.equal(2)
+            expect(batch.jobs.map((j) => j.jobId)).to.have.members([
+                jobIds[0],
+                jobIds[1],
+            ])
+            expect(await db.candidateRanking.count()).to.equal(0)
+        })
+
+        it("should reject batches without jobs", async function () {
+            try {
+                await batchService.enqueueBatch({
+                    jobIds: [],
+                    triggerEvent: "BULK_TEST",
+                    priority: "normal",
+                })
+                expect.fail("Should have thrown")
+            } catch (err) {
+                expect(err).to.be.instanceOf(ServiceError)
+                expect((err as ServiceError).type).to.equal(
+                    ServiceErrorType.InvalidInput,
+                )
+            }
+        })
+    })
+
+    describe("Processing", function () {
+        it("should recalculate every job of a batch and complete it", async function () {
+            const { id } = await batchService.enqueueBatch({
+                jobIds,
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+
+            await drain()
+
+            const batch = await batchService.getBatchProgress(id)
+            expect(batch).to.include({
+                status: "COMPLETED",
+                progress: 100,
+                estimatedCompletionAt: null,
+            })
+            expect(batch.counts.SUCCEEDED).to.equal(3)
+            expect(batch.finishedAt).to.be.instanceOf(Date)
+            for (const job of batch.jobs) {
+                expect(job.status).to.equal("SUCCEEDED")
+                expect(job.totalCandidates).to.equal(0)
+            }
+            const metadata = await db.jobRankingMetadata.findUniqueOrThrow({
+                where: { jobId: jobIds[0] },
+            })
+            expect(metadata.triggerEvent).to.equal("BULK_TEST")
+        })
+
+        it("should report progress and an estimate while running", async function () {
+            const { id } = await batchService.enqueueBatch({
+                jobIds,
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+
+            await worker.processNextJobs()
+
+            const batch = await batchService.getBatchProgress(id)
+            expect(batch.status).to.equal("RUNNING")
+            expect(batch.counts).to.include({ SUCCEEDED: 1, PENDING: 2 })
+            expect(batch.progress).to.equal(33)
+            expect(batch.estimatedCompletionAt).to.be.instanceOf(Date)
+        })
+
+        it("should process high priority batches first", async function () {
+            const normal = await batchService.enqueueBatch({
+                jobIds: [jobIds[0], jobIds[1]],
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+            await worker.processNextJobs()
+            const high = await batchService.enqueueBatch({
+                jobIds: [jobIds[2]],
+                triggerEvent: "URGENT_TEST",
+                priority: "high",
+            })
+
+            await worker.processNextJobs()
+
+            expect(
+                (await batchService.getBatchProgress(high.id)).status,
+            ).to.equal("COMPLETED")
+            expect(
+                (await batchService.getBatchProgress(normal.id)).counts.PENDING,
+            ).to.equal(1)
+        })
+
+        it("should record failed jobs and carry on", async function () {
+            brokenJobId = jobIds[1]
+            const { id } = await batchService.enqueueBatch({
+                jobIds,
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+
+            await drain()
+
+            const batch = await batchService.getBatchProgress(id)
+            expect(batch.status).to.equal("COMPLETED")
+            expect(batch.counts).to.include({ SUCCEEDED: 2, FAILED: 1 })
+            const failed = batch.jobs.find((j) => j.status === "FAILED")
+            expect(failed).to.include({
+                jobId: jobIds[1],
+                errorMessage: "Calculation failed",
+            })
+        })
+
+        it("should take over jobs whose worker did not finish in time", async function () {
+            const { id } = await batchService.enqueueBatch({
+                jobIds: [jobIds[0]],
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+            await db.rankingBatchItem.updateMany({
+                where: { batchId: id },
+                data: {
+                    status: "RUNNING",
+                    leaseExpiresAt: new Date(Date.now() - 1000),
+                },
+            })
+
+            await drain()
+
+            const batch = await batchService.getBatchProgress(id)
+            expect(batch.counts.SUCCEEDED).to.equal(1)
+        })
+    })
+
+    describe("Cancellation", function () {
+        it("should cancel the jobs that have not started", async function () {
+            const { id } = await batchService.enqueueBatch({
+                jobIds,
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+            await worker.processNextJobs()
+
+            const cancelled = await batchService.cancelBatch(id)
+            await drain()
+
+            expect(cancelled.status).to.equal("CANCELLED")
+            const batch = await batchService.getBatchProgress(id)
+            expect(batch.status).to.equal("CANCELLED")
+            expect(batch.counts).to.include({ SUCCEEDED: 1, CANCELLED: 2 })
+            expect(batch.progress).to.equal(100)
+        })
+
+        it("should not cancel finished batches", async function () {
+            const { id } = await batchService.enqueueBatch({
+                jobIds: [jobIds[0]],
+                triggerEvent: "BULK_TEST",
+                priority: "normal",
+            })
+            await drain()
+
+            try {
+                await batchService.cancelBatch(id)
+                expect.fail("Should have thrown")
+            } catch (err) {
+                expect(err).to.be.instanceOf(ServiceError)
+                expect((err as ServiceError).type).to.equal(
+                    ServiceErrorType.InvalidStatus,
+                )
+            }
+        })
+
+        it("should not find unknown batches", async function () {
+            try {
+                await batchService.cancelBatch(
+                    "00000000-0000-4000-8000-000000000000",
+                )
+                expect.fail("Should have thrown")
+            } catch (err) {
+                expect(err).to.be.instanceOf(ServiceError)
+                expect((err as ServiceError).type).to.equal(
+                    ServiceErrorType.NotFound,
+                )
+            }
+        })
+    })
+})
@@ -0,0 +1,155 @@
+import { expect } from "chai"
+import pino from "pino"
+import { JobStatus } from "@prisma/client"
+
+import getCandidateRankingService from "../../src/services/candidate-rankings"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Ranking calculation coalescing", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const rankingPool = getCandidateRankingPool(db, logger)
+    const rankingService = getCandidateRankingService(rankingPool, events)
+
+    // Record the calculations reaching the database
+    const calculated: { jobId: string; triggerEvents?: string[] }[] = []
+    const calculateJobRankings =
+        rankingPool.calculateJobRankings.bind(rankingPool)
+    rankingPool.calculateJobRankings = async (
+        jobId,
+        triggerEvent,
+        triggerEvents,
+    ) => {
+        calculated.push({ jobId, triggerEvents })
+        return calculateJobRankings(jobId, triggerEvent, triggerEvents)
+    }
+
+    // Mock data setup
+    const jobIds: string[] = []
+
+    const triggerEventsOf = async (jobId: string) =>
+        (await db.jobRankingMetadata.findUniqueOrThrow({ where: { jobId } }))
+            .triggerEvents
+
+    before(async function () {
+        await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        const company = await db.company.create({
+            data: { name: "Coalesced Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main", companyId: company.id },
+        })
+        for (const title of ["First", "Second"]) {
+            const job = await db.job.create({
+                data: { title, status: JobStatus.OPEN, branchId: branch.id },
+            })
+            jobIds.push(job.id)
+        }
+    })
+
+    beforeEach(function () {
+        calculated.length = 0
+    })
+
+    it("should coalesce recalculations requested during a calculation", async function () {
+        const results = await Promise.all(
+            ["A", "B", "C", "D"].map((trigger) =>
+                rankingService.recalculateJobRankings(jobIds[0], trigger),
+            ),
+        )
+
+        expect(calculated).to.deep.equal([
+            { jobId: jobIds[0], triggerEvents: ["A"] },
+            { jobId: jobIds[0], triggerEvents: ["B", "C", "D"] },
+        ])
+        // The coalesced requests share the follow-up calculation
+        expect(results[2]).to.equal(results[1])
+        expect(results[3]).to.equal(results[1])
+        expect(await triggerEventsOf(jobIds[0])).to.deep.equal(["B", "C", "D"])
+    })
+
+    it("should calculate different jobs independently", async function () {
+        await Promise.all(
+            jobIds.map((jobId) =>
+                rankingService.recalculateJobRankings(jobId, "TEST"),
+            ),
+        )
+
+        expect(calculated.map((c) => c.jobId)).to.deep.equal(jobIds)
+    })
+
+    it("should start a new calculation once the last one finished", async function () {
+        await rankingService.recalculateJobRankings(jobIds[0], "FIRST")
+        await rankingService.recalculateJobRankings(jobIds[0], "SECOND")
+
+        expect(calculated).to.have.length(2)
+        expect(await triggerEventsOf(jobIds[0])).to.deep.equal(["SECOND"])
+    })
+
+    it("should reject requested calculations while one is in progress", async function () {
+        const running = rankingService.recalculateJobRankings(
+            jobIds[1],
+            "RUNNING",
+        )
+
+        try {
+            await rankingService.requestJobRankingCalculation(
+                jobIds[1],
+                "MANUAL_TRIGGER",
+            )
+            expect.fail("Should have thrown an error")
+        } catch (error) {
+            expect((error as ServiceError).type).to.equal(
+                ServiceErrorType.Conflict,
+            )
+        }
+
+        await running
+        const result = await rankingService.requestJobRankingCalculation(
+            jobIds[1],
+            "MANUAL_TRIGGER",
+        )
+        expect(result.jobId).to.equal(jobIds[1])
+        expect(calculated).to.have.length(2)
+    })
+
+    it("should not calculate a job another instance is calculating", async function () {
+        // Claimed through the job's metadata by another instance
+        await db.jobRankingMetadata.update({
+            where: { jobId: jobIds[1] },
+            data: { status: "CALCULATING", updatedAt: new Date() },
+        })
+
+        try {
+            await rankingService.recalculateJobRankings(jobIds[1], "TEST")
+            expect.fail("Should have thrown an error")
+        } catch (error) {
+            expect((error as ServiceError).type).to.equal(
+                ServiceErrorType.Conflict,
+            )
+        }
+        expect(calculated).to.be.empty
+
+        // The claim times out if the other instance never finishes
+        await db.jobRankingMetadata.update({
+            where: { jobId: jobIds[1] },
+            data: { updatedAt: new Date(Date.now() - 60 * 60 * 1000) },
+        })
+        const result = await rankingService.recalculateJobRankings(
+            jobIds[1],
+            "TEST",
+        )
+        expect(result.jobId).to.equal(jobIds[1])
+        expect(calculated).to.have.length(1)
+    })
+})
@@ -0,0 +1,193 @@
+import { expect } from "chai"
+import pino from "pino"
+import { JobStatus, RankingStatus } from "@prisma/client"
+
+import getCandidateRankingService, {
+    ICandidateRankingService,
+} from "../../src/services/candidate-rankings"
+import RankingScheduler from "../../src/services/candidate-rankings/scheduler"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getRankingSchedulerPool from "../../src/persistence/db/pool/ranking-scheduler"
+
+describe("Ranking scheduler", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const rankingPool = getCandidateRankingPool(db, logger)
+    const schedulerPool = getRankingSchedulerPool(db, logger)
+    const rankingService = getCandidateRankingService(rankingPool, events)
+
+    const makeScheduler = (
+        maxJobsPerRun = 100,
+        rankings: ICandidateRankingService = rankingService,
+        lockTimeoutMs = 60 * 1000,
+    ) =>
+        new RankingScheduler(schedulerPool, rankingPool, rankings, logger, {
+            batchSize: 2,
+            maxJobsPerRun,
+            lockTimeoutMs,
+        })
+
+    // The advisory lock is answered by the database, so other instances
+    // holding it are simulated here
+    let lockAvailable = true
+    ;(db as any).$queryRaw = async () => [{ locked: lockAvailable }]
+
+    // Mock data setup
+    let branchId: string
+    const jobIds: string[] = []
+
+    const markStale = async (
+        jobId: string,
+        status: RankingStatus = RankingStatus.STALE,
+    ) => {
+        await db.jobRankingMetadata.upsert({
+            where: { jobId },
+            create: { jobId, status, scoringConfigVersion: "v1" },
+            update: { status },
+        })
+    }
+
+    const statusOf = async (jobId: string) =>
+        (await db.jobRankingMetadata.findUniqueOrThrow({ where: { jobId } }))
+            .status
+
+    before(async function () {
+        await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        const company = await db.company.create({
+            data: { name: "Scheduled Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main", companyId: company.id },
+        })
+        branchId = branch.id
+        for (const title of ["First", "Second", "Third"]) {
+            const job = await db.job.create({
+                data: { title, status: JobStatus.OPEN, branchId },
+            })
+            jobIds.push(job.id)
+        }
+    })
+
+    beforeEach(function () {
+        lockAvailable = true
+    })
+
+    it("should not record a run when no rankings are stale", async function () {
+        const run = await makeScheduler().runOnce()
+
+        expect(run).to.be.null
+        expect(await schedulerPool.getRecentRuns()).to.be.empty
+    })
+
+    it("should drain stale and failed rankings across batches", async function () {
+        await markStale(jobIds[0])
+        await markStale(jobIds[1], RankingStatus.ERROR)
+        await markStale(jobIds[2])
+
+        const run = await makeScheduler().runOnce()
+
+        expect(run).to.include({
+            status: "SUCCEEDED",
+            jobsRecalculated: 3,
+            jobsFailed: 0,
+            errorMessage: null,
+        })
+        for (const jobId of jobIds) {
+            expect(await statusOf(jobId)).to.equal(RankingStatus.COMPLETED)
+        }
+    })
+
+    it("should leave stale rankings to the instance holding the lock", async function () {
+        await markStale(jobIds[0])
+        lockAvailable = false
+
+        const run = await makeScheduler().runOnce()
+
+        expect(run).to.be.null
+        expect(await statusOf(jobIds[0])).to.equal(RankingStatus.STALE)
+    })
+
+    it("should leave the rest to the next run when a run hits its cap", async function () {
+        await markStale(jobIds[1])
+        await markStale(jobIds[2])
+        const scheduler = makeScheduler(2)
+
+        const first = await scheduler.runOnce()
+        const second = await scheduler.runOnce()
+
+        expect(first?.jobsRecalculated).to.equal(2)
+        expect(second?.jobsRecalculated).to.equal(1)
+        expect(await scheduler.runOnce()).to.be.null
+    })
+
+    it("should stop before the scheduler lock expires", async function () {
+        await markStale(jobIds[0])
+        await markStale(jobIds[1])
+        const slow: ICandidateRankingService = Object.create(rankingService)
+        slow.recalculateJobRankings = async (jobId, triggerEvent) => {
+            await new Promise((resolve) => setTimeout(resolve, 100))
+            return rankingService.recalculateJobRankings(jobId, triggerEvent)
+        }
+
+        // A second job as slow as the first would outlast the lock
+        const run = await makeScheduler(100, slow, 150).runOnce()
+
+        expect(run?.jobsRecalculated).to.equal(1)
+        const statuses = [await statusOf(jobIds[0]), await statusOf(jobIds[1])]
+        expect(statuses).to.include(RankingStatus.STALE)
+
+        const next = await makeScheduler().runOnce()
+        expect(next?.jobsRecalculated).to.equal(1)
+    })
+
+    it("should record jobs whose recalculation failed", async function () {
+        await markStale(jobIds[0])
+        await markStale(jobIds[1])
+        const failing: ICandidateRankingService = Object.create(rankingService)
+        failing.recalculateJobRankings = async (jobId, triggerEvent) => {
+            if (jobId === jobIds[1]) {
+                throw new Error("Calculation failed")
+            }
+            return rankingService.recalculateJobRankings(jobId, triggerEvent)
+        }
+
+        const run = await makeScheduler(100, failing).runOnce()
+
+        // The failed job is not retried within the same run
+        expect(run).to.include({
+            status: "PARTIALLY_FAILED",
+            jobsRecalculated: 1,
+            jobsFailed: 1,
+        })
+        expect(run?.failedJobIds).to.deep.equal([jobIds[1]])
+    })
+
+    it("should list the latest runs first", async function () {
+        // Runs can start within the same millisecond, so the latest one is
+        // made to start clearly after the others
+        const [latest] = await db.rankingSchedulerRun.findMany({
+            where: { status: "PARTIALLY_FAILED" },
+        })
+        await db.rankingSchedulerRun.update({
+            where: { id: latest.id },
+            data: { startedAt: new Date(Date.now() + 60_000) },
+        })
+
+        const runs = await makeScheduler().getRecentRuns(2)
+
+        expect(runs).to.have.length(2)
+        expect(runs[0].id).to.equal(latest.id)
+        expect(runs[0].startedAt.getTime()).to.be.at.least(
+            runs[1].startedAt.getTime(),
+        )
+    })
+})
@@ -0,0 +1,232 @@
+import { expect } from "chai"
+import pino from "pino"
+import { JobStatus } from "@prisma/client"
+
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import getRankingSnapshotService from "../../src/services/ranking-snapshots"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getRankingSnapshotPool from "../../src/persistence/db/pool/ranking-snapshots"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Ranking snapshots", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const rankingPool = getCandidateRankingPool(db, logger)
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        getAssessmentQuestionPool(db, logger),
+        events,
+    )
+    const snapshotService = getRankingSnapshotService(
+        getRankingSnapshotPool(db, logger),
+    )
+
+    // Mock data setup
+    let jobId: string
+    let otherJobId: string
+    let templateId: string
+    const questionIds: string[] = []
+    const applicantIds: string[] = []
+    const assessmentIds: string[] = []
+    let firstId: string
+    let secondId: string
+
+    // Question weights are 1 and 2, so scores are 0 to 3
+    const submit = async (applicant: number, correct: boolean[]) => {
+        const assessment = await applicantAssessmentService.submitAssessment({
+            applicantId: applicantIds[applicant],
+            templateId,
+            jobId,
+            answers: questionIds.map((questionId, i) => ({
+                questionId,
+                answer: correct[i] ? "A" : "B",
+            })),
+        })
+        assessmentIds[applicant] = assessment.id
+    }
+
+    // Snapshots taken within the same millisecond would be unordered
+    const calculate = async (triggerEvent: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        await rankingPool.calculateJobRankings(jobId, triggerEvent)
+        const [latest] = await snapshotService.getSnapshots(jobId, 1)
+        return latest.id
+    }
+
+    before(async function () {
+        await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        const company = await db.company.create({
+            data: { name: "Snapshot Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main", companyId: company.id },
+        })
+        const [job, otherJob] = await Promise.all(
+            ["Snapshot Engineer", "Other Engineer"].map((title) =>
+                db.job.create({
+                    data: {
+                        title,
+                        status: JobStatus.OPEN,
+                        branchId: branch.id,
+                    },
+                }),
+            ),
+        )
+        jobId = job.id
+        otherJobId = otherJob.id
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Snapshots", jobId },
+        })
+        templateId = template.id
+        for (const weight of [1, 2]) {
+            const question = await db.assessmentQuestion.create({
+                data: {
+                    templateId,
+                    text: `Worth ${weight}`,
+                    weight,
+                    order: weight,
+                    options: ["A", "B"],
+                    correctAnswer: "A",
+                },
+            })
+            questionIds.push(question.id)
+        }
+        for (const name of ["Ada", "Bo", "Cy", "Di"]) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `${name.toLowerCase()}@example.com`,
+                    firstName: name,
+                    lastName: "Snapshot",
+                },
+            })
+            applicantIds.push(applicant.id)
+        }
+
+        await submit(0, [true, true])
+        await submit(1, [false, true])
+        await submit(2, [true, false])
+    })
+
+    it("should store every calculation as a snapshot", async function () {
+        firstId = await calculate("FIRST")
+
+        // A new applicant ties with the best one, another one leaves
+        await submit(3, [true, true])
+        await db.applicantAssessment.delete({
+            where: { id: assessmentIds[2] },
+        })
+        secondId = await calculate("SECOND")
+
+        const snapshots = await snapshotService.getSnapshots(jobId)
+        expect(snapshots.map((s) => s.id)).to.deep.equal([secondId, firstId])
+        expect(snapshots[0]).to.include({
+            jobId,
+            triggerEvent: "SECOND",
+            totalCandidates: 3,
+        })
+        expect(snapshots[1]).to.include({ totalCandidates: 3 })
+        expect(snapshots[0].scoringConfigVersion).to.equal(
+            await rankingPool.getScoringConfigVersion(jobId),
+        )
+
+        const [latest] = await snapshotService.getSnapshots(jobId, 1, 0)
+        expect(latest.id).to.equal(secondId)
+        expect(await snapshotService.getSnapshots(otherJobId)).to.be.empty
+    })
+
+    it("should show the rank and score movement of each applicant", async function () {
+        const diff = await snapshotService.diffSnapshots(
+            jobId,
+            firstId,
+            secondId,
+        )
+
+        expect(diff.from.id).to.equal(firstId)
+        expect(diff.to.id).to.equal(secondId)
+        expect(diff.top).to.be.null
+        expect(diff.movements).to.deep.equal([
+            {
+                applicantId: applicantIds[3],
+                movement: "ENTERED",
+                fromRank: null,
+                toRank: 1,
+                rankChange: null,
+                fromScore: null,
+                toScore: 3,
+                scoreChange: null,
+            },
+            {
+                applicantId: applicantIds[0],
+                movement: "DOWN",
+                fromRank: 1,
+                toRank: 2,
+                rankChange: -1,
+                fromScore: 3,
+                toScore: 3,
+                scoreChange: 0,
+            },
+            {
+                applicantId: applicantIds[1],
+                movement: "DOWN",
+                fromRank: 2,
+                toRank: 3,
+                rankChange: -1,
+                fromScore: 2,
+                toScore: 2,
+                scoreChange: 0,
+            },
+            {
+                applicantId: applicantIds[2],
+                movement: "DROPPED",
+                fromRank: 3,
+                toRank: null,
+                rankChange: null,
+                fromScore: 1,
+                toScore: null,
+                scoreChange: null,
+            },
+        ])
+    })
+
+    it("should only compare the top of the snapshots when asked", async function () {
+        const diff = await snapshotService.diffSnapshots(
+            jobId,
+            firstId,
+            secondId,
+            1,
+        )
+
+        // Who entered the top and who dropped out of it
+        expect(diff.top).to.equal(1)
+        expect(
+            diff.movements.map((m) => [m.applicantId, m.movement]),
+        ).to.deep.equal([
+            [applicantIds[3], "ENTERED"],
+            [applicantIds[0], "DOWN"],
+        ])
+    })
+
+    it("should not compare snapshots of another job", async function () {
+        try {
+            await snapshotService.diffSnapshots(otherJobId, firstId, secondId)
+            expect.fail("Should have thrown an error")
+        } catch (error) {
+            expect((error as ServiceError).type).to.equal(
+                ServiceErrorType.NotFound,
+            )
+        }
+    })
+})
@@ -0,0 +1,239 @@
+import { expect } from "chai"
+import pino from "pino"
+import {
+    JobStatus,
+    Prisma,
+    RankingMethod,
+    RankingTieBreaker,
+} from "@prisma/client"
+
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import getScoringConfigService from "../../src/services/scoring-configs"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getScoringConfigPool from "../../src/persistence/db/pool/scoring-configs"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Ranking tie-breakers", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const rankingPool = getCandidateRankingPool(db, logger)
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        getAssessmentQuestionPool(db, logger),
+        events,
+    )
+    const scoringConfigService = getScoringConfigService(
+        getScoringConfigPool(db, logger),
+        events,
+    )
+
+    // Mock data setup
+    let jobId: string
+    let configId: string
+    let templateId: string
+    const questionIds: string[] = []
+    const applicantIds: string[] = []
+    let submissions = 0
+
+    // Question weights are 1, 1 and 2, so answering the first two or only
+    // the last one correctly scores the same
+    const submit = async (applicant: number, correct: boolean[]) => {
+        const assessment = await applicantAssessmentService.submitAssessment({
+            applicantId: applicantIds[applicant],
+            templateId,
+            jobId,
+            answers: questionIds.map((questionId, i) => ({
+                questionId,
+                answer: correct[i] ? "A" : "B",
+            })),
+        })
+        // Submissions a minute apart, in the order they are made
+        await db.applicantAssessment.update({
+            where: { id: assessment.id },
+            data: {
+                submittedAt: new Date(Date.UTC(2025, 0, 1, 9, submissions++)),
+            },
+        })
+        return assessment
+    }
+
+    const configure = async (data: Prisma.ScoringConfigUpdateInput) => {
+        await db.scoringConfig.update({
+            where: { id: configId },
+            data: { ...data, updatedAt: new Date() },
+        })
+    }
+
+    const ranking = async () =>
+        (
+            await rankingPool.calculateJobRankings(jobId, "TEST")
+        ).rankedCandidates.map(({ applicantId, rank }) => [
+            applicantIds.indexOf(applicantId),
+            rank,
+        ])
+
+    before(async function () {
+        const config = await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        configId = config.id
+        const company = await db.company.create({
+            data: { name: "Tied Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: {
+                title: "Tied Engineer",
+                status: JobStatus.OPEN,
+                branchId: branch.id,
+            },
+        })
+        jobId = job.id
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Ties", jobId },
+        })
+        templateId = template.id
+        for (const [order, weight] of [1, 1, 2].entries()) {
+            const question = await db.assessmentQuestion.create({
+                data: {
+                    templateId,
+                    text: `Question ${order + 1}`,
+                    weight,
+                    order: order + 1,
+                    options: ["A", "B"],
+                    correctAnswer: "A",
+                },
+            })
+            questionIds.push(question.id)
+        }
+        for (const name of ["Ada", "Bo", "Cy", "Di", "Ed"]) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `${name.toLowerCase()}@example.com`,
+                    firstName: name,
+                    lastName: "Tied",
+                },
+            })
+            applicantIds.push(applicant.id)
+        }
+
+        // Ada and Cy answer more questions correctly than Bo, all three
+        // score 2 and Di scores 4
+        await submit(0, [true, true, false])
+        await submit(1, [false, false, true])
+        await submit(2, [true, true, false])
+        await submit(3, [true, true, true])
+    })
+
+    it("should rank the newest submission first without tie-breakers", async function () {
+        expect(await ranking()).to.deep.equal([
+            [3, 1],
+            [2, 2],
+            [1, 3],
+            [0, 4],
+        ])
+    })
+
+    it("should apply the tie-breakers in order", async function () {
+        await configure({
+            tieBreakers: [RankingTieBreaker.MORE_CORRECT_ANSWERS],
+        })
+        expect(await ranking()).to.deep.equal([
+            [3, 1],
+            [2, 2],
+            [0, 3],
+            [1, 4],
+        ])
+
+        await configure({
+            tieBreakers: [
+                RankingTieBreaker.MORE_CORRECT_ANSWERS,
+                RankingTieBreaker.EARLIER_SUBMISSION,
+            ],
+        })
+        expect(await ranking()).to.deep.equal([
+            [3, 1],
+            [0, 2],
+            [2, 3],
+            [1, 4],
+        ])
+    })
+
+    it("should rank a new submission among the candidates it ties with", async function () {
+        // Bo's answers again, submitted last
+        const assessment = await submit(4, [false, false, true])
+
+        const result = await rankingPool.applyAssessmentToRankings(
+            jobId,
+            assessment.id,
+            "TEST",
+        )
+
+        expect(result?.rank).to.equal(5)
+        expect(await ranking()).to.deep.include([4, 5])
+    })
+
+    it("should let tied candidates share a rank", async function () {
+        await configure({
+            tieBreakers: [RankingTieBreaker.MORE_CORRECT_ANSWERS],
+            rankingMethod: RankingMethod.COMPETITION,
+        })
+        expect(await ranking()).to.deep.equal([
+            [3, 1],
+            [2, 2],
+            [0, 2],
+            [4, 4],
+            [1, 4],
+        ])
+
+        await configure({ rankingMethod: RankingMethod.DENSE })
+        expect(await ranking()).to.deep.equal([
+            [3, 1],
+            [2, 2],
+            [0, 2],
+            [4, 3],
+            [1, 3],
+        ])
+    })
+
+    it("should leave shared ranks to a full calculation", async function () {
+        const assessment = await submit(4, [true, true, true])
+
+        const result = await rankingPool.applyAssessmentToRankings(
+            jobId,
+            assessment.id,
+            "TEST",
+        )
+
+        expect(result).to.be.null
+    })
+
+    it("should reject tie-breakers that repeat", async function () {
+        try {
+            await scoringConfigService.updateScoringConfig(configId, {
+                tieBreakers: [
+                    RankingTieBreaker.LESS_TIME_TAKEN,
+                    RankingTieBreaker.LESS_TIME_TAKEN,
+                ],
+            })
+            expect.fail("Should have thrown an error")
+        } catch (error) {
+            expect((error as ServiceError).type).to.equal(
+                ServiceErrorType.InvalidInput,
+            )
+        }
+    })
+})
@@ -0,0 +1,178 @@
+import { expect } from "chai"
+import pino from "pino"
+import { JobStatus } from "@prisma/client"
+
+import getCandidateRankingService from "../../src/services/candidate-rankings"
+import OutboxEventRelaying from "../../src/services/events/outbox"
+import { TrueFitEventTypes } from "../../src/services/events"
+import { RankingUpdate } from "../../src/types/candidate-ranking"
+import makeMockDB from "./mockDB"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getOutboxEventPool from "../../src/persistence/db/pool/outbox-events"
+
+describe("Ranking update subscriptions", async function () {
+    const logger = pino()
+    const db = makeMockDB()
+    const events = new OutboxEventRelaying(
+        getOutboxEventPool(db, logger),
+        logger,
+    )
+    const rankingService = getCandidateRankingService(
+        getCandidateRankingPool(db, logger),
+        events,
+    )
+
+    // Deliver the events written with the changes, and the ones their
+    // listeners wrote in turn
+    const deliverEvents = async () => {
+        let delivered: number
+        do {
+            delivered = await events.deliverDueEvents()
+        } while (delivered > 0)
+    }
+
+    // Mock data setup
+    let jobId: string
+    let otherJobId: string
+
+    const subscribe = (id: string) => {
+        const updates: RankingUpdate[] = []
+        const unsubscribe = rankingService.subscribeToRankingUpdates(
+            id,
+            (update) => {
+                updates.push(update)
+            },
+        )
+        return { updates, unsubscribe }
+    }
+
+    before(async function () {
+        await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        const company = await db.company.create({
+            data: { name: "Streaming Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: {
+                title: "Stream Engineer",
+                status: JobStatus.OPEN,
+                branchId: branch.id,
+            },
+        })
+        jobId = job.id
+        const otherJob = await db.job.create({
+            data: {
+                title: "Other Engineer",
+                status: JobStatus.OPEN,
+                branchId: branch.id,
+            },
+        })
+        otherJobId = otherJob.id
+    })
+
+    it("should stream calculated rankings of the subscribed job only", async function () {
+        const subscriber = subscribe(jobId)
+        const other = subscribe(otherJobId)
+
+        await rankingService.recalculateJobRankings(jobId, "TEST")
+        await deliverEvents()
+
+        expect(subscriber.updates.map((u) => u.type)).to.deep.equal([
+            TrueFitEventTypes.RANKING_CALCULATED,
+        ])
+        expect(subscriber.updates[0].payload).to.include({
+            jobId,
+            totalCandidates: 0,
+        })
+        expect(other.updates).to.be.empty
+
+        subscriber.unsubscribe()
+        other.unsubscribe()
+    })
+
+    it("should stream invalidations to the subscribers of every invalidated job", async function () {
+        const subscriber = subscribe(jobId)
+        const other = subscribe(otherJobId)
+
+        await rankingService.invalidateRankings({
+            jobId,
+            triggerEvent: "MANUAL_TRIGGER",
+        })
+        await events.dispatchEvent({
+            type: TrueFitEventTypes.RANKING_INVALIDATED,
+            payload: { jobIds: [jobId, otherJobId], reason: "TEST" },
+        })
+        await deliverEvents()
+
+        expect(subscriber.updates.map((u) => u.payload)).to.deep.equal([
+            { jobIds: [jobId], reason: "MANUAL_TRIGGER" },
+            { jobIds: [jobId, otherJobId], reason: "TEST" },
+        ])
+        expect(other.updates.map((u) => u.payload)).to.deep.equal([
+            { jobIds: [jobId, otherJobId], reason: "TEST" },
+        ])
+
+        subscriber.unsubscribe()
+        other.unsubscribe()
+    })
+
+    it("should stream submitted assessments of the subscribed job", async function () {
+        const other = subscribe(otherJobId)
+        const payload = {
+            assessmentId: "assessment-1",
+            applicantId: "applicant-1",
+            templateId: "template-1",
+            jobId: otherJobId,
+            answersCount: 3,
+        }
+
+        await events.dispatchEvent({
+            type: TrueFitEventTypes.ASSESSMENT_SUBMITTED,
+            payload,
+        })
+        await deliverEvents()
+
+        const submitted = other.updates.filter(
+            (u) => u.type === TrueFitEventTypes.ASSESSMENT_SUBMITTED,
+        )
+        expect(submitted.map((u) => u.payload)).to.deep.equal([payload])
+
+        other.unsubscribe()
+    })
+
+    it("should stop streaming to subscribers that unsubscribed", async function () {
+        const subscriber = subscribe(jobId)
+        subscriber.unsubscribe()
+
+        await rankingService.recalculateJobRankings(jobId, "TEST")
+        await deliverEvents()
+
+        expect(subscriber.updates).to.be.empty
+    })
+
+    it("should keep streaming when a subscriber fails", async function () {
+        const unsubscribeFailing = rankingService.subscribeToRankingUpdates(
+            jobId,
+            () => {
+                throw new Error("Connection lost")
+            },
+        )
+        const subscriber = subscribe(jobId)
+
+        await rankingService.recalculateJobRankings(jobId, "TEST")
+        await deliverEvents()
+
+        expect(subscriber.updates).to.have.length(1)
+
+        unsubscribeFailing()
+        subscriber.unsubscribe()
+    })
+})
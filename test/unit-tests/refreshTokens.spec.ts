@@ -0,0 +1,208 @@
+import { expect } from "chai"
+import { FastifyInstance } from "fastify"
+import { UserRole } from "@prisma/client"
+
+import { build } from "../../src/app"
+import makeMockDB from "./mockDB"
+
+describe("Refresh tokens and sessions", async function () {
+    const db = makeMockDB()
+    let server: FastifyInstance
+
+    const login = async (email: string, userAgent = "test-agent") => {
+        const response = await server.inject({
+            method: "POST",
+            url: "/v1/users/login",
+            payload: { email, password: "securePassword123" },
+            headers: { "user-agent": userAgent },
+        })
+        expect(response.statusCode).to.equal(200)
+        return response.json() as { token: string; refreshToken: string }
+    }
+
+    const refresh = (refreshToken: string) =>
+        server.inject({
+            method: "POST",
+            url: "/v1/users/refresh",
+            payload: { refreshToken },
+        })
+
+    const request = (
+        token: string,
+        method: "GET" | "POST" | "DELETE",
+        url: string,
+    ) =>
+        server.inject({
+            method,
+            url: `/v1${url}`,
+            headers: { authorization: `Bearer ${token}` },
+        })
+
+    before(async function () {
+        this.timeout(30000)
+        process.env.JWT_SECRET = "test-jwt-secret-for-unit-tests"
+
+        server = await build({ logger: false }, db)
+        await server.ready()
+
+        const companyId = (
+            await db.company.create({ data: { name: "Company A" } })
+        ).id
+
+        const userService = server.services.getUserService()
+        for (const name of ["alice", "bob"]) {
+            await userService.createUser({
+                email: `${name}@example.com`,
+                firstName: name,
+                lastName: "User",
+                password: "securePassword123",
+                role: UserRole.RECRUITER,
+                companyId,
+            })
+        }
+    })
+
+    after(async function () {
+        await server.close()
+    })
+
+    describe("Refreshing", function () {
+        it("should issue short-lived access tokens with a refresh token", async function () {
+            const response = await server.inject({
+                method: "POST",
+                url: "/v1/users/login",
+                payload: {
+                    email: "alice@example.com",
+                    password: "securePassword123",
+                },
+            })
+            expect(response.statusCode).to.equal(200)
+
+            const body = response.json()
+            expect(body.token).to.be.a("string")
+            expect(body.refreshToken).to.be.a("string")
+            expect(body.expiresIn).to.equal(15 * 60)
+        })
+
+        it("should rotate both tokens on refresh", async function () {
+            const first = await login("alice@example.com")
+
+            const response = await refresh(first.refreshToken)
+            expect(response.statusCode).to.equal(200)
+            const second = response.json()
+            expect(second.refreshToken).to.not.equal(first.refreshToken)
+            expect(second.user.email).to.equal("alice@example.com")
+
+            const current = await request(second.token, "GET", "/users/me")
+            expect(current.statusCode).to.equal(200)
+
+            // The session the old access token belongs to was replaced
+            const replaced = await request(first.token, "GET", "/users/me")
+            expect(replaced.statusCode).to.equal(401)
+        })
+
+        it("should sign the session out when a refresh token is reused", async function () {
+            const first = await login("alice@example.com")
+            const second = (await refresh(first.refreshToken)).json()
+
+            const reused = await refresh(first.refreshToken)
+            expect(reused.statusCode).to.equal(403)
+
+            // Every session renewed from the reused token is revoked
+            const latest = await refresh(second.refreshToken)
+            expect(latest.statusCode).to.equal(403)
+
+            const access = await request(second.token, "GET", "/users/me")
+            expect(access.statusCode).to.equal(401)
+        })
+
+        it("should reject unknown and signed out refresh tokens", async function () {
+            const unknown = await refresh("not-a-refresh-token")
+            expect(unknown.statusCode).to.equal(403)
+
+            const session = await login("alice@example.com")
+            const logout = await request(session.token, "POST", "/users/logout")
+            expect(logout.statusCode).to.equal(200)
+
+            const response = await refresh(session.refreshToken)
+            expect(response.statusCode).to.equal(403)
+        })
+    })
+
+    describe("Devices", function () {
+        it("should list the devices signed in", async function () {
+            const laptop = await login("bob@example.com", "laptop")
+            await login("bob@example.com", "phone")
+
+            const response = await request(
+                laptop.token,
+                "GET",
+                "/users/sessions",
+            )
+            expect(response.statusCode).to.equal(200)
+
+            const sessions = response.json().sessions
+            expect(
+                sessions.map((s: { userAgent: string }) => s.userAgent),
+            ).to.have.members(["laptop", "phone"])
+            const current = sessions.filter(
+                (s: { current: boolean }) => s.current,
+            )
+            expect(current).to.have.length(1)
+            expect(current[0].userAgent).to.equal("laptop")
+        })
+
+        it("should sign a single device out", async function () {
+            const laptop = await login("bob@example.com", "laptop")
+            const tablet = await login("bob@example.com", "tablet")
+
+            const sessions = (
+                await request(laptop.token, "GET", "/users/sessions")
+            ).json().sessions
+            const tabletSession = sessions.find(
+                (s: { userAgent: string }) => s.userAgent === "tablet",
+            )
+
+            const revoked = await request(
+                laptop.token,
+                "DELETE",
+                `/users/sessions/${tabletSession.id}`,
+            )
+            expect(revoked.statusCode).to.equal(200)
+
+            const access = await request(tablet.token, "GET", "/users/me")
+            expect(access.statusCode).to.equal(401)
+            const renewed = await refresh(tablet.refreshToken)
+            expect(renewed.statusCode).to.equal(403)
+
+            const stillSignedIn = await request(
+                laptop.token,
+                "GET",
+                "/users/me",
+            )
+            expect(stillSignedIn.statusCode).to.equal(200)
+        })
+
+        it("should not sign out devices of other users", async function () {
+            const bob = await login("bob@example.com")
+            const alice = await login("alice@example.com")
+
+            const sessions = (
+                await request(bob.token, "GET", "/users/sessions")
+            ).json().sessions
+            const bobSession = sessions.find(
+                (s: { current: boolean }) => s.current,
+            )
+
+            const response = await request(
+                alice.token,
+                "DELETE",
+                `/users/sessions/${bobSession.id}`,
+            )
+            expect(response.statusCode).to.equal(404)
+
+            const access = await request(bob.token, "GET", "/users/me")
+            expect(access.statusCode).to.equal(200)
+        })
+    })
+})
@@ -0,0 +1,377 @@
+import { expect } from "chai"
+import pino from "pino"
+import { AnswerReviewStatus, QuestionType } from "@prisma/client"
+
+import getAssessmentQuestionService from "../../src/services/assessment-questions"
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import OutboxEventRelaying from "../../src/services/events/outbox"
+import { TrueFitEvent, TrueFitEventTypes } from "../../src/services/events"
+import makeMockDB from "./mockDB"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getOutboxEventPool from "../../src/persistence/db/pool/outbox-events"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Rubric grading", async function () {
+    const logger = pino()
+    const db = makeMockDB()
+    const events = new OutboxEventRelaying(
+        getOutboxEventPool(db, logger),
+        logger,
+    )
+    const questionPool = getAssessmentQuestionPool(db, logger)
+    const assessmentQuestionService = getAssessmentQuestionService(
+        questionPool,
+        events,
+    )
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        questionPool,
+        events,
+    )
+    const rankingPool = getCandidateRankingPool(db, logger)
+
+    const gradedEvents: TrueFitEvent<TrueFitEventTypes.ASSESSMENT_GRADED>[] = []
+    events.listenForEvents(
+        "test",
+        [TrueFitEventTypes.ASSESSMENT_GRADED],
+        async (event) => {
+            gradedEvents.push(event)
+        },
+    )
+
+    // Mock data setup
+    let jobId: string
+    let templateId: string
+    let graderId: string
+    let rubricQuestionId: string
+    let choiceQuestionId: string
+    let criterionIds: string[]
+    let assessmentId: string
+    let textAnswerId: string
+    let choiceAnswerId: string
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Grading Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: { title: "Support Engineer", branchId: branch.id },
+        })
+        jobId = job.id
+
+        await db.scoringConfig.create({
+            data: { negativeMarkingFraction: 0, jobId, updatedAt: new Date() },
+        })
+
+        const grader = await db.user.create({
+            data: {
+                email: "grader@grading.com",
+                firstName: "Grace",
+                lastName: "Grader",
+                passwordHash: "hash",
+                companyId: company.id,
+                updatedAt: new Date(),
+            },
+        })
+        graderId = grader.id
+
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Support", jobId },
+        })
+        templateId = template.id
+
+        const choice = await assessmentQuestionService.createQuestion({
+            templateId,
+            text: "Which status means the ticket is closed?",
+            weight: 2,
+            order: 1,
+            options: ["OPEN", "RESOLVED"],
+            correctAnswer: "RESOLVED",
+        })
+        choiceQuestionId = choice.id
+    })
+
+    describe("Rubric definition", function () {
+        it("should create a TEXT question with its rubric in order", async function () {
+            const question = await assessmentQuestionService.createQuestion({
+                templateId,
+                text: "How would you calm down an angry customer?",
+                type: QuestionType.TEXT,
+                weight: 4,
+                order: 2,
+                rubric: [
+                    { description: " Acknowledges the problem ", points: 2 },
+                    { description: "Proposes a next step", points: 3 },
+                ],
+            })
+            rubricQuestionId = question.id
+
+            expect(question.rubric).to.have.length(2)
+            expect(question.rubric!.map((c) => c.description)).to.deep.equal([
+                "Acknowledges the problem",
+                "Proposes a next step",
+            ])
+            criterionIds = question.rubric!.map((c) => c.id)
+        })
+
+        it("should reject a rubric on a non-TEXT question", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Pick one",
+                    order: 3,
+                    options: ["A", "B"],
+                    rubric: [{ description: "Picks A", points: 1 }],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.InvalidInput,
+                )
+                expect((error as Error).message).to.include(
+                    "Only TEXT questions can have a rubric",
+                )
+            }
+        })
+
+        it("should reject rubric criteria without points", async function () {
+            try {
+                await assessmentQuestionService.createQuestion({
+                    templateId,
+                    text: "Describe your last project",
+                    type: QuestionType.TEXT,
+                    order: 3,
+                    rubric: [{ description: "Mentions impact", points: 0 }],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as Error).message).to.include(
+                    "positive number of points",
+                )
+            }
+        })
+    })
+
+    describe("Review", function () {
+        before(async function () {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: "grading@example.com",
+                    firstName: "Pat",
+                    lastName: "Candidate",
+                },
+            })
+            const assessment =
+                await applicantAssessmentService.submitAssessment({
+                    applicantId: applicant.id,
+                    templateId,
+                    jobId,
+                    answers: [
+                        { questionId: choiceQuestionId, answer: "RESOLVED" },
+                        {
+                            questionId: rubricQuestionId,
+                            answer: "I would apologise and open a priority ticket",
+                        },
+                    ],
+                })
+            assessmentId = assessment.id
+            textAnswerId = assessment.answers.find(
+                (a) => a.question.id === rubricQuestionId,
+            )!.id
+            choiceAnswerId = assessment.answers.find(
+                (a) => a.question.id === choiceQuestionId,
+            )!.id
+        })
+
+        it("should leave rubric answers pending review on submission", async function () {
+            const reviews = await applicantAssessmentService.getPendingReviews({
+                jobId,
+            })
+
+            expect(reviews).to.have.length(1)
+            expect(reviews[0].answerId).to.equal(textAnswerId)
+            expect(reviews[0].question.rubric).to.have.length(2)
+        })
+
+        it("should not score pending answers and flag them in rankings", async function () {
+            const score = await applicantAssessmentService.getAssessmentScore(
+                assessmentId,
+            )
+            expect(score.score).to.equal(2)
+            expect(score.maxPossibleScore).to.equal(6)
+            expect(score.breakdown.pendingReviews).to.equal(1)
+            expect(score.breakdown.incorrectAnswers.count).to.equal(0)
+
+            const result = await rankingPool.calculateJobRankings(jobId, "TEST")
+            expect(result.rankedCandidates[0].pendingReviews).to.equal(1)
+        })
+
+        it("should reject grading an auto-graded answer", async function () {
+            try {
+                await applicantAssessmentService.gradeAnswer(
+                    assessmentId,
+                    choiceAnswerId,
+                    { scores: [] },
+                    { id: graderId },
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.InvalidInput,
+                )
+            }
+        })
+
+        it("should reject incomplete or out of range rubric scores", async function () {
+            try {
+                await applicantAssessmentService.gradeAnswer(
+                    assessmentId,
+                    textAnswerId,
+                    { scores: [{ criterionId: criterionIds[0], points: 5 }] },
+                    { id: graderId },
+                )
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                const serviceError = error as ServiceError
+                expect(serviceError.type).to.equal(
+                    ServiceErrorType.InvalidInput,
+                )
+                expect(serviceError.errors).to.have.keys(criterionIds)
+            }
+            await events.deliverDueEvents()
+            expect(gradedEvents).to.have.length(0)
+        })
+
+        it("should grade the answer and announce the completed assessment", async function () {
+            const grade = await applicantAssessmentService.gradeAnswer(
+                assessmentId,
+                textAnswerId,
+                {
+                    scores: [
+                        { criterionId: criterionIds[0], points: 2 },
+                        { criterionId: criterionIds[1], points: 1 },
+                    ],
+                },
+                { id: graderId },
+            )
+
+            expect(grade.pendingReviews).to.equal(0)
+            expect(grade.answer.reviewStatus).to.equal(
+                AnswerReviewStatus.GRADED,
+            )
+            expect(grade.answer.credit).to.be.closeTo(3 / 5, 1e-9)
+            expect(grade.answer.gradedById).to.equal(graderId)
+            await events.deliverDueEvents()
+            expect(gradedEvents).to.have.length(1)
+            expect(gradedEvents[0].payload.jobId).to.equal(jobId)
+
+            const score = await applicantAssessmentService.getAssessmentScore(
+                assessmentId,
+            )
+            expect(score.score).to.be.closeTo(2 + 4 * (3 / 5), 1e-9)
+            expect(score.breakdown.pendingReviews).to.equal(0)
+
+            const result = await rankingPool.calculateJobRankings(jobId, "TEST")
+            expect(result.rankedCandidates[0].pendingReviews).to.equal(0)
+            expect(result.rankedCandidates[0].score).to.be.closeTo(
+                score.score,
+                1e-9,
+            )
+        })
+
+        it("should only announce a re-grade that changes the score", async function () {
+            const regrade = (points: [number, number]) =>
+                applicantAssessmentService.gradeAnswer(
+                    assessmentId,
+                    textAnswerId,
+                    {
+                        scores: [
+                            { criterionId: criterionIds[0], points: points[0] },
+                            { criterionId: criterionIds[1], points: points[1] },
+                        ],
+                    },
+                    { id: graderId },
+                )
+
+            // Same total, spread differently
+            const unchanged = await regrade([1, 2])
+            expect(unchanged.scoreChanged).to.equal(false)
+            expect(unchanged.answer.rubricScores).to.deep.include({
+                criterionId: criterionIds[1],
+                points: 2,
+            })
+            await events.deliverDueEvents()
+            expect(gradedEvents).to.have.length(1)
+
+            const changed = await regrade([2, 3])
+            expect(changed.scoreChanged).to.equal(true)
+            expect(changed.answer.credit).to.equal(1)
+            await events.deliverDueEvents()
+            expect(gradedEvents).to.have.length(2)
+        })
+
+        it("should grade reviewed and pending answers automatically once the rubric is removed", async function () {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: "pending@example.com",
+                    firstName: "Sam",
+                    lastName: "Candidate",
+                },
+            })
+            const pending = await applicantAssessmentService.submitAssessment({
+                applicantId: applicant.id,
+                templateId,
+                jobId,
+                answers: [
+                    { questionId: choiceQuestionId, answer: "OPEN" },
+                    {
+                        questionId: rubricQuestionId,
+                        answer: "I would escalate it",
+                    },
+                ],
+            })
+            const pendingAnswerId = pending.answers.find(
+                (a) => a.question.id === rubricQuestionId,
+            )!.id
+
+            const { regrade } = await assessmentQuestionService.updateQuestion(
+                rubricQuestionId,
+                {
+                    rubric: [],
+                    correctAnswer:
+                        "I would apologise and open a priority ticket",
+                },
+            )
+            expect(regrade!.evaluated).to.equal(2)
+            expect(regrade!.nowCorrect).to.equal(0)
+
+            const graded = await db.applicantAnswer.findUnique({
+                where: { id: textAnswerId },
+            })
+            expect(graded!.reviewStatus).to.equal(
+                AnswerReviewStatus.AUTO_GRADED,
+            )
+            expect(graded!.isCorrect).to.equal(true)
+            expect(graded!.credit).to.equal(1)
+            expect(graded!.gradedById).to.equal(null)
+
+            const reset = await db.applicantAnswer.findUnique({
+                where: { id: pendingAnswerId },
+            })
+            expect(reset!.reviewStatus).to.equal(AnswerReviewStatus.AUTO_GRADED)
+            expect(reset!.isCorrect).to.equal(false)
+
+            const reviews = await applicantAssessmentService.getPendingReviews({
+                jobId,
+            })
+            expect(reviews).to.have.length(0)
+        })
+    })
+})
@@ -0,0 +1,330 @@
+import { expect } from "chai"
+import pino from "pino"
+import { PartialCreditMode, QuestionType } from "@prisma/client"
+
+import getAssessmentQuestionService from "../../src/services/assessment-questions"
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import getScoringConfigService from "../../src/services/scoring-configs"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import getScoringConfigPool from "../../src/persistence/db/pool/scoring-configs"
+
+describe("Scoring consistency", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const questionPool = getAssessmentQuestionPool(db, logger)
+    const assessmentQuestionService = getAssessmentQuestionService(
+        questionPool,
+        events,
+    )
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        questionPool,
+        events,
+    )
+    const scoringConfigService = getScoringConfigService(
+        getScoringConfigPool(db, logger),
+        events,
+    )
+    const rankingPool = getCandidateRankingPool(db, logger)
+
+    // Mock data setup
+    let jobId: string
+    let configId: string
+    const assessmentIds: string[] = []
+
+    // Expected scores with a negative marking fraction of 0.5
+    //  - penalised question: negativeWeight 1.5 overrides 2 * 0.5
+    //  - plain question: 3 * 0.5 penalty
+    //  - multi-select: 2 of 3 correct picks earn 2/3 of 3 points
+    const expectedScores = [-1.5 - 1.5 + 2 + 2, 2 + 3 + 2 + 3]
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Scoring Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: { title: "Data Engineer", branchId: branch.id },
+        })
+        jobId = job.id
+
+        const config = await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0.5,
+                jobId,
+                updatedAt: new Date(),
+            },
+        })
+        configId = config.id
+
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Scoring", jobId },
+        })
+
+        const penalised = await assessmentQuestionService.createQuestion({
+            templateId: template.id,
+            text: "Which join keeps unmatched left rows?",
+            weight: 2,
+            order: 1,
+            options: ["INNER", "LEFT"],
+            correctAnswer: "LEFT",
+            negativeWeight: 1.5,
+        })
+        const plain = await assessmentQuestionService.createQuestion({
+            templateId: template.id,
+            text: "Which clause filters groups?",
+            weight: 3,
+            order: 2,
+            options: ["WHERE", "HAVING"],
+            correctAnswer: "HAVING",
+        })
+        const trueFalse = await assessmentQuestionService.createQuestion({
+            templateId: template.id,
+            text: "Indexes speed up reads",
+            type: QuestionType.TRUE_FALSE,
+            weight: 2,
+            order: 3,
+            correctAnswer: "true",
+        })
+        const multiSelect = await assessmentQuestionService.createQuestion({
+            templateId: template.id,
+            text: "Which are window functions?",
+            type: QuestionType.MULTI_SELECT,
+            weight: 3,
+            order: 4,
+            options: ["ROW_NUMBER", "RANK", "LAG", "COALESCE"],
+            correctOptions: ["ROW_NUMBER", "RANK", "LAG"],
+            partialCredit: PartialCreditMode.PROPORTIONAL,
+        })
+
+        const submissions = [
+            [
+                { questionId: penalised.id, answer: "INNER" },
+                { questionId: plain.id, answer: "WHERE" },
+                { questionId: trueFalse.id, answer: "true" },
+                {
+                    questionId: multiSelect.id,
+                    selectedOptions: ["ROW_NUMBER", "RANK"],
+                },
+            ],
+            [
+                { questionId: penalised.id, answer: "LEFT" },
+                { questionId: plain.id, answer: "HAVING" },
+                { questionId: trueFalse.id, answer: "true" },
+                {
+                    questionId: multiSelect.id,
+                    selectedOptions: ["ROW_NUMBER", "RANK", "LAG"],
+                },
+            ],
+        ]
+
+        for (let i = 0; i < submissions.length; i++) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `scoring${i}@example.com`,
+                    firstName: `Scoring${i}`,
+                    lastName: "Candidate",
+                },
+            })
+            const assessment =
+                await applicantAssessmentService.submitAssessment({
+                    applicantId: applicant.id,
+                    templateId: template.id,
+                    jobId,
+                    answers: submissions[i],
+                })
+            assessmentIds.push(assessment.id)
+        }
+    })
+
+    it("should apply question negativeWeight before the config fraction", async function () {
+        const score = await applicantAssessmentService.getAssessmentScore(
+            assessmentIds[0],
+        )
+
+        expect(score.score).to.be.closeTo(expectedScores[0], 1e-9)
+        expect(score.breakdown.incorrectAnswers.points).to.be.closeTo(-3, 1e-9)
+    })
+
+    it("should produce the same score from the score and explanation endpoints", async function () {
+        for (let i = 0; i < assessmentIds.length; i++) {
+            const score = await applicantAssessmentService.getAssessmentScore(
+                assessmentIds[i],
+            )
+            const explanation =
+                await applicantAssessmentService.getAssessmentExplanation(
+                    assessmentIds[i],
+                )
+
+            expect(score.score).to.be.closeTo(expectedScores[i], 1e-9)
+            expect(explanation.scoring.finalScore).to.be.closeTo(
+                expectedScores[i],
+                1e-9,
+            )
+            expect(
+                explanation.breakdown.reduce((sum, b) => sum + b.points, 0),
+            ).to.be.closeTo(expectedScores[i], 1e-9)
+        }
+    })
+
+    it("should rank candidates with the same scores", async function () {
+        const result = await rankingPool.calculateJobRankings(jobId, "TEST")
+
+        expect(result.totalCandidates).to.equal(2)
+        expect(result.rankedCandidates[0].assessmentId).to.equal(
+            assessmentIds[1],
+        )
+        for (let i = 0; i < assessmentIds.length; i++) {
+            const ranked = result.rankedCandidates.find(
+                (c) => c.assessmentId === assessmentIds[i],
+            )!
+            expect(ranked.score).to.be.closeTo(expectedScores[i], 1e-9)
+        }
+    })
+
+    it("should preview the same scores for the config in effect", async function () {
+        const preview = await scoringConfigService.previewScoringConfig(
+            configId,
+            jobId,
+        )
+        const average = (expectedScores[0] + expectedScores[1]) / 2
+
+        expect(preview.currentConfig.score).to.be.closeTo(average, 1e-9)
+        expect(preview.newConfig.score).to.be.closeTo(average, 1e-9)
+        expect(preview.newConfig.totalCandidates).to.equal(2)
+        expect(preview.changes.scoreChange).to.be.closeTo(0, 1e-9)
+    })
+
+    it("should apply the recency bonus identically in every path", async function () {
+        await db.scoringConfig.update({
+            where: { id: configId },
+            data: { recencyWindowDays: 7, recencyBoostPercent: 10 },
+        })
+        const boosted = expectedScores.map((score) => score * 1.1)
+
+        const result = await rankingPool.calculateJobRankings(jobId, "TEST")
+        const preview = await scoringConfigService.previewScoringConfig(
+            configId,
+            jobId,
+        )
+
+        for (let i = 0; i < assessmentIds.length; i++) {
+            const score = await applicantAssessmentService.getAssessmentScore(
+                assessmentIds[i],
+            )
+            const ranked = result.rankedCandidates.find(
+                (c) => c.assessmentId === assessmentIds[i],
+            )!
+
+            expect(score.score).to.be.closeTo(boosted[i], 1e-9)
+            expect(ranked.score).to.be.closeTo(score.score, 1e-9)
+            expect(ranked.recencyBonus).to.be.closeTo(
+                score.breakdown.recencyBonus!.points,
+                1e-9,
+            )
+        }
+        expect(preview.newConfig.score).to.be.closeTo(
+            (boosted[0] + boosted[1]) / 2,
+            1e-9,
+        )
+    })
+
+    it("should only preview the latest assessment of each applicant, like rankings", async function () {
+        // The first applicant retakes the assessment with the best answers
+        const first = await db.applicantAssessment.findUniqueOrThrow({
+            where: { id: assessmentIds[0] },
+        })
+        const best = await db.applicantAnswer.findMany({
+            where: { assessmentId: assessmentIds[1] },
+        })
+        await applicantAssessmentService.submitAssessment({
+            applicantId: first.applicantId,
+            templateId: first.templateId,
+            jobId,
+            answers: best.map((answer) =>
+                answer.selectedOptions.length
+                    ? {
+                          questionId: answer.questionId,
+                          selectedOptions: answer.selectedOptions,
+                      }
+                    : { questionId: answer.questionId, answer: answer.answer! },
+            ),
+        })
+
+        const result = await rankingPool.calculateJobRankings(jobId, "TEST")
+        const preview = await scoringConfigService.previewScoringConfig(
+            configId,
+            jobId,
+        )
+
+        expect(result.totalCandidates).to.equal(2)
+        expect(preview.newConfig.totalCandidates).to.equal(2)
+        expect(preview.newConfig.score).to.be.closeTo(
+            (result.rankedCandidates[0].score +
+                result.rankedCandidates[1].score) /
+                2,
+            1e-9,
+        )
+    })
+
+    it("should score assessments of shared templates with the job's config", async function () {
+        await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                isDefault: true,
+                updatedAt: new Date(),
+            },
+        })
+        const shared = await db.assessmentTemplate.create({
+            data: { name: "Shared" },
+        })
+        const question = await assessmentQuestionService.createQuestion({
+            templateId: shared.id,
+            text: "Which clause sorts rows?",
+            weight: 2,
+            options: ["ORDER BY", "GROUP BY"],
+            correctAnswer: "ORDER BY",
+        })
+        const applicant = await db.applicant.create({
+            data: {
+                email: "shared@example.com",
+                firstName: "Shared",
+                lastName: "Candidate",
+            },
+        })
+        const assessment = await applicantAssessmentService.submitAssessment({
+            applicantId: applicant.id,
+            templateId: shared.id,
+            jobId,
+            answers: [{ questionId: question.id, answer: "GROUP BY" }],
+        })
+
+        // The job's config penalises the wrong answer, the default does not:
+        // 2 * 0.5, boosted by the recency bonus set above
+        const score = await applicantAssessmentService.getAssessmentScore(
+            assessment.id,
+        )
+        const explanation =
+            await applicantAssessmentService.getAssessmentExplanation(
+                assessment.id,
+            )
+        const result = await rankingPool.calculateJobRankings(jobId, "TEST")
+        const ranked = result.rankedCandidates.find(
+            (c) => c.assessmentId === assessment.id,
+        )!
+
+        expect(score.scoringConfigId).to.equal(configId)
+        expect(score.score).to.be.closeTo(-1.1, 1e-9)
+        expect(explanation.scoring.finalScore).to.be.closeTo(score.score, 1e-9)
+        expect(ranked.score).to.be.closeTo(score.score, 1e-9)
+    })
+})
@@ -0,0 +1,326 @@
+import { expect } from "chai"
+import { FastifyInstance } from "fastify"
+import { JobStatus, UserRole } from "@prisma/client"
+
+import { build } from "../../src/app"
+import makeMockDB from "./mockDB"
+
+describe("Tenant isolation", async function () {
+    const db = makeMockDB()
+    let server: FastifyInstance
+
+    // Mock data setup
+    const companies: Record<"A" | "B", { id: string; jobId: string }> = {
+        A: { id: "", jobId: "" },
+        B: { id: "", jobId: "" },
+    }
+    const tokens: Record<string, string> = {}
+    const templates: Record<"A" | "B" | "shared", string> = {
+        A: "",
+        B: "",
+        shared: "",
+    }
+    let configB: string
+
+    const request = (
+        user: string | null,
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        url: string,
+        payload?: object,
+    ) =>
+        server.inject({
+            method,
+            url: `/v1${url}`,
+            payload,
+            headers: user ? { authorization: `Bearer ${tokens[user]}` } : {},
+        })
+
+    before(async function () {
+        this.timeout(30000)
+        process.env.JWT_SECRET = "test-jwt-secret-for-unit-tests"
+
+        server = await build({ logger: false }, db)
+        await server.ready()
+
+        for (const name of ["A", "B"] as const) {
+            const company = await db.company.create({
+                data: { name: `Company ${name}` },
+            })
+            const branch = await db.branch.create({
+                data: { name: "Main", companyId: company.id },
+            })
+            const job = await db.job.create({
+                data: {
+                    title: `Engineer at ${name}`,
+                    status: JobStatus.OPEN,
+                    branchId: branch.id,
+                },
+            })
+            companies[name] = { id: company.id, jobId: job.id }
+
+            const template = await db.assessmentTemplate.create({
+                data: { name: `Template ${name}`, jobId: job.id },
+            })
+            templates[name] = template.id
+        }
+
+        const shared = await db.assessmentTemplate.create({
+            data: { name: "Shared template" },
+        })
+        templates.shared = shared.id
+
+        const config = await db.scoringConfig.create({
+            data: {
+                negativeMarkingFraction: 0,
+                jobId: companies.B.jobId,
+                updatedAt: new Date(),
+            },
+        })
+        configB = config.id
+
+        const userService = server.services.getUserService()
+        const users: [string, UserRole, string | undefined][] = [
+            ["admin", UserRole.ADMIN, undefined],
+            ["recruiterA", UserRole.RECRUITER, companies.A.id],
+            ["readonlyA", UserRole.READONLY, companies.A.id],
+            ["recruiterB", UserRole.RECRUITER, companies.B.id],
+            ["readonlyB", UserRole.READONLY, companies.B.id],
+        ]
+        for (const [name, role, companyId] of users) {
+            await userService.createUser({
+                email: `${name.toLowerCase()}@example.com`,
+                firstName: name,
+                lastName: "User",
+                password: "securePassword123",
+                role,
+                companyId,
+            })
+            const { token } = await userService.login({
+                email: `${name.toLowerCase()}@example.com`,
+                password: "securePassword123",
+            })
+            tokens[name] = token
+        }
+    })
+
+    after(async function () {
+        await server.close()
+    })
+
+    describe("Authentication", function () {
+        it("should reject requests without a token", async function () {
+            const response = await request(null, "GET", "/jobs")
+            expect(response.statusCode).to.equal(401)
+        })
+
+        it("should let applicants register without a token", async function () {
+            const response = await request(null, "POST", "/applicants", {
+                email: "applicant@example.com",
+                firstName: "Ada",
+                lastName: "Applicant",
+            })
+            expect(response.statusCode).to.equal(201)
+        })
+    })
+
+    describe("Jobs", function () {
+        it("should only read jobs of the actor's company", async function () {
+            for (const user of ["recruiterA", "readonlyA"]) {
+                const own = await request(
+                    user,
+                    "GET",
+                    `/jobs/${companies.A.jobId}`,
+                )
+                expect(own.statusCode).to.equal(200)
+
+                const other = await request(
+                    user,
+                    "GET",
+                    `/jobs/${companies.B.jobId}`,
+                )
+                expect(other.statusCode).to.equal(403)
+            }
+        })
+
+        it("should only list jobs of the actor's company", async function () {
+            const response = await request("recruiterB", "GET", "/jobs")
+            expect(response.statusCode).to.equal(200)
+
+            const jobIds = response.json().jobs.map((j: any) => j.id)
+            expect(jobIds).to.deep.equal([companies.B.jobId])
+        })
+
+        it("should let admins read jobs of every company", async function () {
+            for (const name of ["A", "B"] as const) {
+                const response = await request(
+                    "admin",
+                    "GET",
+                    `/jobs/${companies[name].jobId}`,
+                )
+                expect(response.statusCode).to.equal(200)
+            }
+        })
+
+        it("should only let recruiters change jobs of their company", async function () {
+            const own = await request(
+                "recruiterA",
+                "PUT",
+                `/jobs/${companies.A.jobId}`,
+                { openPositions: 2 },
+            )
+            expect(own.statusCode).to.equal(200)
+
+            const other = await request(
+                "recruiterA",
+                "PUT",
+                `/jobs/${companies.B.jobId}`,
+                { openPositions: 2 },
+            )
+            expect(other.statusCode).to.equal(403)
+
+            const readonly = await request(
+                "readonlyA",
+                "PUT",
+                `/jobs/${companies.A.jobId}`,
+                { openPositions: 3 },
+            )
+            expect(readonly.statusCode).to.equal(403)
+        })
+
+        it("should answer 404 for jobs that don't exist", async function () {
+            const response = await request(
+                "recruiterA",
+                "DELETE",
+                "/jobs/00000000-0000-0000-0000-000000000000",
+            )
+            expect(response.statusCode).to.equal(404)
+        })
+    })
+
+    describe("Rankings", function () {
+        it("should hide the top candidates of other companies", async function () {
+            const own = await request(
+                "recruiterA",
+                "GET",
+                `/jobs/${companies.A.jobId}/candidates/top`,
+            )
+            expect(own.statusCode).to.equal(200)
+
+            for (const user of ["recruiterA", "readonlyA"]) {
+                const other = await request(
+                    user,
+                    "GET",
+                    `/jobs/${companies.B.jobId}/candidates/top`,
+                )
+                expect(other.statusCode).to.equal(403)
+            }
+        })
+
+        it("should only let recruiters recalculate rankings of their company", async function () {
+            const other = await request(
+                "recruiterA",
+                "POST",
+                "/rankings/calculate",
+                { jobId: companies.B.jobId, triggerEvent: "manual" },
+            )
+            expect(other.statusCode).to.equal(403)
+
+            const readonly = await request(
+                "readonlyB",
+                "POST",
+                "/rankings/calculate",
+                { jobId: companies.B.jobId, triggerEvent: "manual" },
+            )
+            expect(readonly.statusCode).to.equal(403)
+
+            const bulk = await request("recruiterA", "POST", "/rankings/bulk", {
+                jobIds: [companies.A.jobId, companies.B.jobId],
+                triggerEvent: "manual",
+                priority: "normal",
+            })
+            expect(bulk.statusCode).to.equal(403)
+        })
+    })
+
+    describe("Assessment templates", function () {
+        it("should share templates without a job read-only", async function () {
+            const read = await request(
+                "recruiterA",
+                "GET",
+                `/assessment-templates/${templates.shared}`,
+            )
+            expect(read.statusCode).to.equal(200)
+
+            const update = await request(
+                "recruiterA",
+                "PUT",
+                `/assessment-templates/${templates.shared}`,
+                { name: "Renamed" },
+            )
+            expect(update.statusCode).to.equal(403)
+
+            const admin = await request(
+                "admin",
+                "PUT",
+                `/assessment-templates/${templates.shared}`,
+                { name: "Renamed" },
+            )
+            expect(admin.statusCode).to.equal(200)
+        })
+
+        it("should hide templates of other companies", async function () {
+            const other = await request(
+                "recruiterA",
+                "GET",
+                `/assessment-templates/${templates.B}`,
+            )
+            expect(other.statusCode).to.equal(403)
+
+            const list = await request(
+                "recruiterA",
+                "GET",
+                "/assessment-templates",
+            )
+            expect(list.statusCode).to.equal(200)
+
+            const templateIds = list.json().templates.map((t: any) => t.id)
+            expect(templateIds).to.have.members([templates.A, templates.shared])
+        })
+
+        it("should not move templates to jobs of other companies", async function () {
+            const response = await request(
+                "recruiterA",
+                "PUT",
+                `/assessment-templates/${templates.A}`,
+                { jobId: companies.B.jobId },
+            )
+            expect(response.statusCode).to.equal(403)
+        })
+    })
+
+    describe("Scoring configs", function () {
+        it("should keep scoring configs to their company", async function () {
+            const read = await request(
+                "recruiterA",
+                "GET",
+                `/scoring-configs/${configB}`,
+            )
+            expect(read.statusCode).to.equal(403)
+
+            const create = await request(
+                "recruiterA",
+                "POST",
+                "/scoring-configs",
+                { negativeMarkingFraction: 0, jobId: companies.B.jobId },
+            )
+            expect(create.statusCode).to.equal(403)
+
+            const own = await request(
+                "recruiterB",
+                "GET",
+                `/scoring-configs/${configB}`,
+            )
+            expect(own.statusCode).to.equal(200)
+        })
+    })
+})
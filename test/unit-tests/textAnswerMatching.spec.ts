@@ -0,0 +1,293 @@
+import { expect } from "chai"
+import pino from "pino"
+import { QuestionType, TextMatchMode } from "@prisma/client"
+
+import getAssessmentQuestionService from "../../src/services/assessment-questions"
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import { AssessmentQuestionCreate } from "../../src/types/assessment"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Text answer matching", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const questionPool = getAssessmentQuestionPool(db, logger)
+    const assessmentQuestionService = getAssessmentQuestionService(
+        questionPool,
+        events,
+    )
+    const applicantAssessmentService = getApplicantAssessmentService(
+        getApplicantAssessmentPool(db, logger),
+        getAssessmentTemplatePool(db, logger),
+        questionPool,
+        events,
+    )
+
+    // Mock data setup
+    let jobId: string
+    let templateId: string
+    let order = 0
+    let applicants = 0
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Matching Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: { title: "Systems Engineer", branchId: branch.id },
+        })
+        jobId = job.id
+
+        const template = await db.assessmentTemplate.create({
+            data: { name: "Matching", jobId },
+        })
+        templateId = template.id
+    })
+
+    const createTextQuestion = (question: Partial<AssessmentQuestionCreate>) =>
+        assessmentQuestionService.createQuestion({
+            templateId,
+            text: "Short answer",
+            type: QuestionType.TEXT,
+            order: order++,
+            ...question,
+        })
+
+    // Submit each answer in its own assessment and return whether it was
+    // graded correct
+    const grade = async (questionId: string, answers: string[]) => {
+        const results: boolean[] = []
+        for (const answer of answers) {
+            const applicant = await db.applicant.create({
+                data: {
+                    email: `matching${applicants++}@example.com`,
+                    firstName: "Matching",
+                    lastName: "Candidate",
+                },
+            })
+            const assessment =
+                await applicantAssessmentService.submitAssessment({
+                    applicantId: applicant.id,
+                    templateId,
+                    jobId,
+                    answers: [{ questionId, answer }],
+                })
+            results.push(
+                assessment.answers.find((a) => a.question.id === questionId)!
+                    .isCorrect,
+            )
+        }
+        return results
+    }
+
+    const expectInvalid = async (
+        question: Partial<AssessmentQuestionCreate>,
+        message: string,
+    ) => {
+        try {
+            await createTextQuestion(question)
+            expect.fail("Should have thrown an error")
+        } catch (error) {
+            expect((error as ServiceError).type).to.equal(
+                ServiceErrorType.InvalidInput,
+            )
+            expect((error as Error).message).to.include(message)
+        }
+    }
+
+    describe("Grading", function () {
+        it("should keep exact matching by default", async function () {
+            const question = await createTextQuestion({
+                correctAnswer: "FIFO",
+            })
+
+            expect(question.matchMode).to.equal(TextMatchMode.EXACT)
+            expect(await grade(question.id, ["FIFO", "fifo"])).to.deep.equal([
+                true,
+                false,
+            ])
+        })
+
+        it("should ignore case and whitespace in NORMALIZED mode", async function () {
+            const question = await createTextQuestion({
+                correctAnswer: "Round Robin",
+                matchMode: TextMatchMode.NORMALIZED,
+            })
+
+            expect(
+                await grade(question.id, ["  round   ROBIN ", "roundrobin"]),
+            ).to.deep.equal([true, false])
+        })
+
+        it("should accept any alternative in ALTERNATIVES mode", async function () {
+            const question = await createTextQuestion({
+                correctAnswer: "FIFO",
+                matchMode: TextMatchMode.ALTERNATIVES,
+                acceptedAnswers: [
+                    "First In, First Out",
+                    " first-in first-out ",
+                ],
+            })
+
+            expect(question.acceptedAnswers).to.deep.equal([
+                "First In, First Out",
+                "first-in first-out",
+            ])
+            expect(
+                await grade(question.id, [
+                    "fifo",
+                    "first in, first out",
+                    "LIFO",
+                ]),
+            ).to.deep.equal([true, true, false])
+        })
+
+        it("should match the whole answer in REGEX mode", async function () {
+            const question = await createTextQuestion({
+                matchMode: TextMatchMode.REGEX,
+                matchPattern: "colou?r",
+            })
+
+            expect(
+                await grade(question.id, ["Colour", " color ", "colors"]),
+            ).to.deep.equal([true, true, false])
+        })
+
+        it("should require the keyword threshold in KEYWORDS mode", async function () {
+            const question = await createTextQuestion({
+                matchMode: TextMatchMode.KEYWORDS,
+                keywords: ["mutex", "deadlock", "race condition"],
+                keywordThreshold: 2 / 3,
+            })
+
+            expect(
+                await grade(question.id, [
+                    "A mutex prevents a Race  Condition",
+                    "It avoids a deadlock",
+                ]),
+            ).to.deep.equal([true, false])
+        })
+
+        it("should allow the tolerance in NUMERIC mode", async function () {
+            const question = await createTextQuestion({
+                correctAnswer: "3.14",
+                matchMode: TextMatchMode.NUMERIC,
+                numericTolerance: 0.01,
+            })
+
+            expect(
+                await grade(question.id, ["3.15", " 3.13", "3.2", "pi"]),
+            ).to.deep.equal([true, true, false, false])
+        })
+    })
+
+    describe("Validation", function () {
+        it("should only allow matching rules on TEXT questions", async function () {
+            await expectInvalid(
+                {
+                    type: QuestionType.MULTIPLE_CHOICE,
+                    options: ["A", "B"],
+                    matchMode: TextMatchMode.NORMALIZED,
+                },
+                "Only TEXT questions can use answer matching",
+            )
+        })
+
+        it("should reject matching rules on questions with a rubric", async function () {
+            await expectInvalid(
+                {
+                    correctAnswer: "FIFO",
+                    matchMode: TextMatchMode.NORMALIZED,
+                    rubric: [{ description: "Explains FIFO", points: 1 }],
+                },
+                "cannot use answer matching",
+            )
+        })
+
+        it("should reject an invalid regular expression", async function () {
+            await expectInvalid(
+                { matchMode: TextMatchMode.REGEX, matchPattern: "(unclosed" },
+                "not a valid regular expression",
+            )
+        })
+
+        it("should reject a regular expression with nested quantifiers", async function () {
+            await expectInvalid(
+                { matchMode: TextMatchMode.REGEX, matchPattern: "(a+)+b" },
+                "nested quantifiers",
+            )
+        })
+
+        it("should reject a keyword threshold above 1", async function () {
+            await expectInvalid(
+                {
+                    matchMode: TextMatchMode.KEYWORDS,
+                    keywords: ["mutex"],
+                    keywordThreshold: 1.5,
+                },
+                "keywordThreshold",
+            )
+        })
+
+        it("should require a numeric correct answer in NUMERIC mode", async function () {
+            await expectInvalid(
+                { correctAnswer: "pi", matchMode: TextMatchMode.NUMERIC },
+                "numeric correct answer",
+            )
+        })
+    })
+
+    describe("Re-grading", function () {
+        it("should re-grade existing answers when the matching rules change", async function () {
+            const question = await createTextQuestion({
+                correctAnswer: "FIFO",
+            })
+            await grade(question.id, ["fifo", "First In First Out", "LIFO"])
+
+            const { question: updated } =
+                await assessmentQuestionService.updateQuestion(question.id, {
+                    matchMode: TextMatchMode.ALTERNATIVES,
+                    acceptedAnswers: ["First In First Out"],
+                })
+            expect(updated.matchMode).to.equal(TextMatchMode.ALTERNATIVES)
+
+            const answers = await db.applicantAnswer.findMany({
+                where: { questionId: question.id },
+            })
+            expect(
+                answers
+                    .filter((a) => a.isCorrect)
+                    .map((a) => a.answer)
+                    .sort(),
+            ).to.deep.equal(["First In First Out", "fifo"])
+            expect(
+                answers.find((a) => a.answer === "First In First Out")!.credit,
+            ).to.equal(1)
+        })
+
+        it("should reset the matching rules when the question stops being TEXT", async function () {
+            const question = await createTextQuestion({
+                matchMode: TextMatchMode.KEYWORDS,
+                keywords: ["mutex"],
+            })
+
+            const { question: updated } =
+                await assessmentQuestionService.updateQuestion(question.id, {
+                    type: QuestionType.MULTIPLE_CHOICE,
+                    options: ["mutex", "semaphore"],
+                    correctAnswer: "mutex",
+                })
+
+            expect(updated.matchMode).to.equal(TextMatchMode.EXACT)
+            expect(updated.keywords).to.deep.equal([])
+        })
+    })
+})
@@ -0,0 +1,423 @@
+import { expect } from "chai"
+import pino from "pino"
+import { LateSubmissionPolicy } from "@prisma/client"
+
+import getApplicantAssessmentService from "../../src/services/applicant-assessments"
+import getAssessmentTemplateService from "../../src/services/assessment-templates"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import makeMockDB from "./mockDB"
+import getAssessmentQuestionPool from "../../src/persistence/db/pool/assessment-questions"
+import getApplicantAssessmentPool from "../../src/persistence/db/pool/applicant-assessments"
+import getAssessmentTemplatePool from "../../src/persistence/db/pool/assessment-templates"
+import getCandidateRankingPool from "../../src/persistence/db/pool/candidate-rankings"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+describe("Timed assessments", async function () {
+    const logger = pino()
+    const events = new AwaitableEventRelaying()
+    const db = makeMockDB()
+    const templatePool = getAssessmentTemplatePool(db, logger)
+    const applicantAssessmentPool = getApplicantAssessmentPool(db, logger)
+    const applicantAssessmentService = getApplicantAssessmentService(
+        applicantAssessmentPool,
+        templatePool,
+        getAssessmentQuestionPool(db, logger),
+        events,
+    )
+    const assessmentTemplateService = getAssessmentTemplateService(
+        templatePool,
+        events,
+    )
+    const rankingPool = getCandidateRankingPool(db, logger)
+
+    // Mock data setup
+    let jobId: string
+    let scoringConfigId: string
+    let rejectTemplateId: string
+    let penalizeTemplateId: string
+    const questionIds: Record<string, string[]> = {}
+    let applicants = 0
+
+    const createApplicant = async () =>
+        db.applicant.create({
+            data: {
+                email: `timed${applicants++}@example.com`,
+                firstName: "Timed",
+                lastName: "Candidate",
+            },
+        })
+
+    // Move an attempt into the past so that it ran for the given time and
+    // its time limit has passed
+    const backdateAttempt = async (
+        attemptId: string,
+        startedSecondsAgo: number,
+        expiredSecondsAgo: number,
+    ) => {
+        const now = Date.now()
+        await db.assessmentAttempt.update({
+            where: { id: attemptId },
+            data: {
+                startedAt: new Date(now - startedSecondsAgo * 1000),
+                expiresAt: new Date(now - expiredSecondsAgo * 1000),
+            },
+        })
+    }
+
+    const expectServiceError = async (
+        promise: Promise<unknown>,
+        type: ServiceErrorType,
+        message: string,
+    ) => {
+        try {
+            await promise
+            expect.fail("Should have thrown an error")
+        } catch (error) {
+            expect((error as ServiceError).type).to.equal(type)
+            expect((error as Error).message).to.include(message)
+        }
+    }
+
+    before(async function () {
+        const company = await db.company.create({
+            data: { name: "Timed Company" },
+        })
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId: company.id },
+        })
+        const job = await db.job.create({
+            data: { title: "Site Reliability Engineer", branchId: branch.id },
+        })
+        jobId = job.id
+
+        const scoringConfig = await db.scoringConfig.create({
+            data: { negativeMarkingFraction: 0, jobId, updatedAt: new Date() },
+        })
+        scoringConfigId = scoringConfig.id
+
+        const reject = await assessmentTemplateService.createAssessmentTemplate(
+            { name: "Strict", jobId, timeLimitMinutes: 30 },
+        )
+        rejectTemplateId = reject.id
+        const penalize =
+            await assessmentTemplateService.createAssessmentTemplate({
+                name: "Lenient",
+                jobId,
+                timeLimitMinutes: 30,
+                lateSubmissionPolicy: LateSubmissionPolicy.PENALIZE,
+                latePenaltyPercent: 25,
+            })
+        penalizeTemplateId = penalize.id
+
+        for (const templateId of [rejectTemplateId, penalizeTemplateId]) {
+            questionIds[templateId] = []
+            for (const [order, correctAnswer] of ["A", "B"].entries()) {
+                const question = await db.assessmentQuestion.create({
+                    data: {
+                        templateId,
+                        text: `Question ${order + 1}`,
+                        weight: 2,
+                        order,
+                        options: ["A", "B"],
+                        correctAnswer,
+                    },
+                })
+                questionIds[templateId].push(question.id)
+            }
+        }
+    })
+
+    describe("Template settings", function () {
+        it("should reject a time limit that is not a positive whole number", async function () {
+            await expectServiceError(
+                assessmentTemplateService.createAssessmentTemplate({
+                    name: "Broken",
+                    jobId,
+                    timeLimitMinutes: 0,
+                }),
+                ServiceErrorType.InvalidInput,
+                "timeLimitMinutes",
+            )
+        })
+
+        it("should reject a late penalty above 100 percent", async function () {
+            await expectServiceError(
+                assessmentTemplateService.updateAssessmentTemplate(
+                    penalizeTemplateId,
+                    { latePenaltyPercent: 150 },
+                ),
+                ServiceErrorType.InvalidInput,
+                "latePenaltyPercent",
+            )
+        })
+    })
+
+    describe("Attempts", function () {
+        let applicantId: string
+        let attemptId: string
+
+        before(async function () {
+            applicantId = (await createApplicant()).id
+        })
+
+        it("should require timed assessments to be started as an attempt", async function () {
+            await expectServiceError(
+                applicantAssessmentService.submitAssessment({
+                    applicantId,
+                    templateId: rejectTemplateId,
+                    jobId,
+                    answers: [
+                        {
+                            questionId: questionIds[rejectTemplateId][0],
+                            answer: "A",
+                        },
+                    ],
+                }),
+                ServiceErrorType.InvalidInput,
+                "must be started as an attempt",
+            )
+        })
+
+        it("should not start an attempt for a template of another job", async function () {
+            const otherJob = await db.job.create({
+                data: {
+                    title: "Platform Engineer",
+                    branchId: (await db.branch.findFirstOrThrow()).id,
+                },
+            })
+
+            await expectServiceError(
+                applicantAssessmentService.startAttempt({
+                    applicantId,
+                    templateId: rejectTemplateId,
+                    jobId: otherJob.id,
+                }),
+                ServiceErrorType.InvalidInput,
+                "belongs to another job",
+            )
+        })
+
+        it("should start an attempt with the template's time limit and resume it", async function () {
+            const attempt = await applicantAssessmentService.startAttempt({
+                applicantId,
+                templateId: rejectTemplateId,
+                jobId,
+            })
+            attemptId = attempt.id
+
+            expect(
+                attempt.expiresAt!.getTime() - attempt.startedAt.getTime(),
+            ).to.equal(30 * 60 * 1000)
+            expect(attempt.submittedAt).to.be.null
+
+            const resumed = await applicantAssessmentService.startAttempt({
+                applicantId,
+                templateId: rejectTemplateId,
+                jobId,
+            })
+            expect(resumed.id).to.equal(attemptId)
+        })
+
+        it("should replace earlier answers to the same question", async function () {
+            const [first, second] = questionIds[rejectTemplateId]
+            await applicantAssessmentService.saveAttemptAnswers(attemptId, [
+                { questionId: first, answer: "B" },
+            ])
+            const attempt = await applicantAssessmentService.saveAttemptAnswers(
+                attemptId,
+                [
+                    { questionId: first, answer: "A" },
+                    { questionId: second, answer: "B" },
+                ],
+            )
+
+            expect(attempt.answers).to.have.length(2)
+            expect(
+                attempt.answers.find((a) => a.questionId === first)!.answer,
+            ).to.equal("A")
+        })
+
+        it("should validate saved answers like submissions", async function () {
+            await expectServiceError(
+                applicantAssessmentService.saveAttemptAnswers(attemptId, [
+                    {
+                        questionId: questionIds[rejectTemplateId][0],
+                        answer: "C",
+                    },
+                ]),
+                ServiceErrorType.InvalidInput,
+                "invalid answers",
+            )
+        })
+
+        it("should submit the saved answers with the time taken", async function () {
+            await backdateAttempt(attemptId, 600, -1200)
+
+            const assessment = await applicantAssessmentService.submitAttempt(
+                attemptId,
+            )
+
+            expect(assessment.answers).to.have.length(2)
+            expect(assessment.isLate).to.be.false
+            expect(assessment.latePenaltyPercent).to.be.null
+            expect(assessment.timeTakenSeconds).to.be.closeTo(600, 2)
+
+            const attempt = await applicantAssessmentService.getAttempt(
+                attemptId,
+            )
+            expect(attempt.assessmentId).to.equal(assessment.id)
+            expect(attempt.submittedAt).to.not.be.null
+
+            const explanation =
+                await applicantAssessmentService.getAssessmentExplanation(
+                    assessment.id,
+                )
+            expect(explanation.assessment.timeTaken).to.equal(
+                assessment.timeTakenSeconds,
+            )
+            expect(explanation.scoring.latePenalty).to.equal(0)
+        })
+
+        it("should not accept answers once the attempt is submitted", async function () {
+            await expectServiceError(
+                applicantAssessmentService.submitAttempt(attemptId),
+                ServiceErrorType.InvalidStatus,
+                "already been submitted",
+            )
+        })
+
+        it("should refuse a concurrent submission of the same attempt", async function () {
+            // Another submission closed the attempt after this one checked it
+            const attempt = await applicantAssessmentService.getAttempt(
+                attemptId,
+            )
+            const { branchId } = (await db.job.findUnique({
+                where: { id: jobId },
+            }))!
+            const job = await db.job.create({
+                data: { title: "Concurrent Job", branchId },
+            })
+
+            await expectServiceError(
+                applicantAssessmentPool.submitAssessment(
+                    {
+                        applicantId,
+                        templateId: rejectTemplateId,
+                        jobId: job.id,
+                        answers: [],
+                    },
+                    {
+                        attemptId,
+                        startedAt: attempt.startedAt,
+                        timeTakenSeconds: 600,
+                        isLate: false,
+                        latePenaltyPercent: null,
+                    },
+                ),
+                ServiceErrorType.InvalidStatus,
+                "already been submitted",
+            )
+        })
+    })
+
+    describe("Late submissions", function () {
+        it("should reject late answers when the template rejects them", async function () {
+            const applicant = await createApplicant()
+            const attempt = await applicantAssessmentService.startAttempt({
+                applicantId: applicant.id,
+                templateId: rejectTemplateId,
+                jobId,
+            })
+            await backdateAttempt(attempt.id, 40 * 60, 10 * 60)
+
+            await expectServiceError(
+                applicantAssessmentService.submitAttempt(attempt.id, [
+                    {
+                        questionId: questionIds[rejectTemplateId][0],
+                        answer: "A",
+                    },
+                ]),
+                ServiceErrorType.InvalidStatus,
+                "time limit for this assessment has passed",
+            )
+        })
+
+        it("should penalise late submissions when the template allows them", async function () {
+            const applicant = await createApplicant()
+            const attempt = await applicantAssessmentService.startAttempt({
+                applicantId: applicant.id,
+                templateId: penalizeTemplateId,
+                jobId,
+            })
+            await backdateAttempt(attempt.id, 40 * 60, 10 * 60)
+
+            const [first, second] = questionIds[penalizeTemplateId]
+            const assessment = await applicantAssessmentService.submitAttempt(
+                attempt.id,
+                [
+                    { questionId: first, answer: "A" },
+                    { questionId: second, answer: "B" },
+                ],
+            )
+            expect(assessment.isLate).to.be.true
+            expect(assessment.latePenaltyPercent).to.equal(25)
+
+            const score = await applicantAssessmentService.getAssessmentScore(
+                assessment.id,
+            )
+            expect(score.score).to.equal(3)
+            expect(score.breakdown.latePenalty).to.deep.equal({
+                percentage: 25,
+                points: 1,
+            })
+        })
+    })
+
+    describe("Statistics and rankings", function () {
+        it("should average the time taken over timed assessments", async function () {
+            const stats = await applicantAssessmentService.getAssessmentStats(
+                rejectTemplateId,
+            )
+
+            expect(stats.averageTimeSpent).to.be.closeTo(600, 2)
+        })
+
+        it("should rank equal scores by time taken when configured", async function () {
+            // A later perfect score on the strict template that took longer
+            // than the first one
+            const applicant = await createApplicant()
+            const attempt = await applicantAssessmentService.startAttempt({
+                applicantId: applicant.id,
+                templateId: rejectTemplateId,
+                jobId,
+            })
+            await backdateAttempt(attempt.id, 900, -900)
+            const [first, second] = questionIds[rejectTemplateId]
+            await applicantAssessmentService.submitAttempt(attempt.id, [
+                { questionId: first, answer: "A" },
+                { questionId: second, answer: "B" },
+            ])
+
+            const before = await rankingPool.calculateJobRankings(jobId, "TEST")
+            expect(before.rankedCandidates[0].applicantId).to.equal(
+                applicant.id,
+            )
+
+            await db.scoringConfig.update({
+                where: { id: scoringConfigId },
+                data: {
+                    tieBreakers: ["LESS_TIME_TAKEN"],
+                    updatedAt: new Date(),
+                },
+            })
+
+            const result = await rankingPool.calculateJobRankings(jobId, "TEST")
+            const [fastest, slowest] = result.rankedCandidates
+            expect(fastest.score).to.equal(slowest.score)
+            expect(slowest.applicantId).to.equal(applicant.id)
+            expect(fastest.timeTakenSeconds).to.be.lessThan(
+                slowest.timeTakenSeconds!,
+            )
+        })
+    })
+})
@@ -0,0 +1,404 @@
+import { expect } from "chai"
+import pino from "pino"
+import http from "http"
+import { AddressInfo } from "net"
+import { createHmac, randomUUID } from "crypto"
+import { WebhookDeliveryStatus } from "@prisma/client"
+
+import getWebhookService from "../../src/services/webhooks"
+import WebhookDispatcher from "../../src/services/webhooks/dispatcher"
+import OutboxEventRelaying from "../../src/services/events/outbox"
+import AwaitableEventRelaying from "../../src/services/events/awaitable"
+import { TrueFitEventTypes } from "../../src/services/events"
+import makeMockDB from "./mockDB"
+import getWebhookPool from "../../src/persistence/db/pool/webhooks"
+import getCompanyPool from "../../src/persistence/db/pool/companies"
+import getOutboxEventPool from "../../src/persistence/db/pool/outbox-events"
+import { ServiceError, ServiceErrorType } from "../../src/types/serviceError"
+
+interface ReceivedRequest {
+    headers: http.IncomingHttpHeaders
+    body: string
+}
+
+describe("Webhooks", async function () {
+    const logger = pino()
+    const db = makeMockDB()
+    const events = new OutboxEventRelaying(
+        getOutboxEventPool(db, logger),
+        logger,
+    )
+    const webhookPool = getWebhookPool(db, logger)
+    const dispatcher = new WebhookDispatcher(webhookPool, logger, {
+        maxAttempts: 2,
+        baseRetryDelayMs: 1000,
+        requestTimeoutMs: 2000,
+        // The receiver below listens on the loopback address
+        allowPrivateNetworks: true,
+    })
+    const webhookService = getWebhookService(
+        webhookPool,
+        getCompanyPool(db, logger),
+        dispatcher,
+        events,
+    )
+
+    // Local receiver answering with the configured status
+    const received: ReceivedRequest[] = []
+    let responseStatus = 200
+    const server = http.createServer((req, res) => {
+        let body = ""
+        req.on("data", (chunk) => (body += chunk))
+        req.on("end", () => {
+            received.push({ headers: req.headers, body })
+            res.writeHead(responseStatus).end(`status ${responseStatus}`)
+        })
+    })
+    let url: string
+
+    // Mock data setup
+    let companyId: string
+    let otherCompanyId: string
+    let branchId: string
+    let jobId: string
+    let otherJobId: string
+
+    const dispatchJobUpdated = async () => {
+        await events.dispatchEvent({
+            type: TrueFitEventTypes.JOB_UPDATED,
+            payload: { jobId, branchId, changes: { openPositions: 2 } },
+        })
+        await events.deliverDueEvents()
+    }
+
+    const getDeliveries = async (subscriptionId: string) =>
+        webhookService.getDeliveries(subscriptionId)
+
+    before(async function () {
+        await new Promise<void>((resolve) => server.listen(0, resolve))
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`
+
+        const company = await db.company.create({
+            data: { name: "Webhook Company", updatedAt: new Date() },
+        })
+        companyId = company.id
+        const otherCompany = await db.company.create({
+            data: { name: "Other Company", updatedAt: new Date() },
+        })
+        otherCompanyId = otherCompany.id
+        const branch = await db.branch.create({
+            data: { name: "Main Branch", companyId },
+        })
+        branchId = branch.id
+        const job = await db.job.create({
+            data: { title: "Integration Engineer", branchId },
+        })
+        jobId = job.id
+        const otherBranch = await db.branch.create({
+            data: { name: "Other Branch", companyId: otherCompanyId },
+        })
+        const otherJob = await db.job.create({
+            data: { title: "Other Engineer", branchId: otherBranch.id },
+        })
+        otherJobId = otherJob.id
+    })
+
+    after(function (done) {
+        server.close(() => done())
+    })
+
+    describe("Subscriptions", function () {
+        it("should generate a signing secret when none is given", async function () {
+            const subscription = await webhookService.createSubscription({
+                companyId,
+                url,
+                eventTypes: [TrueFitEventTypes.JOB_CREATED],
+            })
+
+            expect(subscription.secret).to.have.length(64)
+            expect(subscription.isActive).to.be.true
+
+            const stored = await webhookService.getSubscriptionById(
+                subscription.id,
+            )
+            expect(stored).to.not.have.property("secret")
+        })
+
+        it("should reject invalid URLs and unknown event types", async function () {
+            try {
+                await webhookService.createSubscription({
+                    companyId,
+                    url: "ftp://example.com",
+                    eventTypes: ["JOB_EXPLODED"],
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                const serviceError = error as ServiceError
+                expect(serviceError.type).to.equal(
+                    ServiceErrorType.InvalidInput,
+                )
+                expect(serviceError.errors).to.have.keys(["url", "eventTypes"])
+            }
+        })
+
+        it("should reject subscriptions for unknown companies", async function () {
+            try {
+                await webhookService.createSubscription({
+                    companyId: "00000000-0000-0000-0000-000000000000",
+                    url,
+                })
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.NotFound,
+                )
+            }
+        })
+    })
+
+    describe("Delivery", function () {
+        let subscriptionId: string
+        let secret: string
+        let allEventsId: string
+        let inactiveId: string
+        let otherCompanySubscriptionId: string
+
+        before(async function () {
+            const subscription = await webhookService.createSubscription({
+                companyId,
+                url,
+                eventTypes: [TrueFitEventTypes.JOB_UPDATED],
+                secret: "a-shared-secret-value",
+            })
+            subscriptionId = subscription.id
+            secret = subscription.secret
+
+            allEventsId = (
+                await webhookService.createSubscription({ companyId, url })
+            ).id
+            inactiveId = (
+                await webhookService.createSubscription({
+                    companyId,
+                    url,
+                    isActive: false,
+                })
+            ).id
+            otherCompanySubscriptionId = (
+                await webhookService.createSubscription({
+                    companyId: otherCompanyId,
+                    url,
+                })
+            ).id
+        })
+
+        it("should queue deliveries for the event's company only", async function () {
+            await dispatchJobUpdated()
+
+            expect(await getDeliveries(subscriptionId)).to.have.length(1)
+            expect(await getDeliveries(allEventsId)).to.have.length(1)
+            expect(await getDeliveries(inactiveId)).to.be.empty
+            expect(await getDeliveries(otherCompanySubscriptionId)).to.be.empty
+        })
+
+        it("should send signed payloads and log the response", async function () {
+            expect(await dispatcher.deliverDueWebhooks()).to.equal(2)
+            expect(received).to.have.length(2)
+
+            const [delivery] = await getDeliveries(subscriptionId)
+            const request = received.find(
+                (r) => r.headers["x-truefit-delivery"] === delivery.id,
+            )!
+            expect(request.headers["x-truefit-event"]).to.equal(
+                TrueFitEventTypes.JOB_UPDATED,
+            )
+            expect(JSON.parse(request.body)).to.deep.include({
+                id: delivery.id,
+                type: TrueFitEventTypes.JOB_UPDATED,
+                data: { jobId, branchId, changes: { openPositions: 2 } },
+            })
+
+            const [timestamp, signature] = (
+                request.headers["x-truefit-signature"] as string
+            )
+                .split(",")
+                .map((part) => part.split("=")[1])
+            expect(signature).to.equal(
+                createHmac("sha256", secret)
+                    .update(`${timestamp}.${request.body}`)
+                    .digest("hex"),
+            )
+
+            expect(delivery.status).to.equal(WebhookDeliveryStatus.SUCCEEDED)
+            expect(delivery.attempts).to.equal(1)
+            expect(delivery.responseStatus).to.equal(200)
+            expect(delivery.deliveredAt).to.not.be.null
+        })
+
+        it("should retry failed deliveries with a backoff until they run out of attempts", async function () {
+            responseStatus = 500
+            await dispatchJobUpdated()
+            const before = Date.now()
+            await dispatcher.deliverDueWebhooks()
+
+            let [delivery] = await getDeliveries(subscriptionId)
+            expect(delivery.status).to.equal(WebhookDeliveryStatus.PENDING)
+            expect(delivery.attempts).to.equal(1)
+            expect(delivery.responseStatus).to.equal(500)
+            expect(delivery.lastError).to.equal("Received HTTP 500")
+            expect(delivery.nextAttemptAt!.getTime() - before).to.be.within(
+                1000,
+                1500,
+            )
+            expect(await dispatcher.deliverDueWebhooks()).to.equal(0)
+
+            await db.webhookDelivery.update({
+                where: { id: delivery.id },
+                data: { nextAttemptAt: new Date(Date.now() - 1000) },
+            })
+            await dispatcher.deliverDueWebhooks()
+            ;[delivery] = await getDeliveries(subscriptionId)
+            expect(delivery.status).to.equal(WebhookDeliveryStatus.FAILED)
+            expect(delivery.attempts).to.equal(2)
+            expect(delivery.nextAttemptAt).to.be.null
+        })
+
+        it("should redeliver a delivery with fresh attempts", async function () {
+            const [failed] = await getDeliveries(subscriptionId)
+            responseStatus = 204
+
+            const requeued = await webhookService.redeliver(
+                subscriptionId,
+                failed.id,
+            )
+            expect(requeued.status).to.equal(WebhookDeliveryStatus.PENDING)
+            expect(requeued.attempts).to.equal(0)
+
+            await dispatcher.deliverDueWebhooks()
+            const [delivery] = await getDeliveries(subscriptionId)
+            expect(delivery.id).to.equal(failed.id)
+            expect(delivery.status).to.equal(WebhookDeliveryStatus.SUCCEEDED)
+            expect(delivery.responseStatus).to.equal(204)
+        })
+
+        it("should only redeliver deliveries of the given subscription", async function () {
+            const [delivery] = await getDeliveries(subscriptionId)
+            try {
+                await webhookService.redeliver(allEventsId, delivery.id)
+                expect.fail("Should have thrown an error")
+            } catch (error) {
+                expect((error as ServiceError).type).to.equal(
+                    ServiceErrorType.NotFound,
+                )
+            }
+        })
+
+        it("should not log response bodies", async function () {
+            const [delivery] = await getDeliveries(subscriptionId)
+            expect(delivery).to.not.have.property("responseBody")
+        })
+
+        it("should only tell each company about its own jobs", async function () {
+            await events.dispatchEvent({
+                type: TrueFitEventTypes.RANKING_INVALIDATED,
+                payload: { jobIds: [jobId, otherJobId], reason: "TEST" },
+            })
+            await events.deliverDueEvents()
+
+            const [own] = await getDeliveries(allEventsId)
+            expect(own.payload).to.deep.equal({
+                jobIds: [jobId],
+                reason: "TEST",
+            })
+            const [other] = await getDeliveries(otherCompanySubscriptionId)
+            expect(other.payload).to.deep.equal({
+                jobIds: [otherJobId],
+                reason: "TEST",
+            })
+        })
+
+        it("should queue an event only once when it is delivered again", async function () {
+            const event = {
+                type: TrueFitEventTypes.JOB_UPDATED,
+                payload: { jobId, branchId, changes: { openPositions: 3 } },
+            } as const
+            const eventId = randomUUID()
+            const queued = (await getDeliveries(allEventsId)).length
+
+            await webhookService.handleEvent(event, eventId)
+            await webhookService.handleEvent(event, eventId)
+
+            const deliveries = await getDeliveries(allEventsId)
+            expect(deliveries).to.have.length(queued + 1)
+            expect(deliveries[0].eventId).to.equal(eventId)
+        })
+    })
+
+    describe("Private networks", function () {
+        // Dispatching with the default options
+        const defaultDispatcher = new WebhookDispatcher(webhookPool, logger)
+        const defaultService = getWebhookService(
+            webhookPool,
+            getCompanyPool(db, logger),
+            defaultDispatcher,
+            new AwaitableEventRelaying(),
+        )
+
+        it("should refuse URLs pointing to private addresses", async function () {
+            for (const privateUrl of [
+                "http://169.254.169.254/latest/meta-data",
+                "http://127.0.0.1:8080/hook",
+                "http://localhost/hook",
+                "http://10.0.0.5/hook",
+                "http://[::1]/hook",
+                "http://[::ffff:192.168.0.1]/hook",
+            ]) {
+                try {
+                    await defaultService.createSubscription({
+                        companyId,
+                        url: privateUrl,
+                    })
+                    expect.fail(`Should have refused ${privateUrl}`)
+                } catch (error) {
+                    const serviceError = error as ServiceError
+                    expect(serviceError.type).to.equal(
+                        ServiceErrorType.InvalidInput,
+                    )
+                    expect(serviceError.errors).to.have.keys(["url"])
+                }
+            }
+        })
+
+        it("should not send deliveries to private addresses", async function () {
+            const subscription = await db.webhookSubscription.create({
+                data: {
+                    companyId,
+                    url,
+                    eventTypes: [],
+                    secret: "a-shared-secret-value",
+                    updatedAt: new Date(),
+                },
+            })
+            const delivery = await db.webhookDelivery.create({
+                data: {
+                    subscriptionId: subscription.id,
+                    eventId: randomUUID(),
+                    eventType: TrueFitEventTypes.JOB_UPDATED,
+                    payload: { jobId },
+                    nextAttemptAt: new Date(),
+                },
+            })
+            const sent = received.length
+
+            await defaultDispatcher.deliverDueWebhooks()
+
+            expect(received).to.have.length(sent)
+            const [refused] = await getDeliveries(subscription.id)
+            expect(refused.id).to.equal(delivery.id)
+            expect(refused.status).to.equal(WebhookDeliveryStatus.PENDING)
+            expect(refused.responseStatus).to.be.null
+            expect(refused.lastError).to.include(
+                "Must not point to a private address",
+            )
+        })
+    })
+})
@@ -0,0 +1,9 @@
+declare module "safe-regex2" {
+    /**
+     * Whether a regular expression is safe from catastrophic backtracking,
+     * i.e. has no nested quantifiers and at most `limit` (default 25)
+     * repetitions
+     */
+    function safeRegex(re: string | RegExp, opts?: { limit?: number }): boolean
+    export = safeRegex
+}